@@ -0,0 +1,118 @@
+/**
+ * Tracker backends — one interface over Linear (linear.ts), GitHub Issues
+ * (github.ts) and Brain issue files (brain.ts).
+ *
+ * The resolver decides which tracker a project uses; the tools only talk to
+ * a TrackerBackend. Every mutation reads the issue back before returning, so
+ * a returned issue is a verified one.
+ */
+
+export type TrackerBackendKind = "linear" | "github" | "brain";
+
+/** "blocks": `from` blocks `to`. "related": a plain cross-link. */
+export type TrackerLinkKind = "blocks" | "related";
+
+export interface TrackerIssueInput {
+	title: string;
+	/** Markdown body */
+	description?: string;
+	/** Label names; Linear takes label IDs */
+	labels?: string[];
+	priority?: number;
+	/** Parent issue id from resolve() */
+	parent?: string;
+	/** GitHub milestone title or number */
+	milestone?: string | number;
+}
+
+export interface TrackerIssue {
+	/** Backend id, accepted by read/update/link */
+	id: string;
+	/** Human reference: "WZR-12", "#12", "BRAIN-3" */
+	identifier: string;
+	url: string;
+	title: string;
+	description?: string;
+	/** Workflow state name: "Todo", "open", "done" … */
+	state?: string;
+	labels?: string[];
+	/** Backend id of the parent issue, for sub-issues */
+	parent?: string;
+}
+
+export interface TrackerIssueUpdate {
+	title?: string;
+	description?: string;
+	/** State name, resolved by the backend */
+	state?: string;
+	labels?: string[];
+	priority?: number;
+}
+
+export interface TrackerComment {
+	id: string;
+	url: string;
+	body: string;
+}
+
+export interface TrackerSearchOptions {
+	/** Include done/closed/canceled issues. Default false. */
+	includeClosed?: boolean;
+	/** Most issues to return; backends page until they have this many. Default 50, Infinity for all. */
+	limit?: number;
+}
+
+export interface TrackerBackend {
+	readonly kind: TrackerBackendKind;
+	/** Backend id for an identifier, URL or path, or undefined when the ref is not this tracker's. */
+	resolve(ref: string): string | undefined;
+	/** Create an issue, under input.parent when given, and return it as read back. */
+	create(input: TrackerIssueInput): Promise<TrackerIssue>;
+	read(id: string): Promise<TrackerIssue>;
+	/** Apply a patch and return the issue as read back. */
+	update(id: string, patch: TrackerIssueUpdate): Promise<TrackerIssue>;
+	/** Open issues whose title or description match every word of the query; "" lists them all. */
+	search(query: string, options?: TrackerSearchOptions): Promise<TrackerIssue[]>;
+	/** Add a relation and verify it by readback. */
+	link(from: string, to: string, kind: TrackerLinkKind): Promise<void>;
+	/** Post a Markdown comment and return it as read back. */
+	comment(id: string, body: string): Promise<TrackerComment>;
+}
+
+export const TRACKER_NAMES: Record<TrackerBackendKind, string> = {
+	linear: "Linear",
+	github: "GitHub",
+	brain: "Brain",
+};
+
+/**
+ * Markdown reduced to what survives a tracker's save. Linear rewrites bodies
+ * (list markers, escapes, emphasis, autolinks, line endings and blank lines),
+ * so readback only requires the same words in the same order.
+ */
+function normalizeMarkdown(text: string): string {
+	return text
+		.replace(/\r\n?/g, "\n")
+		.replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, "- ")
+		.replace(/\\([\\`*_{}[\]()#+\-.!<>|~])/g, "$1")
+		.replace(/<((?:https?|mailto):[^>\s]+)>/g, "$1")
+		.replace(/[*_]+/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/** True when two Markdown bodies differ only in ways a tracker rewrites on save. */
+export function sameMarkdown(a: string, b: string): boolean {
+	return normalizeMarkdown(a) === normalizeMarkdown(b);
+}
+
+/** Throws when a read-back issue does not carry the fields a mutation set. */
+export function verifyReadback(issue: TrackerIssue, expected: TrackerIssueUpdate): void {
+	const mismatched: string[] = [];
+	if (expected.title !== undefined && issue.title !== expected.title) mismatched.push("title");
+	if (expected.description !== undefined && !sameMarkdown(issue.description ?? "", expected.description)) mismatched.push("description");
+	if (expected.state !== undefined && issue.state?.toLowerCase() !== expected.state.toLowerCase()) mismatched.push("state");
+	const missing = (expected.labels ?? []).filter((label) => !issue.labels?.some((have) => have.toLowerCase() === label.toLowerCase()));
+	if (missing.length) mismatched.push(`labels (${missing.join(", ")})`);
+	if (mismatched.length) throw new Error(`Readback for ${issue.identifier} does not match: ${mismatched.join(", ")}`);
+}
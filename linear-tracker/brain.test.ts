@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { brainBackend } from "./brain";
+
+describe("brain tracker backend", () => {
+	test("creates, reads, updates, searches and links .brain/issues files", async () => {
+		const root = mkdtempSync(join(tmpdir(), "linear-tracker-brain-"));
+		const brain = brainBackend(root);
+
+		const schema = await brain.create({ title: "Add job schema", description: "Jobs table with status.", labels: ["backend"] });
+		expect(schema).toMatchObject({ id: "add-job-schema", identifier: "BRAIN-1", url: ".brain/issues/add-job-schema.svx", state: "open", labels: ["backend"] });
+		const worker = await brain.create({ title: "Run queued jobs", description: "Poll the jobs table.", parent: schema.id, priority: 2 });
+		expect(worker.identifier).toBe("BRAIN-2");
+
+		const file = readFileSync(join(root, ".brain", "issues", "run-queued-jobs.svx"), "utf-8");
+		expect(file).toContain('title: "Run queued jobs"');
+		expect(file).toContain('parent: "./add-job-schema.svx"');
+		expect(file).toContain("# Run queued jobs\n\nPoll the jobs table.\n");
+
+		expect(brain.resolve("BRAIN-2")).toBe("run-queued-jobs");
+		expect(brain.resolve(".brain/issues/add-job-schema.svx")).toBe("add-job-schema");
+		expect(brain.resolve("WZR-2")).toBeUndefined();
+		expect(await brain.read("run-queued-jobs")).toMatchObject({ title: "Run queued jobs", description: "Poll the jobs table." });
+
+		await brain.link(schema.id, worker.id, "blocks");
+		expect(readFileSync(join(root, ".brain", "issues", "run-queued-jobs.svx"), "utf-8")).toContain('blockers:\n  - "./add-job-schema.svx"');
+
+		expect((await brain.search("jobs table")).map((issue) => issue.identifier)).toEqual(["BRAIN-1", "BRAIN-2"]);
+		expect(await brain.update(schema.id, { state: "done" })).toMatchObject({ state: "done", title: "Add job schema" });
+		expect((await brain.search("jobs table")).map((issue) => issue.identifier)).toEqual(["BRAIN-2"]);
+		expect((await brain.search("jobs", { includeClosed: true })).length).toBe(2);
+		await expect(brain.read("missing")).rejects.toThrow("Brain issue not found");
+	});
+});
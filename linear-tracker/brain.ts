@@ -0,0 +1,171 @@
+/**
+ * Brain backend — issues as `.brain/issues/<slug>.svx` notes.
+ *
+ * Brain is canonical and trackers are mirrors, so a project with no Linear
+ * or GitHub still gets real issues: frontmatter carries identifier, status,
+ * labels, parent and blockers (as "./<slug>.svx" paths, like the rest of
+ * Brain), and the body is the issue description followed by a "## Comments"
+ * section. No network, no auth; readback is a fresh parse of the file.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { type TrackerBackend, type TrackerComment, type TrackerIssue, type TrackerIssueUpdate, verifyReadback } from "./backend.js";
+
+const IDENTIFIER_PREFIX = "BRAIN";
+const CLOSED_STATES = ["done", "closed", "canceled", "cancelled", "duplicate"];
+
+interface BrainIssueFile {
+	slug: string;
+	frontmatter: Record<string, unknown>;
+	description: string;
+	/** Body of the "## Comments" section, one "### <timestamp>" entry per comment */
+	comments: string;
+}
+
+export function brainIssuesDir(projectRoot: string): string {
+	return join(projectRoot, ".brain", "issues");
+}
+
+function slugify(title: string): string {
+	return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60).replace(/-+$/, "") || "issue";
+}
+
+function today(): string {
+	return new Date().toISOString().slice(0, 10);
+}
+
+function stringList(value: unknown): string[] {
+	return Array.isArray(value) ? value.map(String) : [];
+}
+
+function parseIssueFile(slug: string, text: string): BrainIssueFile {
+	const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+	const frontmatter = match ? ((parseYaml(match[1]) ?? {}) as Record<string, unknown>) : {};
+	// The body is "# <title>", the description, then "## Comments"
+	const body = (match ? match[2] : text).replace(/^\s*#\s+[^\n]*\n?/, "");
+	const [description, comments = ""] = body.split(/^## Comments[ \t]*$/m);
+	return { slug, frontmatter, description: description.trim(), comments: comments.trim() };
+}
+
+function renderIssueFile(file: BrainIssueFile): string {
+	const frontmatter = stringifyYaml(file.frontmatter, { defaultStringType: "QUOTE_DOUBLE", defaultKeyType: "PLAIN" }).trimEnd();
+	const comments = file.comments ? `\n## Comments\n\n${file.comments}\n` : "";
+	return `---\n${frontmatter}\n---\n\n# ${file.frontmatter.title}\n${file.description ? `\n${file.description}\n` : ""}${comments}`;
+}
+
+export function brainBackend(projectRoot: string): TrackerBackend {
+	const dir = brainIssuesDir(projectRoot);
+	const pathOf = (slug: string) => join(dir, `${slug}.svx`);
+
+	const load = (slug: string): BrainIssueFile => {
+		if (!existsSync(pathOf(slug))) throw new Error(`Brain issue not found: .brain/issues/${slug}.svx`);
+		return parseIssueFile(slug, readFileSync(pathOf(slug), "utf-8"));
+	};
+	const toIssue = (file: BrainIssueFile): TrackerIssue => ({
+		id: file.slug,
+		identifier: String(file.frontmatter.identifier ?? file.slug),
+		url: `.brain/issues/${file.slug}.svx`,
+		title: String(file.frontmatter.title ?? file.slug),
+		description: file.description,
+		state: String(file.frontmatter.status ?? "open"),
+		labels: stringList(file.frontmatter.labels),
+		parent: typeof file.frontmatter.parent === "string" ? file.frontmatter.parent.replace(/^\.\//, "").replace(/\.svx$/, "") : undefined,
+	});
+	const save = (file: BrainIssueFile): TrackerIssue => {
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(pathOf(file.slug), renderIssueFile(file));
+		return toIssue(load(file.slug));
+	};
+	const all = (): BrainIssueFile[] => {
+		if (!existsSync(dir)) return [];
+		return readdirSync(dir)
+			.filter((name) => name.endsWith(".svx"))
+			.map((name) => parseIssueFile(name.slice(0, -4), readFileSync(join(dir, name), "utf-8")));
+	};
+	const number = (file: BrainIssueFile) => Number(String(file.frontmatter.identifier ?? "").match(/-(\d+)$/)?.[1] ?? 0);
+	const addRef = (file: BrainIssueFile, key: string, slug: string) => {
+		const refs = stringList(file.frontmatter[key]);
+		if (!refs.includes(`./${slug}.svx`)) file.frontmatter[key] = [...refs, `./${slug}.svx`];
+	};
+
+	return {
+		kind: "brain",
+		resolve(ref) {
+			const trimmed = ref.trim();
+			const path = trimmed.match(/(?:^|\/)([^/]+)\.svx$/);
+			const slug = path ? path[1] : trimmed;
+			if (/^[a-z0-9-]+$/.test(slug) && existsSync(pathOf(slug))) return slug;
+			return all().find((file) => String(file.frontmatter.identifier ?? "").toLowerCase() === trimmed.toLowerCase())?.slug;
+		},
+		async create(input) {
+			const files = all();
+			const base = slugify(input.title);
+			let slug = base;
+			for (let n = 2; existsSync(pathOf(slug)); n++) slug = `${base}-${n}`;
+			const frontmatter: Record<string, unknown> = {
+				title: input.title,
+				kind: "issue",
+				identifier: `${IDENTIFIER_PREFIX}-${Math.max(0, ...files.map(number)) + 1}`,
+				status: "open",
+			};
+			if (input.labels?.length) frontmatter.labels = input.labels;
+			if (typeof input.priority === "number") frontmatter.priority = input.priority;
+			if (input.parent) frontmatter.parent = `./${load(input.parent).slug}.svx`;
+			frontmatter.created_at = today();
+			const issue = save({ slug, frontmatter, description: input.description?.trim() ?? "", comments: "" });
+			verifyReadback(issue, { title: input.title, labels: input.labels });
+			if (input.parent && issue.parent !== input.parent) throw new Error(`Brain readback for ${issue.identifier} is missing its parent ${input.parent}`);
+			return issue;
+		},
+		read: async (id) => toIssue(load(id)),
+		async update(id, patch: TrackerIssueUpdate) {
+			const file = load(id);
+			if (patch.title !== undefined) file.frontmatter.title = patch.title;
+			if (patch.description !== undefined) file.description = patch.description.trim();
+			if (patch.state !== undefined) file.frontmatter.status = patch.state.toLowerCase();
+			if (patch.labels !== undefined) file.frontmatter.labels = patch.labels;
+			if (patch.priority !== undefined) file.frontmatter.priority = patch.priority;
+			file.frontmatter.updated_at = today();
+			const issue = save(file);
+			verifyReadback(issue, patch);
+			return issue;
+		},
+		async search(query, options = {}) {
+			const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+			return all()
+				.filter((file) => options.includeClosed || !CLOSED_STATES.includes(String(file.frontmatter.status ?? "open").toLowerCase()))
+				.filter((file) => {
+					const haystack = `${file.frontmatter.title ?? ""}\n${file.description}`.toLowerCase();
+					return words.every((word) => haystack.includes(word));
+				})
+				.sort((a, b) => number(a) - number(b))
+				.slice(0, options.limit ?? 50)
+				.map(toIssue);
+		},
+		async link(from, to, kind) {
+			const source = load(from);
+			const target = load(to);
+			if (kind === "blocks") {
+				addRef(target, "blockers", source.slug);
+				save(target);
+			} else {
+				addRef(source, "related", target.slug);
+				addRef(target, "related", source.slug);
+				save(source);
+				save(target);
+			}
+			const key = kind === "blocks" ? "blockers" : "related";
+			if (!stringList(load(to).frontmatter[key]).includes(`./${from}.svx`)) throw new Error(`Brain readback for ${to} is missing its ${key} link to ${from}`);
+		},
+		async comment(id, body): Promise<TrackerComment> {
+			const file = load(id);
+			const n = (file.comments.match(/^### /gm) ?? []).length + 1;
+			file.comments = [file.comments, `### ${new Date().toISOString()}\n\n${body.trim()}`].filter(Boolean).join("\n\n");
+			save(file);
+			if (!load(id).comments.includes(body.trim())) throw new Error(`Brain readback failed for comment on ${id}`);
+			return { id: `${id}#comment-${n}`, url: `.brain/issues/${id}.svx#comment-${n}`, body: body.trim() };
+		},
+	};
+}
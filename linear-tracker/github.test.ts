@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createGitHubIssue, githubBackend } from "./github";
+
+const realFetch = globalThis.fetch;
+afterEach(() => { globalThis.fetch = realFetch; });
+
+/** Stubs the GitHub REST API, answering by "METHOD /path", and records each request. */
+function mockGitHub(answer: (route: string, body: any) => unknown) {
+	const calls: Array<{ route: string; body: any }> = [];
+	globalThis.fetch = (async (url: unknown, init?: RequestInit) => {
+		const route = `${init?.method ?? "GET"} ${String(url).replace(/^https?:\/\/[^/]+/, "")}`;
+		const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+		calls.push({ route, body });
+		return new Response(JSON.stringify(answer(route, body)), { status: 200 });
+	}) as typeof fetch;
+	return calls;
+}
+
+const repo = { owner: "acme", repo: "widgets" };
+const githubIssue = (fields: Record<string, unknown> = {}) => ({
+	id: 9012,
+	node_id: "I_kw12",
+	number: 12,
+	html_url: "https://github.com/acme/widgets/issues/12",
+	title: "Ship jobs",
+	body: "",
+	state: "open",
+	labels: [],
+	milestone: null,
+	...fields,
+});
+
+describe("github create", () => {
+	test("creates with labels, a milestone by title and a parent, verifying each by readback", async () => {
+		const calls = mockGitHub((route, body) => {
+			if (route === "GET /repos/acme/widgets/milestones?state=open&per_page=100") return [{ number: 3, title: "v1" }];
+			if (route === "POST /repos/acme/widgets/issues") return { number: 12 };
+			if (route === "GET /repos/acme/widgets/issues/12") return githubIssue({ labels: [{ name: "Backend" }], milestone: { number: 3, title: "v1" } });
+			if (route === "POST /repos/acme/widgets/issues/7/sub_issues") return { number: 7 };
+			if (route === "GET /repos/acme/widgets/issues/7/sub_issues?per_page=100") return [{ number: 12 }];
+			throw new Error(`unexpected ${route} ${JSON.stringify(body)}`);
+		});
+
+		const issue = await createGitHubIssue("token", repo, { title: "Ship jobs", body: "Queue runner.", labels: ["backend"], milestone: "V1", parent: 7 });
+
+		expect(issue).toMatchObject({ id: "12", identifier: "#12", databaseId: 9012, labels: ["Backend"], milestone: "v1", parent: "7" });
+		expect(calls[1].body).toEqual({ title: "Ship jobs", body: "Queue runner.", labels: ["backend"], milestone: 3 });
+		expect(calls[3].body).toEqual({ sub_issue_id: 9012 });
+	});
+
+	test("throws when the readback is missing what was asked for", async () => {
+		let readback = githubIssue();
+		mockGitHub((route) => {
+			if (route === "GET /repos/acme/widgets/milestones?state=open&per_page=100") return [{ number: 3, title: "v1" }];
+			if (route === "POST /repos/acme/widgets/issues") return { number: 12 };
+			if (route === "GET /repos/acme/widgets/issues/12") return readback;
+			if (route === "POST /repos/acme/widgets/issues/7/sub_issues") return {};
+			if (route === "GET /repos/acme/widgets/issues/7/sub_issues?per_page=100") return [];
+			throw new Error(`unexpected ${route}`);
+		});
+
+		await expect(createGitHubIssue("token", repo, { title: "Ship jobs", milestone: "v2" })).rejects.toThrow("GitHub milestone not found: v2");
+		await expect(createGitHubIssue("token", repo, { title: "Ship jobs", labels: ["backend"] })).rejects.toThrow("GitHub readback for #12 is missing labels: backend");
+		await expect(createGitHubIssue("token", repo, { title: "Ship jobs", milestone: 3 })).rejects.toThrow("GitHub readback for #12 is missing its milestone");
+		await expect(createGitHubIssue("token", repo, { title: "Ship jobs", parent: 7 })).rejects.toThrow("GitHub readback for #7 is missing sub-issue #12");
+		readback = githubIssue({ title: "Ship job" });
+		await expect(createGitHubIssue("token", repo, { title: "Ship jobs" })).rejects.toThrow("GitHub readback title mismatch for #12");
+	});
+});
+
+describe("github backend", () => {
+	test("update PATCHes the mapped state and verifies it by readback", async () => {
+		let stored = githubIssue();
+		const calls = mockGitHub((route, body) => {
+			if (route === "PATCH /repos/acme/widgets/issues/12") {
+				stored = githubIssue({ state: body.state, body: "* Queue runner\r\n* Retries", labels: body.labels.map((name: string) => ({ name })) });
+				return stored;
+			}
+			if (route === "GET /repos/acme/widgets/issues/12") return stored;
+			throw new Error(`unexpected ${route}`);
+		});
+		const backend = githubBackend("token", repo);
+
+		const updated = await backend.update("12", { state: "Done", description: "- Queue runner\n- Retries", labels: ["backend"] });
+
+		expect(updated).toMatchObject({ id: "12", identifier: "#12", state: "closed", labels: ["backend"] });
+		expect(calls[0]).toEqual({
+			route: "PATCH /repos/acme/widgets/issues/12",
+			body: { body: "- Queue runner\n- Retries", labels: ["backend"], state: "closed", state_reason: "completed" },
+		});
+	});
+
+	test("update throws when the readback lost the change or the field has no GitHub equivalent", async () => {
+		mockGitHub((route) => {
+			if (route === "PATCH /repos/acme/widgets/issues/12" || route === "GET /repos/acme/widgets/issues/12") return githubIssue();
+			throw new Error(`unexpected ${route}`);
+		});
+		const backend = githubBackend("token", repo);
+
+		await expect(backend.update("12", { state: "canceled" })).rejects.toThrow("Readback for #12 does not match: state");
+		await expect(backend.update("12", { state: "shipped" })).rejects.toThrow("GitHub issues are open or closed; unknown state: shipped");
+		await expect(backend.update("12", { priority: 1 })).rejects.toThrow("GitHub issues have no priority; use a label instead");
+	});
+});
@@ -0,0 +1,220 @@
+/**
+ * GitHub Issues publisher for projects whose tracker policy resolves to
+ * "github". The repo comes from the project's git remote; issues are created
+ * over the REST API and verified by readback, same contract as Linear.
+ */
+
+import { execFileSync } from "node:child_process";
+import { sameMarkdown, type TrackerBackend, type TrackerComment, type TrackerIssue, type TrackerIssueInput, type TrackerIssueUpdate, verifyReadback } from "./backend.js";
+
+const GITHUB_API_URL = process.env.GITHUB_API_URL || "https://api.github.com";
+const GITHUB_PAGE_SIZE = 100;
+/** The search API returns at most this many results per query. */
+const GITHUB_SEARCH_CAP = 1000;
+
+export interface GitHubAssociation {
+	owner?: string;
+	repo?: string;
+	/** Remote the repo was read from, e.g. "origin" */
+	remote?: string;
+}
+
+export interface GitHubIssuePayload {
+	title: string;
+	body?: string;
+	labels?: string[];
+	/** Milestone title or number */
+	milestone?: string | number;
+	/** Parent issue number; the new issue becomes its sub-issue */
+	parent?: number;
+}
+
+export interface GitHubIssue extends TrackerIssue {
+	/** "#12" — GitHub cross-links this form inside the same repo */
+	identifier: string;
+	number: number;
+	/** REST id, which the sub-issues API takes instead of the number */
+	databaseId: number;
+	labels: string[];
+	milestone?: string;
+}
+
+/** owner/repo from an https, ssh or scp-style GitHub remote URL. */
+export function parseGitHubRemote(url: string): { owner: string; repo: string } | undefined {
+	const match = url.trim().match(/^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)github\.com[:/]([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+?)(?:\.git)?\/?$/i);
+	if (!match) return undefined;
+	return { owner: match[1], repo: match[2] };
+}
+
+/** GitHub repo for the project: origin first, then any other GitHub remote. */
+export function resolveGitHubRepo(projectRoot: string): GitHubAssociation {
+	let remotes: string[] = [];
+	try {
+		remotes = execFileSync("git", ["-C", projectRoot, "remote"], {
+			encoding: "utf-8",
+			stdio: ["ignore", "pipe", "ignore"],
+			timeout: 3_000,
+		}).split(/\r?\n/).filter(Boolean);
+	} catch {
+		return {};
+	}
+	const ordered = [...remotes.filter((name) => name === "origin"), ...remotes.filter((name) => name !== "origin")];
+	for (const remote of ordered) {
+		try {
+			const url = execFileSync("git", ["-C", projectRoot, "remote", "get-url", remote], {
+				encoding: "utf-8",
+				stdio: ["ignore", "pipe", "ignore"],
+				timeout: 3_000,
+			});
+			const parsed = parseGitHubRemote(url);
+			if (parsed) return { ...parsed, remote };
+		} catch {}
+	}
+	return {};
+}
+
+async function githubRest<T>(token: string, method: "GET" | "POST" | "PATCH", path: string, body?: Record<string, unknown>): Promise<T> {
+	const response = await fetch(`${GITHUB_API_URL}${path}`, {
+		method,
+		headers: {
+			Accept: "application/vnd.github+json",
+			Authorization: `Bearer ${token}`,
+			"X-GitHub-Api-Version": "2022-11-28",
+			"User-Agent": "pi-linear-tracker",
+			...(body ? { "Content-Type": "application/json" } : {}),
+		},
+		body: body ? JSON.stringify(body) : undefined,
+	});
+	const data: any = await response.json().catch(() => ({}));
+	if (!response.ok) throw new Error(`GitHub API HTTP ${response.status}: ${data?.message ?? JSON.stringify(data)}`);
+	return data as T;
+}
+
+function toIssue(data: any): GitHubIssue {
+	return {
+		id: String(data.number),
+		identifier: `#${data.number}`,
+		number: data.number,
+		databaseId: data.id,
+		url: data.html_url,
+		title: data.title,
+		description: data.body ?? "",
+		state: data.state,
+		labels: (data.labels ?? []).map((label: any) => (typeof label === "string" ? label : label.name)),
+		milestone: data.milestone?.title,
+	};
+}
+
+/** Milestone number for a title (open milestones, case-insensitive) or a number. */
+async function resolveMilestone(token: string, repo: Required<Pick<GitHubAssociation, "owner" | "repo">>, milestone: string | number): Promise<number> {
+	if (typeof milestone === "number" || /^\d+$/.test(milestone)) return Number(milestone);
+	const milestones = await githubRest<Array<{ number: number; title: string }>>(token, "GET", `/repos/${repo.owner}/${repo.repo}/milestones?state=open&per_page=100`);
+	const found = milestones.find((m) => m.title.toLowerCase() === milestone.trim().toLowerCase());
+	if (!found) throw new Error(`GitHub milestone not found: ${milestone}`);
+	return found.number;
+}
+
+export async function readGitHubIssue(token: string, repo: GitHubAssociation, number: number): Promise<GitHubIssue> {
+	if (!repo.owner || !repo.repo) throw new Error("Missing GitHub owner/repo association");
+	const data = await githubRest<any>(token, "GET", `/repos/${repo.owner}/${repo.repo}/issues/${number}`);
+	if (!data?.number || !data.html_url) throw new Error(`GitHub readback failed for issue #${number}`);
+	return toIssue(data);
+}
+
+export async function createGitHubIssue(token: string, repo: GitHubAssociation, payload: GitHubIssuePayload): Promise<GitHubIssue> {
+	if (!repo.owner || !repo.repo) throw new Error("Missing GitHub owner/repo association");
+	const input: Record<string, unknown> = { title: payload.title, body: payload.body ?? "" };
+	if (payload.labels?.length) input.labels = payload.labels;
+	if (payload.milestone !== undefined) input.milestone = await resolveMilestone(token, { owner: repo.owner, repo: repo.repo }, payload.milestone);
+
+	const created = await githubRest<any>(token, "POST", `/repos/${repo.owner}/${repo.repo}/issues`, input);
+	if (!created?.number) throw new Error("GitHub issue create did not return an issue number");
+	const issue = await readGitHubIssue(token, repo, created.number);
+	if (issue.title !== payload.title) throw new Error(`GitHub readback title mismatch for ${issue.identifier}`);
+	const missing = (payload.labels ?? []).filter((label) => !issue.labels.some((have) => have.toLowerCase() === label.toLowerCase()));
+	if (missing.length) throw new Error(`GitHub readback for ${issue.identifier} is missing labels: ${missing.join(", ")}`);
+	if (payload.milestone !== undefined && !issue.milestone) throw new Error(`GitHub readback for ${issue.identifier} is missing its milestone`);
+	if (payload.parent !== undefined) {
+		const base = `/repos/${repo.owner}/${repo.repo}/issues/${payload.parent}/sub_issues`;
+		await githubRest(token, "POST", base, { sub_issue_id: issue.databaseId });
+		const children = await githubRest<Array<{ number: number }>>(token, "GET", `${base}?per_page=100`);
+		if (!children.some((child) => child.number === issue.number)) throw new Error(`GitHub readback for #${payload.parent} is missing sub-issue ${issue.identifier}`);
+		issue.parent = String(payload.parent);
+	}
+	return issue;
+}
+
+/** Issue number from "#12", "12", "owner/repo#12" or an issue URL. */
+export function parseGitHubIssueRef(ref: string): number | undefined {
+	const match = ref.trim().match(/(?:^|#|\/issues\/)(\d+)\/?$/);
+	return match ? Number(match[1]) : undefined;
+}
+
+/** GitHub's open/closed plus the reason, for state names like "done" or "canceled". */
+function githubState(name: string): { state: "open" | "closed"; state_reason?: string } {
+	const lower = name.trim().toLowerCase();
+	if (["closed", "done", "completed", "complete", "resolved"].includes(lower)) return { state: "closed", state_reason: "completed" };
+	if (["canceled", "cancelled", "not planned", "not_planned", "wontfix", "duplicate"].includes(lower)) return { state: "closed", state_reason: "not_planned" };
+	if (["open", "reopen", "reopened", "todo", "backlog", "in progress", "in_progress"].includes(lower)) return { state: "open" };
+	throw new Error(`GitHub issues are open or closed; unknown state: ${name}`);
+}
+
+export function githubPayload(input: TrackerIssueInput): GitHubIssuePayload {
+	return { title: input.title, body: input.description, labels: input.labels, milestone: input.milestone, parent: input.parent ? Number(input.parent) : undefined };
+}
+
+export function githubBackend(token: string, repo: GitHubAssociation): TrackerBackend {
+	const base = `/repos/${repo.owner}/${repo.repo}`;
+	const comment = async (number: string, body: string): Promise<TrackerComment> => {
+		const created = await githubRest<{ id: number }>(token, "POST", `${base}/issues/${number}/comments`, { body });
+		const read = await githubRest<{ id: number; html_url: string; body: string }>(token, "GET", `${base}/issues/comments/${created.id}`);
+		if (!read?.body || !sameMarkdown(read.body, body)) throw new Error(`GitHub readback failed for comment on #${number}`);
+		return { id: String(read.id), url: read.html_url, body: read.body };
+	};
+	return {
+		kind: "github",
+		resolve(ref) {
+			const url = ref.match(/github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)/i);
+			if (url && (url[1].toLowerCase() !== repo.owner?.toLowerCase() || url[2].toLowerCase() !== repo.repo?.toLowerCase())) return undefined;
+			const number = parseGitHubIssueRef(ref);
+			return number === undefined ? undefined : String(number);
+		},
+		create: (input) => createGitHubIssue(token, repo, githubPayload(input)),
+		read: (id) => readGitHubIssue(token, repo, Number(id)),
+		async update(id, patch: TrackerIssueUpdate) {
+			if (!repo.owner || !repo.repo) throw new Error("Missing GitHub owner/repo association");
+			if (patch.priority !== undefined) throw new Error("GitHub issues have no priority; use a label instead");
+			const input: Record<string, unknown> = {};
+			if (patch.title !== undefined) input.title = patch.title;
+			if (patch.description !== undefined) input.body = patch.description;
+			if (patch.labels !== undefined) input.labels = patch.labels;
+			const state = patch.state !== undefined ? githubState(patch.state) : undefined;
+			if (state) Object.assign(input, state);
+			await githubRest(token, "PATCH", `${base}/issues/${id}`, input);
+			const issue = await readGitHubIssue(token, repo, Number(id));
+			verifyReadback(issue, { ...patch, state: state?.state });
+			return issue;
+		},
+		async search(query, options = {}) {
+			const limit = options.limit ?? 50;
+			const perPage = Math.min(limit, GITHUB_PAGE_SIZE);
+			const q = [`repo:${repo.owner}/${repo.repo}`, "is:issue", options.includeClosed ? "" : "is:open", query].filter(Boolean).join(" ");
+			const issues: GitHubIssue[] = [];
+			for (let page = 1; issues.length < limit; page++) {
+				// Listing everything pages the issues endpoint, which has no search cap; it also returns pull requests
+				const items = query.trim()
+					? (await githubRest<{ items: any[] }>(token, "GET", `/search/issues?q=${encodeURIComponent(q)}&per_page=${perPage}&page=${page}`)).items
+					: await githubRest<any[]>(token, "GET", `${base}/issues?state=${options.includeClosed ? "all" : "open"}&per_page=${perPage}&page=${page}`);
+				issues.push(...items.filter((item) => !item.pull_request).map(toIssue));
+				if (items.length < perPage || (query.trim() && page * perPage >= GITHUB_SEARCH_CAP)) break;
+			}
+			return issues.slice(0, limit);
+		},
+		async link(from, to, kind) {
+			// GitHub cross-links "#N" mentions; a comment records the relation on both issues
+			if (kind === "blocks") await comment(to, `Blocked by #${from}`);
+			else await comment(from, `Related to #${to}`);
+		},
+		comment,
+	};
+}
@@ -1,8 +1,10 @@
-import { describe, expect, test } from "bun:test";
-import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { afterEach, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { parseAssociationFromText, resolveTracker } from "./index";
+import { parseGitHubIssueRef, parseGitHubRemote } from "./github";
+import linearTracker, { parseAssociationFromText, resolveTracker } from "./index";
 
 const wzrrdPolicy = `# project notes
 
@@ -21,6 +23,20 @@ This project uses Linear for issues and grooming.
 - \`wzrrd::cloudflare_account_id\`
 `;
 
+/** A project whose local policy names Brain as the tracker. */
+function brainProject(root = mkdtempSync(join(tmpdir(), "linear-tracker-test-"))): string {
+	mkdirSync(join(root, ".pi"), { recursive: true });
+	writeFileSync(join(root, ".pi", "APPEND_SYSTEM.md"), "Issue tracker: Brain\n");
+	return root;
+}
+
+/** Runs the registered linear-tracker tools with `root` as cwd and returns their text. */
+function toolRunner(root: string) {
+	const tools: Record<string, any> = {};
+	linearTracker({ on() {}, registerTool: (tool: any) => { tools[tool.name] = tool; }, registerCommand() {} } as any);
+	return async (name: string, params: Record<string, unknown>) => (await tools[name].execute("call", params, undefined, undefined, { cwd: root })).content[0].text as string;
+}
+
 describe("linear tracker policy parsing", () => {
 	test("reads plain Team key/Team ID labels from a Linear section", () => {
 		expect(parseAssociationFromText(wzrrdPolicy)).toEqual({
@@ -45,3 +61,170 @@ describe("linear tracker policy parsing", () => {
 		expect(result.reasons).not.toContain("Linear policy exists, but no local Linear teamKey/teamId association was found.");
 	});
 });
+
+describe("github tracker", () => {
+	test("parses GitHub remotes and issue refs", () => {
+		expect(parseGitHubRemote("git@github.com:acme/widgets.git")).toEqual({ owner: "acme", repo: "widgets" });
+		expect(parseGitHubRemote("https://github.com/acme/widgets")).toEqual({ owner: "acme", repo: "widgets" });
+		expect(parseGitHubRemote("ssh://git@github.com/acme/widgets.js.git")).toEqual({ owner: "acme", repo: "widgets.js" });
+		expect(parseGitHubRemote("git@gitlab.com:acme/widgets.git")).toBeUndefined();
+		expect(parseGitHubIssueRef("#12")).toBe(12);
+		expect(parseGitHubIssueRef("https://github.com/acme/widgets/issues/7")).toBe(7);
+		expect(parseGitHubIssueRef("WZR-12")).toBeUndefined();
+	});
+
+	test("resolver reads the GitHub repo from the git remote", () => {
+		const root = mkdtempSync(join(tmpdir(), "linear-tracker-test-"));
+		execFileSync("git", ["init", "-q", root]);
+		execFileSync("git", ["-C", root, "remote", "add", "origin", "git@github.com:acme/widgets.git"]);
+		mkdirSync(join(root, ".pi"), { recursive: true });
+		writeFileSync(join(root, ".pi", "APPEND_SYSTEM.md"), "# project notes\n\nIssue tracker: GitHub Issues\n");
+
+		const saved = { GITHUB_TOKEN: process.env.GITHUB_TOKEN, GH_TOKEN: process.env.GH_TOKEN };
+		try {
+			delete process.env.GITHUB_TOKEN;
+			delete process.env.GH_TOKEN;
+			const result = resolveTracker(root, { includeEvidence: true, allowAgentSecrets: false });
+			expect(result.tracker).toBe("github");
+			expect(result.linearAllowed).toBe(false);
+			expect(result.github).toEqual({ owner: "acme", repo: "widgets", remote: "origin" });
+			expect(result.publishMode).toBe("not_linear");
+
+			process.env.GITHUB_TOKEN = "test-token";
+			expect(resolveTracker(root, { includeEvidence: false, allowAgentSecrets: false }).publishMode).toBe("github_direct");
+		} finally {
+			for (const [key, value] of Object.entries(saved)) {
+				if (value === undefined) delete process.env[key];
+				else process.env[key] = value;
+			}
+		}
+	});
+});
+
+describe("brain tracker", () => {
+	test("resolver publishes to Brain issue files when policy names Brain as the tracker", () => {
+		const root = mkdtempSync(join(tmpdir(), "linear-tracker-test-"));
+		mkdirSync(join(root, ".pi"), { recursive: true });
+		writeFileSync(join(root, ".pi", "APPEND_SYSTEM.md"), "# project notes\n\n- Brain is canonical. Linear/GitHub/issues are mirrors.\n- Issue tracker: Brain (.brain/issues)\n");
+
+		const result = resolveTracker(root, { includeEvidence: true, allowAgentSecrets: false });
+
+		expect(result.tracker).toBe("brain");
+		expect(result.linearAllowed).toBe(false);
+		expect(result.publishMode).toBe("brain_direct");
+	});
+});
+
+describe("issue mutation tools", () => {
+	test("update, comment and transition Brain issues, linking the finishing commit", async () => {
+		const root = mkdtempSync(join(tmpdir(), "linear-tracker-test-"));
+		const git = (...args: string[]) => execFileSync("git", ["-C", root, ...args], { encoding: "utf-8" }).trim();
+		git("init", "-q");
+		git("remote", "add", "origin", "https://github.com/acme/widgets.git");
+		brainProject(root);
+		git("add", ".");
+		git("-c", "user.name=t", "-c", "user.email=t@t", "commit", "-qm", "feat: ship jobs");
+		const sha = git("rev-parse", "HEAD");
+		const run = toolRunner(root);
+
+		expect(await run("linear_tracker_create_issue", { title: "Ship jobs", description: "Queue runner." })).toContain("Created and verified BRAIN-1");
+		expect(await run("linear_tracker_update_issue", { id: "BRAIN-1", state: "In Progress", labels: ["backend"] })).toContain("Updated and verified BRAIN-1 (in progress)");
+		expect(await run("linear_tracker_update_issue", { id: "BRAIN-9", title: "x" })).toContain("not a Brain issue reference");
+		expect(await run("linear_tracker_comment", { id: "BRAIN-1", body: "Halfway there." })).toContain("#comment-1");
+		expect(await run("linear_tracker_transition", { id: "BRAIN-1", state: "Done", commit: "HEAD" })).toContain("Moved and verified BRAIN-1 to done");
+		expect(await run("linear_tracker_transition", { id: "BRAIN-1", state: "Done", commit: "nope" })).toContain("Unknown commit");
+
+		const file = readFileSync(join(root, ".brain", "issues", "ship-jobs.svx"), "utf-8");
+		expect(file).toContain('status: "done"');
+		expect(file).toContain("Queue runner.\n\n## Comments\n");
+		expect(file).toContain(`Commit [\`${sha.slice(0, 7)}\`](https://github.com/acme/widgets/commit/${sha}): feat: ship jobs`);
+	});
+});
+
+describe("duplicate detection", () => {
+	test("search finds open issues and create refuses likely duplicates unless forced", async () => {
+		const root = brainProject();
+		const run = toolRunner(root);
+
+		await run("linear_tracker_create_issues", { issues: [{ title: "Add job schema" }, { title: "Retry failed webhooks", blocked_by: [0] }] });
+		expect(await run("linear_tracker_search", { query: "webhook retries" })).toContain("BRAIN-2");
+		expect(await run("linear_tracker_search", { query: "dark mode" })).toContain("No open Brain issues");
+
+		const refused = await run("linear_tracker_create_issue", { title: "feat: add jobs schema" });
+		expect(refused).toContain("likely duplicates");
+		expect(refused).toContain("BRAIN-1 (1.00) Add job schema");
+		const batch = await run("linear_tracker_create_issues", { issues: [{ title: "Dark mode toggle" }, { title: "Webhook retry with backoff" }] });
+		expect(batch).toContain("Webhook retry with backoff:\n- BRAIN-2");
+		expect(await run("linear_tracker_search", { query: "dark mode" })).toContain("No open Brain issues");
+
+		expect(await run("linear_tracker_create_issue", { title: "feat: add jobs schema", force: true })).toContain("Created and verified BRAIN-3");
+		await run("linear_tracker_transition", { id: "BRAIN-2", state: "Done" });
+		expect(await run("linear_tracker_create_issue", { title: "Webhook retry with backoff" })).toContain("Created and verified BRAIN-4");
+	});
+});
+
+describe("duplicate detection past the first page", () => {
+	const realFetch = globalThis.fetch;
+	const savedToken = process.env.GITHUB_TOKEN;
+	afterEach(() => {
+		globalThis.fetch = realFetch;
+		if (savedToken === undefined) delete process.env.GITHUB_TOKEN;
+		else process.env.GITHUB_TOKEN = savedToken;
+	});
+
+	test("create_issue checks every open GitHub issue, not just the first page", async () => {
+		const root = mkdtempSync(join(tmpdir(), "linear-tracker-test-"));
+		execFileSync("git", ["init", "-q", root]);
+		execFileSync("git", ["-C", root, "remote", "add", "origin", "git@github.com:acme/widgets.git"]);
+		mkdirSync(join(root, ".pi"), { recursive: true });
+		writeFileSync(join(root, ".pi", "APPEND_SYSTEM.md"), "Issue tracker: GitHub Issues\n");
+		process.env.GITHUB_TOKEN = "test-token";
+		const issue = (number: number, title: string) => ({ id: number, number, title, body: "", state: "open", labels: [], html_url: `https://github.com/acme/widgets/issues/${number}` });
+		const requests: string[] = [];
+		globalThis.fetch = (async (url: unknown, init?: RequestInit) => {
+			const path = String(url).replace(/^https?:\/\/[^/]+/, "");
+			requests.push(`${init?.method ?? "GET"} ${path}`);
+			const page = Number(path.match(/[?&]page=(\d+)/)?.[1]);
+			const items = page === 1 ? Array.from({ length: 100 }, (_, i) => issue(i + 1, `Tidy module ${i + 1} imports`)) : [issue(101, "Retry failed webhooks")];
+			return new Response(JSON.stringify(items), { status: 200 });
+		}) as typeof fetch;
+
+		const refused = await toolRunner(root)("linear_tracker_create_issue", { title: "Retry failed webhooks" });
+
+		expect(refused).toContain("likely duplicates");
+		expect(refused).toContain("#101 (1.00) Retry failed webhooks");
+		expect(requests).toEqual([
+			"GET /repos/acme/widgets/issues?state=open&per_page=100&page=1",
+			"GET /repos/acme/widgets/issues?state=open&per_page=100&page=2",
+		]);
+	});
+});
+
+describe("batch relations", () => {
+	test("create_issues links blockers and sub-issues natively, in batch order", async () => {
+		const root = brainProject();
+		const run = toolRunner(root);
+
+		const outOfOrder = await run("linear_tracker_create_issues", { issues: [{ title: "Job queue", blocked_by: [1] }, { title: "Job schema", parent: 0 }] });
+		expect(outOfOrder).toContain("the batch is out of order");
+		expect(outOfOrder).toContain("Issue 0 (Job queue) is blocked by index 1");
+
+		const preview = await run("linear_tracker_create_issues", { dry_run: true, issues: [{ title: "Background jobs" }, { title: "Job schema", parent: 0 }] });
+		expect(preview).toContain("**Parent**: Issue 0: Background jobs");
+
+		const batch = await run("linear_tracker_create_issues", {
+			issues: [
+				{ title: "Background jobs" },
+				{ title: "Job schema", parent: 0 },
+				{ title: "Job runner", parent: 0, blocked_by: [1] },
+			],
+		});
+		expect(batch).toContain("- BRAIN-2: .brain/issues/job-schema.svx (sub-issue of BRAIN-1)");
+		expect(batch).toContain("- BRAIN-3: .brain/issues/job-runner.svx (sub-issue of BRAIN-1; blocked by BRAIN-2)");
+
+		const runner = readFileSync(join(root, ".brain", "issues", "job-runner.svx"), "utf-8");
+		expect(runner).toContain('parent: "./background-jobs.svx"');
+		expect(runner).toContain('blockers:\n  - "./job-schema.svx"');
+		expect(runner).not.toContain("## Blocked by");
+	});
+});
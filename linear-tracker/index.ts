@@ -1,9 +1,15 @@
 /**
- * linear-tracker — project-local issue tracker resolver + Linear publisher.
+ * linear-tracker — project-local issue tracker resolver + issue publisher.
  *
  * This is the lock Rat King needs: Linear is only allowed when project-local
  * policy says Linear AND we have a Linear association (team key/id) AND auth.
  * No more "global MCP exists, therefore yeet tickets into Linear" bullshit.
+ *
+ * Projects whose policy says GitHub Issues get the same treatment through
+ * github.ts: repo from the git remote, GITHUB_TOKEN or agent-secrets auth,
+ * readback before any URL is claimed. Projects whose policy says Brain keep
+ * issues as .brain/issues/*.svx files (brain.ts). The tools only see the
+ * TrackerBackend interface in backend.ts.
  */
 
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
@@ -13,12 +19,18 @@ import { execFileSync } from "node:child_process";
 import { existsSync, readFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, isAbsolute, join, resolve } from "node:path";
+import { TRACKER_NAMES, type TrackerBackend, type TrackerBackendKind, type TrackerIssue, type TrackerIssueInput, type TrackerIssueUpdate } from "./backend.js";
+import { brainBackend, brainIssuesDir } from "./brain.js";
+import { type GitHubAssociation, githubBackend, githubPayload, parseGitHubIssueRef, resolveGitHubRepo } from "./github.js";
+import { linearBackend, type LinearIssueDefaults, linearPayload } from "./linear.js";
+import { DUPLICATE_THRESHOLD, rankSimilar, SEARCH_THRESHOLD, searchScore } from "./similarity.js";
 
-const LINEAR_GRAPHQL_URL = "https://api.linear.app/graphql";
 const MAX_POLICY_BYTES = 160_000;
+const MAX_DUPLICATE_CANDIDATES = 3;
+const DEFAULT_GITHUB_SECRET_NAMES = ["github_token", "GITHUB_TOKEN", "gh_token"];
 const DEFAULT_LINEAR_SECRET_NAMES = ["wzrrd::linear_api_key", "rubicon:linear_api_key", "linear_api_key", "LINEAR_API_KEY", "linear_token", "LINEAR_TOKEN"];
 
-type TrackerKind = "linear" | "github" | "other" | "unknown";
+type TrackerKind = "linear" | "github" | "brain" | "other" | "unknown";
 type PolicyDecision = "linear" | "non-linear" | "unknown";
 
 type EvidenceKind = "policy" | "brain" | "settings" | "skill" | "mcp" | "auth";
@@ -27,6 +39,8 @@ interface Evidence {
 	path: string;
 	kind: EvidenceKind;
 	decision: PolicyDecision;
+	/** Which non-Linear tracker, when the policy names one */
+	tracker?: TrackerKind;
 	reason: string;
 	snippet?: string;
 }
@@ -48,6 +62,8 @@ interface LinearCapabilities {
 	mcpAuthenticated: boolean;
 	mcpServerName?: string;
 	mcpUrl?: string;
+	githubToken: boolean;
+	githubTokenSource?: string;
 }
 
 interface ResolveResult {
@@ -57,8 +73,9 @@ interface ResolveResult {
 	linearAllowed: boolean;
 	canPublishLinearDirect: boolean;
 	canPublishLinearViaMcp: boolean;
-	publishMode: "linear_direct" | "linear_mcp" | "payload_only" | "not_linear" | "unknown";
+	publishMode: "linear_direct" | "linear_mcp" | "github_direct" | "brain_direct" | "payload_only" | "not_linear" | "unknown";
 	association: LinearAssociation;
+	github: GitHubAssociation;
 	capabilities: LinearCapabilities;
 	authSecretNames: string[];
 	reasons: string[];
@@ -66,26 +83,6 @@ interface ResolveResult {
 	nextActions: string[];
 }
 
-interface LinearIssuePayload {
-	title: string;
-	description?: string;
-	teamKey?: string;
-	teamId?: string;
-	projectId?: string;
-	stateId?: string;
-	assigneeId?: string;
-	parentId?: string;
-	labelIds?: string[];
-	priority?: number;
-}
-
-interface CreatedIssue {
-	id: string;
-	identifier: string;
-	url: string;
-	title: string;
-}
-
 function text(content: string, details: Record<string, unknown> = {}) {
 	return { content: [{ type: "text" as const, text: content }], details };
 }
@@ -147,7 +144,13 @@ function lineSnippet(text: string, matcher: RegExp): string | undefined {
 	return redact(lines.slice(start, end).join("\n").trim());
 }
 
-function scanDecision(text: string): { decision: PolicyDecision; reason: string; snippet?: string } {
+function scanDecision(text: string): { decision: PolicyDecision; tracker?: TrackerKind; reason: string; snippet?: string } {
+	// Only when Brain is the named tracker, not when policy merely calls Brain canonical
+	const brainPattern = /\bissue\s*tracker\b\s*[:=-]?\s*[`"'*]*\s*(?:brain|\.brain\/issues)\b/i;
+	if (brainPattern.test(text)) {
+		return { decision: "non-linear", tracker: "brain", reason: "local policy points to Brain issue files", snippet: lineSnippet(text, brainPattern) };
+	}
+
 	const nonLinearPatterns = [
 		/\bissue\s*tracker\b[^\n]*(github|gh|not\s+linear|no\s+linear)/i,
 		/\btracker\b[^\n]*(github|gh|not\s+linear|no\s+linear)/i,
@@ -288,6 +291,7 @@ function scanSettings(path: string, text: string): { evidence?: Evidence; associ
 	try {
 		const json = JSON.parse(text);
 		let decision: PolicyDecision = "unknown";
+		let tracker: TrackerKind | undefined;
 		let reason = "no tracker decision found";
 		walkJson(json, [], (keyPath, value) => {
 			const joined = keyPath.join(".").toLowerCase();
@@ -295,6 +299,12 @@ function scanSettings(path: string, text: string): { evidence?: Evidence; associ
 				const lower = value.toLowerCase();
 				if ((joined.includes("issue") || joined.includes("tracker")) && lower.includes("github")) {
 					decision = "non-linear";
+					tracker = "github";
+					reason = `${keyPath.join(".")} is ${value}`;
+				}
+				if ((joined.includes("issue") || joined.includes("tracker")) && lower === "brain") {
+					decision = "non-linear";
+					tracker = "brain";
 					reason = `${keyPath.join(".")} is ${value}`;
 				}
 				if ((joined.includes("issue") || joined.includes("tracker")) && lower.includes("linear")) {
@@ -317,7 +327,7 @@ function scanSettings(path: string, text: string): { evidence?: Evidence; associ
 				}
 			}
 		});
-		return { evidence: { path, kind: "settings", decision, reason, snippet: redact(JSON.stringify(json, null, 2).slice(0, 800)) }, association };
+		return { evidence: { path, kind: "settings", decision, tracker, reason, snippet: redact(JSON.stringify(json, null, 2).slice(0, 800)) }, association };
 	} catch {
 		const scanned = scanDecision(text);
 		assignAssociation(association, parseAssociationFromText(text));
@@ -438,8 +448,8 @@ function detectMcp(): Pick<LinearCapabilities, "mcpConfigured" | "mcpAuthenticat
 	};
 }
 
-function leaseLinearSecret(secretNames: string[] = []): { token?: string; source?: string; checked: boolean; available: boolean } {
-	for (const name of unique([...secretNames, ...DEFAULT_LINEAR_SECRET_NAMES])) {
+function leaseSecret(names: string[]): { token?: string; source?: string; checked: boolean; available: boolean } {
+	for (const name of unique(names)) {
 		try {
 			const value = execFileSync("secrets", ["lease", name, "--ttl", "15m", "--client-id", "pi-linear-tracker"], {
 				encoding: "utf-8",
@@ -459,12 +469,24 @@ function getLinearApiKey(options: { allowAgentSecrets: boolean; secretNames?: st
 		if (value) return { token: value, source: `env:${name}`, agentSecretsChecked: false, agentSecretsAvailable: false };
 	}
 	if (options.allowAgentSecrets) {
-		const leased = leaseLinearSecret(options.secretNames);
+		const leased = leaseSecret([...(options.secretNames ?? []), ...DEFAULT_LINEAR_SECRET_NAMES]);
 		return { token: leased.token, source: leased.source, agentSecretsChecked: leased.checked, agentSecretsAvailable: leased.available };
 	}
 	return { agentSecretsChecked: false, agentSecretsAvailable: false };
 }
 
+function getGitHubToken(options: { allowAgentSecrets: boolean }): { token?: string; source?: string } {
+	for (const name of ["GITHUB_TOKEN", "GH_TOKEN"]) {
+		const value = process.env[name];
+		if (value) return { token: value, source: `env:${name}` };
+	}
+	if (options.allowAgentSecrets) {
+		const leased = leaseSecret(DEFAULT_GITHUB_SECRET_NAMES);
+		return { token: leased.token, source: leased.source };
+	}
+	return {};
+}
+
 export function resolveTracker(cwdRaw: string | undefined, options: { allowAgentSecrets: boolean; includeEvidence: boolean }): ResolveResult {
 	const cwd = resolve(cwdRaw && isAbsolute(cwdRaw) ? cwdRaw : cwdRaw ? join(process.cwd(), cwdRaw) : process.cwd());
 	const { projectRoot, evidence, association, authSecretNames } = collectPolicy(cwd);
@@ -475,7 +497,7 @@ export function resolveTracker(cwdRaw: string | undefined, options: { allowAgent
 	let tracker: TrackerKind = "unknown";
 	const reasons: string[] = [];
 	if (decisive?.decision === "non-linear") {
-		tracker = /github|gh/i.test(decisive.snippet ?? decisive.reason) ? "github" : "other";
+		tracker = decisive.tracker ?? (/github|gh/i.test(decisive.snippet ?? decisive.reason) ? "github" : "other");
 		reasons.push(`Nearest decisive policy is non-Linear: ${decisive.path}`);
 	} else if (decisive?.decision === "linear") {
 		tracker = "linear";
@@ -484,6 +506,8 @@ export function resolveTracker(cwdRaw: string | undefined, options: { allowAgent
 		reasons.push("No project-local issue tracker policy found.");
 	}
 
+	const github: GitHubAssociation = tracker === "github" ? resolveGitHubRepo(projectRoot) : {};
+	const githubAuth = tracker === "github" ? getGitHubToken({ allowAgentSecrets: options.allowAgentSecrets }) : {};
 	const shouldCheckAuth = tracker === "linear";
 	const auth: { token?: string; source?: string; agentSecretsChecked: boolean; agentSecretsAvailable: boolean } = shouldCheckAuth
 		? getLinearApiKey({ allowAgentSecrets: options.allowAgentSecrets, secretNames: authSecretNames })
@@ -497,6 +521,8 @@ export function resolveTracker(cwdRaw: string | undefined, options: { allowAgent
 		mcpAuthenticated: mcp.mcpAuthenticated,
 		mcpServerName: mcp.mcpServerName,
 		mcpUrl: mcp.mcpUrl,
+		githubToken: Boolean(githubAuth.token),
+		githubTokenSource: githubAuth.source,
 	};
 
 	const hasAssociation = Boolean(association.teamKey || association.teamId);
@@ -506,10 +532,18 @@ export function resolveTracker(cwdRaw: string | undefined, options: { allowAgent
 	const linearAllowed = tracker === "linear";
 	const canPublishLinearDirect = linearAllowed && hasAssociation && capabilities.directApiKey;
 	const canPublishLinearViaMcp = linearAllowed && hasAssociation && capabilities.mcpAuthenticated;
+	const hasGitHubRepo = Boolean(github.owner && github.repo);
+	if (tracker === "github" && !hasGitHubRepo) reasons.push("GitHub policy exists, but no GitHub remote was found for this repo.");
+	if (tracker === "github" && hasGitHubRepo && !capabilities.githubToken) reasons.push("GitHub repo found, but no GitHub token was found.");
+	const canPublishGitHub = tracker === "github" && hasGitHubRepo && capabilities.githubToken;
 	const publishMode: ResolveResult["publishMode"] = !linearAllowed
-		? tracker === "unknown"
-			? "unknown"
-			: "not_linear"
+		? canPublishGitHub
+			? "github_direct"
+			: tracker === "brain"
+				? "brain_direct"
+				: tracker === "unknown"
+					? "unknown"
+					: "not_linear"
 		: canPublishLinearDirect
 			? "linear_direct"
 			: canPublishLinearViaMcp
@@ -519,6 +553,13 @@ export function resolveTracker(cwdRaw: string | undefined, options: { allowAgent
 	const nextActions: string[] = [];
 	if (publishMode === "unknown") nextActions.push("Add project-local tracker policy before publishing. Suggested: .pi/APPEND_SYSTEM.md or .brain/areas/<project>.svx. Legacy docs/agents/issue-tracker.md is still supported but not preferred.");
 	if (publishMode === "not_linear") nextActions.push("Use the configured non-Linear tracker. Do not publish Linear issues from global auth/tool presence.");
+	if (publishMode === "not_linear" && tracker === "github") {
+		if (!hasGitHubRepo) nextActions.push("Add a GitHub remote (git remote add origin git@github.com:<owner>/<repo>.git).");
+		if (!capabilities.githubToken) nextActions.push("Authenticate GitHub via GITHUB_TOKEN/GH_TOKEN or agent-secrets github_token.");
+		nextActions.push("Until both exist, output ready-to-paste GitHub issue payloads only.");
+	}
+	if (publishMode === "brain_direct") nextActions.push("Brain issue files are the tracker: issues live in .brain/issues/*.svx. No auth needed; readback comes from disk.");
+	if (publishMode === "github_direct") nextActions.push(`Direct GitHub Issues publishing is allowed for ${github.owner}/${github.repo}. Verify every created issue by readback.`);
 	if (publishMode === "payload_only") {
 		if (!hasAssociation) nextActions.push("Add Linear teamKey or teamId to project-local tracker policy.");
 		if (!capabilities.directApiKey && !capabilities.mcpAuthenticated) nextActions.push("Authenticate Linear via LINEAR_API_KEY, project-local agent-secrets name such as wzrrd::linear_api_key, rubicon:linear_api_key, linear_api_key, or /mcp-login linear.");
@@ -536,6 +577,7 @@ export function resolveTracker(cwdRaw: string | undefined, options: { allowAgent
 		canPublishLinearViaMcp,
 		publishMode,
 		association,
+		github,
 		capabilities,
 		authSecretNames,
 		reasons,
@@ -552,6 +594,10 @@ function formatResolve(result: ResolveResult): string {
 		`Linear allowed: ${result.linearAllowed ? "yes" : "no"}`,
 		`Linear association: ${result.association.teamKey || result.association.teamId ? [result.association.teamKey && `teamKey=${result.association.teamKey}`, result.association.teamId && `teamId=${result.association.teamId}`, result.association.projectId && `projectId=${result.association.projectId}`, result.association.projectName && `projectName=${result.association.projectName}`].filter(Boolean).join(", ") : "missing"}`,
 		`Capabilities: directApiKey=${result.capabilities.directApiKey ? "yes" : "no"}${result.capabilities.directApiKeySource ? ` (${result.capabilities.directApiKeySource})` : ""}, mcp=${result.capabilities.mcpAuthenticated ? "authenticated" : result.capabilities.mcpConfigured ? "configured" : "missing"}`,
+		...(result.tracker === "github"
+			? [`GitHub repo: ${result.github.owner && result.github.repo ? `${result.github.owner}/${result.github.repo} (remote ${result.github.remote})` : "missing"}, token=${result.capabilities.githubToken ? `yes (${result.capabilities.githubTokenSource})` : "no"}`]
+			: []),
+		...(result.tracker === "brain" ? [`Brain issues: ${brainIssuesDir(result.projectRoot)}`] : []),
 		"",
 		"Reasons:",
 		...result.reasons.map((reason) => `- ${reason}`),
@@ -569,105 +615,205 @@ function formatResolve(result: ResolveResult): string {
 	return lines.join("\n");
 }
 
-async function linearGraphql<T>(token: string, query: string, variables: Record<string, unknown>): Promise<T> {
-	const response = await fetch(LINEAR_GRAPHQL_URL, {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-			Authorization: token,
-		},
-		body: JSON.stringify({ query, variables }),
+function formatAcceptance(criteria: string[] | undefined): string {
+	if (!criteria?.length) return "";
+	return ["## Acceptance criteria", "", ...criteria.map((criterion) => `- [ ] ${criterion.replace(/^\s*- \[ \]\s*/, "")}`), ""].join("\n");
+}
+
+function formatBlockedBy(blockers: string[]): string {
+	return ["## Blocked by", "", blockers.length ? blockers.map((blocker) => `- ${blocker}`).join("\n") : "None - can start immediately", ""].join("\n");
+}
+
+interface BatchIssue {
+	title: string;
+	what_to_build?: string;
+	description?: string;
+	acceptance_criteria?: string[];
+	blocked_by?: number[];
+	parent?: number;
+	type?: string;
+	priority?: number;
+	labels?: string[];
+}
+
+/** Batch indexes as "Issue i: title", for payloads that are created by hand. */
+function batchRefs(indexes: number[], titles: string[]): string[] {
+	return indexes.map((index) => (titles[index] ? `Issue ${index}: ${titles[index]}` : `issue index ${index}`));
+}
+
+/** blocked_by and parent must point to earlier issues, so each exists before the issues that reference it. */
+function batchOrderErrors(issues: BatchIssue[]): string[] {
+	const errors: string[] = [];
+	issues.forEach((issue, index) => {
+		for (const blocker of issue.blocked_by ?? []) {
+			if (!Number.isInteger(blocker) || blocker < 0 || blocker >= index) errors.push(`Issue ${index} (${issue.title}) is blocked by index ${blocker}, which is not an earlier issue`);
+		}
+		if (issue.parent !== undefined && (!Number.isInteger(issue.parent) || issue.parent < 0 || issue.parent >= index)) errors.push(`Issue ${index} (${issue.title}) has parent index ${issue.parent}, which is not an earlier issue`);
 	});
-	const data: any = await response.json().catch(() => ({}));
-	if (!response.ok) throw new Error(`Linear API HTTP ${response.status}: ${JSON.stringify(data)}`);
-	if (data.errors?.length) throw new Error(`Linear API error: ${data.errors.map((e: any) => e.message).join("; ")}`);
-	return data.data as T;
-}
-
-async function getTeamId(token: string, input: { teamId?: string; teamKey?: string }): Promise<{ teamId: string; teamKey?: string; teamName?: string }> {
-	if (input.teamId) return { teamId: input.teamId, teamKey: input.teamKey };
-	if (!input.teamKey) throw new Error("Missing Linear teamKey/teamId association");
-	const data = await linearGraphql<{ teams: { nodes: Array<{ id: string; key: string; name: string }> } }>(
-		token,
-		`query ResolveTeam($key: String!) { teams(filter: { key: { eq: $key } }) { nodes { id key name } } }`,
-		{ key: input.teamKey },
-	);
-	const team = data.teams.nodes[0];
-	if (!team) throw new Error(`Linear team not found for key ${input.teamKey}`);
-	return { teamId: team.id, teamKey: team.key, teamName: team.name };
-}
-
-async function readIssue(token: string, id: string): Promise<CreatedIssue> {
-	const data = await linearGraphql<{ issue: CreatedIssue | null }>(
-		token,
-		`query ReadIssue($id: String!) { issue(id: $id) { id identifier url title } }`,
-		{ id },
-	);
-	if (!data.issue?.id || !data.issue.identifier || !data.issue.url) throw new Error(`Linear readback failed for issue ${id}`);
-	return data.issue;
-}
-
-async function createLinearIssue(token: string, payload: LinearIssuePayload): Promise<CreatedIssue> {
-	const team = await getTeamId(token, payload);
-	const input: Record<string, unknown> = {
-		teamId: team.teamId,
-		title: payload.title,
-		description: payload.description ?? "",
-	};
-	if (payload.projectId) input.projectId = payload.projectId;
-	if (payload.stateId) input.stateId = payload.stateId;
-	if (payload.assigneeId) input.assigneeId = payload.assigneeId;
-	if (payload.parentId) input.parentId = payload.parentId;
-	if (payload.labelIds?.length) input.labelIds = payload.labelIds;
-	if (typeof payload.priority === "number") input.priority = payload.priority;
-
-	const created = await linearGraphql<{ issueCreate: { success: boolean; issue: { id: string } | null } }>(
-		token,
-		`mutation CreateIssue($input: IssueCreateInput!) { issueCreate(input: $input) { success issue { id } } }`,
-		{ input },
-	);
-	const id = created.issueCreate.issue?.id;
-	if (!created.issueCreate.success || !id) throw new Error("Linear issueCreate did not return a created issue id");
-	return readIssue(token, id);
-}
-
-function issuePayloadFromParams(params: any, association: LinearAssociation): LinearIssuePayload {
+	return errors;
+}
+
+/**
+ * Issue body plus generated sections. Payloads carry blockers and the parent
+ * as text; created issues get native relations instead and omit both.
+ */
+function batchDescription(issue: BatchIssue, refs?: { blockers: string[]; parent?: string }): string {
+	const generated = [
+		refs?.parent ? `**Parent**: ${refs.parent}` : "",
+		issue.type ? `**Type**: ${issue.type}` : "",
+		issue.what_to_build ? `## What to build\n\n${issue.what_to_build}\n` : "",
+		formatAcceptance(issue.acceptance_criteria),
+		refs ? formatBlockedBy(refs.blockers) : "",
+	].filter(Boolean).join("\n");
+	return [issue.description, generated].filter(Boolean).join("\n\n");
+}
+
+function githubRepoName(github: GitHubAssociation): string {
+	return github.owner && github.repo ? `${github.owner}/${github.repo}` : "GitHub";
+}
+
+/** Tracker backend for a resolved tracker. Other/unknown trackers get Linear-shaped payloads, as before. */
+function backendKind(result: ResolveResult): TrackerBackendKind {
+	return result.tracker === "github" || result.tracker === "brain" ? result.tracker : "linear";
+}
+
+function linearDefaults(result: ResolveResult, params: { project_id?: string; state_id?: string; assignee_id?: string; parent_id?: string }): LinearIssueDefaults {
 	return {
-		title: params.title,
-		description: params.description,
-		teamKey: params.team_key ?? association.teamKey,
-		teamId: params.team_id ?? association.teamId,
-		projectId: params.project_id ?? association.projectId,
+		// Direct publish never guesses or overrides the project-local Linear team association.
+		teamKey: result.association.teamKey,
+		teamId: result.association.teamId,
+		projectId: params.project_id ?? result.association.projectId,
 		stateId: params.state_id,
 		assigneeId: params.assignee_id,
 		parentId: params.parent_id,
-		labelIds: params.label_ids,
-		priority: params.priority,
 	};
 }
 
-function formatAcceptance(criteria: string[] | undefined): string {
-	if (!criteria?.length) return "";
-	return ["## Acceptance criteria", "", ...criteria.map((criterion) => `- [ ] ${criterion.replace(/^\s*- \[ \]\s*/, "")}`), ""].join("\n");
+interface OpenedBackend {
+	backend?: TrackerBackend;
+	/** Where the auth came from, e.g. "env:LINEAR_API_KEY" */
+	source?: string;
 }
 
-function formatBlockedBy(blockers: string[]): string {
-	return ["## Blocked by", "", blockers.length ? blockers.map((blocker) => `- ${blocker}`).join("\n") : "None - can start immediately", ""].join("\n");
+/** Backend for direct publishing, or none when the resolver says payload only or auth is gone. */
+function openBackend(result: ResolveResult, defaults: LinearIssueDefaults): OpenedBackend {
+	if (result.publishMode === "brain_direct") return { backend: brainBackend(result.projectRoot), source: "files" };
+	if (result.publishMode === "github_direct") {
+		const token = getGitHubToken({ allowAgentSecrets: true });
+		return token.token ? { backend: githubBackend(token.token, result.github), source: token.source } : {};
+	}
+	if (result.publishMode === "linear_direct" && (defaults.teamKey || defaults.teamId)) {
+		const token = getLinearApiKey({ allowAgentSecrets: true, secretNames: result.authSecretNames });
+		return token.token ? { backend: linearBackend(token.token, defaults), source: token.source } : {};
+	}
+	return {};
+}
+
+function previewPayload(kind: TrackerBackendKind, input: TrackerIssueInput, defaults: LinearIssueDefaults): object {
+	if (kind === "linear") return linearPayload(input, defaults);
+	if (kind === "github") return githubPayload(input);
+	return input;
+}
+
+function withAuthSource(result: ResolveResult, source: string | undefined): ResolveResult {
+	return result.tracker === "linear" ? { ...result, capabilities: { ...result.capabilities, directApiKeySource: source } } : result;
+}
+
+/** GitHub "#12" is qualified with its repo; other identifiers stand alone. */
+function issueName(issue: TrackerIssue, github?: GitHubAssociation): string {
+	return github ? `${githubRepoName(github)}${issue.identifier}` : issue.identifier;
+}
+
+/**
+ * Backend and issue id for a mutation. Same lock as publishing: the resolver
+ * must allow direct writes, and Linear issues must belong to the project's
+ * team association (checked by the Linear backend before it writes).
+ */
+function mutationTarget(result: ResolveResult, ref: string, action: string): { backend: TrackerBackend; id: string; source?: string; github?: GitHubAssociation } | { refused: string } {
+	const name = TRACKER_NAMES[backendKind(result)];
+	const opened = openBackend(result, linearDefaults(result, {}));
+	if (!opened.backend) return { refused: [`${name} issue not ${action}.`, "", ...result.reasons.map((reason) => `- ${reason}`), ...result.nextActions.map((next) => `- ${next}`)].join("\n") };
+	const id = opened.backend.resolve(ref);
+	if (!id) return { refused: `${name} issue not ${action}: ${ref} is not a ${name} issue reference.` };
+	return { backend: opened.backend, id, source: opened.source, github: result.tracker === "github" ? result.github : undefined };
+}
+
+interface CommitRef {
+	sha: string;
+	subject: string;
+	url?: string;
+}
+
+/** A local commit, with its GitHub URL when the project has a GitHub remote. */
+function resolveCommit(projectRoot: string, ref: string): CommitRef {
+	const git = (args: string[]) => execFileSync("git", ["-C", projectRoot, ...args], {
+		encoding: "utf-8",
+		stdio: ["ignore", "pipe", "ignore"],
+		timeout: 3_000,
+	}).trim();
+	let sha: string;
+	try {
+		sha = git(["rev-parse", "--verify", `${ref}^{commit}`]);
+	} catch {
+		throw new Error(`Unknown commit in ${projectRoot}: ${ref}`);
+	}
+	const github = resolveGitHubRepo(projectRoot);
+	return {
+		sha,
+		subject: git(["log", "-1", "--format=%s", sha]),
+		url: github.owner && github.repo ? `https://github.com/${github.owner}/${github.repo}/commit/${sha}` : undefined,
+	};
+}
+
+function formatCommit(commit: CommitRef): string {
+	const short = `\`${commit.sha.slice(0, 7)}\``;
+	return `Commit ${commit.url ? `[${short}](${commit.url})` : short}: ${commit.subject}`;
+}
+
+interface DuplicateCandidates {
+	title: string;
+	matches: Array<{ issue: TrackerIssue; score: number }>;
+}
+
+function formatMatch(match: { issue: TrackerIssue; score: number }, github?: GitHubAssociation): string {
+	return `- ${issueName(match.issue, github)} (${match.score.toFixed(2)}) ${match.issue.title}: ${match.issue.url}`;
 }
 
-function renderPayload(payload: LinearIssuePayload): string {
-	return JSON.stringify({
-		title: payload.title,
-		description: payload.description,
-		teamKey: payload.teamKey,
-		teamId: payload.teamId,
-		projectId: payload.projectId,
-		stateId: payload.stateId,
-		assigneeId: payload.assigneeId,
-		parentId: payload.parentId,
-		labelIds: payload.labelIds,
-		priority: payload.priority,
-	}, null, 2);
+/**
+ * Pre-create duplicate check against the tracker's open issues. Returns a
+ * refusal when any input looks like an open issue or the check itself fails,
+ * so re-running a planning session does not spam the board.
+ */
+async function checkDuplicates(backend: TrackerBackend, inputs: TrackerIssueInput[], github?: GitHubAssociation): Promise<{ refused?: string; duplicates: DuplicateCandidates[] }> {
+	const name = TRACKER_NAMES[backend.kind];
+	let open: TrackerIssue[];
+	try {
+		// Every open issue: a duplicate past the first page is still a duplicate
+		open = await backend.search("", { limit: Number.POSITIVE_INFINITY });
+	} catch (error: any) {
+		return { refused: `${name} duplicate check failed; nothing created.\n\n${error.message}\n\nPass force: true to create without the check.`, duplicates: [] };
+	}
+	const duplicates = inputs
+		.map((input) => ({ title: input.title, matches: rankSimilar(input, open, DUPLICATE_THRESHOLD).slice(0, MAX_DUPLICATE_CANDIDATES) }))
+		.filter((candidate) => candidate.matches.length > 0);
+	if (!duplicates.length) return { duplicates };
+
+	const lines = [`${name} ${inputs.length === 1 ? "issue" : "issues"} not created: likely duplicates of open issues.`, ""];
+	for (const candidate of duplicates) {
+		if (inputs.length > 1) lines.push(`${candidate.title}:`);
+		lines.push(...candidate.matches.map((match) => formatMatch(match, github)));
+	}
+	lines.push("", "Update or comment on the existing issues instead, or pass force: true to create anyway.");
+	return { refused: lines.join("\n"), duplicates };
+}
+
+async function fetchIssue(backend: TrackerBackend, id: string, github?: GitHubAssociation) {
+	try {
+		const issue = await backend.read(id);
+		return text(`${issueName(issue, github)}: ${issue.title}\n${issue.url}`, { found: true, issue });
+	} catch (error: any) {
+		return text(`${TRACKER_NAMES[backend.kind]} issue fetch failed: ${error.message}`, { found: false, error: error.message });
+	}
 }
 
 export default function linearTracker(pi: ExtensionAPI) {
@@ -678,7 +824,10 @@ export default function linearTracker(pi: ExtensionAPI) {
 			"When publishing or planning issues, use `linear_tracker_resolve` before assuming Linear. " +
 			"Linear requires project-local routing policy plus a Linear team association plus auth. " +
 			"Global Linear MCP/auth is capability only, not routing. If the resolver returns payload_only/not_linear/unknown, obey it and do not claim Linear publishing happened. " +
-			"Use `linear_tracker_create_issue` or `linear_tracker_create_issues` only when resolver allows direct Linear publishing; both tools verify created issues by readback before returning URLs.",
+			"Use `linear_tracker_create_issue` or `linear_tracker_create_issues` only when resolver allows direct Linear publishing; both tools verify created issues by readback before returning URLs. " +
+			"When the resolver returns github_direct, the same tools publish to the project's GitHub repo instead; brain_direct writes .brain/issues/*.svx files. " +
+			"Close the loop with `linear_tracker_transition` (state by name, optionally linking the commit), `linear_tracker_update_issue` and `linear_tracker_comment`; they obey the same lock. " +
+			"Search first with `linear_tracker_search`; the create tools refuse likely duplicates of open issues unless force: true.",
 	}));
 
 	pi.registerTool({
@@ -688,6 +837,7 @@ export default function linearTracker(pi: ExtensionAPI) {
 			"Resolve the current project's issue tracker policy before publishing issues. " +
 			"Reads nearest project-local AGENTS.md/CLAUDE.md/.pi/APPEND_SYSTEM.md/.pi/settings.json/.brain/*.svx, plus legacy docs/agents/issue-tracker.md and supporting local skills. " +
 			"Returns whether Linear is allowed, whether a team association exists, whether auth/MCP exists, and whether to publish or payload-only. " +
+			"For GitHub Issues policy it returns the repo from the git remote and github_direct when a GitHub token exists; Brain policy returns brain_direct. " +
 			"Use this before creating Linear issues. Never infer Linear from global auth alone.",
 		parameters: Type.Object({
 			cwd: Type.Optional(Type.String({ description: "Project directory to resolve from. Defaults to current tool cwd." })),
@@ -712,6 +862,8 @@ export default function linearTracker(pi: ExtensionAPI) {
 		description:
 			"Create one Linear issue only after project-local resolver policy allows Linear. " +
 			"Requires Linear teamKey/teamId from project-local policy and direct API auth via LINEAR_API_KEY or agent-secrets. " +
+			"When policy says GitHub Issues, creates the issue in the git remote's repo with GITHUB_TOKEN or agent-secrets auth instead; when it says Brain, writes .brain/issues/<slug>.svx. " +
+			"Refuses when an open issue looks like a duplicate unless force is true. " +
 			"Verifies the created issue by readback before returning identifier and URL. If policy/auth/association is missing, returns payload only and creates nothing.",
 		parameters: Type.Object({
 			cwd: Type.Optional(Type.String({ description: "Project directory to resolve policy from. Defaults to current tool cwd." })),
@@ -726,26 +878,40 @@ export default function linearTracker(pi: ExtensionAPI) {
 			parent_id: Type.Optional(Type.String({ description: "Optional parent Linear issue ID." })),
 			label_ids: Type.Optional(Type.Array(Type.String(), { description: "Optional Linear label IDs." })),
 			priority: Type.Optional(Type.Number({ description: "Optional Linear priority number." })),
+			labels: Type.Optional(Type.Array(Type.String(), { description: "GitHub label names." })),
+			milestone: Type.Optional(Type.Union([Type.String(), Type.Number()], { description: "GitHub milestone title or number." })),
+			force: Type.Optional(Type.Boolean({ description: "Create even when an open issue looks like a duplicate. Default false." })),
 		}),
 		async execute(_id, params, _signal, _onUpdate, ctx) {
 			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: true, allowAgentSecrets: true });
-			const payload = issuePayloadFromParams(params, result.association);
-			const token = getLinearApiKey({ allowAgentSecrets: true, secretNames: result.authSecretNames });
-			// Direct publish never guesses or overrides the project-local Linear team association.
-			payload.teamKey = result.association.teamKey;
-			payload.teamId = result.association.teamId;
-			payload.projectId ||= result.association.projectId;
+			const kind = backendKind(result);
+			const defaults = linearDefaults(result, params);
+			const input: TrackerIssueInput = {
+				title: params.title,
+				description: params.description,
+				labels: kind === "linear" ? params.label_ids : params.labels,
+				priority: params.priority,
+				milestone: params.milestone,
+			};
+			const payload = previewPayload(kind, input, defaults);
+			const opened: OpenedBackend = params.dry_run ? {} : openBackend(result, defaults);
 
-			if (params.dry_run || result.publishMode !== "linear_direct" || !token.token || !(payload.teamKey || payload.teamId)) {
+			if (!opened.backend) {
 				const reasons = params.dry_run ? ["dry_run=true"] : result.reasons;
-				return text(["Linear issue not created. Payload only.", "", ...reasons.map((reason) => `- ${reason}`), "", "Payload:", renderPayload(payload)].join("\n"), { created: false, payload, resolver: result });
+				return text([`${TRACKER_NAMES[kind]} issue not created. Payload only.`, "", ...reasons.map((reason) => `- ${reason}`), "", "Payload:", JSON.stringify(payload, null, 2)].join("\n"), { created: false, payload, resolver: result });
+			}
+
+			const github = kind === "github" ? result.github : undefined;
+			if (!params.force) {
+				const check = await checkDuplicates(opened.backend, [input], github);
+				if (check.refused) return text(check.refused, { created: false, duplicates: check.duplicates, payload, resolver: result });
 			}
 
 			try {
-				const issue = await createLinearIssue(token.token, payload);
-				return text(`Created and verified ${issue.identifier}: ${issue.url}`, { created: true, issue, resolver: { ...result, capabilities: { ...result.capabilities, directApiKeySource: token.source } } });
+				const issue = await opened.backend.create(input);
+				return text(`Created and verified ${issueName(issue, github)}: ${issue.url}`, { created: true, issue, resolver: withAuthSource(result, opened.source) });
 			} catch (error: any) {
-				return text(`Linear create failed; no verified issue URL claimed.\n\n${error.message}\n\nPayload:\n${renderPayload(payload)}`, { created: false, error: error.message, payload, resolver: result });
+				return text(`${TRACKER_NAMES[kind]} create failed; no verified issue URL claimed.\n\n${error.message}\n\nPayload:\n${JSON.stringify(payload, null, 2)}`, { created: false, error: error.message, payload, resolver: result });
 			}
 		},
 		renderCall(args, theme) {
@@ -757,8 +923,9 @@ export default function linearTracker(pi: ExtensionAPI) {
 		name: "linear_tracker_create_issues",
 		label: "Linear: Create Issues",
 		description:
-			"Create a dependency-ordered batch of Linear issues after resolver policy allows Linear. " +
-			"Each issue is independently grabbable and verified by readback. If Linear is not allowed/ready, returns ready-to-paste payloads and creates nothing.",
+			"Create a dependency-ordered batch of Linear issues after resolver policy allows Linear, or of GitHub or Brain issues when policy says so. " +
+			"Each issue is independently grabbable and verified by readback. blocked_by becomes native blocking relations (Linear issue relations, Brain blockers, GitHub \"Blocked by #N\" comments) and parent becomes a sub-issue, each verified by readback. " +
+			"Refuses the whole batch when any issue looks like an open one unless force is true. If the tracker is not allowed/ready, returns ready-to-paste payloads and creates nothing.",
 		parameters: Type.Object({
 			cwd: Type.Optional(Type.String({ description: "Project directory to resolve policy from. Defaults to current tool cwd." })),
 			dry_run: Type.Optional(Type.Boolean({ description: "Return payloads without creating. Default false." })),
@@ -767,64 +934,72 @@ export default function linearTracker(pi: ExtensionAPI) {
 			project_id: Type.Optional(Type.String({ description: "Optional Linear project ID. Overrides project policy." })),
 			parent_id: Type.Optional(Type.String({ description: "Optional parent Linear issue ID for all issues." })),
 			label_ids: Type.Optional(Type.Array(Type.String(), { description: "Optional Linear label IDs for all issues." })),
+			labels: Type.Optional(Type.Array(Type.String(), { description: "GitHub label names for all issues." })),
+			milestone: Type.Optional(Type.Union([Type.String(), Type.Number()], { description: "GitHub milestone title or number for all issues." })),
+			force: Type.Optional(Type.Boolean({ description: "Create even when open issues look like duplicates. Default false." })),
 			issues: Type.Array(Type.Object({
 				title: Type.String({ description: "Linear issue title." }),
 				what_to_build: Type.Optional(Type.String({ description: "Concise vertical-slice behavior." })),
 				description: Type.Optional(Type.String({ description: "Full issue body. If provided, used before generated sections." })),
 				acceptance_criteria: Type.Optional(Type.Array(Type.String(), { description: "Acceptance criteria." })),
 				blocked_by: Type.Optional(Type.Array(Type.Number(), { description: "Zero-based indexes of prior issues that block this one." })),
+				parent: Type.Optional(Type.Number({ description: "Zero-based index of a prior issue to create this one under, as a sub-issue. Overrides parent_id." })),
 				type: Type.Optional(Type.String({ description: "HITL or AFK marker, included in body." })),
 				priority: Type.Optional(Type.Number({ description: "Optional Linear priority number." })),
-			}), { description: "Issues in dependency order. blocked_by indexes must point to earlier issues." }),
+				labels: Type.Optional(Type.Array(Type.String(), { description: "Extra GitHub label names for this issue." })),
+			}), { description: "Issues in dependency order. blocked_by and parent indexes must point to earlier issues." }),
 		}),
 		async execute(_id, params, _signal, _onUpdate, ctx) {
 			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: true, allowAgentSecrets: true });
-			const token = getLinearApiKey({ allowAgentSecrets: true, secretNames: result.authSecretNames });
-			const base = {
-				// Direct publish never guesses or overrides the project-local Linear team association.
-				teamKey: result.association.teamKey,
-				teamId: result.association.teamId,
-				projectId: params.project_id ?? result.association.projectId,
-				parentId: params.parent_id,
-				labelIds: params.label_ids,
-			};
-
-			const created: CreatedIssue[] = [];
-			const payloads: LinearIssuePayload[] = [];
-			for (let index = 0; index < params.issues.length; index++) {
-				const issue = params.issues[index];
-				const blockers = (issue.blocked_by ?? []).map((blockerIndex: number) => created[blockerIndex] ? `${created[blockerIndex].identifier} ${created[blockerIndex].url}` : payloads[blockerIndex]?.title ? `Issue ${blockerIndex}: ${payloads[blockerIndex].title}` : `issue index ${blockerIndex}`);
-				const generated = [
-					issue.type ? `**Type**: ${issue.type}` : "",
-					issue.what_to_build ? `## What to build\n\n${issue.what_to_build}\n` : "",
-					formatAcceptance(issue.acceptance_criteria),
-					formatBlockedBy(blockers),
-				].filter(Boolean).join("\n");
-				payloads.push({
-					title: issue.title,
-					description: [issue.description, generated].filter(Boolean).join("\n\n"),
-					teamKey: base.teamKey,
-					teamId: base.teamId,
-					projectId: base.projectId,
-					parentId: base.parentId,
-					labelIds: base.labelIds,
-					priority: issue.priority,
-				});
+			const kind = backendKind(result);
+			const defaults = linearDefaults(result, params);
+			const titles = params.issues.map((issue) => issue.title);
+			const orderErrors = batchOrderErrors(params.issues);
+			if (orderErrors.length) {
+				return text([`${TRACKER_NAMES[kind]} issues not created: the batch is out of order.`, "", ...orderErrors.map((error) => `- ${error}`), "", "List blockers and parents before the issues that reference them."].join("\n"), { created: false, errors: orderErrors, resolver: result });
 			}
+			// Without created issues (payloads, duplicate check) relations stay in the body as titles
+			const batchInput = (issue: BatchIssue, created?: TrackerIssue[]): TrackerIssueInput => ({
+				title: issue.title,
+				description: batchDescription(issue, created ? undefined : { blockers: batchRefs(issue.blocked_by ?? [], titles), parent: issue.parent !== undefined ? batchRefs([issue.parent], titles)[0] : undefined }),
+				labels: kind === "linear" ? params.label_ids : unique([...(params.labels ?? []), ...(issue.labels ?? [])]),
+				priority: issue.priority,
+				parent: issue.parent !== undefined ? created?.[issue.parent]?.id : undefined,
+				milestone: params.milestone,
+			});
+			const payloads = params.issues.map((issue) => previewPayload(kind, batchInput(issue), defaults));
+			const opened: OpenedBackend = params.dry_run ? {} : openBackend(result, defaults);
 
-			if (params.dry_run || result.publishMode !== "linear_direct" || !token.token || !(base.teamKey || base.teamId)) {
+			if (!opened.backend) {
 				const reasons = params.dry_run ? ["dry_run=true"] : result.reasons;
-				return text(["Linear issues not created. Payloads only.", "", ...reasons.map((reason) => `- ${reason}`), "", "Payloads:", JSON.stringify(payloads, null, 2)].join("\n"), { created: false, payloads, resolver: result });
+				return text([`${TRACKER_NAMES[kind]} issues not created. Payloads only.`, "", ...reasons.map((reason) => `- ${reason}`), "", "Payloads:", JSON.stringify(payloads, null, 2)].join("\n"), { created: false, payloads, resolver: result });
+			}
+
+			if (!params.force) {
+				const check = await checkDuplicates(opened.backend, params.issues.map((issue) => batchInput(issue, [])), kind === "github" ? result.github : undefined);
+				if (check.refused) return text(check.refused, { created: false, duplicates: check.duplicates, payloads, resolver: result });
 			}
 
+			const created: TrackerIssue[] = [];
 			try {
-				for (const payload of payloads) {
-					const issue = await createLinearIssue(token.token, payload);
-					created.push(issue);
+				// Parents and blockers exist by the time each issue is created, so relations point at real issues
+				for (const issue of params.issues) {
+					const createdIssue = await opened.backend.create(batchInput(issue, created));
+					created.push(createdIssue);
+					for (const blocker of issue.blocked_by ?? []) await opened.backend.link(created[blocker].id, createdIssue.id, "blocks");
 				}
-				return text(["Created and verified Linear issues:", "", ...created.map((issue) => `- ${issue.identifier}: ${issue.url}`)].join("\n"), { created: true, issues: created, resolver: { ...result, capabilities: { ...result.capabilities, directApiKeySource: token.source } } });
+				const relations = (issue: BatchIssue) => [
+					issue.parent !== undefined ? `sub-issue of ${created[issue.parent].identifier}` : "",
+					issue.blocked_by?.length ? `blocked by ${issue.blocked_by.map((blocker) => created[blocker].identifier).join(", ")}` : "",
+				].filter(Boolean).join("; ");
+				const lines = params.issues.map((issue, index) => {
+					const note = relations(issue);
+					return `- ${created[index].identifier}: ${created[index].url}${note ? ` (${note})` : ""}`;
+				});
+				const target = kind === "github" ? githubRepoName(result.github) : TRACKER_NAMES[kind];
+				return text([`Created and verified ${target} issues:`, "", ...lines].join("\n"), { created: true, issues: created, resolver: withAuthSource(result, opened.source) });
 			} catch (error: any) {
-				return text(`Linear batch create failed; only verified issues are returned.\n\n${error.message}\n\nVerified before failure:\n${created.map((issue) => `- ${issue.identifier}: ${issue.url}`).join("\n") || "None"}\n\nRemaining payloads may need manual handling.`, { created: false, error: error.message, issues: created, payloads, resolver: result });
+				return text(`${TRACKER_NAMES[kind]} batch create failed; only verified issues are returned.\n\n${error.message}\n\nVerified before failure:\n${created.map((issue) => `- ${issue.identifier}: ${issue.url}`).join("\n") || "None"}\n\nRemaining payloads may need manual handling.`, { created: false, error: error.message, issues: created, payloads, resolver: result });
 			}
 		},
 		renderCall(args, theme) {
@@ -832,24 +1007,187 @@ export default function linearTracker(pi: ExtensionAPI) {
 		},
 	});
 
+	pi.registerTool({
+		name: "linear_tracker_search",
+		label: "Linear: Search Issues",
+		description:
+			"Search the project's tracker for issues like a planned one before creating it. " +
+			"Fuzzy title plus description similarity over the open issues of the project's Linear team, GitHub repo, or Brain issue files. " +
+			`Returns candidates scored 0-1; create_issue(s) treat ${DUPLICATE_THRESHOLD} and up as duplicates.`,
+		parameters: Type.Object({
+			cwd: Type.Optional(Type.String({ description: "Project directory to resolve policy from. Defaults to current tool cwd." })),
+			query: Type.String({ description: "Planned issue title, or words to look for." }),
+			description: Type.Optional(Type.String({ description: "Planned issue body, compared as well." })),
+			include_closed: Type.Optional(Type.Boolean({ description: "Also search done/closed/canceled issues. Default false." })),
+			limit: Type.Optional(Type.Number({ description: "Max candidates. Default 10." })),
+		}),
+		async execute(_id, params, _signal, _onUpdate, ctx) {
+			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: false, allowAgentSecrets: true });
+			const name = TRACKER_NAMES[backendKind(result)];
+			const opened = openBackend(result, linearDefaults(result, {}));
+			if (!opened.backend) return text([`${name} issues not searched.`, "", ...result.reasons.map((reason) => `- ${reason}`), ...result.nextActions.map((next) => `- ${next}`)].join("\n"), { found: false, resolver: result });
+			const github = result.tracker === "github" ? result.github : undefined;
+			const scope = params.include_closed ? "" : "open ";
+			try {
+				const issues = await opened.backend.search("", { includeClosed: params.include_closed, limit: Number.POSITIVE_INFINITY });
+				const matches = rankSimilar({ title: params.query, description: params.description }, issues, SEARCH_THRESHOLD, searchScore).slice(0, params.limit ?? 10);
+				if (!matches.length) return text(`No ${scope}${name} issues like "${params.query}" among ${issues.length} searched.`, { found: false, matches });
+				return text([`${params.include_closed ? name : `Open ${name}`} issues like "${params.query}":`, "", ...matches.map((match) => formatMatch(match, github))].join("\n"), { found: true, matches });
+			} catch (error: any) {
+				return text(`${name} search failed: ${error.message}`, { found: false, error: error.message });
+			}
+		},
+		renderCall(args, theme) {
+			return new Text(theme.fg("toolTitle", theme.bold("linear search ")) + theme.fg("accent", args.query || ""), 0, 0);
+		},
+	});
+
 	pi.registerTool({
 		name: "linear_tracker_get_issue",
 		label: "Linear: Get Issue",
-		description: "Fetch a Linear issue by id/identifier/url using direct Linear API auth. Use for readback verification before claiming publish succeeded.",
+		description: "Fetch an issue for readback verification before claiming publish succeeded: a Linear issue by id/identifier/url, a GitHub issue by URL or #number in GitHub Issues projects, or a Brain issue by identifier or .brain/issues path.",
 		parameters: Type.Object({
-			id: Type.String({ description: "Linear issue id, identifier, or URL." }),
+			id: Type.String({ description: "Linear issue id, identifier, or URL; GitHub issue URL or #number; or Brain identifier/path." }),
+			cwd: Type.Optional(Type.String({ description: "Project directory to resolve the tracker from. Defaults to current tool cwd." })),
 		}),
-		async execute(_id, params) {
-			const token = getLinearApiKey({ allowAgentSecrets: true });
+		async execute(_id, params, _signal, _onUpdate, ctx) {
+			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: false, allowAgentSecrets: false });
+			if (result.tracker === "brain") {
+				const brain = brainBackend(result.projectRoot);
+				const id = brain.resolve(params.id);
+				if (id) return fetchIssue(brain, id);
+			}
+			const githubUrl = params.id.match(/github\.com\/([^/]+)\/([^/]+)\/issues\/\d+/i);
+			const github: GitHubAssociation | undefined = githubUrl ? { owner: githubUrl[1], repo: githubUrl[2] } : result.tracker === "github" ? result.github : undefined;
+			if (github && parseGitHubIssueRef(params.id) !== undefined) {
+				const token = getGitHubToken({ allowAgentSecrets: true });
+				if (!token.token) return text("No GitHub auth found. Set GITHUB_TOKEN/GH_TOKEN or agent-secrets github_token.", { found: false });
+				const backend = githubBackend(token.token, github);
+				const id = backend.resolve(params.id);
+				if (id) return fetchIssue(backend, id, github);
+			}
+			const token = getLinearApiKey({ allowAgentSecrets: true, secretNames: result.authSecretNames });
 			if (!token.token) return text("No Linear API auth found. Set LINEAR_API_KEY, project-local agent-secrets name, rubicon:linear_api_key, or linear_api_key.", { found: false });
-			const id = String(params.id).split("/").filter(Boolean).pop() ?? params.id;
+			const backend = linearBackend(token.token);
+			return fetchIssue(backend, backend.resolve(params.id) ?? params.id);
+		},
+	});
+
+	pi.registerTool({
+		name: "linear_tracker_update_issue",
+		label: "Linear: Update Issue",
+		description:
+			"Update an existing issue's title, description, labels, priority or state after resolver policy allows direct publishing. " +
+			"Linear issues must belong to the project-local team association; states are resolved by name through the team's workflow states. " +
+			"Verifies the change by readback before reporting it. If policy/auth/association is missing, changes nothing.",
+		parameters: Type.Object({
+			cwd: Type.Optional(Type.String({ description: "Project directory to resolve policy from. Defaults to current tool cwd." })),
+			id: Type.String({ description: "Issue id, identifier, or URL: Linear WZR-12, GitHub #12, or Brain BRAIN-3." }),
+			title: Type.Optional(Type.String({ description: "New title." })),
+			description: Type.Optional(Type.String({ description: "New Markdown body. Replaces the current body." })),
+			state: Type.Optional(Type.String({ description: "Workflow state name, e.g. \"In Progress\" or \"Done\"." })),
+			priority: Type.Optional(Type.Number({ description: "Linear priority number." })),
+			label_ids: Type.Optional(Type.Array(Type.String(), { description: "Linear label IDs. Replaces the current labels." })),
+			labels: Type.Optional(Type.Array(Type.String(), { description: "GitHub or Brain label names. Replaces the current labels." })),
+		}),
+		async execute(_id, params, _signal, _onUpdate, ctx) {
+			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: false, allowAgentSecrets: true });
+			const target = mutationTarget(result, params.id, "updated");
+			if ("refused" in target) return text(target.refused, { updated: false, resolver: result });
+			const name = TRACKER_NAMES[target.backend.kind];
+			const patch: TrackerIssueUpdate = {
+				title: params.title,
+				description: params.description,
+				state: params.state,
+				priority: params.priority,
+				labels: target.backend.kind === "linear" ? params.label_ids : params.labels,
+			};
+			if (Object.values(patch).every((value) => value === undefined)) return text(`${name} issue not updated: nothing to change.`, { updated: false });
+
+			try {
+				const issue = await target.backend.update(target.id, patch);
+				return text(`Updated and verified ${issueName(issue, target.github)}${issue.state ? ` (${issue.state})` : ""}: ${issue.url}`, { updated: true, issue, resolver: withAuthSource(result, target.source) });
+			} catch (error: any) {
+				return text(`${name} update failed; no change claimed.\n\n${error.message}`, { updated: false, error: error.message, patch, resolver: result });
+			}
+		},
+		renderCall(args, theme) {
+			return new Text(theme.fg("toolTitle", theme.bold("linear update ")) + theme.fg("accent", args.id || "issue"), 0, 0);
+		},
+	});
+
+	pi.registerTool({
+		name: "linear_tracker_comment",
+		label: "Linear: Comment",
+		description:
+			"Post a Markdown comment on an existing issue after resolver policy allows direct publishing. " +
+			"Linear issues must belong to the project-local team association. Verifies the comment by readback before returning its URL.",
+		parameters: Type.Object({
+			cwd: Type.Optional(Type.String({ description: "Project directory to resolve policy from. Defaults to current tool cwd." })),
+			id: Type.String({ description: "Issue id, identifier, or URL: Linear WZR-12, GitHub #12, or Brain BRAIN-3." }),
+			body: Type.String({ description: "Comment body in Markdown." }),
+		}),
+		async execute(_id, params, _signal, _onUpdate, ctx) {
+			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: false, allowAgentSecrets: true });
+			const target = mutationTarget(result, params.id, "commented on");
+			if ("refused" in target) return text(target.refused, { commented: false, resolver: result });
 			try {
-				const issue = await readIssue(token.token, id);
-				return text(`${issue.identifier}: ${issue.title}\n${issue.url}`, { found: true, issue });
+				const comment = await target.backend.comment(target.id, params.body);
+				return text(`Commented and verified on ${params.id}: ${comment.url}`, { commented: true, comment, resolver: withAuthSource(result, target.source) });
 			} catch (error: any) {
-				return text(`Linear issue fetch failed: ${error.message}`, { found: false, error: error.message });
+				return text(`${TRACKER_NAMES[target.backend.kind]} comment failed; no comment claimed.\n\n${error.message}`, { commented: false, error: error.message, resolver: result });
 			}
 		},
+		renderCall(args, theme) {
+			return new Text(theme.fg("toolTitle", theme.bold("linear comment ")) + theme.fg("accent", args.id || "issue"), 0, 0);
+		},
+	});
+
+	pi.registerTool({
+		name: "linear_tracker_transition",
+		label: "Linear: Transition",
+		description:
+			"Move an issue to a workflow state by name (\"In Progress\", \"Done\") after resolver policy allows direct publishing, optionally linking the commit that finished it. " +
+			"Linear states are resolved through the team's states query; GitHub maps done/canceled to closed and others to open. " +
+			"Verifies the new state and any commit comment by readback.",
+		parameters: Type.Object({
+			cwd: Type.Optional(Type.String({ description: "Project directory to resolve policy and commits from. Defaults to current tool cwd." })),
+			id: Type.String({ description: "Issue id, identifier, or URL: Linear WZR-12, GitHub #12, or Brain BRAIN-3." }),
+			state: Type.String({ description: "Workflow state name, e.g. \"In Progress\" or \"Done\"." }),
+			commit: Type.Optional(Type.String({ description: "Commit SHA or ref to link, e.g. HEAD. Posted as a comment with its GitHub URL when the repo has one." })),
+			comment: Type.Optional(Type.String({ description: "Optional note posted with the transition." })),
+		}),
+		async execute(_id, params, _signal, _onUpdate, ctx) {
+			const result = resolveTracker(params.cwd ?? ctx.cwd, { includeEvidence: false, allowAgentSecrets: true });
+			const target = mutationTarget(result, params.id, "moved");
+			if ("refused" in target) return text(target.refused, { moved: false, resolver: result });
+			const name = TRACKER_NAMES[target.backend.kind];
+			let commit: CommitRef | undefined;
+			try {
+				commit = params.commit ? resolveCommit(result.projectRoot, params.commit) : undefined;
+			} catch (error: any) {
+				return text(`${name} issue not moved.\n\n${error.message}`, { moved: false, error: error.message });
+			}
+
+			let issue: TrackerIssue;
+			try {
+				issue = await target.backend.update(target.id, { state: params.state });
+			} catch (error: any) {
+				return text(`${name} transition failed; no state change claimed.\n\n${error.message}`, { moved: false, error: error.message, resolver: result });
+			}
+			const moved = `Moved and verified ${issueName(issue, target.github)} to ${issue.state}: ${issue.url}`;
+			const note = [params.comment, commit && formatCommit(commit)].filter(Boolean).join("\n\n");
+			if (!note) return text(moved, { moved: true, issue, resolver: withAuthSource(result, target.source) });
+			try {
+				const comment = await target.backend.comment(target.id, note);
+				return text(`${moved}\n${commit ? "Commit linked" : "Comment posted"}: ${comment.url}`, { moved: true, issue, comment, commit, resolver: withAuthSource(result, target.source) });
+			} catch (error: any) {
+				return text(`${moved}\n\nComment failed; commit not linked.\n\n${error.message}`, { moved: true, issue, commit, error: error.message, resolver: result });
+			}
+		},
+		renderCall(args, theme) {
+			return new Text(theme.fg("toolTitle", theme.bold("linear transition ")) + theme.fg("accent", `${args.id || "issue"} → ${args.state || "?"}`), 0, 0);
+		},
 	});
 
 	pi.registerCommand("linear-tracker", {
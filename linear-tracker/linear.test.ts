@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import linearTracker from "./index";
+import { linearBackend } from "./linear";
+
+const realFetch = globalThis.fetch;
+const savedKey = process.env.LINEAR_API_KEY;
+afterEach(() => {
+	globalThis.fetch = realFetch;
+	if (savedKey === undefined) delete process.env.LINEAR_API_KEY;
+	else process.env.LINEAR_API_KEY = savedKey;
+});
+
+/** Stubs the Linear GraphQL API, answering by operation name, and records each request. */
+function mockLinear(answer: (operation: string, variables: any) => unknown) {
+	const calls: Array<{ operation: string; variables: any }> = [];
+	globalThis.fetch = (async (_url: unknown, init?: RequestInit) => {
+		const { query, variables } = JSON.parse(String(init?.body));
+		const operation = String(query).match(/^(?:query|mutation) (\w+)/)![1];
+		calls.push({ operation, variables });
+		return new Response(JSON.stringify({ data: answer(operation, variables) }), { status: 200 });
+	}) as typeof fetch;
+	return calls;
+}
+
+const team = { id: "team-1", key: "WZR" };
+const linearIssue = (fields: Record<string, unknown> = {}) => ({
+	id: "issue-12",
+	identifier: "WZR-12",
+	url: "https://linear.app/wzrrd/issue/WZR-12",
+	title: "Ship jobs",
+	description: "",
+	state: { name: "Todo" },
+	labels: { nodes: [] },
+	labelIds: [],
+	team,
+	parent: null,
+	...fields,
+});
+const states = { issue: { team: { states: { nodes: [{ id: "state-todo", name: "Todo" }, { id: "state-done", name: "Done" }] } } } };
+
+describe("linear backend", () => {
+	test("update resolves the state on the issue's team and accepts Linear's Markdown rewrite", async () => {
+		let stored = linearIssue();
+		const calls = mockLinear((operation, variables) => {
+			if (operation === "ReadIssue") return { issue: stored };
+			if (operation === "IssueTeamStates") return states;
+			if (operation === "UpdateIssue") {
+				// Linear stores its own list markers, autolinks and escapes
+				stored = linearIssue({ state: { name: "Done" }, description: "* Queue runner\n* Retries\n\nSee <https://jobs.dev> for `cron\\_spec`", labelIds: variables.input.labelIds });
+				return { issueUpdate: { success: true } };
+			}
+			throw new Error(`unexpected ${operation}`);
+		});
+		const backend = linearBackend("token", { teamKey: "WZR" });
+
+		const updated = await backend.update("WZR-12", { state: "done", description: "- Queue runner\n- Retries\nSee https://jobs.dev for `cron_spec`", labels: ["label-1"] });
+
+		expect(updated.state).toBe("Done");
+		expect(calls.map((call) => call.operation)).toEqual(["ReadIssue", "IssueTeamStates", "UpdateIssue", "ReadIssue"]);
+		expect(calls[1].variables).toEqual({ id: "issue-12" });
+		expect(calls[2].variables).toEqual({
+			id: "issue-12",
+			input: { description: "- Queue runner\n- Retries\nSee https://jobs.dev for `cron_spec`", labelIds: ["label-1"], stateId: "state-done" },
+		});
+	});
+
+	test("update refuses unknown states, other teams' issues and lost edits", async () => {
+		let stored = linearIssue();
+		mockLinear((operation) => {
+			if (operation === "ReadIssue") return { issue: stored };
+			if (operation === "IssueTeamStates") return states;
+			if (operation === "UpdateIssue") return { issueUpdate: { success: true } };
+			throw new Error(`unexpected ${operation}`);
+		});
+
+		await expect(linearBackend("token", { teamKey: "WZR" }).update("WZR-12", { state: "Shipped" })).rejects.toThrow("Linear state not found: Shipped. Team states: Todo, Done");
+		await expect(linearBackend("token", { teamKey: "ABC" }).update("WZR-12", { title: "x" })).rejects.toThrow("WZR-12 belongs to Linear team WZR, not this project's team ABC");
+		// The mutation reports success but the readback still has the old body
+		stored = linearIssue({ description: "Old body" });
+		await expect(linearBackend("token", { teamKey: "WZR" }).update("WZR-12", { description: "New body" })).rejects.toThrow("Readback for WZR-12 does not match: description");
+	});
+
+	test("search pages through every open issue on the team", async () => {
+		const calls = mockLinear((operation, variables) => {
+			if (operation === "ResolveTeam") return { teams: { nodes: [{ id: "team-1", key: "WZR", name: "Wzrrd" }] } };
+			if (operation !== "SearchIssues") throw new Error(`unexpected ${operation}`);
+			return variables.after
+				? { issues: { nodes: [linearIssue({ id: "issue-300", identifier: "WZR-300" })], pageInfo: { hasNextPage: false, endCursor: "c2" } } }
+				: { issues: { nodes: [linearIssue()], pageInfo: { hasNextPage: true, endCursor: "c1" } } };
+		});
+
+		const issues = await linearBackend("token", { teamKey: "WZR" }).search("", { limit: Number.POSITIVE_INFINITY });
+
+		expect(issues.map((issue) => issue.identifier)).toEqual(["WZR-12", "WZR-300"]);
+		expect(calls.slice(1).map((call) => [call.variables.first, call.variables.after])).toEqual([[250, undefined], [250, "c1"]]);
+		expect(calls[1].variables.filter).toEqual({ team: { id: { eq: "team-1" } }, state: { type: { nin: ["completed", "canceled"] } } });
+	});
+
+	test("comment reads the comment back", async () => {
+		let readBody = "Halfway there\\. Next: *retries*";
+		const calls = mockLinear((operation) => {
+			if (operation === "ReadIssue") return { issue: linearIssue() };
+			if (operation === "CommentIssue") return { commentCreate: { success: true, comment: { id: "comment-1" } } };
+			if (operation === "ReadComment") return { comment: { id: "comment-1", url: "https://linear.app/c/1", body: readBody } };
+			throw new Error(`unexpected ${operation}`);
+		});
+		const backend = linearBackend("token", { teamKey: "WZR" });
+
+		expect(await backend.comment("WZR-12", "Halfway there. Next: _retries_")).toMatchObject({ id: "comment-1", url: "https://linear.app/c/1" });
+		expect(calls[1].variables).toEqual({ input: { issueId: "issue-12", body: "Halfway there. Next: _retries_" } });
+		readBody = "Something else";
+		await expect(backend.comment("WZR-12", "Halfway there.")).rejects.toThrow("Linear readback failed for comment on WZR-12");
+	});
+});
+
+/**
+ * A Linear workspace held in memory: issues are created, read back and
+ * related through the same operations the backend sends.
+ */
+function fakeWorkspace(options: { dropRelations?: boolean } = {}) {
+	const issues = new Map<string, any>();
+	const relations: Array<{ issueId: string; relatedIssueId: string; type: string }> = [];
+	const calls = mockLinear((operation, variables) => {
+		if (operation === "CreateIssue") {
+			const n = issues.size + 1;
+			const { teamId: _team, parentId, ...fields } = variables.input;
+			issues.set(`issue-${n}`, linearIssue({ ...fields, id: `issue-${n}`, identifier: `WZR-${n}`, url: `https://linear.app/wzrrd/issue/WZR-${n}`, parent: parentId ? { id: parentId } : null }));
+			return { issueCreate: { success: true, issue: { id: `issue-${n}` } } };
+		}
+		if (operation === "ReadIssue") return { issue: issues.get(variables.id) ?? [...issues.values()].find((issue) => issue.identifier === variables.id) ?? null };
+		if (operation === "LinkIssues") {
+			if (!options.dropRelations) relations.push(variables.input);
+			return { issueRelationCreate: { success: true } };
+		}
+		if (operation === "IssueRelations") {
+			const nodes = relations.filter((relation) => relation.issueId === variables.id).map((relation) => ({ type: relation.type, relatedIssue: { id: relation.relatedIssueId } }));
+			return { issue: { relations: { nodes } } };
+		}
+		if (operation === "ResolveTeam") return { teams: { nodes: [{ ...team, name: "Wzrrd" }] } };
+		if (operation === "SearchIssues") return { issues: { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } } };
+		throw new Error(`unexpected ${operation}`);
+	});
+	return { issues, relations, calls };
+}
+
+describe("linear relations", () => {
+	test("link creates a blocks relation between the two issue ids and reads it back", async () => {
+		const workspace = fakeWorkspace();
+		const backend = linearBackend("token", { teamId: "team-1" });
+		const blocker = await backend.create({ title: "Job schema" });
+		const blocked = await backend.create({ title: "Job runner", parent: blocker.id });
+
+		await backend.link(blocker.id, blocked.id, "blocks");
+
+		expect(blocked.parent).toBe("issue-1");
+		expect(workspace.calls.find((call) => call.operation === "CreateIssue" && call.variables.input.title === "Job runner")?.variables.input.parentId).toBe("issue-1");
+		expect(workspace.calls.find((call) => call.operation === "LinkIssues")?.variables).toEqual({ input: { issueId: "issue-1", relatedIssueId: "issue-2", type: "blocks" } });
+		expect(workspace.calls.at(-1)).toEqual({ operation: "IssueRelations", variables: { id: "issue-1" } });
+	});
+
+	test("link throws when the relation is missing on readback", async () => {
+		fakeWorkspace({ dropRelations: true });
+		const backend = linearBackend("token", { teamId: "team-1" });
+		const blocker = await backend.create({ title: "Job schema" });
+		const blocked = await backend.create({ title: "Job runner" });
+
+		await expect(backend.link(blocker.id, blocked.id, "blocks")).rejects.toThrow("Linear readback for WZR-1 is missing its blocks relation to WZR-2");
+	});
+
+	test("create_issues builds sub-issues and blocking relations in batch order", async () => {
+		const root = mkdtempSync(join(tmpdir(), "linear-tracker-test-"));
+		mkdirSync(join(root, ".pi"), { recursive: true });
+		writeFileSync(join(root, ".pi", "APPEND_SYSTEM.md"), "## Linear issue tracking\n\nThis project uses Linear for issues.\n\n- Team key: `WZR`\n- Team ID: `team-1`\n");
+		process.env.LINEAR_API_KEY = "test-key";
+		const tools: Record<string, any> = {};
+		linearTracker({ on() {}, registerTool: (tool: any) => { tools[tool.name] = tool; }, registerCommand() {} } as any);
+		const createIssues = async (params: Record<string, unknown>) => (await tools.linear_tracker_create_issues.execute("call", params, undefined, undefined, { cwd: root })).content[0].text as string;
+		const issues = [
+			{ title: "Background jobs" },
+			{ title: "Job schema", parent: 0 },
+			{ title: "Job runner", parent: 0, blocked_by: [1] },
+		];
+
+		const workspace = fakeWorkspace();
+		const created = await createIssues({ issues });
+		expect(created).toContain("- WZR-3: https://linear.app/wzrrd/issue/WZR-3 (sub-issue of WZR-1; blocked by WZR-2)");
+		expect(workspace.relations).toEqual([{ issueId: "issue-2", relatedIssueId: "issue-3", type: "blocks" }]);
+		expect(workspace.issues.get("issue-3").description).not.toContain("Blocked by");
+
+		fakeWorkspace({ dropRelations: true });
+		const failed = await createIssues({ issues });
+		expect(failed).toContain("Linear batch create failed");
+		expect(failed).toContain("Linear readback for WZR-2 is missing its blocks relation to WZR-3");
+	});
+});
@@ -0,0 +1,246 @@
+/**
+ * Linear backend — GraphQL create/read/update/search/link for a project's
+ * Linear team association. The resolver in index.ts decides whether Linear
+ * may be used at all; this module only talks to the API.
+ */
+
+import { sameMarkdown, type TrackerBackend, type TrackerComment, type TrackerIssue, type TrackerIssueInput, verifyReadback } from "./backend.js";
+
+const LINEAR_GRAPHQL_URL = "https://api.linear.app/graphql";
+const ISSUE_FIELDS = "id identifier url title description state { name } labels { nodes { name } } labelIds team { id key } parent { id }";
+const CLOSED_STATE_TYPES = ["completed", "canceled"];
+/** Linear's largest page */
+const SEARCH_PAGE_SIZE = 250;
+
+export interface LinearIssuePayload {
+	title: string;
+	description?: string;
+	teamKey?: string;
+	teamId?: string;
+	projectId?: string;
+	stateId?: string;
+	assigneeId?: string;
+	parentId?: string;
+	labelIds?: string[];
+	priority?: number;
+}
+
+/** Payload fields that come from the project association and tool params, not the issue. */
+export type LinearIssueDefaults = Pick<LinearIssuePayload, "teamKey" | "teamId" | "projectId" | "stateId" | "assigneeId" | "parentId" | "labelIds">;
+
+interface LinearIssue extends TrackerIssue {
+	labelIds: string[];
+	teamId?: string;
+	teamKey?: string;
+}
+
+export async function linearGraphql<T>(token: string, query: string, variables: Record<string, unknown>): Promise<T> {
+	const response = await fetch(LINEAR_GRAPHQL_URL, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: token,
+		},
+		body: JSON.stringify({ query, variables }),
+	});
+	const data: any = await response.json().catch(() => ({}));
+	if (!response.ok) throw new Error(`Linear API HTTP ${response.status}: ${JSON.stringify(data)}`);
+	if (data.errors?.length) throw new Error(`Linear API error: ${data.errors.map((e: any) => e.message).join("; ")}`);
+	return data.data as T;
+}
+
+export async function getTeamId(token: string, input: { teamId?: string; teamKey?: string }): Promise<{ teamId: string; teamKey?: string; teamName?: string }> {
+	if (input.teamId) return { teamId: input.teamId, teamKey: input.teamKey };
+	if (!input.teamKey) throw new Error("Missing Linear teamKey/teamId association");
+	const data = await linearGraphql<{ teams: { nodes: Array<{ id: string; key: string; name: string }> } }>(
+		token,
+		`query ResolveTeam($key: String!) { teams(filter: { key: { eq: $key } }) { nodes { id key name } } }`,
+		{ key: input.teamKey },
+	);
+	const team = data.teams.nodes[0];
+	if (!team) throw new Error(`Linear team not found for key ${input.teamKey}`);
+	return { teamId: team.id, teamKey: team.key, teamName: team.name };
+}
+
+function toIssue(data: any): LinearIssue {
+	return {
+		id: data.id,
+		identifier: data.identifier,
+		url: data.url,
+		title: data.title,
+		description: data.description ?? "",
+		state: data.state?.name,
+		labels: (data.labels?.nodes ?? []).map((label: any) => label.name),
+		labelIds: data.labelIds ?? [],
+		teamId: data.team?.id,
+		teamKey: data.team?.key,
+		parent: data.parent?.id,
+	};
+}
+
+async function readIssue(token: string, id: string): Promise<LinearIssue> {
+	const data = await linearGraphql<{ issue: any | null }>(
+		token,
+		`query ReadIssue($id: String!) { issue(id: $id) { ${ISSUE_FIELDS} } }`,
+		{ id },
+	);
+	if (!data.issue?.id || !data.issue.identifier || !data.issue.url) throw new Error(`Linear readback failed for issue ${id}`);
+	return toIssue(data.issue);
+}
+
+export function linearPayload(input: TrackerIssueInput, defaults: LinearIssueDefaults): LinearIssuePayload {
+	return {
+		title: input.title,
+		description: input.description,
+		teamKey: defaults.teamKey,
+		teamId: defaults.teamId,
+		projectId: defaults.projectId,
+		stateId: defaults.stateId,
+		assigneeId: defaults.assigneeId,
+		parentId: input.parent ?? defaults.parentId,
+		labelIds: input.labels ?? defaults.labelIds,
+		priority: input.priority,
+	};
+}
+
+async function createLinearIssue(token: string, payload: LinearIssuePayload): Promise<LinearIssue> {
+	const team = await getTeamId(token, payload);
+	const input: Record<string, unknown> = {
+		teamId: team.teamId,
+		title: payload.title,
+		description: payload.description ?? "",
+	};
+	if (payload.projectId) input.projectId = payload.projectId;
+	if (payload.stateId) input.stateId = payload.stateId;
+	if (payload.assigneeId) input.assigneeId = payload.assigneeId;
+	if (payload.parentId) input.parentId = payload.parentId;
+	if (payload.labelIds?.length) input.labelIds = payload.labelIds;
+	if (typeof payload.priority === "number") input.priority = payload.priority;
+
+	const created = await linearGraphql<{ issueCreate: { success: boolean; issue: { id: string } | null } }>(
+		token,
+		`mutation CreateIssue($input: IssueCreateInput!) { issueCreate(input: $input) { success issue { id } } }`,
+		{ input },
+	);
+	const id = created.issueCreate.issue?.id;
+	if (!created.issueCreate.success || !id) throw new Error("Linear issueCreate did not return a created issue id");
+	const issue = await readIssue(token, id);
+	verifyReadback(issue, { title: payload.title });
+	if (payload.parentId && !issue.parent) throw new Error(`Linear readback for ${issue.identifier} is missing its parent issue`);
+	return issue;
+}
+
+/** Workflow state id for a state name on the issue's team. */
+async function resolveStateId(token: string, issueId: string, name: string): Promise<string> {
+	const data = await linearGraphql<{ issue: { team: { states: { nodes: Array<{ id: string; name: string }> } } } | null }>(
+		token,
+		`query IssueTeamStates($id: String!) { issue(id: $id) { team { states { nodes { id name } } } } }`,
+		{ id: issueId },
+	);
+	const states = data.issue?.team.states.nodes ?? [];
+	const state = states.find((s) => s.name.toLowerCase() === name.trim().toLowerCase());
+	if (!state) throw new Error(`Linear state not found: ${name}. Team states: ${states.map((s) => s.name).join(", ") || "none"}`);
+	return state.id;
+}
+
+/** Linear API id, identifier ("WZR-12") or issue URL → id accepted by issue(id:). */
+export function parseLinearIssueRef(ref: string): string | undefined {
+	const trimmed = ref.trim();
+	const uuid = trimmed.match(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i);
+	if (uuid) return uuid[0];
+	const identifier = trimmed.match(/(?:^|\/)([A-Za-z][A-Za-z0-9]{0,9}-\d+)(?:\/|$)/);
+	return identifier ? identifier[1].toUpperCase() : undefined;
+}
+
+/** Read an issue that is about to be changed, refusing issues outside the project's team. */
+async function readOwnIssue(token: string, id: string, defaults: LinearIssueDefaults): Promise<LinearIssue> {
+	const issue = await readIssue(token, id);
+	const foreign = (defaults.teamId && issue.teamId !== defaults.teamId) || (defaults.teamKey && issue.teamKey?.toUpperCase() !== defaults.teamKey.toUpperCase());
+	if (foreign) throw new Error(`${issue.identifier} belongs to Linear team ${issue.teamKey ?? issue.teamId}, not this project's team ${defaults.teamKey ?? defaults.teamId}`);
+	return issue;
+}
+
+export function linearBackend(token: string, defaults: LinearIssueDefaults = {}): TrackerBackend {
+	return {
+		kind: "linear",
+		resolve: parseLinearIssueRef,
+		create: (input) => createLinearIssue(token, linearPayload(input, defaults)),
+		read: (id) => readIssue(token, id),
+		async update(ref, patch) {
+			const { id } = await readOwnIssue(token, ref, defaults);
+			const input: Record<string, unknown> = {};
+			if (patch.title !== undefined) input.title = patch.title;
+			if (patch.description !== undefined) input.description = patch.description;
+			if (patch.labels !== undefined) input.labelIds = patch.labels;
+			if (patch.priority !== undefined) input.priority = patch.priority;
+			if (patch.state !== undefined) input.stateId = await resolveStateId(token, id, patch.state);
+			const updated = await linearGraphql<{ issueUpdate: { success: boolean } }>(
+				token,
+				`mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) { issueUpdate(id: $id, input: $input) { success } }`,
+				{ id, input },
+			);
+			if (!updated.issueUpdate.success) throw new Error(`Linear issueUpdate failed for ${id}`);
+			const issue = await readIssue(token, id);
+			// Linear labels are patched by id, so they are checked by id too
+			verifyReadback(issue, { ...patch, labels: undefined });
+			const missing = (patch.labels ?? []).filter((labelId) => !issue.labelIds.includes(labelId));
+			if (missing.length) throw new Error(`Linear readback for ${issue.identifier} is missing label ids: ${missing.join(", ")}`);
+			return issue;
+		},
+		async search(query, options = {}) {
+			const team = defaults.teamId || defaults.teamKey ? await getTeamId(token, defaults) : undefined;
+			const words = query.split(/\s+/).filter(Boolean);
+			const filter: Record<string, unknown> = {};
+			if (words.length) filter.and = words.map((word) => ({ or: [{ title: { containsIgnoreCase: word } }, { description: { containsIgnoreCase: word } }] }));
+			if (team) filter.team = { id: { eq: team.teamId } };
+			if (!options.includeClosed) filter.state = { type: { nin: CLOSED_STATE_TYPES } };
+			const limit = options.limit ?? 50;
+			const issues: LinearIssue[] = [];
+			for (let after: string | undefined; issues.length < limit; ) {
+				const data = await linearGraphql<{ issues: { nodes: any[]; pageInfo: { hasNextPage: boolean; endCursor: string | null } } }>(
+					token,
+					`query SearchIssues($filter: IssueFilter, $first: Int, $after: String) { issues(filter: $filter, first: $first, after: $after) { nodes { ${ISSUE_FIELDS} } pageInfo { hasNextPage endCursor } } }`,
+					{ filter, first: Math.min(limit - issues.length, SEARCH_PAGE_SIZE), after },
+				);
+				issues.push(...data.issues.nodes.map(toIssue));
+				if (!data.issues.pageInfo.hasNextPage || !data.issues.pageInfo.endCursor) break;
+				after = data.issues.pageInfo.endCursor;
+			}
+			return issues;
+		},
+		async link(fromRef, toRef, kind) {
+			const from = await readOwnIssue(token, fromRef, defaults);
+			const to = await readIssue(token, toRef);
+			const created = await linearGraphql<{ issueRelationCreate: { success: boolean } }>(
+				token,
+				`mutation LinkIssues($input: IssueRelationCreateInput!) { issueRelationCreate(input: $input) { success } }`,
+				{ input: { issueId: from.id, relatedIssueId: to.id, type: kind } },
+			);
+			if (!created.issueRelationCreate.success) throw new Error(`Linear issueRelationCreate failed for ${from.identifier} ${kind} ${to.identifier}`);
+			const read = await linearGraphql<{ issue: { relations: { nodes: Array<{ type: string; relatedIssue: { id: string } }> } } | null }>(
+				token,
+				`query IssueRelations($id: String!) { issue(id: $id) { relations(first: 100) { nodes { type relatedIssue { id } } } } }`,
+				{ id: from.id },
+			);
+			const found = read.issue?.relations.nodes.some((relation) => relation.type === kind && relation.relatedIssue.id === to.id);
+			if (!found) throw new Error(`Linear readback for ${from.identifier} is missing its ${kind} relation to ${to.identifier}`);
+		},
+		async comment(ref, body) {
+			const issue = await readOwnIssue(token, ref, defaults);
+			const created = await linearGraphql<{ commentCreate: { success: boolean; comment: { id: string } | null } }>(
+				token,
+				`mutation CommentIssue($input: CommentCreateInput!) { commentCreate(input: $input) { success comment { id } } }`,
+				{ input: { issueId: issue.id, body } },
+			);
+			const id = created.commentCreate.comment?.id;
+			if (!created.commentCreate.success || !id) throw new Error(`Linear commentCreate failed for ${issue.identifier}`);
+			const read = await linearGraphql<{ comment: TrackerComment | null }>(
+				token,
+				`query ReadComment($id: String!) { comment(id: $id) { id url body } }`,
+				{ id },
+			);
+			if (!read.comment || !sameMarkdown(read.comment.body, body)) throw new Error(`Linear readback failed for comment on ${issue.identifier}`);
+			return read.comment;
+		},
+	};
+}
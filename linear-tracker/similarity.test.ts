@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { DUPLICATE_THRESHOLD, issueSimilarity, rankSimilar, SEARCH_THRESHOLD, searchScore } from "./similarity";
+
+describe("issue similarity", () => {
+	test("scores reworded titles as duplicates and unrelated ones apart", () => {
+		expect(issueSimilarity({ title: "Add job schema" }, { title: "feat: add jobs schema" })).toBe(1);
+		expect(issueSimilarity({ title: "Retry failed webhooks" }, { title: "Webhook retry with backoff" })).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+		expect(issueSimilarity({ title: "Add job schema" }, { title: "Run queued jobs" })).toBeLessThan(DUPLICATE_THRESHOLD);
+		expect(issueSimilarity({ title: "Dark mode toggle" }, { title: "Export CSV reports" })).toBe(0);
+
+		// Shared batch scaffolding alone does not make issues alike
+		const scaffold = "## Blocked by\n\nNone - can start immediately\n";
+		expect(issueSimilarity({ title: "Auth login page", description: scaffold }, { title: "Billing page", description: scaffold })).toBeLessThan(DUPLICATE_THRESHOLD);
+	});
+
+	test("ranks search candidates best first, including keyword hits on long titles", () => {
+		const issues = [
+			{ title: "Export CSV reports" },
+			{ title: "Retry failed webhooks with exponential backoff and jitter" },
+			{ title: "Webhook signing secret rotation", description: "Rotate the webhook secret." },
+		];
+		expect(searchScore({ title: "webhooks" }, issues[1])).toBeGreaterThan(issueSimilarity({ title: "webhooks" }, issues[1]));
+		expect(rankSimilar({ title: "webhook retry" }, issues, SEARCH_THRESHOLD, searchScore).map((match) => match.issue.title)).toEqual([
+			"Retry failed webhooks with exponential backoff and jitter",
+			"Webhook signing secret rotation",
+		]);
+	});
+});
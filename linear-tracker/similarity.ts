@@ -0,0 +1,92 @@
+/**
+ * Fuzzy issue similarity for search and the pre-create duplicate check.
+ *
+ * Titles carry most of the weight: token overlap after dropping stopwords,
+ * conventional prefixes and plural/tense endings, or character trigrams when
+ * that scores higher (typos, "jobs-schema" vs "job schema"). Descriptions
+ * add token overlap with headings and fixed lines stripped, so the generated
+ * "## Blocked by" scaffolding does not make every batch issue look alike.
+ */
+
+export interface IssueText {
+	title: string;
+	description?: string;
+}
+
+/** Score at which create_issue(s) refuses without force. */
+export const DUPLICATE_THRESHOLD = 0.6;
+/** Lowest score linear_tracker_search reports. */
+export const SEARCH_THRESHOLD = 0.3;
+
+const TITLE_WEIGHT = 0.75;
+/** Headings and fixed lines that batch descriptions share */
+const SCAFFOLDING = /^\s*(?:#|\*\*Type\*\*:|None - can start immediately)/;
+const MAX_DESCRIPTION_TOKENS = 200;
+const STOPWORDS = new Set([
+	"a", "an", "the", "and", "or", "of", "to", "for", "in", "on", "at", "by", "with", "from", "into", "as", "is", "be", "it", "this", "that",
+	"add", "implement", "create", "build", "make", "support", "new",
+	"feat", "fix", "docs", "chore", "refactor", "test", "perf",
+]);
+
+function stem(word: string): string {
+	if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+	if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+	if (word.length > 4 && word.endsWith("es")) return word.slice(0, -2);
+	if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+	return word;
+}
+
+function tokens(text: string): string[] {
+	return text.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word && !STOPWORDS.has(word)).map(stem);
+}
+
+function dice<T>(a: Set<T>, b: Set<T>): number {
+	if (a.size === 0 || b.size === 0) return 0;
+	let shared = 0;
+	for (const item of a) if (b.has(item)) shared++;
+	return (2 * shared) / (a.size + b.size);
+}
+
+function trigrams(words: string[]): Set<string> {
+	const joined = ` ${words.join(" ")} `;
+	const grams = new Set<string>();
+	for (let i = 0; i + 3 <= joined.length; i++) grams.add(joined.slice(i, i + 3));
+	return grams;
+}
+
+function descriptionTokens(description: string | undefined): string[] {
+	if (!description) return [];
+	const body = description.split(/\r?\n/).filter((line) => !SCAFFOLDING.test(line)).join("\n");
+	return tokens(body).slice(0, MAX_DESCRIPTION_TOKENS);
+}
+
+/** 0…1; 1 means the same issue as far as wording goes. */
+export function issueSimilarity(a: IssueText, b: IssueText): number {
+	const titleA = tokens(a.title);
+	const titleB = tokens(b.title);
+	const title = Math.max(dice(new Set(titleA), new Set(titleB)), dice(trigrams(titleA), trigrams(titleB)));
+	const descA = descriptionTokens(a.description);
+	const descB = descriptionTokens(b.description);
+	if (descA.length === 0 || descB.length === 0) return title;
+	return TITLE_WEIGHT * title + (1 - TITLE_WEIGHT) * dice(new Set(descA), new Set(descB));
+}
+
+/**
+ * Similarity for a short search query: a query whose words all appear in a
+ * long issue still ranks, even though the titles overlap little.
+ */
+export function searchScore(query: IssueText, issue: IssueText): number {
+	const words = new Set(tokens(query.title));
+	if (words.size === 0) return 0;
+	const have = new Set([...tokens(issue.title), ...descriptionTokens(issue.description)]);
+	const covered = [...words].filter((word) => have.has(word)).length / words.size;
+	return Math.max(issueSimilarity(query, issue), 0.8 * covered);
+}
+
+/** Issues scoring at least `minScore` against `query`, best first. */
+export function rankSimilar<T extends IssueText>(query: IssueText, issues: T[], minScore: number, score = issueSimilarity): Array<{ issue: T; score: number }> {
+	return issues
+		.map((issue) => ({ issue, score: score(query, issue) }))
+		.filter((match) => match.score >= minScore)
+		.sort((a, b) => b.score - a.score);
+}
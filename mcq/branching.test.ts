@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { branchPath, nextOpen, pathAnswers, pathIds, stepLabel } from "./branching.js";
+import type { MCQAnswer, MCQQuestion } from "./types.js";
+
+const wizard: MCQQuestion[] = [
+	{ id: "host", question: "Where will it run?", options: ["Cloud", "On-prem"], next: { "1": "region", "2": "rack", other: "end" } },
+	{ id: "region", question: "Which region?", options: ["EU", "US"], next: { "*": "db" } },
+	{ id: "rack", question: "Which rack?", options: ["A", "B"] },
+	{ id: "db", question: "Which database?", options: ["Postgres", "SQLite"] },
+];
+
+const pick = (q: MCQQuestion, selected: number): MCQAnswer => ({ id: q.id, question: q.question, selected, answer: String(q.options[selected - 1]), isCustom: false });
+
+describe("mcq branching", () => {
+	test("follows next maps, falls through when unmapped, and stops at open branch points", () => {
+		const answers = new Map<number, MCQAnswer>();
+		expect(branchPath(wizard, answers)).toEqual([0]);
+		expect(stepLabel(wizard, answers, 0)).toBe("1/1+");
+
+		answers.set(0, pick(wizard[0], 2));
+		expect(branchPath(wizard, answers)).toEqual([0, 2, 3]);
+		expect(nextOpen(wizard, answers)).toBe(2);
+
+		// Switching branches drops answers the new path skips
+		answers.set(2, pick(wizard[2], 1));
+		answers.set(0, pick(wizard[0], 1));
+		answers.set(1, pick(wizard[1], 2));
+		answers.set(3, pick(wizard[3], 1));
+		expect(nextOpen(wizard, answers)).toBeNull();
+		expect(pathAnswers(wizard, answers).map((a) => a.answer)).toEqual(["Cloud", "US", "Postgres"]);
+		expect(pathIds(wizard, answers)).toEqual(["host", "region", "db"]);
+		expect(stepLabel(wizard, answers, 3)).toBe("3/3");
+
+		answers.set(0, { id: "host", question: "", selected: 3, answer: "Laptop", isCustom: true });
+		expect(pathIds(wizard, answers)).toEqual(["host"]);
+	});
+
+	test("linear questionnaires and cycles", () => {
+		const linear = wizard.map(({ next: _next, ...q }) => q);
+		expect(branchPath(linear, new Map())).toEqual([0, 1, 2, 3]);
+		expect(pathIds(linear, new Map())).toBeUndefined();
+		expect(stepLabel(linear, new Map(), 1)).toBe("2/4");
+
+		const loop: MCQQuestion[] = [
+			{ id: "a", question: "A?", options: ["x"], next: { "1": "b" } },
+			{ id: "b", question: "B?", options: ["y"], next: { "1": "a" } },
+		];
+		const answers = new Map([[0, pick(loop[0], 1)], [1, pick(loop[1], 1)]]);
+		expect(branchPath(loop, answers)).toEqual([0, 1]);
+		expect(nextOpen(loop, answers)).toBeNull();
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * MCQ branching — declarative wizards in one mcq call.
+ *
+ * A question's `next` map sends each answer to another question:
+ *   { "1": "hosting", "2": "db", "other": "notes", "*": "end" }
+ * Keys are option numbers, "other" (typed response) and "*" (fallback); the
+ * value is a question id or "end". Answers without a mapping continue to the
+ * following question, so a questionnaire without `next` stays linear. Multi
+ * and rank answers branch on their first selection.
+ */
+
+import type { MCQAnswer, MCQQuestion } from "./types.js";
+
+export const END = "end";
+
+export function isBranching(questions: MCQQuestion[]): boolean {
+	return questions.some((q) => q.next && Object.keys(q.next).length > 0);
+}
+
+/**
+ * Where to go after question `index`: a question index, "end", or null when
+ * it is a branch point that has not been answered yet.
+ */
+export function nextQuestion(questions: MCQQuestion[], answers: Map<number, MCQAnswer>, index: number): number | typeof END | null {
+	const q = questions[index];
+	const linear = index + 1 < questions.length ? index + 1 : END;
+	if (!q.next) return linear;
+	const answer = answers.get(index);
+	if (!answer) return null;
+	const key = answer.isCustom ? "other" : String(answer.kind ? answer.selections?.[0] : answer.selected);
+	const target = q.next[key] ?? q.next["*"];
+	if (target === undefined) return linear;
+	if (target === END) return END;
+	const to = questions.findIndex((other) => other.id === target);
+	return to >= 0 ? to : linear;
+}
+
+/**
+ * Question indexes on the current path, from the first question to "end" or
+ * to the first unanswered branch point. A cycle ends the path.
+ */
+export function branchPath(questions: MCQQuestion[], answers: Map<number, MCQAnswer>): number[] {
+	const path: number[] = [];
+	let at: number | typeof END | null = questions.length ? 0 : END;
+	while (typeof at === "number" && !path.includes(at)) {
+		path.push(at);
+		at = nextQuestion(questions, answers, at);
+	}
+	return path;
+}
+
+/** First unanswered question on the path, or null when the path is complete. */
+export function nextOpen(questions: MCQQuestion[], answers: Map<number, MCQAnswer>): number | null {
+	return branchPath(questions, answers).find((i) => !answers.has(i)) ?? null;
+}
+
+/** Answers on the path, in path order; answers to questions the path skipped are dropped. */
+export function pathAnswers(questions: MCQQuestion[], answers: Map<number, MCQAnswer>): MCQAnswer[] {
+	return branchPath(questions, answers).flatMap((i) => (answers.has(i) ? [answers.get(i)!] : []));
+}
+
+/** Ids of the answered questions on the path — MCQResult.path for branching questionnaires. */
+export function pathIds(questions: MCQQuestion[], answers: Map<number, MCQAnswer>): string[] | undefined {
+	if (!isBranching(questions)) return undefined;
+	return pathAnswers(questions, answers).map((a) => a.id);
+}
+
+/** Position of question `index` on the path; `more` when an unanswered branch point hides the rest. */
+export function stepOf(questions: MCQQuestion[], answers: Map<number, MCQAnswer>, index: number): { step: number; total: number; more: boolean } {
+	if (!isBranching(questions)) return { step: index + 1, total: questions.length, more: false };
+	const path = branchPath(questions, answers);
+	const step = path.includes(index) ? path.indexOf(index) + 1 : path.length + 1;
+	const more = path.length > 0 && nextQuestion(questions, answers, path[path.length - 1]) === null;
+	return { step, total: Math.max(step, path.length), more };
+}
+
+export function stepLabel(questions: MCQQuestion[], answers: Map<number, MCQAnswer>, index: number): string {
+	const { step, total, more } = stepOf(questions, answers, index);
+	return `${step}/${total}${more ? "+" : ""}`;
+}
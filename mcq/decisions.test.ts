@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { appendDecisions, decisionsPath, latestDecisions, readDecisions, relevantDecisions, toDecisions, toQuestionDef } from "./decisions.js";
+import type { MCQQuestion } from "./types.js";
+
+const roots: string[] = [];
+afterEach(() => { while (roots.length) rmSync(roots.pop()!, { recursive: true, force: true }); });
+
+const questions: MCQQuestion[] = [
+	{ id: "db", question: "Which database for the job queue?", options: ["SQLite", { label: "Redis", code: { code: "new Redis()" } }], recommended: 2, recommendedReason: "Already deployed" },
+	{ id: "ui", question: "Which dashboard UI?", kind: "multi", options: ["TUI", "Web"] },
+];
+
+describe("mcq decision log", () => {
+	test("logs answers to .brain/decisions and keeps the newest per question", () => {
+		const cwd = mkdtempSync(join(tmpdir(), "mcq-decisions-"));
+		roots.push(cwd);
+		const first = toDecisions(
+			{
+				title: "Queue",
+				cancelled: false,
+				answers: [
+					{ id: "db", question: questions[0].question, selected: 1, answer: "SQLite", isCustom: false, channel: "tui" },
+					{ id: "ui", question: questions[1].question, selected: 0, answer: "TUI, Web", isCustom: false, kind: "multi", selections: [1, 2], channel: "telegram" },
+				],
+			},
+			questions,
+			"s1",
+			"2026-10-01T00:00:00.000Z",
+		);
+		expect(first[0]).toMatchObject({ title: "Queue", recommended: 2, recommendedReason: "Already deployed", channel: "tui", options: questions[0].options });
+		expect(first[1]).toMatchObject({ kind: "multi", selections: [1, 2], channel: "telegram" });
+
+		appendDecisions(cwd, first);
+		appendFileSync(decisionsPath(cwd), "not json\n");
+		appendDecisions(cwd, toDecisions({ title: "Queue", cancelled: false, answers: [{ id: "db", question: questions[0].question, selected: 2, answer: "Redis", isCustom: false }] }, questions, "s2", "2026-10-02T00:00:00.000Z"));
+
+		const all = readDecisions(cwd);
+		expect(all).toHaveLength(3);
+		expect(latestDecisions(all).map((d) => `${d.id}=${d.answer}`)).toEqual(["db=Redis", "ui=TUI, Web"]);
+		expect(relevantDecisions(all, "storage for background jobs and job retries").map((d) => d.answer)).toEqual(["Redis"]);
+		expect(toQuestionDef(all[2])).toEqual({ id: "db", question: questions[0].question, options: questions[0].options, recommended: 2, recommendedReason: "Already deployed" });
+	});
+});
@@ -0,0 +1,145 @@
+/**
+ * MCQ decision log — every completed questionnaire, one JSON line per answer.
+ *
+ * Written to the session (pi.appendEntry, custom type "mcq-decision") and to
+ * the project-local .brain/decisions/mcq.jsonl, so `/decisions` can browse
+ * and re-ask past questions and `/decide` can cite what is already settled.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { getOptionLabel, type MCQChannel, type MCQOption, type MCQQuestionDef, type MCQQuestionKind } from "./protocol.js";
+import type { MCQQuestion, MCQResult } from "./types.js";
+
+export const DECISION_ENTRY_TYPE = "mcq-decision";
+
+export interface MCQDecision {
+	/** ISO timestamp of the completed questionnaire */
+	ts: string;
+	session: string;
+	title: string;
+	id: string;
+	question: string;
+	kind?: MCQQuestionKind;
+	options: MCQOption[];
+	context?: string;
+	recommended?: number;
+	recommendedReason?: string;
+	/** Chosen text: option label, joined labels (multi/rank), or the user's own words */
+	answer: string;
+	selected: number;
+	selections?: number[];
+	isCustom: boolean;
+	channel: MCQChannel;
+	autoSelected?: boolean;
+}
+
+export function decisionsPath(cwd: string): string {
+	return join(cwd, ".brain", "decisions", "mcq.jsonl");
+}
+
+/** One decision per answered question, in question order. */
+export function toDecisions(result: MCQResult, questions: MCQQuestion[], session: string, ts = new Date().toISOString()): MCQDecision[] {
+	return result.answers.flatMap((a) => {
+		const q = questions.find((question) => question.id === a.id);
+		if (!q) return [];
+		return [{
+			ts,
+			session,
+			title: result.title,
+			id: q.id,
+			question: q.question,
+			...(q.kind ? { kind: q.kind } : {}),
+			options: q.options,
+			...(q.context ? { context: q.context } : {}),
+			...(q.recommended ? { recommended: q.recommended, recommendedReason: q.recommendedReason } : {}),
+			answer: a.answer,
+			selected: a.selected,
+			...(a.selections ? { selections: a.selections } : {}),
+			isCustom: a.isCustom,
+			channel: a.channel ?? "tui",
+			...(a.autoSelected ? { autoSelected: true } : {}),
+		}];
+	});
+}
+
+export function appendDecisions(cwd: string, decisions: MCQDecision[]): void {
+	if (decisions.length === 0) return;
+	const path = decisionsPath(cwd);
+	mkdirSync(dirname(path), { recursive: true });
+	appendFileSync(path, decisions.map((d) => JSON.stringify(d)).join("\n") + "\n");
+}
+
+/** All logged decisions, oldest first. Unreadable lines are skipped. */
+export function readDecisions(cwd: string): MCQDecision[] {
+	const path = decisionsPath(cwd);
+	if (!existsSync(path)) return [];
+	return readFileSync(path, "utf8")
+		.split("\n")
+		.flatMap((line) => {
+			if (!line.trim()) return [];
+			try {
+				const d = JSON.parse(line);
+				return d && typeof d.question === "string" && typeof d.answer === "string" && Array.isArray(d.options) ? [d as MCQDecision] : [];
+			} catch {
+				return [];
+			}
+		});
+}
+
+/** Newest answer per question (same id and text), newest first. */
+export function latestDecisions(decisions: MCQDecision[]): MCQDecision[] {
+	const seen = new Set<string>();
+	const latest: MCQDecision[] = [];
+	for (const d of [...decisions].reverse()) {
+		const key = `${d.id}\u0000${d.question.trim().toLowerCase()}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		latest.push(d);
+	}
+	return latest;
+}
+
+function words(text: string): Set<string> {
+	return new Set(text.toLowerCase().match(/[a-z0-9][a-z0-9-]{2,}/g) ?? []);
+}
+
+/** Latest decisions sharing words with `topic`, best match first. */
+export function relevantDecisions(decisions: MCQDecision[], topic: string, limit = 8): MCQDecision[] {
+	const wanted = words(topic);
+	if (wanted.size === 0) return [];
+	return latestDecisions(decisions)
+		.map((d) => {
+			const have = words(`${d.title} ${d.id} ${d.question} ${d.context ?? ""} ${d.answer}`);
+			let score = 0;
+			for (const word of wanted) if (have.has(word)) score++;
+			return { d, score };
+		})
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+		.map(({ d }) => d);
+}
+
+export function formatDecision(d: MCQDecision): string {
+	const how = d.isCustom ? " (own words)" : d.autoSelected ? " (auto-selected)" : "";
+	return `${d.question} → ${d.answer}${how} [${d.ts.slice(0, 10)}, ${d.id}]`;
+}
+
+/** The question as it was asked, ready to pass to mcq again. */
+export function toQuestionDef(d: MCQDecision): MCQQuestionDef {
+	return {
+		id: d.id,
+		question: d.question,
+		...(d.kind ? { kind: d.kind } : {}),
+		options: d.options,
+		...(d.context ? { context: d.context } : {}),
+		...(d.recommended ? { recommended: d.recommended, recommendedReason: d.recommendedReason } : {}),
+	};
+}
+
+/** One-line label for pickers. */
+export function decisionLabel(d: MCQDecision): string {
+	const options = d.options.map(getOptionLabel).join(" / ");
+	return `${d.ts.slice(0, 10)}  ${d.id}: ${d.answer}  — ${d.question} (${options})`;
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { ExtensionUIContext } from "@earendil-works/pi-coding-agent";
+import { answerWithoutTUI, prefilledAnswers, resolveHeadlessPolicy } from "./headless.js";
+import type { MCQEvent } from "./protocol.js";
+import { MCQRemoteFlow, type MCQTransport } from "./transport.js";
+import type { MCQQuestion } from "./types.js";
+
+const questions: MCQQuestion[] = [
+	{ id: "db", question: "Which database?", options: ["SQLite", "Postgres"], recommended: 2 },
+	{ id: "ui", question: "Which UI?", options: ["TUI", "Web"], recommended: 1, conviction: "slight" },
+];
+
+function gateway() {
+	const published: MCQEvent[] = [];
+	let listener: ((event: MCQEvent) => void) | undefined;
+	const transport: MCQTransport = {
+		async publish(event) { published.push(event); },
+		async listen(_session, onEvent) {
+			listener = onEvent;
+			return async () => { listener = undefined; };
+		},
+		async close() {},
+	};
+	return { transport, published, send: (event: MCQEvent) => listener?.(event) };
+}
+
+const offline = () => new MCQRemoteFlow("s1", "Setup", questions, async () => null);
+
+afterEach(() => { delete process.env.MCQ_HEADLESS_POLICY; });
+
+describe("mcq headless", () => {
+	test("resolves the policy and parses fed-back answers", () => {
+		expect(resolveHeadlessPolicy()).toBe("rpc");
+		process.env.MCQ_HEADLESS_POLICY = "fail";
+		expect(resolveHeadlessPolicy("bogus")).toBe("fail");
+		expect(resolveHeadlessPolicy("auto")).toBe("auto");
+
+		const answers = prefilledAnswers(questions, { db: "postgres", ui: " Electron " });
+		expect(answers.get(0)).toMatchObject({ selected: 2, answer: "Postgres", isCustom: false, channel: "rpc" });
+		expect(answers.get(1)).toMatchObject({ selected: 3, answer: "Electron", isCustom: true });
+		expect(prefilledAnswers(questions, { db: 1, ui: 7 }).size).toBe(1);
+
+		const lists: MCQQuestion[] = [
+			{ id: "apply", question: "Which apply?", kind: "multi", options: ["Auth", "Billing", "Search"] },
+			{ id: "order", question: "Priority?", kind: "rank", options: ["Auth", "Billing", "Search"] },
+		];
+		const picked = prefilledAnswers(lists, { apply: "search, 1", order: "2 > 3" });
+		expect(picked.get(0)).toMatchObject({ kind: "multi", selections: [1, 3], answer: "Auth, Search" });
+		expect(picked.get(1)).toMatchObject({ kind: "rank", selections: [2, 3, 1], answer: "Billing > Search > Auth" });
+		expect(prefilledAnswers(lists, { apply: "1, 9" }).size).toBe(0);
+
+		const rich: MCQQuestion = { id: "cache", question: "Cache?", options: ["Map", { label: "Redis", code: { code: "new Redis()", lang: "ts" } }] };
+		expect(prefilledAnswers([rich], { cache: "redis" }).get(0)).toMatchObject({ selected: 2, answer: "Redis" });
+	});
+
+	test("auto accepts strong recommendations and returns the rest as unanswered", async () => {
+		const result = await answerWithoutTUI({ ui: undefined, session: "s1", openRemote: offline, title: "Setup", questions, answers: new Map(), policy: "auto", signal: undefined });
+		expect(result.answers).toEqual([expect.objectContaining({ id: "db", selected: 2, autoSelected: true })]);
+		expect(result.cancelled).toBe(true);
+		expect(result.headless).toMatchObject({ policy: "auto", paths: ["auto"] });
+		expect(result.headless?.unanswered).toMatchObject({ status: "unanswered", session: "s1", questions: [{ id: "ui" }] });
+		expect(result.headless?.unanswered?.resume).toContain('"ui": <option number or text>');
+
+		const resumed = prefilledAnswers(questions, { ui: 2 });
+		const done = await answerWithoutTUI({ ui: undefined, session: "s1", openRemote: offline, title: "Setup", questions, answers: resumed, policy: "auto", signal: undefined });
+		expect(done).toMatchObject({ cancelled: false, headless: { paths: ["prefilled", "auto"] } });
+		expect(done.answers.map((a) => a.answer)).toEqual(["Postgres", "Web"]);
+	});
+
+	test("fail and auto return open questions at once and publish nothing to the gateway", async () => {
+		for (const policy of ["fail", "auto"] as const) {
+			const fake = gateway();
+			let opened = 0;
+			const openRemote = () => {
+				opened += 1;
+				return new MCQRemoteFlow("s1", "Setup", questions, async () => fake.transport);
+			};
+			const started = Date.now();
+			const result = await Promise.race([
+				answerWithoutTUI({ ui: undefined, session: "s1", openRemote, title: "Setup", questions, answers: new Map(), policy, signal: undefined }),
+				new Promise<"waiting">((resolve) => setTimeout(() => resolve("waiting"), 1_000)),
+			]);
+			expect(result).not.toBe("waiting");
+			expect(Date.now() - started).toBeLessThan(1_000);
+			expect(opened).toBe(0);
+			expect(fake.published).toEqual([]);
+			if (result === "waiting") continue;
+			expect(result.cancelled).toBe(true);
+			expect(result.headless?.paths).not.toContain("gateway");
+			expect(result.headless?.unanswered).toMatchObject({ status: "unanswered", reason: `Headless policy "${policy}" left questions open.` });
+		}
+	});
+
+	test("rpc dialogs race the gateway, first answer wins", async () => {
+		const fake = gateway();
+		const remote = new MCQRemoteFlow("s1", "Setup", questions, async () => fake.transport);
+		const asked: string[] = [];
+		const ui = {
+			async select(title: string, options: string[], opts?: { signal?: AbortSignal }) {
+				asked.push(title);
+				if (title.includes("database")) return options[1];
+				// Second question: the gateway answers while the dialog is open.
+				return new Promise<string | undefined>((resolve) => {
+					opts?.signal?.addEventListener("abort", () => resolve(undefined));
+					fake.send({ type: "mcq.answer", id: "ui", selected: 3, answer: "Electron", isCustom: true, channel: "telegram", session: "s1", ts: new Date().toISOString() });
+				});
+			},
+			async input() { return undefined; },
+		} as unknown as ExtensionUIContext;
+
+		const result = await answerWithoutTUI({ ui, session: "s1", openRemote: () => remote, title: "Setup", questions, answers: new Map(), policy: "rpc", signal: undefined });
+		expect(asked).toEqual(["Setup 1/2: Which database?", "Setup 2/2: Which UI?"]);
+		expect(result.cancelled).toBe(false);
+		expect(result.headless).toEqual({ policy: "rpc", paths: ["rpc", "gateway"] });
+		expect(result.answers).toEqual([
+			expect.objectContaining({ answer: "Postgres", channel: "rpc" }),
+			expect.objectContaining({ answer: "Electron", channel: "telegram" }),
+		]);
+		expect(fake.published.at(-1)).toMatchObject({ type: "mcq.complete" });
+	});
+});
@@ -0,0 +1,317 @@
+/**
+ * MCQ without the TUI — print mode (no UI at all) and RPC mode (dialogs only,
+ * `ctx.ui.custom` resolves to undefined).
+ *
+ * Answers come from, in order: the `answers` parameter, strong
+ * recommendations (policy "auto"), then under policy "rpc" the RPC
+ * select/input dialogs and the Redis gateway. Dialogs and the gateway race;
+ * the first answer per question wins. Whatever is still open comes back as an
+ * MCQUnanswered payload the caller can answer and feed back through
+ * `answers`; "auto" and "fail" return it at once and never publish to the
+ * gateway.
+ */
+
+import type { ExtensionUIContext } from "@earendil-works/pi-coding-agent";
+import { branchPath, nextOpen, pathAnswers, pathIds, stepLabel } from "./branching.js";
+import { formatSelections, getOptionLabel, type MCQAnswerEvent, type MCQCancelEvent, type MCQChannel, resolveSelections } from "./protocol.js";
+import type { MCQRemoteEvent, MCQRemoteFlow } from "./transport.js";
+import type { MCQAnswer, MCQHeadlessPolicy, MCQQuestion, MCQResult, MCQUnanswered } from "./types.js";
+import { matchSpokenAnswer } from "./voice.js";
+
+const POLICIES: MCQHeadlessPolicy[] = ["auto", "rpc", "fail"];
+
+/** How long headless mode waits for a remote answer before giving up. */
+export const GATEWAY_TIMEOUT_SECS = Number(process.env.MCQ_GATEWAY_TIMEOUT) || 600;
+
+/** Per-call value, then MCQ_HEADLESS_POLICY, then "rpc". */
+export function resolveHeadlessPolicy(value?: unknown): MCQHeadlessPolicy {
+	for (const candidate of [value, process.env.MCQ_HEADLESS_POLICY]) {
+		if (POLICIES.includes(candidate as MCQHeadlessPolicy)) return candidate as MCQHeadlessPolicy;
+	}
+	return "rpc";
+}
+
+// ── Answer conversion ────────────────────────────────────────────
+
+export function toAnswerEvent(answer: MCQAnswer, session: string): MCQAnswerEvent {
+	return {
+		type: "mcq.answer",
+		id: answer.id,
+		selected: answer.selected,
+		answer: answer.answer,
+		isCustom: answer.isCustom,
+		...(answer.kind ? { kind: answer.kind, selections: answer.selections } : {}),
+		channel: answer.channel ?? "tui",
+		...(answer.autoSelected ? { auto: true } : {}),
+		session,
+		ts: new Date().toISOString(),
+	};
+}
+
+export function fromAnswerEvent(event: MCQAnswerEvent, question: MCQQuestion): MCQAnswer {
+	return {
+		id: event.id,
+		question: question.question,
+		selected: event.selected,
+		answer: event.answer,
+		isCustom: event.isCustom,
+		...(event.kind ? { kind: event.kind, selections: event.selections } : {}),
+		channel: event.channel,
+	};
+}
+
+/** A multi or rank answer from 1-indexed picks already passed through resolveSelections. */
+export function selectionAnswer(q: MCQQuestion, kind: "multi" | "rank", selections: number[], channel: MCQChannel): MCQAnswer {
+	const answer = formatSelections(kind, selections.map((n) => getOptionLabel(q.options[n - 1])));
+	return { id: q.id, question: q.question, selected: 0, answer, isCustom: false, kind, selections, channel };
+}
+
+/** Pick one option; for multi and rank questions that is a one-item selection. */
+function optionAnswer(q: MCQQuestion, selected: number, channel: MCQChannel): MCQAnswer {
+	if (q.kind === "multi" || q.kind === "rank") {
+		return selectionAnswer(q, q.kind, resolveSelections(q.kind, q.options.length, [selected])!, channel);
+	}
+	return { id: q.id, question: q.question, selected, answer: getOptionLabel(q.options[selected - 1]), isCustom: false, channel };
+}
+
+function customAnswer(q: MCQQuestion, text: string, channel: MCQChannel): MCQAnswer {
+	return { id: q.id, question: q.question, selected: q.options.length + 1, answer: text, isCustom: true, channel };
+}
+
+/** A spoken or dictated pick ("the second one", "go with sqlite"), or null for the user's own words. */
+export function spokenAnswer(q: MCQQuestion, text: string, channel: MCQChannel): MCQAnswer | null {
+	const picks = matchSpokenAnswer(q, text);
+	if (!picks) return null;
+	return q.kind === "multi" || q.kind === "rank" ? selectionAnswer(q, q.kind, picks, channel) : optionAnswer(q, picks[0], channel);
+}
+
+/**
+ * Read a typed answer: an option number or an option's text. Multi and rank
+ * questions take a list ("1, 3" or "2 > 1"). Spoken picks ("the second one")
+ * come next; anything else is an "Other" response, except out-of-range
+ * numbers, which return null.
+ */
+export function parseTextAnswer(q: MCQQuestion, text: string, channel: MCQChannel): MCQAnswer | null {
+	const toOption = (part: string) => {
+		const number = Number(part);
+		if (Number.isInteger(number)) return number;
+		const byLabel = q.options.findIndex((option) => getOptionLabel(option).toLowerCase() === part.toLowerCase());
+		return byLabel >= 0 ? byLabel + 1 : null;
+	};
+	if (q.kind === "multi" || q.kind === "rank") {
+		const picks = text.split(/\s*[,>]\s*/).map(toOption);
+		if (picks.every((n) => n !== null)) {
+			const selections = resolveSelections(q.kind, q.options.length, picks as number[]);
+			return selections ? selectionAnswer(q, q.kind, selections, channel) : null;
+		}
+		return spokenAnswer(q, text, channel) ?? customAnswer(q, text, channel);
+	}
+	const picked = toOption(text);
+	if (picked === null) return spokenAnswer(q, text, channel) ?? customAnswer(q, text, channel);
+	return picked >= 1 && picked <= q.options.length ? optionAnswer(q, picked, channel) : null;
+}
+
+/** Answers fed back through the `answers` parameter, keyed by question id. */
+export function prefilledAnswers(questions: MCQQuestion[], supplied: Record<string, unknown> | undefined): Map<number, MCQAnswer> {
+	const answers = new Map<number, MCQAnswer>();
+	if (!supplied) return answers;
+	questions.forEach((q, i) => {
+		const value = supplied[q.id];
+		const text = typeof value === "number" ? String(value) : typeof value === "string" ? value.trim() : "";
+		const answer = text ? parseTextAnswer(q, text, "rpc") : null;
+		if (answer) answers.set(i, answer);
+	});
+	return answers;
+}
+
+/** The recommended option when conviction is strong (the default). */
+export function strongRecommendation(q: MCQQuestion): number | null {
+	if (q.conviction === "slight" || !Number.isInteger(q.recommended)) return null;
+	return q.recommended! >= 1 && q.recommended! <= q.options.length ? q.recommended! : null;
+}
+
+export function unansweredPayload(session: string, title: string, questions: MCQQuestion[], answers: Map<number, MCQAnswer>, reason: string): MCQUnanswered {
+	const open = branchPath(questions, answers).filter((i) => !answers.has(i)).map((i) => questions[i]);
+	return {
+		status: "unanswered",
+		reason,
+		session,
+		title,
+		questions: open,
+		resume:
+			`Ask the user, then call mcq again with the same questions and answers: { ${open.map((q) => `"${q.id}": <option number or text>`).join(", ")} }. ` +
+			`Numbers 1-${Math.max(...open.map((q) => q.options.length))} pick an option; any other text is an "Other" response.` +
+			(open.some((q) => q.kind === "multi" || q.kind === "rank")
+				? ' Multi and rank questions take a list such as "1, 3" (rank: highest priority first).'
+				: ""),
+	};
+}
+
+// ── Paths ────────────────────────────────────────────────────────
+
+/** "answered", or why the flow ended without every answer. */
+type Outcome = "answered" | MCQCancelEvent["reason"];
+
+/** Apply a remote answer or completion; returns true when the flow should end. */
+function applyRemote(event: MCQRemoteEvent, questions: MCQQuestion[], answers: Map<number, MCQAnswer>): boolean {
+	if (event.type === "mcq.cancel") return true;
+	for (const a of event.type === "mcq.complete" ? event.answers : [event]) {
+		const i = questions.findIndex((q) => q.id === a.id);
+		if (i >= 0 && !answers.has(i)) answers.set(i, fromAnswerEvent(a, questions[i]));
+	}
+	return event.type === "mcq.complete" || nextOpen(questions, answers) === null;
+}
+
+/** Gateway only: remote answers fill open questions until done, cancelled, or timed out. */
+function awaitRemoteAnswers(remote: MCQRemoteFlow, questions: MCQQuestion[], answers: Map<number, MCQAnswer>, signal: AbortSignal | undefined): Promise<Outcome> {
+	return new Promise((resolve) => {
+		const finish = (outcome: Outcome) => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+			resolve(outcome);
+		};
+		const onAbort = () => finish("abort");
+		const timer = setTimeout(() => finish("timeout"), GATEWAY_TIMEOUT_SECS * 1000);
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		remote.onEvent((event) => {
+			if (applyRemote(event, questions, answers)) finish(event.type === "mcq.cancel" ? "user" : "answered");
+		});
+	});
+}
+
+/**
+ * One select dialog per open question ("Other" opens an input dialog). A
+ * gateway answer to the question on screen dismisses its dialog.
+ */
+async function askWithDialogs(
+	ui: ExtensionUIContext,
+	title: string,
+	questions: MCQQuestion[],
+	answers: Map<number, MCQAnswer>,
+	remote: MCQRemoteFlow | null,
+	signal: AbortSignal | undefined,
+): Promise<Outcome> {
+	let ended: Outcome | null = null;
+	let current: { index: number; controller: AbortController } | null = null;
+	remote?.onEvent((event) => {
+		if (ended) return;
+		if (applyRemote(event, questions, answers)) ended = event.type === "mcq.cancel" ? "user" : "answered";
+		if (current && (ended || answers.has(current.index))) current.controller.abort();
+	});
+
+	const other = "Other (type your response)";
+	for (let i = nextOpen(questions, answers); i !== null && !ended; i = nextOpen(questions, answers)) {
+		if (signal?.aborted) return "abort";
+		const q = questions[i];
+		const controller = new AbortController();
+		const onAbort = () => controller.abort();
+		signal?.addEventListener("abort", onAbort, { once: true });
+		current = { index: i, controller };
+		const labels = q.options.map((option, n) => `${n + 1}. ${getOptionLabel(option)}${q.recommended === n + 1 ? " ★ recommended" : ""}`);
+		const heading = `${questions.length > 1 ? `${title} ${stepLabel(questions, answers, i)}: ` : ""}${q.question}`;
+		try {
+			if (q.kind === "multi" || q.kind === "rank") {
+				// Dialogs pick one item, so lists are typed: "1, 3" or "2 > 1 > 3"
+				const hint = q.kind === "multi" ? "pick any, e.g. 1, 3" : "highest priority first, e.g. 2 > 1 > 3";
+				const text = (await ui.input(`${heading} (${labels.join("  ")})`, hint, { signal: controller.signal }))?.trim();
+				if (ended || answers.has(i)) continue;
+				if (!text) return signal?.aborted ? "abort" : "user";
+				const answer = parseTextAnswer(q, text, "rpc");
+				if (answer) answers.set(i, answer); // out of range: asked again
+				continue;
+			}
+			const choice = await ui.select(heading, [...labels, other], { signal: controller.signal });
+			if (ended || answers.has(i)) continue;
+			if (choice === undefined) return signal?.aborted ? "abort" : "user";
+			const picked = labels.indexOf(choice);
+			if (picked >= 0) {
+				answers.set(i, optionAnswer(q, picked + 1, "rpc"));
+				continue;
+			}
+			const text = (await ui.input(q.question, "Your response", { signal: controller.signal }))?.trim();
+			if (ended || answers.has(i)) continue;
+			if (!text) return signal?.aborted ? "abort" : "user";
+			answers.set(i, spokenAnswer(q, text, "rpc") ?? customAnswer(q, text, "rpc"));
+		} finally {
+			signal?.removeEventListener("abort", onAbort);
+			current = null;
+		}
+	}
+	return ended ?? "answered";
+}
+
+/**
+ * Answer `questions` without the TUI, then close the question on the gateway.
+ * `ui` is the dialog-only UI in RPC mode and undefined in print mode;
+ * `answers` holds the prefilled answers and is filled in place.
+ * `openRemote` publishes the question, so it is only called under "rpc".
+ */
+export async function answerWithoutTUI(options: {
+	ui: ExtensionUIContext | undefined;
+	session: string;
+	openRemote: () => MCQRemoteFlow;
+	title: string;
+	questions: MCQQuestion[];
+	answers: Map<number, MCQAnswer>;
+	policy: MCQHeadlessPolicy;
+	signal: AbortSignal | undefined;
+}): Promise<MCQResult> {
+	const { ui, session, openRemote, title, questions, answers, policy, signal } = options;
+	const paths: NonNullable<MCQResult["headless"]>["paths"] = answers.size ? ["prefilled"] : [];
+
+	if (policy === "auto") {
+		// Follow the path: each accepted branch answer can open new questions
+		const before = answers.size;
+		for (let grew = true; grew; ) {
+			grew = false;
+			for (const i of branchPath(questions, answers)) {
+				const recommended = strongRecommendation(questions[i]);
+				if (answers.has(i) || recommended === null) continue;
+				answers.set(i, { ...optionAnswer(questions[i], recommended, "rpc"), autoSelected: true });
+				grew = true;
+			}
+		}
+		if (answers.size > before) paths.push("auto");
+	}
+
+	// Only "rpc" waits for a person; "auto" and "fail" hand open questions straight back
+	const remote = policy === "rpc" && nextOpen(questions, answers) !== null ? openRemote() : null;
+	let outcome: Outcome | "unavailable" = "answered";
+	if (nextOpen(questions, answers) !== null) {
+		outcome = "unavailable";
+		const gateway = remote !== null && (await remote.connected);
+		if (policy === "rpc" && ui) {
+			paths.push("rpc");
+			if (gateway) paths.push("gateway");
+			outcome = await askWithDialogs(ui, title, questions, answers, gateway ? remote : null, signal);
+		} else if (remote && gateway) {
+			paths.push("gateway");
+			outcome = await awaitRemoteAnswers(remote, questions, answers, signal);
+		}
+	}
+
+	const path = pathIds(questions, answers);
+	const result: MCQResult = {
+		title,
+		answers: pathAnswers(questions, answers),
+		...(path ? { path } : {}),
+		cancelled: outcome !== "answered",
+		headless: { policy, paths },
+	};
+	if (outcome === "timeout" || outcome === "unavailable") {
+		const reason =
+			outcome === "timeout"
+				? `No answer from the gateway within ${GATEWAY_TIMEOUT_SECS}s.`
+				: policy === "rpc"
+					? "No interactive UI, RPC dialogs, or Redis gateway is available."
+					: `Headless policy "${policy}" left questions open.`;
+		result.headless!.unanswered = unansweredPayload(session, title, questions, answers, reason);
+	}
+	await remote?.finish(
+		outcome === "answered"
+			? { answers: result.answers.map((a) => toAnswerEvent(a, session)) }
+			: { cancelled: outcome === "unavailable" ? "abort" : outcome },
+	);
+	return result;
+}
@@ -2,19 +2,62 @@
  * MCQ (Multiple Choice Questions) — adaptive multi-channel intent tool
  *
  * Press 1-4 to answer. Option 4 is always "Other (type your response)".
+ * Multi questions toggle options with space; rank questions take number keys
+ * in priority order. Enter confirms either. Options with `code` preview it
+ * while highlighted: a side panel in the full layout (below the options when
+ * narrow), a block Tab expands in compact.
  * Adapts rendering to terminal width:
  *   - Full (≥50 cols): bars, progress, recommendations, wrapping
  *   - Compact (35-49 cols): stripped chrome, short prefixes, no hints
  *   - Minimal (<35 cols): flat numbered list, zero decoration
  *
  * Wire protocol: NDJSON over Redis gateway for Telegram/web/native/voice.
- * See protocol.ts for the shared schema.
+ * See protocol.ts for the shared schema and transport.ts for delivery.
+ * Questions are published to the gateway whenever Redis is reachable; the
+ * first answer per question wins, from a keypress or any remote channel.
+ * Completed questionnaires go to the decision log (decisions.ts), which
+ * `/decisions` browses and `/decide` cites. Reusable questionnaires live in
+ * .pi/mcq (templates.ts); `/mcq <name>` runs one. `/mcq-web` serves open
+ * questions to a phone on the local network (web.ts).
+ *
+ * Voice mode (`voice: true`, `/mcq-voice` or MCQ_VOICE=1) renders with the
+ * speakable voice context: each question as prose (voice.ts) with the answer
+ * editor open, for screen readers and dictation. Typed or dictated answers such as "the second
+ * one" or "go with sqlite" are matched to options in any mode.
+ *
+ * Without the TUI (print and RPC modes) headless.ts applies the headless
+ * policy: accept strong recommendations, ask through RPC dialogs, or return
+ * the open questions for the caller to answer and feed back.
  */
 
-import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
-import { Editor, type EditorTheme, Key, matchesKey, Text, truncateToWidth, visibleWidth, wrapTextWithAnsi } from "@earendil-works/pi-tui";
+import { type ExtensionAPI, type ExtensionUIContext, getLanguageFromPath, highlightCode } from "@earendil-works/pi-coding-agent";
+import { Editor, type EditorTheme, fuzzyFilter, Key, matchesKey, Text, truncateToWidth, visibleWidth, wrapTextWithAnsi } from "@earendil-works/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { getTUILayout, type TUILayout, type MCQQuestionDef } from "./protocol.js";
+import { branchPath, nextOpen, nextQuestion, pathAnswers, pathIds, stepLabel, stepOf } from "./branching.js";
+import {
+	appendDecisions,
+	DECISION_ENTRY_TYPE,
+	decisionLabel,
+	decisionsPath,
+	formatDecision,
+	latestDecisions,
+	readDecisions,
+	relevantDecisions,
+	toDecisions,
+	toQuestionDef,
+} from "./decisions.js";
+import { answerWithoutTUI, fromAnswerEvent, prefilledAnswers, resolveHeadlessPolicy, selectionAnswer, spokenAnswer, toAnswerEvent } from "./headless.js";
+import { getOptionLabel, getTUILayout, type MCQOptionCode, type MCQRenderContext, resolveSelections, type TUILayout, type MCQQuestionDef } from "./protocol.js";
+import { MCQQuestionSchema } from "./schema.js";
+import { findTemplate, loadTemplates, type MCQTemplate, templatesDir } from "./templates.js";
+import { connectRedisTransport, mergeTransports, MCQRemoteFlow, type MCQRemoteEvent } from "./transport.js";
+import type { MCQAnswer, MCQQuestion, MCQResult } from "./types.js";
+import { speakAnswers, speakQuestion, VOICE_RENDER_CONTEXT } from "./voice.js";
+import { MCQWebServer } from "./web.js";
+
+/** Full-layout width from which code previews sit beside the question instead of below it. */
+const PREVIEW_SIDE_MIN_WIDTH = 100;
+const PREVIEW_MAX_LINES = 16;
 
 // ── Width-aware prompt guidance ──────────────────────────────────────
 
@@ -49,64 +92,20 @@ function getCompactnessGuidance(): string {
 	return "";
 }
 
-// ── Types ────────────────────────────────────────────────────────────
-
-interface MCQQuestion {
-	id: string;
-	question: string;
-	options: string[];
-	context?: string;
-	recommended?: number;
-	recommendedReason?: string;
-	/** "strong" pre-selects the recommended option, "slight" just badges it */
-	conviction?: "strong" | "slight";
-	/** "critical" = visually prominent, "minor" = compact */
-	weight?: "critical" | "minor";
-}
-
-interface MCQAnswer {
-	id: string;
-	question: string;
-	selected: number;
-	answer: string;
-	isCustom: boolean;
-}
-
-interface MCQResult {
-	title: string;
-	answers: MCQAnswer[];
-	cancelled: boolean;
-}
-
 // ── Schema ───────────────────────────────────────────────────────────
 
-const MCQQuestionSchema = Type.Object({
-	id: Type.String({ description: "Short label, e.g. 'scope', 'priority'" }),
-	question: Type.String({ description: "The question to ask" }),
-	options: Type.Array(Type.String(), {
-		description: 'Up to 3 options. A final "Other" option is always appended automatically.',
-		maxItems: 3,
-	}),
-	context: Type.Optional(Type.String({ description: "Optional hint shown below the question" })),
-	recommended: Type.Optional(
-		Type.Number({ description: "1-indexed option number to recommend. Omit if no strong recommendation." }),
-	),
-	recommendedReason: Type.Optional(
-		Type.String({ description: "Brief reasoning for the recommendation (1-2 sentences)." }),
-	),
-	conviction: Type.Optional(
-		Type.String({ description: '"strong" pre-selects the recommended option, "slight" just shows a badge without pre-selecting. Default: strong.' }),
-	),
-	weight: Type.Optional(
-		Type.String({ description: '"critical" for key decisions (visually prominent), "minor" for low-stakes (compact). Default: normal.' }),
-	),
-});
-
 const MCQParams = Type.Object({
 	title: Type.Optional(Type.String({ description: 'Flow title, e.g. "Feature Design"' })),
-	questions: Type.Array(MCQQuestionSchema, {
-		description: "Questions to present. Each gets up to 3 options plus auto-appended Other.",
-	}),
+	questions: Type.Optional(
+		Type.Array(MCQQuestionSchema, {
+			description: "Questions to present. Each gets up to 3 options plus auto-appended Other. Omit when using a template.",
+		}),
+	),
+	template: Type.Optional(
+		Type.String({
+			description: "Name of a project questionnaire in .pi/mcq to present instead of `questions`. Follow its instructions with the answers.",
+		}),
+	),
 	timeout: Type.Optional(
 		Type.Number({
 			description:
@@ -114,6 +113,25 @@ const MCQParams = Type.Object({
 			minimum: 0,
 		}),
 	),
+	answers: Type.Optional(
+		Type.Record(Type.String(), Type.Union([Type.Number(), Type.String()]), {
+			description:
+				"Answers already given, keyed by question id: an option number, an option's text, or free text for Other. " +
+				"Use this to resume after an unanswered result.",
+		}),
+	),
+	voice: Type.Optional(
+		Type.Boolean({
+			description: "Speakable rendering with spoken answers, for voice and dictation users. Default: the /mcq-voice setting.",
+		}),
+	),
+	headless: Type.Optional(
+		Type.Union([Type.Literal("auto"), Type.Literal("rpc"), Type.Literal("fail")], {
+			description:
+				'Without the TUI: "auto" accepts strong recommendations, "rpc" asks through RPC dialogs, ' +
+				'"fail" returns the open questions. Default: $MCQ_HEADLESS_POLICY or "rpc".',
+		}),
+	),
 });
 
 // ── Helpers ──────────────────────────────────────────────────────────
@@ -124,13 +142,87 @@ function progressBar(current: number, total: number, width: number, fg: (c: any,
 	return fg("accent", "█".repeat(filled)) + fg("dim", "░".repeat(Math.max(0, w - filled)));
 }
 
+/** Option numbers for display: "2", "1,3" (multi) or "2>1>3" (rank). */
+function pickLabel(a: MCQAnswer): string {
+	return a.kind ? a.selections!.join(a.kind === "rank" ? ">" : ",") : String(a.selected);
+}
+
+function formatResult(result: MCQResult) {
+	const unanswered = result.headless?.unanswered;
+	if (unanswered) {
+		return {
+			content: [{ type: "text" as const, text: JSON.stringify(unanswered, null, 2) }],
+			details: result,
+		};
+	}
+	if (result.cancelled) {
+		return {
+			content: [{ type: "text" as const, text: "User cancelled." }],
+			details: result,
+		};
+	}
+
+	const answerLines = result.answers.map((a) => {
+		const via = a.autoSelected
+			? " (auto-selected: strong recommendation)"
+			: a.channel && a.channel !== "tui"
+				? ` (via ${a.channel})`
+				: "";
+		if (a.isCustom) return `${a.id}: (user wrote${via}) ${a.answer}`;
+		return `${a.id}: ${pickLabel(a)}. ${a.answer}${via}`;
+	});
+
+	if (result.path) answerLines.push(`path: ${result.path.join(" → ")}`);
+
+	return {
+		content: [{ type: "text" as const, text: answerLines.join("\n") }],
+		details: result,
+	};
+}
+
 // ── Extension ────────────────────────────────────────────────────────
 
 export default function mcq(pi: ExtensionAPI) {
+	const web = new MCQWebServer();
+	let voiceMode = process.env.MCQ_VOICE === "1";
+
+	/** Start the web surface and show its QR code; false when the port is taken. */
+	async function startWeb(ui: ExtensionUIContext): Promise<boolean> {
+		try {
+			await web.start();
+		} catch (error) {
+			ui.notify(`MCQ web surface failed to start: ${error instanceof Error ? error.message : String(error)}`, "warning");
+			return false;
+		}
+		ui.notify(`MCQ questions are open at ${web.url}\n\n${await web.qrText()}`, "info");
+		return true;
+	}
+
+	pi.on("session_shutdown", async () => {
+		web.stop();
+	});
+
+	/** Log a completed questionnaire to the session and the project's decision log. */
+	function recordDecisions(result: MCQResult, questions: MCQQuestion[], session: string, cwd: string) {
+		if (result.cancelled || result.answers.length === 0) return;
+		const decisions = toDecisions(result, questions, session);
+		pi.appendEntry(DECISION_ENTRY_TYPE, { title: result.title, decisions });
+		try {
+			appendDecisions(cwd, decisions);
+		} catch {
+			// The session entry still has them
+		}
+	}
+
 	// ── System prompt nudge ──────────────────────────────────────────
 
-	pi.on("before_agent_start", async (event) => {
+	pi.on("before_agent_start", async (event, ctx) => {
 		const compactness = getCompactnessGuidance();
+		const { templates } = loadTemplates(ctx.cwd);
+		const templateList = templates.length
+			? "\n\n**Project templates**: for these standard questionnaires call mcq with `template` instead of inventing questions:\n" +
+				templates.map((t) => `- ${t.name}${t.description ? ` — ${t.description}` : ""}`).join("\n")
+			: "";
 		return {
 			systemPrompt:
 				event.systemPrompt +
@@ -149,6 +241,7 @@ export default function mcq(pi: ExtensionAPI) {
 				"and `recommendedReason` (1-2 sentence explanation) on each question where you have a preference. " +
 				"This is important — it shows a ★ badge and pre-selects the option so the user can just hit Enter to accept. " +
 				"Omit only when all options are genuinely equal." +
+				templateList +
 				compactness,
 		};
 	});
@@ -161,6 +254,12 @@ export default function mcq(pi: ExtensionAPI) {
 			"Each question has up to 3 options; a 4th 'Other' option is always appended so the user can type a free response " +
 			"(including @file and $symbol references). " +
 			"User presses 1–4 to answer instantly. " +
+			'Set `kind: "multi"` for "which of these apply" or `kind: "rank"` for "order these by priority". ' +
+			"To compare approaches concretely, pass an option as `{ label, code: { code, lang?, file? } }`; " +
+			"the snippet (or a diff against `file`) is previewed while the option is highlighted. " +
+			"Set `voice: true` when the user is dictating or using a screen reader; questions are then read as prose and spoken answers are matched to options. " +
+			"For a known decision tree, give questions a `next` map (option number → question id or \"end\") " +
+			"to run the whole branching wizard in one call; the result includes the path taken. " +
 			"Use for requirements, design decisions, config choices, or any structured clarification. " +
 			"You can recommend an option with reasoning to guide the user's decision. " +
 			"ADAPTIVE FLOW: Prefer calling mcq with 1-2 questions at a time, then reading the answers " +
@@ -170,22 +269,32 @@ export default function mcq(pi: ExtensionAPI) {
 			"this shows a ★ badge and pre-selects the option. Omit only when options are genuinely equal.",
 		parameters: MCQParams,
 
-		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-			if (!ctx.hasUI) {
-				return {
-					content: [{ type: "text", text: "MCQ requires interactive mode" }],
-					details: { title: "", answers: [], cancelled: true } as MCQResult,
-				};
+		async execute(_toolCallId, params, signal, _onUpdate, ctx) {
+			let template: MCQTemplate | undefined;
+			if (params.template) {
+				const { templates, invalid } = loadTemplates(ctx.cwd);
+				template = findTemplate(templates, params.template);
+				if (!template) {
+					const broken = findTemplate(invalid, params.template);
+					const text = broken
+						? `Template "${broken.name}" is invalid (${broken.file}):\n${broken.errors.map((e) => `- ${e}`).join("\n")}`
+						: `No template "${params.template}" in ${templatesDir(ctx.cwd)}. Available: ${templates.map((t) => t.name).join(", ") || "none"}`;
+					return {
+						content: [{ type: "text", text }],
+						details: { title: "", answers: [], cancelled: true } as MCQResult,
+					};
+				}
 			}
-			if (params.questions.length === 0) {
+			const defs = template?.questions ?? params.questions ?? [];
+			if (defs.length === 0) {
 				return {
 					content: [{ type: "text", text: "No questions provided" }],
 					details: { title: "", answers: [], cancelled: true } as MCQResult,
 				};
 			}
 
-			const title = params.title || "Questions";
-			const questions: MCQQuestion[] = params.questions.map((q) => ({
+			const title = params.title || template?.title || template?.name || "Questions";
+			const questions: MCQQuestion[] = defs.map((q) => ({
 				...q,
 				options: q.options.slice(0, 3),
 				conviction: (q as any).conviction as MCQQuestion["conviction"],
@@ -193,21 +302,55 @@ export default function mcq(pi: ExtensionAPI) {
 			}));
 			const timeoutRaw = typeof (params as any).timeout === "number" ? (params as any).timeout : 30;
 			const timeoutSecs = Number.isFinite(timeoutRaw) ? Math.max(0, Math.trunc(timeoutRaw)) : 30;
+			const session = ctx.sessionManager.getSessionId();
+			const complete = (result: MCQResult) => {
+				recordDecisions(result, questions, session, ctx.cwd);
+				const formatted = formatResult(result);
+				if (template?.instructions && !result.cancelled) {
+					formatted.content.push({ type: "text", text: `\nTemplate instructions (${template.name}): ${template.instructions}` });
+				}
+				return formatted;
+			};
+			const prefilled = prefilledAnswers(questions, params.answers);
+			if (nextOpen(questions, prefilled) === null) {
+				const path = pathIds(questions, prefilled);
+				return complete({ title, answers: pathAnswers(questions, prefilled), ...(path ? { path } : {}), cancelled: false });
+			}
+			if (process.env.MCQ_WEB_PORT && !web.running) await startWeb(ctx.ui);
+			// Opening the flow publishes the question, so only the TUI or the "rpc" policy opens it
+			let remote: MCQRemoteFlow | undefined;
+			const openRemote = () =>
+				(remote ??= new MCQRemoteFlow(session, title, questions, async () =>
+					mergeTransports([await connectRedisTransport(), web.running ? web.transport() : null]),
+				));
+			const headless = (ui: typeof ctx.ui | undefined) =>
+				answerWithoutTUI({ ui, session, openRemote, title, questions, answers: prefilled, policy: resolveHeadlessPolicy(params.headless), signal });
+
+			if (!ctx.hasUI) return complete(await headless(undefined));
 
 			// Hide the working spinner while custom UI is showing
 			ctx.ui.setWorkingMessage(" ");
 
 			const result = await ctx.ui.custom<MCQResult>((tui, theme, _kb, done) => {
+				const remote = openRemote();
 				// ── State ──
-				let currentQ = 0;
-				let inputMode = false;
+				let currentQ = nextOpen(questions, prefilled) ?? 0;
+				/** The voice context renders speakable prose with the answer editor always open */
+				const context: MCQRenderContext = (params.voice ?? voiceMode) ? VOICE_RENDER_CONTEXT : { channel: "tui", supportsCode: true };
+				const voice = context.speakable === true;
+				let inputMode = voice;
 				let showSummary = false;
 				let flashIndex: number | null = null;
+				/** Compact layout: show the highlighted option's code (Tab toggles) */
+				let previewExpanded = false;
 				let lastEscTime = 0;
 				let cachedLines: string[] | undefined;
 				let cachedWidth: number | undefined;
 				let highlightIndex = 0;
-				const answers = new Map<number, MCQAnswer>();
+				let submitted = false;
+				const answers = new Map<number, MCQAnswer>(prefilled);
+				/** In-progress multi/rank picks per question, in pick order */
+				const picks = new Map<number, number[]>();
 
 				// ── Editor for "Other" ──
 				const editorTheme: EditorTheme = {
@@ -219,13 +362,24 @@ export default function mcq(pi: ExtensionAPI) {
 					const trimmed = value.trim();
 					if (!trimmed) return;
 					const q = questions[currentQ];
-					answers.set(currentQ, {
+					const spoken = spokenAnswer(q, trimmed, "tui");
+					if (spoken) {
+						editor.setText("");
+						if (spoken.kind) picks.set(currentQ, spoken.selections!);
+						commitAnswer(spoken, spoken.kind ? 0 : spoken.selected);
+						return;
+					}
+					const answer: MCQAnswer = {
 						id: q.id,
 						question: q.question,
 						selected: q.options.length + 1,
 						answer: trimmed,
 						isCustom: true,
-					});
+						channel: "tui",
+					};
+					answers.set(currentQ, answer);
+					picks.delete(currentQ);
+					remote.answered(toAnswerEvent(answer, session));
 					inputMode = false;
 					editor.setText("");
 					advance();
@@ -294,6 +448,11 @@ export default function mcq(pi: ExtensionAPI) {
 					const q = questions[currentQ];
 					const recommended = getRecommendedIndex(q);
 					if (!recommended) return;
+					if (listKind(q)) {
+						picks.set(currentQ, [recommended]);
+						commitPicks();
+						return;
+					}
 					selectOption(recommended);
 				}
 
@@ -315,8 +474,11 @@ export default function mcq(pi: ExtensionAPI) {
 						clearTimeout(advanceTimer);
 						advanceTimer = null;
 					}
-					if (currentQ < questions.length - 1) {
-						currentQ++;
+					// Follow the answer's branch; a jump back onto the path ends the flow
+					const path = branchPath(questions, answers);
+					const next = nextQuestion(questions, answers, currentQ);
+					if (typeof next === "number" && !path.slice(0, path.indexOf(currentQ) + 1).includes(next)) {
+						currentQ = next;
 						const nextQ = questions[currentQ];
 						// "strong" (default) pre-focuses recommended; "slight" just badges it
 						const recommended = getRecommendedIndex(nextQ);
@@ -325,6 +487,7 @@ export default function mcq(pi: ExtensionAPI) {
 					} else {
 						showSummary = true;
 					}
+					inputMode = voice && !showSummary;
 					resetCountdown();
 					refresh();
 				}
@@ -341,37 +504,153 @@ export default function mcq(pi: ExtensionAPI) {
 					}
 
 					if (index >= 1 && index <= q.options.length) {
-						answers.set(currentQ, {
+						commitAnswer({
 							id: q.id,
 							question: q.question,
 							selected: index,
-							answer: q.options[index - 1],
+							answer: getOptionLabel(q.options[index - 1]),
 							isCustom: false,
-						});
-						flashIndex = index;
+							channel: "tui",
+						}, index);
+					}
+				}
+
+				/** Record an answer for the current question, flash `flash`, then move on. */
+				function commitAnswer(answer: MCQAnswer, flash: number) {
+					answers.set(currentQ, answer);
+					remote.answered(toAnswerEvent(answer, session));
+					flashIndex = flash;
+					refresh();
+					if (advanceTimer) clearTimeout(advanceTimer);
+					advanceTimer = setTimeout(() => {
+						flashIndex = null;
+						advance();
+						advanceTimer = null;
+					}, 120);
+				}
+
+				// ── Multi / rank ──
+				function listKind(q: MCQQuestion): "multi" | "rank" | null {
+					return q.kind === "multi" || q.kind === "rank" ? q.kind : null;
+				}
+
+				/** Picks for the current question, seeded from an earlier answer when revisiting. */
+				function currentPicks(): number[] {
+					if (!picks.has(currentQ)) {
+						const existing = answers.get(currentQ);
+						picks.set(currentQ, existing?.kind ? [...existing.selections!] : []);
+					}
+					return picks.get(currentQ)!;
+				}
+
+				function togglePick(num: number) {
+					const q = questions[currentQ];
+					const list = currentPicks();
+					const at = list.indexOf(num);
+					if (at >= 0) list.splice(at, 1);
+					else list.push(num);
+					// Ranking the last option completes the order
+					if (q.kind === "rank" && list.length === q.options.length) {
+						commitPicks();
+						return;
+					}
+					refresh();
+				}
+
+				/** Multi with nothing toggled takes the highlighted option; rank fills in the rest in listed order. */
+				function commitPicks() {
+					const q = questions[currentQ];
+					const kind = listKind(q)!;
+					const list = currentPicks();
+					const chosen = list.length || kind === "rank" ? list : [highlightIndex + 1];
+					const selections = resolveSelections(kind, q.options.length, chosen);
+					if (!selections) return;
+					picks.set(currentQ, selections);
+					commitAnswer(selectionAnswer(q, kind, selections, "tui"), 0);
+				}
+
+				/** "[x] " / "[ ] " for multi, "[1] " / "[ ] " for rank, nothing for single. */
+				function pickMark(q: MCQQuestion, num: number): string {
+					if (!listKind(q)) return "";
+					const at = currentPicks().indexOf(num);
+					if (at < 0) return theme.fg("dim", "[ ] ");
+					return theme.fg("success", q.kind === "rank" ? `[${at + 1}] ` : "[x] ");
+				}
+
+				function listHint(q: MCQQuestion): string {
+					const n = q.options.length;
+					return q.kind === "rank"
+						? `1-${n} rank next • Backspace undo • Enter confirm (rest in order)`
+						: `Space/1-${n} toggle • Enter confirm`;
+				}
+
+				// Space and number keys toggle (multi) or rank next (rank),
+				// Backspace drops the last pick, Enter confirms. The "Other"
+				// number falls through to the single-choice handling.
+				function handleListInput(data: string): boolean {
+					const q = questions[currentQ];
+					const onOption = highlightIndex < q.options.length;
+					if (flashIndex !== null) return true;
+					if (matchesKey(data, Key.space)) {
+						if (onOption) togglePick(highlightIndex + 1);
+						return true;
+					}
+					if (matchesKey(data, Key.enter)) {
+						if (onOption) commitPicks();
+						else selectOption(q.options.length + 1);
+						return true;
+					}
+					if (matchesKey(data, Key.backspace)) {
+						currentPicks().pop();
 						refresh();
-						if (advanceTimer) clearTimeout(advanceTimer);
-						advanceTimer = setTimeout(() => {
-							flashIndex = null;
-							advance();
-							advanceTimer = null;
-						}, 120);
+						return true;
 					}
+					const n = parseInt(data);
+					if (n >= 1 && n <= q.options.length) {
+						highlightIndex = n - 1;
+						togglePick(n);
+						return true;
+					}
+					return false;
 				}
 
 				function submit(cancelled: boolean) {
+					if (submitted) return;
+					submitted = true;
 					stopCountdown();
 					if (advanceTimer) {
 						clearTimeout(advanceTimer);
 						advanceTimer = null;
 					}
-					const ordered: MCQAnswer[] = [];
-					for (let i = 0; i < questions.length; i++) {
-						const a = answers.get(i);
-						if (a) ordered.push(a);
+					const path = pathIds(questions, answers);
+					done({ title, answers: pathAnswers(questions, answers), ...(path ? { path } : {}), cancelled });
+				}
+
+				// ── Remote answers ──
+				// First answer per question wins. A remote answer to the current
+				// question moves on like a keypress; answering the last open
+				// question (or a remote complete/cancel) ends the flow.
+				function applyRemote(event: MCQRemoteEvent) {
+					if (event.type === "mcq.cancel") { submit(true); return; }
+					const incoming = event.type === "mcq.complete" ? event.answers : [event];
+					let answeredCurrent = false;
+					for (const a of incoming) {
+						const i = questions.findIndex((q) => q.id === a.id);
+						if (i < 0 || answers.has(i)) continue;
+						answers.set(i, fromAnswerEvent(a, questions[i]));
+						picks.delete(i);
+						if (i === currentQ) answeredCurrent = true;
+					}
+					if (event.type === "mcq.complete" || nextOpen(questions, answers) === null) { submit(false); return; }
+					if (answeredCurrent && !showSummary) {
+						inputMode = false;
+						editor.setText("");
+						advance();
+						return;
 					}
-					done({ title, answers: ordered, cancelled });
+					refresh();
 				}
+				remote.onEvent(applyRemote);
 
 				// ── Input handling ──
 				function handleInput(data: string) {
@@ -380,32 +659,38 @@ export default function mcq(pi: ExtensionAPI) {
 					}
 
 					if (inputMode) {
-						if (matchesKey(data, Key.escape)) {
+						if (!matchesKey(data, Key.escape)) {
+							editor.handleInput(data);
+							refresh();
+							return;
+						}
+						editor.setText("");
+						// Voice mode keeps the editor open; Esc goes back as usual
+						if (!voice) {
 							inputMode = false;
-							editor.setText("");
 							refresh();
 							return;
 						}
-						editor.handleInput(data);
-						refresh();
-						return;
 					}
 
 					if (showSummary) {
 						if (matchesKey(data, Key.enter)) { submit(false); return; }
 						if (matchesKey(data, Key.escape)) { submit(true); return; }
+						const path = branchPath(questions, answers);
 						if (matchesKey(data, Key.left) || matchesKey(data, Key.up)) {
 							showSummary = false;
-							currentQ = questions.length - 1;
+							inputMode = voice;
+							currentQ = path[path.length - 1];
 							highlightIndex = 0;
 							resetCountdown();
 							refresh();
 							return;
 						}
 						const n = parseInt(data);
-						if (n >= 1 && n <= questions.length) {
+						if (n >= 1 && n <= path.length) {
 							showSummary = false;
-							currentQ = n - 1;
+							inputMode = voice;
+							currentQ = path[n - 1];
 							highlightIndex = 0;
 							resetCountdown();
 							refresh();
@@ -414,13 +699,21 @@ export default function mcq(pi: ExtensionAPI) {
 						return;
 					}
 
+					if (matchesKey(data, Key.tab)) {
+						previewExpanded = !previewExpanded;
+						refresh();
+						return;
+					}
+
 					// Esc: double-tap cancels, single goes back
 					if (matchesKey(data, Key.escape)) {
 						const now = Date.now();
 						if (now - lastEscTime < 400) { submit(true); return; }
 						lastEscTime = now;
-						if (currentQ > 0) {
-							currentQ--;
+						const path = branchPath(questions, answers);
+						const back = path.indexOf(currentQ) - 1;
+						if (back >= 0) {
+							currentQ = path[back];
 							highlightIndex = 0;
 							resetCountdown();
 							refresh();
@@ -444,6 +737,8 @@ export default function mcq(pi: ExtensionAPI) {
 						return;
 					}
 
+					if (listKind(questions[currentQ]) && handleListInput(data)) return;
+
 					if (matchesKey(data, Key.enter)) { selectOption(highlightIndex + 1); return; }
 
 					// Number keys
@@ -464,7 +759,9 @@ export default function mcq(pi: ExtensionAPI) {
 					cachedWidth = width;
 					const layout = getTUILayout(width);
 
-					if (layout === "minimal") {
+					if (voice) {
+						cachedLines = renderVoice(width);
+					} else if (layout === "minimal") {
 						cachedLines = renderMinimal(width);
 					} else if (layout === "compact") {
 						cachedLines = renderCompact(width);
@@ -474,6 +771,25 @@ export default function mcq(pi: ExtensionAPI) {
 					return cachedLines;
 				}
 
+				// ── Voice renderer (speakable prose) ─────────────
+				function renderVoice(width: number): string[] {
+					const lines: string[] = [];
+					const addWrapped = (text: string) => lines.push(...wrapTextWithAnsi(text, width));
+
+					if (showSummary) {
+						addWrapped(speakAnswers(title, pathAnswers(questions, answers)));
+						addWrapped(theme.fg("dim", "Press Enter to confirm or Escape to cancel. Press a question's number to change it.") + timerDisplay());
+						return lines;
+					}
+
+					const { step, total } = stepOf(questions, answers, currentQ);
+					addWrapped(speakQuestion(questions[currentQ], { step, total }));
+					lines.push("");
+					for (const line of editor.render(width)) lines.push(line);
+					addWrapped(theme.fg("dim", "Say or type an option, its number, or your own answer. Enter answers, Escape goes back."));
+					return lines;
+				}
+
 				// ── Minimal renderer (<35 cols) ──────────────────
 				function renderMinimal(width: number): string[] {
 					const lines: string[] = [];
@@ -481,10 +797,10 @@ export default function mcq(pi: ExtensionAPI) {
 
 					if (showSummary) {
 						add(theme.fg("accent", theme.bold(`✓ ${title}`)));
-						for (let i = 0; i < questions.length; i++) {
+						for (const i of branchPath(questions, answers)) {
 							const a = answers.get(i);
 							if (a) {
-								const val = a.isCustom ? a.answer : `${a.selected}. ${a.answer}`;
+								const val = a.isCustom ? a.answer : `${pickLabel(a)}. ${a.answer}`;
 								add(`${theme.fg("success", "✓")} ${a.id}: ${val}`);
 							} else {
 								add(`${theme.fg("warning", "○")} ${questions[i].id}: ${theme.fg("dim", "–")}`);
@@ -496,7 +812,7 @@ export default function mcq(pi: ExtensionAPI) {
 
 					const q = questions[currentQ];
 					if (questions.length > 1) {
-						add(theme.fg("accent", `${currentQ + 1}/${questions.length} ${title}`) + timerDisplay());
+						add(theme.fg("accent", `${stepLabel(questions, answers, currentQ)} ${title}`) + timerDisplay());
 					} else {
 						const td = timerDisplay();
 						if (td) add(td.trimStart());
@@ -516,9 +832,10 @@ export default function mcq(pi: ExtensionAPI) {
 							: isHl ? theme.fg("accent", "▸")
 							: isRec ? theme.fg("warning", "★")
 							: " ";
-						const optWrapped = wrapTextWithAnsi(q.options[i], width - 4);
+						const pm = pickMark(q, num);
+						const optWrapped = wrapTextWithAnsi(getOptionLabel(q.options[i]), width - 4 - visibleWidth(pm));
 						for (let j = 0; j < optWrapped.length; j++) {
-							add(j === 0 ? `${mark}${num} ${optWrapped[j]}` : `   ${optWrapped[j]}`);
+							add(j === 0 ? `${mark}${num} ${pm}${optWrapped[j]}` : `   ${optWrapped[j]}`);
 						}
 					}
 					const otherNum = q.options.length + 1;
@@ -533,6 +850,8 @@ export default function mcq(pi: ExtensionAPI) {
 
 					if (inputMode) {
 						for (const line of editor.render(width - 1)) add(` ${line}`);
+					} else if (listKind(q)) {
+						add(theme.fg("dim", q.kind === "rank" ? "#=rank ⏎=ok" : "␣=toggle ⏎=ok"));
 					}
 
 					// Truncated rec reason — one line max
@@ -564,7 +883,7 @@ export default function mcq(pi: ExtensionAPI) {
 
 					if (showSummary) {
 						add(theme.fg("accent", theme.bold(`✓ ${title}`)));
-						for (let i = 0; i < questions.length; i++) {
+						for (const i of branchPath(questions, answers)) {
 							const a = answers.get(i);
 							if (a) {
 								const val = a.isCustom ? `✎ ${a.answer}` : a.answer;
@@ -581,7 +900,7 @@ export default function mcq(pi: ExtensionAPI) {
 
 					// Header: step + title, skip step counter for single question
 					if (questions.length > 1) {
-						add(`${theme.fg("accent", theme.bold(`${currentQ + 1}/${questions.length}`))} ${theme.fg("muted", title)}` + timerDisplay());
+						add(`${theme.fg("accent", theme.bold(stepLabel(questions, answers, currentQ)))} ${theme.fg("muted", title)}` + timerDisplay());
 					} else {
 						const td = timerDisplay();
 						if (td) add(td.trimStart());
@@ -595,7 +914,7 @@ export default function mcq(pi: ExtensionAPI) {
 
 					if (inputMode) {
 						for (let i = 0; i < q.options.length; i++) {
-							addWrapped(theme.fg("dim", ` ${i + 1} `), theme.fg("dim", q.options[i]));
+							addWrapped(theme.fg("dim", ` ${i + 1} `), theme.fg("dim", getOptionLabel(q.options[i])));
 						}
 						add(theme.fg("accent", ` ${q.options.length + 1} Other ✎`));
 						for (const line of editor.render(width - 1)) add(` ${line}`);
@@ -618,7 +937,7 @@ export default function mcq(pi: ExtensionAPI) {
 							else { mark = " "; color = "text"; }
 
 							const recTag = isRec && !isFlash && !isPrev ? theme.fg("warning", " ←rec") : "";
-							addWrapped(`${mark}${num} `, theme.fg(color, q.options[i]), recTag);
+							addWrapped(`${mark}${num} ${pickMark(q, num)}`, theme.fg(color, getOptionLabel(q.options[i])), recTag + codeTag(q, i));
 						}
 
 						// Other
@@ -633,6 +952,14 @@ export default function mcq(pi: ExtensionAPI) {
 						} else {
 							add(`${theme.fg("dim", ` ${otherNum}`)} Other`);
 						}
+						if (listKind(q)) add(theme.fg("dim", listHint(q)));
+
+						const code = highlightedCode(q);
+						if (code && previewExpanded) {
+							for (const line of previewLines(code, width - 3, PREVIEW_MAX_LINES)) add(` ${theme.fg("dim", "│")} ${line}`);
+						} else if (code) {
+							add(theme.fg("dim", " ▸ code preview (Tab)"));
+						}
 
 						// Recommendation reason — compact: one line max
 						if (q.recommended && q.recommendedReason && flashIndex === null) {
@@ -646,8 +973,59 @@ export default function mcq(pi: ExtensionAPI) {
 					return lines;
 				}
 
+				// ── Code previews ────────────────────────────────
+				function optionCode(q: MCQQuestion, index: number): MCQOptionCode | undefined {
+					const option = q.options[index];
+					return typeof option === "string" ? undefined : option?.code;
+				}
+
+				function highlightedCode(q: MCQQuestion): MCQOptionCode | undefined {
+					return showSummary || inputMode ? undefined : optionCode(q, highlightIndex);
+				}
+
+				function codeTag(q: MCQQuestion, index: number): string {
+					return optionCode(q, index) ? theme.fg("muted", " </>") : "";
+				}
+
+				function previewLines(code: MCQOptionCode, width: number, maxLines: number): string[] {
+					const lang = code.lang ?? (code.file ? getLanguageFromPath(code.file) : undefined);
+					const label = [code.file, lang].filter(Boolean).join(" · ") || "preview";
+					const body = highlightCode(code.code.replace(/\t/g, "  "), lang);
+					const shown = body.slice(0, maxLines).map((line) => truncateToWidth(line, width));
+					const hidden = body.length - shown.length;
+					return [
+						theme.fg("muted", truncateToWidth(label, width)),
+						...shown,
+						...(hidden > 0 ? [theme.fg("dim", `… ${hidden} more lines`)] : []),
+					];
+				}
+
 				// ── Full renderer (≥60 cols) ─────────────────────
+				// Wide terminals get the highlighted option's code beside the
+				// question; narrower ones get it under the options.
 				function renderFull(width: number): string[] {
+					const code = highlightedCode(questions[currentQ]);
+					if (!code) return renderFullBody(width);
+
+					if (width < PREVIEW_SIDE_MIN_WIDTH) {
+						const body = renderFullBody(width);
+						const preview = previewLines(code, width - 4, PREVIEW_MAX_LINES).map((line) => ` ${theme.fg("dim", "│")} ${line}`);
+						return [...body.slice(0, -1), ...preview, body[body.length - 1]];
+					}
+
+					const leftWidth = Math.floor(width / 2);
+					const left = renderFullBody(leftWidth);
+					const right = previewLines(code, width - leftWidth - 3, Math.max(PREVIEW_MAX_LINES, left.length - 2));
+					const lines: string[] = [];
+					for (let i = 0; i < Math.max(left.length, right.length); i++) {
+						const cell = left[i] ?? "";
+						const pad = " ".repeat(Math.max(0, leftWidth - visibleWidth(cell)));
+						lines.push(truncateToWidth(`${cell}${pad} ${theme.fg("dim", "│")} ${right[i] ?? ""}`, width));
+					}
+					return lines;
+				}
+
+				function renderFullBody(width: number): string[] {
 					const lines: string[] = [];
 					const add = (s: string) => lines.push(truncateToWidth(s, width));
 					const addWrapped = (prefix: string, text: string, suffix?: string) => {
@@ -669,13 +1047,13 @@ export default function mcq(pi: ExtensionAPI) {
 						add(theme.fg("accent", theme.bold(` ✓ ${title}`)));
 						add("");
 
-						for (let i = 0; i < questions.length; i++) {
+						for (const i of branchPath(questions, answers)) {
 							const q = questions[i];
 							const a = answers.get(i);
 							if (a) {
 								const val = a.isCustom
 									? theme.fg("muted", "(wrote) ") + a.answer
-									: theme.fg("dim", `${a.selected}. `) + a.answer;
+									: theme.fg("dim", `${pickLabel(a)}. `) + a.answer;
 								addWrapped(` ${theme.fg("success", "✓")} ${theme.fg("accent", q.id)}: `, val);
 							} else {
 								add(` ${theme.fg("warning", "○")} ${theme.fg("accent", q.id)}: ${theme.fg("dim", "(unanswered)")}`);
@@ -693,10 +1071,11 @@ export default function mcq(pi: ExtensionAPI) {
 
 					add(bar);
 					if (questions.length > 1) {
-						const step = `${currentQ + 1}/${questions.length}`;
+						const { step: position, total, more } = stepOf(questions, answers, currentQ);
+						const step = stepLabel(questions, answers, currentQ);
 						const barWidth = Math.min(20, width - 4);
 						add(
-							` ${theme.fg("accent", theme.bold(title))} ${theme.fg("muted", step)}  ${progressBar(currentQ + 1, questions.length, barWidth, theme.fg.bind(theme))}` + timerDisplay(),
+							` ${theme.fg("accent", theme.bold(title))} ${theme.fg("muted", step)}  ${progressBar(position, total + (more ? 1 : 0), barWidth, theme.fg.bind(theme))}` + timerDisplay(),
 						);
 					} else {
 						add(` ${theme.fg("accent", theme.bold(title))}` + timerDisplay());
@@ -710,7 +1089,7 @@ export default function mcq(pi: ExtensionAPI) {
 
 					if (inputMode) {
 						for (let i = 0; i < q.options.length; i++) {
-							addWrapped(theme.fg("dim", `   ${i + 1}  `), theme.fg("dim", q.options[i]));
+							addWrapped(theme.fg("dim", `   ${i + 1}  `), theme.fg("dim", getOptionLabel(q.options[i])));
 						}
 						add(theme.fg("accent", `   ${q.options.length + 1}  Other ✎`));
 						add("");
@@ -750,7 +1129,7 @@ export default function mcq(pi: ExtensionAPI) {
 								optColor = "text";
 							}
 							const recTag = rec && !isFlash && !isPrevSelected ? theme.fg("warning", " ← recommended") : "";
-							addWrapped(`${prefix} `, theme.fg(optColor, q.options[i]), recTag);
+							addWrapped(`${prefix} ${pickMark(q, num)}`, theme.fg(optColor, getOptionLabel(q.options[i])), recTag + codeTag(q, i));
 						}
 
 						// "Other" option
@@ -786,7 +1165,8 @@ export default function mcq(pi: ExtensionAPI) {
 
 						add("");
 						const escHint = currentQ > 0 ? "Esc back" : "Esc×2 cancel";
-						add(theme.fg("dim", ` ↑↓ navigate • Enter select • 1-${otherNum} quick pick • ${escHint}`));
+						const keys = listKind(q) ? `${listHint(q)} • ${otherNum} other` : `Enter select • 1-${otherNum} quick pick`;
+						add(theme.fg("dim", ` ↑↓ navigate • ${keys} • ${escHint}`));
 					}
 
 					add(bar);
@@ -806,23 +1186,11 @@ export default function mcq(pi: ExtensionAPI) {
 			// Restore default working message
 			ctx.ui.setWorkingMessage();
 
-			// ── Format result for LLM ──
-			if (result.cancelled) {
-				return {
-					content: [{ type: "text", text: "User cancelled." }],
-					details: result,
-				};
-			}
+			// RPC mode has dialogs but no custom components
+			if (!result) return complete(await headless(ctx.ui));
 
-			const answerLines = result.answers.map((a) => {
-				if (a.isCustom) return `${a.id}: (user wrote) ${a.answer}`;
-				return `${a.id}: ${a.selected}. ${a.answer}`;
-			});
-
-			return {
-				content: [{ type: "text", text: answerLines.join("\n") }],
-				details: result,
-			};
+			await remote?.finish(result.cancelled ? { cancelled: "user" } : { answers: result.answers.map((a) => toAnswerEvent(a, session)) });
+			return complete(result);
 		},
 
 		// ── Rendering ────────────────────────────────────────────────
@@ -838,15 +1206,25 @@ export default function mcq(pi: ExtensionAPI) {
 
 		renderResult(result, _options, theme) {
 			const details = result.details as MCQResult | undefined;
+			if (details?.headless?.unanswered) {
+				const open = details.headless.unanswered.questions.map((q) => q.id).join(", ");
+				return new Text(theme.fg("warning", `Unanswered (${details.headless.policy}): `) + theme.fg("dim", open), 0, 0);
+			}
 			if (!details || details.cancelled) {
 				return new Text(theme.fg("warning", "Cancelled"), 0, 0);
 			}
 			const lines = details.answers.map((a) => {
 				const val = a.isCustom
 					? theme.fg("muted", "(wrote) ") + a.answer
-					: theme.fg("dim", `${a.selected}. `) + a.answer;
-				return `${theme.fg("success", "✓")} ${theme.fg("accent", a.id)}: ${val}`;
+					: theme.fg("dim", `${pickLabel(a)}. `) + a.answer;
+				const via = a.autoSelected
+					? theme.fg("dim", " auto")
+					: a.channel && a.channel !== "tui"
+						? theme.fg("dim", ` via ${a.channel}`)
+						: "";
+				return `${theme.fg("success", "✓")} ${theme.fg("accent", a.id)}: ${val}${via}`;
 			});
+			if (details.path) lines.push(theme.fg("dim", `path: ${details.path.join(" → ")}`));
 			return new Text(lines.join("\n"), 0, 0);
 		},
 	});
@@ -871,6 +1249,7 @@ export default function mcq(pi: ExtensionAPI) {
 			pi.sendUserMessage(
 				`I want to design: ${topic}\n\n` +
 					`Ask me 3-5 focused design questions to understand my intent before writing any code. ${MCQ_COMMON} ` +
+					`Where later questions depend on earlier answers in ways you can predict, use \`next\` maps to branch within one mcq call. ` +
 					`After I answer, synthesize my choices into a concrete implementation plan, then ask if I'd like to proceed.`,
 			);
 		},
@@ -887,6 +1266,7 @@ export default function mcq(pi: ExtensionAPI) {
 			pi.sendUserMessage(
 				`I need to set up: ${topic}\n\n` +
 					`Walk me through the configuration choices as a step-by-step wizard. ${MCQ_COMMON} ` +
+					`If the choices form a decision tree you already know, send it as one mcq call with \`next\` maps so the branches run locally. ` +
 					`After I answer, apply the configuration and show me what was set up.`,
 			);
 		},
@@ -900,12 +1280,105 @@ export default function mcq(pi: ExtensionAPI) {
 				ctx.ui.notify("Usage: /decide <architectural decision to make>", "warning");
 				return;
 			}
+			const settled = relevantDecisions(readDecisions(ctx.cwd), topic);
+			const cite = settled.length
+				? `I already settled these in earlier questionnaires. Cite them instead of re-asking, unless I say I want to revisit one:\n` +
+					settled.map((d) => `- ${formatDecision(d)}`).join("\n") +
+					"\n\n"
+				: "";
 			pi.sendUserMessage(
 				`I need to make a decision: ${topic}\n\n` +
+					cite +
 					`Present the key tradeoffs as focused questions with clear options. ${MCQ_COMMON} ` +
 					`After I answer, write a concise ADR (Architecture Decision Record) summarizing the decision, ` +
-					`context, options considered, and rationale for the chosen approach.`,
+					`context, options considered, and rationale for the chosen approach` +
+					(settled.length ? `, citing the earlier decisions it builds on.` : `.`),
+			);
+		},
+	});
+
+	pi.registerCommand("mcq", {
+		description: "Run a project questionnaire from .pi/mcq — /mcq <template>",
+		getArgumentCompletions: (prefix) => {
+			const { templates } = loadTemplates(process.cwd());
+			const matches = prefix.trim() ? fuzzyFilter(templates, prefix.trim(), (t) => t.name) : templates;
+			return matches.length
+				? matches.map((t) => ({ value: t.name, label: t.name, description: t.description ?? t.title }))
+				: null;
+		},
+		handler: async (args, ctx) => {
+			const { templates, invalid } = loadTemplates(ctx.cwd);
+			for (const t of invalid) ctx.ui.notify(`Invalid mcq template ${t.name}: ${t.errors[0]}`, "warning");
+			if (templates.length === 0) {
+				ctx.ui.notify(`No mcq templates in ${templatesDir(ctx.cwd)}`, "info");
+				return;
+			}
+			const query = args?.trim() ?? "";
+			let template = query ? findTemplate(templates, query) : undefined;
+			if (!template) {
+				if (query) ctx.ui.notify(`No mcq template matches "${query}"`, "warning");
+				const labels = templates.map((t) => (t.description ? `${t.name} — ${t.description}` : t.name));
+				const picked = await ctx.ui.select("MCQ templates", labels);
+				if (picked === undefined) return;
+				template = templates[labels.indexOf(picked)];
+			}
+			pi.sendUserMessage(
+				`Run the "${template.name}" questionnaire: call the mcq tool with \`template: "${template.name}"\` ` +
+					`and no questions of your own. ` +
+					(template.instructions
+						? `Then follow its instructions with my answers.`
+						: `Then summarize my answers and ask what I'd like to do next.`),
 			);
 		},
 	});
+
+	pi.registerCommand("mcq-web", {
+		description: "Answer mcq questions from a phone on the local network — /mcq-web [stop]",
+		handler: async (args, ctx) => {
+			if (args?.trim() === "stop") {
+				web.stop();
+				ctx.ui.notify("MCQ web surface stopped", "info");
+				return;
+			}
+			if (web.running) ctx.ui.notify(`MCQ questions are open at ${web.url}\n\n${await web.qrText()}`, "info");
+			else await startWeb(ctx.ui);
+		},
+	});
+
+	pi.registerCommand("mcq-voice", {
+		description: "Toggle speakable mcq questions with spoken answers — /mcq-voice [on|off]",
+		handler: async (args, ctx) => {
+			const arg = args?.trim().toLowerCase();
+			voiceMode = arg === "on" ? true : arg === "off" ? false : !voiceMode;
+			ctx.ui.notify(`MCQ voice mode ${voiceMode ? "on" : "off"}`, "info");
+		},
+	});
+
+	pi.registerCommand("decisions", {
+		description: "Browse past mcq answers and re-ask one — /decisions [filter]",
+		handler: async (args, ctx) => {
+			const filter = args?.trim().toLowerCase() ?? "";
+			const decisions = latestDecisions(readDecisions(ctx.cwd)).filter((d) => !filter || decisionLabel(d).toLowerCase().includes(filter));
+			if (decisions.length === 0) {
+				ctx.ui.notify(filter ? `No decisions match "${filter}"` : `No decisions logged yet (${decisionsPath(ctx.cwd)})`, "info");
+				return;
+			}
+			const labels = decisions.map(decisionLabel);
+			const picked = await ctx.ui.select(`Decisions (${decisions.length})`, labels);
+			if (picked === undefined) return;
+			const decision = decisions[labels.indexOf(picked)];
+
+			const reask = "Re-ask this question";
+			const cite = "Cite it in the conversation";
+			const action = await ctx.ui.select(formatDecision(decision), [reask, cite]);
+			if (action === reask) {
+				pi.sendUserMessage(
+					`Re-ask this earlier question with the mcq tool. On ${decision.ts.slice(0, 10)} I answered "${decision.answer}"; ` +
+						`I may confirm or change it.\n\n${JSON.stringify(toQuestionDef(decision))}`,
+				);
+			} else if (action === cite) {
+				pi.sendUserMessage(`Earlier decision, still settled: ${formatDecision(decision)}`);
+			}
+		},
+	});
 }
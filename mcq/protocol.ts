@@ -28,6 +28,8 @@ export interface MCQQuestionDef {
 	id: string;
 	/** The question text */
 	question: string;
+	/** "single" (default) picks one, "multi" picks any, "rank" orders all */
+	kind?: MCQQuestionKind;
 	/** Up to 3 options. "Other" is always implied as last option. */
 	options: MCQOption[];
 	/** Hint shown below question */
@@ -40,37 +42,75 @@ export interface MCQQuestionDef {
 	conviction?: "strong" | "slight";
 	/** Visual weight — "critical" = prominent, "minor" = compact */
 	weight?: "critical" | "minor";
+	/** Branching: option number, "other" or "*" → next question id or "end" */
+	next?: Record<string, string>;
 }
 
+export type MCQQuestionKind = "single" | "multi" | "rank";
+
 export type MCQOption = string | MCQRichOption;
 
 export interface MCQRichOption {
 	label: string;
-	code?: {
-		code: string;
-		lang?: string;
-		file?: string;
-	};
+	/** Snippet or diff previewed while the option is highlighted */
+	code?: MCQOptionCode;
+}
+
+export interface MCQOptionCode {
+	code: string;
+	/** Highlighting language; inferred from `file` when omitted ("diff" for patches) */
+	lang?: string;
+	/** File the snippet belongs to or the diff applies to */
+	file?: string;
 }
 
 export function getOptionLabel(opt: MCQOption): string {
 	return typeof opt === "string" ? opt : opt.label;
 }
 
+/**
+ * Normalize 1-indexed picks for a multi or rank question, or null when they
+ * are invalid. Multi needs at least one pick and comes back ascending; rank
+ * keeps the given order and appends unranked options in listed order.
+ */
+export function resolveSelections(kind: "multi" | "rank", optionCount: number, picks: number[]): number[] | null {
+	if (!picks.every((n) => Number.isInteger(n) && n >= 1 && n <= optionCount)) return null;
+	if (new Set(picks).size !== picks.length) return null;
+	if (kind === "multi") return picks.length ? [...picks].sort((a, b) => a - b) : null;
+	const rest = Array.from({ length: optionCount }, (_v, i) => i + 1).filter((n) => !picks.includes(n));
+	return [...picks, ...rest];
+}
+
+/** Human-readable answer text for multi ("A, B") and rank ("A > B > C") picks. */
+export function formatSelections(kind: "multi" | "rank", labels: string[]): string {
+	return labels.join(kind === "rank" ? " > " : ", ");
+}
+
 // ── Answer (client → agent) ──────────────────────────────────────
 
+/**
+ * Single answers set `selected` and `answer`. Multi and rank answers set
+ * `kind` and `selections` instead, with `selected: 0` and `answer` holding the
+ * joined labels. "Other" is a single custom answer for every kind.
+ */
 export interface MCQAnswerEvent {
 	type: "mcq.answer";
 	/** Question ID this answers */
 	id: string;
-	/** 1-indexed selection (options.length + 1 = "Other") */
+	/** 1-indexed selection (options.length + 1 = "Other"); 0 for multi and rank */
 	selected: number;
 	/** The text of the selected option or custom input */
 	answer: string;
 	/** True if user typed a custom response */
 	isCustom: boolean;
+	/** Set for multi and rank answers */
+	kind?: "multi" | "rank";
+	/** 1-indexed options: chosen ones (multi, ascending) or all of them in priority order (rank) */
+	selections?: number[];
 	/** Which channel answered */
 	channel: "tui" | "telegram" | "web" | "native" | "voice" | "rpc";
+	/** True when a headless policy accepted the recommendation, not a person */
+	auto?: boolean;
 	/** Session ID */
 	session: string;
 	/** ISO timestamp */
@@ -127,6 +167,7 @@ export function parse(line: string): MCQEvent | null {
 				return obj as MCQQuestionEvent;
 			case "mcq.answer":
 				if (!obj.id || typeof obj.selected !== "number" || typeof obj.answer !== "string") return null;
+				if (obj.kind && !Array.isArray(obj.selections)) return null;
 				return obj as MCQAnswerEvent;
 			case "mcq.cancel":
 				if (!obj.reason) return null;
@@ -156,6 +197,8 @@ export interface MCQRenderContext {
 	supportsButtons?: boolean;
 	/** Can render code blocks with syntax */
 	supportsCode?: boolean;
+	/** Render as speakable prose (voice, screen readers); see voice.ts */
+	speakable?: boolean;
 }
 
 /** Determine TUI layout mode from terminal width */
@@ -0,0 +1,66 @@
+/**
+ * MCQ tool schemas — the mcq tool parameters and project templates
+ * (templates.ts) validate against the same question definition.
+ */
+
+import { type Static, Type } from "@sinclair/typebox";
+
+export const MCQOptionSchema = Type.Union([
+	Type.String(),
+	Type.Object({
+		label: Type.String({ description: "Option text" }),
+		code: Type.Optional(
+			Type.Object({
+				code: Type.String({ description: "Snippet, or a unified diff with lang: \"diff\"" }),
+				lang: Type.Optional(Type.String({ description: "Highlighting language. Default: inferred from file." })),
+				file: Type.Optional(Type.String({ description: "File the snippet belongs to or the diff applies to" })),
+			}),
+		),
+	}),
+]);
+
+export const MCQQuestionSchema = Type.Object({
+	id: Type.String({ description: "Short label, e.g. 'scope', 'priority'" }),
+	question: Type.String({ description: "The question to ask" }),
+	kind: Type.Optional(
+		Type.Union([Type.Literal("single"), Type.Literal("multi"), Type.Literal("rank")], {
+			description: '"multi" for "which of these apply", "rank" for "order these by priority". Default: single.',
+		}),
+	),
+	options: Type.Array(MCQOptionSchema, {
+		description:
+			'Up to 3 options. A final "Other" option is always appended automatically. ' +
+			"Use { label, code } to preview a snippet or diff while the option is highlighted.",
+		maxItems: 3,
+	}),
+	context: Type.Optional(Type.String({ description: "Optional hint shown below the question" })),
+	recommended: Type.Optional(
+		Type.Number({ description: "1-indexed option number to recommend. Omit if no strong recommendation." }),
+	),
+	recommendedReason: Type.Optional(
+		Type.String({ description: "Brief reasoning for the recommendation (1-2 sentences)." }),
+	),
+	conviction: Type.Optional(
+		Type.String({ description: '"strong" pre-selects the recommended option, "slight" just shows a badge without pre-selecting. Default: strong.' }),
+	),
+	weight: Type.Optional(
+		Type.String({ description: '"critical" for key decisions (visually prominent), "minor" for low-stakes (compact). Default: normal.' }),
+	),
+	next: Type.Optional(
+		Type.Record(Type.String(), Type.String(), {
+			description:
+				'Branching: maps an option number ("1"-"3"), "other", or "*" (any other answer) to the id of the question to ask next, or "end". ' +
+				"Unmapped answers continue to the following question; questions off the chosen path are never asked.",
+		}),
+	),
+});
+
+export const MCQTemplateSchema = Type.Object({
+	title: Type.Optional(Type.String({ description: "Flow title; defaults to the template name" })),
+	description: Type.Optional(Type.String({ description: "What the questionnaire is for, shown in autocomplete" })),
+	instructions: Type.Optional(Type.String({ description: "What the agent should do with the answers" })),
+	questions: Type.Array(MCQQuestionSchema, { minItems: 1 }),
+});
+
+/** A question as the tool or a template supplies it. */
+export type MCQQuestionInput = Static<typeof MCQQuestionSchema>;
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findTemplate, loadTemplates, type MCQInvalidTemplate, parseTemplate, templatesDir } from "./templates.js";
+
+const roots: string[] = [];
+afterEach(() => { while (roots.length) rmSync(roots.pop()!, { recursive: true, force: true }); });
+
+describe("mcq templates", () => {
+	test("loads JSON and YAML templates and reports invalid ones", () => {
+		const cwd = mkdtempSync(join(tmpdir(), "mcq-templates-"));
+		roots.push(cwd);
+		const dir = templatesDir(cwd);
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(
+			join(dir, "new-service.json"),
+			JSON.stringify({
+				title: "New service checklist",
+				instructions: "Scaffold the service.",
+				questions: [
+					{ id: "lang", question: "Language?", options: ["TypeScript", "Go"], recommended: 1, next: { "2": "end" } },
+					{ id: "db", question: "Database?", options: ["Postgres", "None"] },
+				],
+			}),
+		);
+		writeFileSync(
+			join(dir, "release-signoff.yaml"),
+			["- id: checks", "  question: Which checks passed?", "  kind: multi", "  options: [Tests, Changelog, Docs]"].join("\n"),
+		);
+		writeFileSync(join(dir, "broken.yml"), "questions:\n  - id: a\n    question: A?\n    options: [x]\n    recommended: 4\n    next: { '1': missing }\n");
+		writeFileSync(join(dir, "notes.md"), "ignored");
+
+		const { templates, invalid } = loadTemplates(cwd);
+		expect(templates.map((t) => t.name)).toEqual(["new-service", "release-signoff"]);
+		expect(templates[0]).toMatchObject({ title: "New service checklist", instructions: "Scaffold the service." });
+		expect(templates[1].questions[0]).toMatchObject({ id: "checks", kind: "multi", options: ["Tests", "Changelog", "Docs"] });
+		expect(invalid).toEqual([
+			expect.objectContaining({
+				name: "broken",
+				errors: ["/questions/0/recommended: must be an option number from 1 to 1", '/questions/0/next/1: unknown question "missing"'],
+			}),
+		]);
+
+		expect((parseTemplate("x.json", "{") as MCQInvalidTemplate).errors[0]).toStartWith("parse error:");
+		expect((parseTemplate("x.json", JSON.stringify({ questions: [{ id: "a", options: ["x"] }] })) as MCQInvalidTemplate).errors[0]).toStartWith("/questions/0/question:");
+	});
+
+	test("finds templates by exact name, then fuzzily", () => {
+		const templates = [{ name: "new-service" }, { name: "release-signoff" }];
+		expect(findTemplate(templates, "Release-Signoff")?.name).toBe("release-signoff");
+		expect(findTemplate(templates, "relsign")?.name).toBe("release-signoff");
+		expect(findTemplate(templates, "svc")?.name).toBe("new-service");
+		expect(findTemplate(templates, "zzz")).toBeUndefined();
+	});
+});
@@ -0,0 +1,111 @@
+/**
+ * MCQ templates — reusable questionnaires such as "new service checklist" or
+ * "release sign-off", kept in the project as .pi/mcq/<name>.json, .yaml or
+ * .yml and validated against the mcq question schema.
+ *
+ * A template is `{ title?, description?, instructions?, questions }`, or just
+ * the questions array. Run one with `/mcq <name>` or by calling mcq with
+ * `template: "<name>"`.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+import { fuzzyFilter } from "@earendil-works/pi-tui";
+import { Value } from "@sinclair/typebox/value";
+import { parse as parseYaml } from "yaml";
+import { MCQTemplateSchema, type MCQQuestionInput } from "./schema.js";
+
+const EXTENSIONS = [".json", ".yaml", ".yml"];
+const MAX_ERRORS = 8;
+
+export interface MCQTemplate {
+	name: string;
+	file: string;
+	title?: string;
+	description?: string;
+	/** What the agent should do with the answers */
+	instructions?: string;
+	questions: MCQQuestionInput[];
+}
+
+export interface MCQInvalidTemplate {
+	name: string;
+	file: string;
+	errors: string[];
+}
+
+export function templatesDir(cwd: string): string {
+	return join(cwd, ".pi", "mcq");
+}
+
+/** Checks the schema can't express: ids, recommendations and branch targets. */
+function questionErrors(questions: MCQQuestionInput[]): string[] {
+	const errors: string[] = [];
+	const ids = new Set<string>();
+	questions.forEach((q, i) => {
+		const at = `/questions/${i}`;
+		if (ids.has(q.id)) errors.push(`${at}/id: duplicate id "${q.id}"`);
+		ids.add(q.id);
+		if (q.options.length === 0) errors.push(`${at}/options: needs at least one option`);
+		if (q.recommended !== undefined && !(Number.isInteger(q.recommended) && q.recommended >= 1 && q.recommended <= q.options.length)) {
+			errors.push(`${at}/recommended: must be an option number from 1 to ${q.options.length}`);
+		}
+		if (q.conviction !== undefined && q.conviction !== "strong" && q.conviction !== "slight") errors.push(`${at}/conviction: must be "strong" or "slight"`);
+		if (q.weight !== undefined && q.weight !== "critical" && q.weight !== "minor") errors.push(`${at}/weight: must be "critical" or "minor"`);
+	});
+	questions.forEach((q, i) => {
+		for (const [key, target] of Object.entries(q.next ?? {})) {
+			if (target !== "end" && !ids.has(target)) errors.push(`/questions/${i}/next/${key}: unknown question "${target}"`);
+		}
+	});
+	return errors;
+}
+
+/** Parse and validate one template file's contents. */
+export function parseTemplate(file: string, text: string): MCQTemplate | MCQInvalidTemplate {
+	const name = basename(file, extname(file));
+	let data: unknown;
+	try {
+		data = extname(file) === ".json" ? JSON.parse(text) : parseYaml(text);
+	} catch (error) {
+		return { name, file, errors: [`parse error: ${error instanceof Error ? error.message : String(error)}`] };
+	}
+	if (Array.isArray(data)) data = { questions: data };
+
+	if (!Value.Check(MCQTemplateSchema, data)) {
+		const errors = [...Value.Errors(MCQTemplateSchema, data)].slice(0, MAX_ERRORS).map((e) => `${e.path || "/"}: ${e.message}`);
+		return { name, file, errors };
+	}
+	const errors = questionErrors(data.questions);
+	if (errors.length) return { name, file, errors: errors.slice(0, MAX_ERRORS) };
+	return { name, file, ...data };
+}
+
+/** Every template in .pi/mcq, split into usable and invalid ones, sorted by name. */
+export function loadTemplates(cwd: string): { templates: MCQTemplate[]; invalid: MCQInvalidTemplate[] } {
+	const dir = templatesDir(cwd);
+	const templates: MCQTemplate[] = [];
+	const invalid: MCQInvalidTemplate[] = [];
+	if (!existsSync(dir)) return { templates, invalid };
+	for (const entry of readdirSync(dir).sort()) {
+		if (!EXTENSIONS.includes(extname(entry))) continue;
+		const file = join(dir, entry);
+		let text: string;
+		try {
+			text = readFileSync(file, "utf8");
+		} catch {
+			continue;
+		}
+		const parsed = parseTemplate(file, text);
+		if ("errors" in parsed) invalid.push(parsed);
+		else templates.push(parsed);
+	}
+	return { templates, invalid };
+}
+
+/** Exact name (case-insensitive) first, then the best fuzzy match. */
+export function findTemplate<T extends { name: string }>(templates: T[], query: string): T | undefined {
+	const wanted = query.trim().toLowerCase();
+	if (!wanted) return undefined;
+	return templates.find((t) => t.name.toLowerCase() === wanted) ?? fuzzyFilter(templates, wanted, (t) => t.name)[0];
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import type { MCQAnswerEvent, MCQEvent, MCQQuestionDef } from "./protocol.js";
+import { MCQRemoteFlow, type MCQRemoteEvent, type MCQTransport, resolveRemoteAnswer } from "./transport.js";
+
+const questions: MCQQuestionDef[] = [
+	{ id: "db", question: "Which database?", options: ["SQLite", "Postgres", { label: "Redis", code: { code: "new Redis()" } }] },
+	{ id: "ui", question: "Which UI?", options: ["TUI", "Web"] },
+];
+
+function fakeTransport() {
+	const published: MCQEvent[] = [];
+	let listener: ((event: MCQEvent) => void) | undefined;
+	let closed = false;
+	const transport: MCQTransport = {
+		async publish(event) { published.push(event); },
+		async listen(_session, onEvent) {
+			listener = onEvent;
+			return async () => { listener = undefined; };
+		},
+		async close() { closed = true; },
+	};
+	return { transport, published, send: (event: MCQEvent) => listener?.(event), isClosed: () => closed };
+}
+
+const answer = (id: string, selected: number, text = "", extra: Partial<MCQAnswerEvent> = {}): MCQAnswerEvent => ({
+	type: "mcq.answer",
+	id,
+	selected,
+	answer: text,
+	isCustom: false,
+	channel: "telegram",
+	session: "s1",
+	ts: new Date().toISOString(),
+	...extra,
+});
+
+describe("mcq remote flow", () => {
+	test("validates remote answers against the question definition", () => {
+		expect(resolveRemoteAnswer(questions[0], answer("db", 3, "anything"))).toMatchObject({ answer: "Redis", isCustom: false });
+		expect(resolveRemoteAnswer(questions[0], answer("db", 4, "  DuckDB "))).toMatchObject({ answer: "DuckDB", isCustom: true });
+		expect(resolveRemoteAnswer(questions[0], answer("db", 4, " "))).toBeNull();
+		expect(resolveRemoteAnswer(questions[0], answer("db", 5, "x"))).toBeNull();
+	});
+
+	test("resolves multi and rank answers to option numbers", () => {
+		const multi: MCQQuestionDef = { id: "apply", question: "Which apply?", kind: "multi", options: ["Auth", "Billing", "Search"] };
+		const rank: MCQQuestionDef = { ...multi, id: "order", kind: "rank" };
+		const list = (selections: number[], kind: "multi" | "rank") => answer("x", 0, "", { kind, selections });
+		expect(resolveRemoteAnswer(multi, list([3, 1], "multi"))).toMatchObject({ selections: [1, 3], answer: "Auth, Search", selected: 0 });
+		expect(resolveRemoteAnswer(multi, answer("apply", 2))).toMatchObject({ kind: "multi", selections: [2], answer: "Billing" });
+		expect(resolveRemoteAnswer(multi, list([], "multi"))).toBeNull();
+		expect(resolveRemoteAnswer(multi, list([1, 1], "multi"))).toBeNull();
+		expect(resolveRemoteAnswer(rank, list([3], "rank"))).toMatchObject({ selections: [3, 1, 2], answer: "Search > Auth > Billing" });
+		expect(resolveRemoteAnswer(rank, answer("order", 4, "none of these"))).toMatchObject({ isCustom: true, answer: "none of these" });
+		expect(resolveRemoteAnswer(questions[1], list([1], "multi"))).toBeNull();
+	});
+
+	test("publishes the question, buffers early answers, drops stale ones, and completes", async () => {
+		const fake = fakeTransport();
+		const flow = new MCQRemoteFlow("s1", "Setup", questions, async () => fake.transport);
+		expect(await flow.connected).toBe(true);
+		expect(fake.published[0]).toMatchObject({ type: "mcq.question", title: "Setup", session: "s1", questions });
+
+		fake.send(answer("db", 2, "", { ts: "2020-01-01T00:00:00.000Z" }));
+		fake.send(answer("ui", 1));
+		fake.send(answer("nope", 1));
+		const received: MCQRemoteEvent[] = [];
+		flow.onEvent((event) => received.push(event));
+		expect(received).toEqual([expect.objectContaining({ id: "ui", answer: "TUI", channel: "telegram" })]);
+
+		const local = answer("db", 1, "SQLite", { channel: "tui" });
+		flow.answered(local);
+		await flow.finish({ answers: [local, received[0] as MCQAnswerEvent] });
+		expect(fake.published.map((event) => event.type)).toEqual(["mcq.question", "mcq.answer", "mcq.complete"]);
+		expect(fake.isClosed()).toBe(true);
+
+		fake.send(answer("ui", 2));
+		expect(received).toHaveLength(1);
+	});
+
+	test("stays local when no transport connects", async () => {
+		const flow = new MCQRemoteFlow("s1", "Setup", questions, async () => null);
+		expect(await flow.connected).toBe(false);
+		await flow.finish({ cancelled: "user" });
+	});
+});
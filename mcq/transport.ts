@@ -0,0 +1,272 @@
+/**
+ * MCQ Transport — Redis delivery for the protocol.ts wire format.
+ *
+ * Agent → clients: every event goes to the gateway target
+ *   LPUSH joelclaw:events:<target>   (durable, drained by the gateway)
+ *   PUBLISH joelclaw:notify:<target> (wake-up, carries the same line)
+ * Clients → agent: answers use the same pair keyed by the question's session.
+ *
+ * The first answer per question wins, whichever channel sends it. Once the
+ * flow ends, an `mcq.complete` (or `mcq.cancel`) tells the remaining channels
+ * to dismiss the question. Redis is optional: when it is unreachable, mcq
+ * stays a local TUI tool. The local web surface (web.ts) is another transport;
+ * mergeTransports runs both side by side.
+ */
+
+import {
+	formatSelections,
+	getOptionLabel,
+	type MCQAnswerEvent,
+	type MCQCancelEvent,
+	type MCQCompleteEvent,
+	type MCQEvent,
+	type MCQQuestionDef,
+	parse,
+	resolveSelections,
+	serialize,
+} from "./protocol.js";
+
+export const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
+/** Gateway that fans questions out to Telegram, web, native and voice. */
+export const GATEWAY_TARGET = process.env.MCQ_GATEWAY_TARGET || "gateway";
+/** Answers stamped earlier than the question (minus clock skew) are leftovers. */
+const CLOCK_SKEW_MS = 5_000;
+
+export function eventsKey(target: string): string {
+	return `joelclaw:events:${target}`;
+}
+
+export function notifyChannel(target: string): string {
+	return `joelclaw:notify:${target}`;
+}
+
+// ── Transport ────────────────────────────────────────────────────
+
+export interface MCQTransport {
+	/** Deliver an event to the gateway target. */
+	publish(event: MCQEvent): Promise<void>;
+	/** Deliver events addressed to `session` until the returned function runs. */
+	listen(session: string, onEvent: (event: MCQEvent) => void): Promise<() => Promise<void>>;
+	close(): Promise<void>;
+}
+
+/** Connect to Redis, or return null when it is disabled or unreachable. */
+export async function connectRedisTransport(url = REDIS_URL, target = GATEWAY_TARGET): Promise<MCQTransport | null> {
+	if (process.env.MCQ_TRANSPORT === "off") return null;
+	let client: any = null;
+	try {
+		const { default: Redis } = await import("ioredis");
+		const options = { lazyConnect: true, maxRetriesPerRequest: 1, retryStrategy: () => null, connectTimeout: 1500 };
+		client = new Redis(url, options);
+		client.on("error", () => {}); // suppress
+		await client.connect();
+	} catch {
+		client?.disconnect();
+		return null;
+	}
+
+	const subscribers = new Set<any>();
+	return {
+		async publish(event) {
+			const line = serialize(event);
+			await client.multi().lpush(eventsKey(target), line).publish(notifyChannel(target), line).exec();
+		},
+
+		async listen(session, onEvent) {
+			// Clients may push, publish, or both; the same line must count once.
+			const seen = new Set<string>();
+			const deliver = (line: string) => {
+				const event = parse(line);
+				if (!event || event.session !== session || seen.has(line)) return;
+				seen.add(line);
+				onEvent(event);
+			};
+			const drain = async () => {
+				for (let line = await client.rpop(eventsKey(session)); line !== null; line = await client.rpop(eventsKey(session))) {
+					deliver(line);
+				}
+			};
+
+			const subscriber = client.duplicate();
+			subscriber.on("error", () => {});
+			subscribers.add(subscriber);
+			await subscriber.connect();
+			await subscriber.subscribe(notifyChannel(session));
+			subscriber.on("message", (_channel: string, message: string) => {
+				deliver(message);
+				drain().catch(() => {});
+			});
+			await drain();
+
+			return async () => {
+				subscribers.delete(subscriber);
+				try {
+					await subscriber.unsubscribe();
+				} catch {
+					// cleanup best-effort
+				}
+				subscriber.disconnect();
+			};
+		},
+
+		async close() {
+			for (const subscriber of subscribers) subscriber.disconnect();
+			subscribers.clear();
+			client.disconnect();
+		},
+	};
+}
+
+/**
+ * Publish to and listen on several transports at once (the Redis gateway and
+ * the local web surface). Null when none is available. Publishing fails only
+ * when every transport fails.
+ */
+export function mergeTransports(transports: (MCQTransport | null | undefined)[]): MCQTransport | null {
+	const live = transports.filter((t): t is MCQTransport => !!t);
+	if (live.length <= 1) return live[0] ?? null;
+	return {
+		async publish(event) {
+			const results = await Promise.allSettled(live.map((t) => t.publish(event)));
+			const failed = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+			if (failed.length === results.length) throw failed[0].reason;
+		},
+
+		async listen(session, onEvent) {
+			const stops = await Promise.all(live.map((t) => t.listen(session, onEvent)));
+			return async () => {
+				await Promise.allSettled(stops.map((stop) => stop()));
+			};
+		},
+
+		async close() {
+			await Promise.allSettled(live.map((t) => t.close()));
+		},
+	};
+}
+
+// ── Remote flow ──────────────────────────────────────────────────
+
+export type MCQRemoteEvent = MCQAnswerEvent | MCQCompleteEvent | MCQCancelEvent;
+
+/**
+ * Validate a client answer against the question it claims to answer. The
+ * option text always comes from our definition, not from the client. A single
+ * pick is accepted for multi and rank questions as a one-item selection.
+ */
+export function resolveRemoteAnswer(question: MCQQuestionDef, event: MCQAnswerEvent): MCQAnswerEvent | null {
+	const other = question.options.length + 1;
+	const kind = question.kind ?? "single";
+	if (kind !== "single" && event.selected !== other) {
+		const picks = event.kind ? event.selections ?? [] : [event.selected];
+		const selections = resolveSelections(kind, question.options.length, picks);
+		if (!selections) return null;
+		const answer = formatSelections(kind, selections.map((n) => getOptionLabel(question.options[n - 1])));
+		return { ...event, kind, selections, selected: 0, answer, isCustom: false };
+	}
+	if (event.kind) return null;
+	if (!Number.isInteger(event.selected) || event.selected < 1 || event.selected > other) return null;
+	if (event.selected === other) {
+		const answer = event.answer.trim();
+		return answer ? { ...event, answer, isCustom: true } : null;
+	}
+	return { ...event, answer: getOptionLabel(question.options[event.selected - 1]), isCustom: false };
+}
+
+/**
+ * One mcq call's view of the gateway. Connects in the background so the TUI
+ * never waits on Redis; events that arrive before a handler is attached are
+ * buffered.
+ */
+export class MCQRemoteFlow {
+	/** Resolves to false when no transport is available. */
+	readonly connected: Promise<boolean>;
+	private readonly startedAt = Date.now();
+	private transport: MCQTransport | null = null;
+	private stopListening: (() => Promise<void>) | null = null;
+	private handler: ((event: MCQRemoteEvent) => void) | null = null;
+	private buffered: MCQRemoteEvent[] = [];
+	private finished = false;
+	/** Mirrored local answers, published in order before the flow closes. */
+	private outgoing: Promise<void> = Promise.resolve();
+
+	constructor(
+		readonly session: string,
+		private readonly title: string,
+		private readonly questions: MCQQuestionDef[],
+		connect: () => Promise<MCQTransport | null> = connectRedisTransport,
+	) {
+		this.connected = this.open(connect).catch(() => false);
+	}
+
+	private async open(connect: () => Promise<MCQTransport | null>): Promise<boolean> {
+		const transport = await connect();
+		if (!transport) return false;
+		if (this.finished) {
+			await transport.close();
+			return false;
+		}
+		this.transport = transport;
+		await transport.publish({ type: "mcq.question", title: this.title, questions: this.questions, session: this.session, ts: new Date().toISOString() });
+		this.stopListening = await transport.listen(this.session, (event) => this.receive(event));
+		return true;
+	}
+
+	private receive(event: MCQEvent): void {
+		if (this.finished || event.type === "mcq.question") return;
+		if (Date.parse(event.ts) < this.startedAt - CLOCK_SKEW_MS) return;
+		let accepted: MCQRemoteEvent | null = event;
+		if (event.type === "mcq.answer") {
+			const question = this.questions.find((q) => q.id === event.id);
+			accepted = question ? resolveRemoteAnswer(question, event) : null;
+		} else if (event.type === "mcq.complete") {
+			const answers = event.answers.flatMap((answer) => {
+				const question = this.questions.find((q) => q.id === answer.id);
+				const resolved = question ? resolveRemoteAnswer(question, answer) : null;
+				return resolved ? [resolved] : [];
+			});
+			accepted = { ...event, answers };
+		}
+		if (!accepted) return;
+		if (this.handler) this.handler(accepted);
+		else this.buffered.push(accepted);
+	}
+
+	/** Receive remote answers, completions and cancels, including any that already arrived. */
+	onEvent(handler: (event: MCQRemoteEvent) => void): void {
+		this.handler = handler;
+		const pending = this.buffered;
+		this.buffered = [];
+		for (const event of pending) handler(event);
+	}
+
+	/** Mirror a local answer so other channels can mark the question answered. */
+	answered(answer: MCQAnswerEvent): void {
+		if (this.finished) return;
+		this.outgoing = this.outgoing
+			.then(async () => {
+				if (await this.connected) await this.transport!.publish(answer);
+			})
+			.catch(() => {});
+	}
+
+	/** Close the question on every channel and disconnect. */
+	async finish(outcome: { answers: MCQAnswerEvent[] } | { cancelled: MCQCancelEvent["reason"] }): Promise<void> {
+		if (this.finished) return;
+		this.finished = true;
+		if (!(await this.connected)) return;
+		await this.outgoing;
+		const ts = new Date().toISOString();
+		try {
+			await this.transport!.publish(
+				"answers" in outcome
+					? { type: "mcq.complete", title: this.title, answers: outcome.answers, session: this.session, ts }
+					: { type: "mcq.cancel", reason: outcome.cancelled, session: this.session, ts },
+			);
+		} catch {
+			// The gateway times questions out on its own.
+		}
+		await this.stopListening?.().catch(() => {});
+		await this.transport!.close();
+	}
+}
@@ -0,0 +1,74 @@
+/**
+ * MCQ tool types — what the agent sees. Wire events live in protocol.ts.
+ */
+
+import type { MCQChannel, MCQOption, MCQQuestionDef, MCQQuestionKind } from "./protocol.js";
+
+export interface MCQQuestion {
+	id: string;
+	question: string;
+	/** "single" (default), "multi" (space toggles), or "rank" (number keys assign order) */
+	kind?: MCQQuestionKind;
+	/** Labels, or `{ label, code }` for options with a code preview */
+	options: MCQOption[];
+	context?: string;
+	recommended?: number;
+	recommendedReason?: string;
+	/** "strong" pre-selects the recommended option, "slight" just badges it */
+	conviction?: "strong" | "slight";
+	/** "critical" = visually prominent, "minor" = compact */
+	weight?: "critical" | "minor";
+	/** Branching: option number, "other" or "*" → next question id or "end" (see branching.ts) */
+	next?: Record<string, string>;
+}
+
+export interface MCQAnswer {
+	id: string;
+	question: string;
+	selected: number;
+	answer: string;
+	isCustom: boolean;
+	/** Set for multi and rank answers; `selected` is 0 and `answer` joins the labels */
+	kind?: "multi" | "rank";
+	/** 1-indexed options: chosen (multi) or in priority order (rank) */
+	selections?: number[];
+	/** Channel that answered; absent for results recorded before remote answers existed */
+	channel?: MCQChannel;
+	/** Picked by the headless policy from a strong recommendation, not by a person */
+	autoSelected?: boolean;
+}
+
+/**
+ * What to do when there is no TUI (print and RPC modes):
+ *   auto — accept strong recommendations, then fall back to "fail"
+ *   rpc  — ask through extension UI dialogs (select/input), "fail" without them
+ *   fail — return an MCQUnanswered payload the caller can answer and feed back
+ * A reachable Redis gateway is tried before falling back to "fail".
+ */
+export type MCQHeadlessPolicy = "auto" | "rpc" | "fail";
+
+/** Structured failure: questions nobody answered, and how to answer them. */
+export interface MCQUnanswered {
+	status: "unanswered";
+	reason: string;
+	session: string;
+	title: string;
+	questions: MCQQuestionDef[];
+	/** How to feed answers back */
+	resume: string;
+}
+
+export interface MCQResult {
+	title: string;
+	answers: MCQAnswer[];
+	cancelled: boolean;
+	/** Branching questionnaires: ids of the answered questions, in the order asked */
+	path?: string[];
+	/** Set when the questions were answered without the TUI */
+	headless?: {
+		policy: MCQHeadlessPolicy;
+		/** How the answers were obtained, in the order the paths ran */
+		paths: Array<"prefilled" | "auto" | "rpc" | "gateway">;
+		unanswered?: MCQUnanswered;
+	};
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { parseTextAnswer } from "./headless.js";
+import type { MCQQuestionDef } from "./protocol.js";
+import { matchSpokenAnswer, speakAnswers, speakQuestion } from "./voice.js";
+
+const db: MCQQuestionDef = {
+	id: "db",
+	question: "Which database",
+	context: "Jobs need durable storage",
+	options: ["SQLite", { label: "Postgres with pgvector", code: { code: "CREATE EXTENSION vector;" } }, "Redis"],
+	recommended: 2,
+	recommendedReason: "It is already deployed.",
+};
+
+describe("mcq voice", () => {
+	test("speaks questions as prose", () => {
+		expect(speakQuestion(db, { step: 1, total: 2 })).toBe(
+			"Question 1 of 2. Which database? Jobs need durable storage. " +
+				"Option one: SQLite. Option two: Postgres with pgvector, with a code example, recommended because it is already deployed. " +
+				"Option three: Redis. Or say your own answer.",
+		);
+		expect(speakQuestion({ id: "order", question: "Priority?", kind: "rank", options: ["A", "B"] })).toBe(
+			"Priority? Say them in order of priority. Option one: A. Option two: B. Or say your own answer.",
+		);
+		expect(speakAnswers("Setup", [{ id: "db", answer: "Redis", isCustom: false }, { id: "ui", answer: "a CLI", isCustom: true }])).toBe(
+			"Setup. for db, Redis; for ui, you said a CLI.",
+		);
+	});
+
+	test("matches spoken answers to options", () => {
+		expect(matchSpokenAnswer(db, "the second one")).toEqual([2]);
+		expect(matchSpokenAnswer(db, "Option one.")).toEqual([1]);
+		expect(matchSpokenAnswer(db, "number 3")).toEqual([3]);
+		expect(matchSpokenAnswer(db, "the last one")).toEqual([3]);
+		expect(matchSpokenAnswer(db, "go with sqlite")).toEqual([1]);
+		expect(matchSpokenAnswer(db, "let's use pgvector please")).toEqual([2]);
+		expect(matchSpokenAnswer(db, "your recommendation")).toEqual([2]);
+		expect(matchSpokenAnswer(db, "the fourth one")).toBeNull();
+		expect(matchSpokenAnswer(db, "postgres but behind pgbouncer")).toBeNull();
+		expect(matchSpokenAnswer(db, "that one")).toBeNull();
+
+		const order: MCQQuestionDef = { id: "order", question: "Priority?", kind: "rank", options: ["Auth", "Billing", "Search"] };
+		expect(matchSpokenAnswer(order, "search and then auth")).toEqual([3, 1, 2]);
+		expect(matchSpokenAnswer({ ...order, kind: "multi" }, "billing, and the first one")).toEqual([1, 2]);
+		expect(matchSpokenAnswer(order, "search and something else")).toBeNull();
+
+		expect(parseTextAnswer(db, "I'll take redis", "voice")).toMatchObject({ selected: 3, answer: "Redis", isCustom: false, channel: "voice" });
+		expect(parseTextAnswer(db, "MongoDB", "voice")).toMatchObject({ selected: 4, answer: "MongoDB", isCustom: true });
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * MCQ voice — speakable questions and spoken answers, for the voice channel,
+ * screen readers and dictation.
+ *
+ * speakQuestion turns a question into prose ("Option two: Postgres,
+ * recommended because …") with no badges, bars or code. matchSpokenAnswer
+ * maps an utterance such as "the second one", "go with sqlite" or "redis and
+ * then postgres" onto option numbers. It only matches when the whole
+ * utterance names options, so "postgres but with pgbouncer" stays the user's
+ * own words.
+ */
+
+import { getOptionLabel, type MCQQuestionDef, type MCQRenderContext, resolveSelections } from "./protocol.js";
+
+/** The TUI renders speakable prose instead of its layouts under this context. */
+export const VOICE_RENDER_CONTEXT: MCQRenderContext = {
+	channel: "voice",
+	speakable: true,
+	supportsImages: false,
+	supportsButtons: false,
+	supportsCode: false,
+};
+
+const NUMBER_WORDS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine"];
+const ORDINALS: Record<string, number> = {
+	one: 1, first: 1, "1st": 1,
+	two: 2, second: 2, "2nd": 2,
+	three: 3, third: 3, "3rd": 3,
+	four: 4, fourth: 4, "4th": 4,
+	five: 5, fifth: 5, "5th": 5,
+};
+/** Words that carry no choice: "let's go with the", "option", "please" … */
+const FILLER = new Set([
+	"a", "an", "the", "i", "i'd", "i'll", "id", "ill", "im", "i'm", "we", "lets", "let's", "let", "us",
+	"go", "going", "with", "for", "take", "pick", "choose", "select", "use", "want", "like", "would", "prefer",
+	"option", "number", "answer", "choice", "one", "please", "just", "think", "probably", "definitely", "maybe",
+	"ok", "okay", "yes", "yeah", "sure", "um", "uh", "hmm", "so", "then", "is", "it", "that", "this", "should", "be",
+	"you", "your", "whatever", "what",
+]);
+const RECOMMENDED = new Set(["recommend", "recommended", "recommendation", "suggested", "suggestion", "default"]);
+/** Separators between picks in multi and rank answers. */
+const LIST_SEPARATOR = /\s*(?:,|>|;|\band then\b|\bthen\b|\band\b|\bplus\b|\bfollowed by\b)\s*/;
+
+function numberWord(n: number): string {
+	return NUMBER_WORDS[n] ?? String(n);
+}
+
+function words(text: string): string[] {
+	return text.toLowerCase().replace(/[^a-z0-9'+#.\s-]/g, " ").replace(/[.-]+(\s|$)/g, " ").split(/\s+/).filter(Boolean);
+}
+
+function content(text: string): string[] {
+	return words(text).filter((w) => !FILLER.has(w));
+}
+
+// ── Speaking ─────────────────────────────────────────────────────
+
+/** One question as speakable prose. `step` reads as "Question 2 of 4". */
+export function speakQuestion(q: MCQQuestionDef, step?: { step: number; total: number }): string {
+	const parts: string[] = [];
+	if (step && step.total > 1) parts.push(`Question ${step.step} of ${step.total}.`);
+	parts.push(/[.?!]$/.test(q.question.trim()) ? q.question.trim() : `${q.question.trim()}?`);
+	if (q.context) parts.push(/[.?!]$/.test(q.context.trim()) ? q.context.trim() : `${q.context.trim()}.`);
+	if (q.kind === "multi") parts.push("Choose any that apply.");
+	if (q.kind === "rank") parts.push("Say them in order of priority.");
+	q.options.forEach((option, i) => {
+		const label = getOptionLabel(option);
+		const code = typeof option !== "string" && option.code ? ", with a code example" : "";
+		const recommended = q.recommended === i + 1
+			? q.recommendedReason ? `, recommended because ${lowerFirst(q.recommendedReason.replace(/[.\s]+$/, ""))}` : ", recommended"
+			: "";
+		parts.push(`Option ${numberWord(i + 1)}: ${label}${code}${recommended}.`);
+	});
+	parts.push("Or say your own answer.");
+	return parts.join(" ");
+}
+
+/** Spoken read-back of chosen answers, e.g. before confirming. */
+export function speakAnswers(title: string, answers: { id: string; answer: string; isCustom: boolean }[]): string {
+	if (answers.length === 0) return `${title}. Nothing answered yet.`;
+	// Ranked answers read "A, then B, then C" instead of "A > B > C"
+	const said = answers.map((a) => (a.isCustom ? `for ${a.id}, you said ${a.answer}` : `for ${a.id}, ${a.answer.replaceAll(" > ", ", then ")}`));
+	return `${title}. ${said.join("; ")}.`;
+}
+
+function lowerFirst(text: string): string {
+	return /^[A-Z][a-z]/.test(text) ? text[0].toLowerCase() + text.slice(1) : text;
+}
+
+// ── Listening ────────────────────────────────────────────────────
+
+/** Option number for one spoken pick, or null when it names no option clearly. */
+function matchPick(q: MCQQuestionDef, utterance: string, allowRecommended: boolean): number | null {
+	const said = words(utterance).join(" ");
+	if (!said) return null;
+	const labels = q.options.map((option) => words(getOptionLabel(option)).join(" "));
+	const exact = labels.indexOf(said);
+	if (exact >= 0) return exact + 1;
+
+	// "the second one", "option two", "number 3", "the last one". "one" is
+	// filler in "the second one" but the pick in "option one".
+	const spoken = words(utterance);
+	const picked = spoken.filter((w) => !FILLER.has(w));
+	const word = picked.length === 1 ? picked[0] : spoken.every((w) => w === "one" || w === "option" || w === "number") ? "one" : undefined;
+	if (word !== undefined) {
+		const number = ORDINALS[word] ?? (/^\d+$/.test(word) ? Number(word) : undefined);
+		if (number !== undefined) return number >= 1 && number <= q.options.length ? number : null;
+		if (word === "last") return q.options.length;
+		if (RECOMMENDED.has(word)) return allowRecommended && q.recommended ? q.recommended : null;
+	}
+
+	// "go with sqlite": every remaining word belongs to exactly one option
+	if (picked.length === 0) return null;
+	const hits = labels.flatMap((label, i) => {
+		const have = new Set(content(label));
+		return picked.every((w) => have.has(w)) ? [i + 1] : [];
+	});
+	return hits.length === 1 ? hits[0] : null;
+}
+
+/**
+ * Option numbers named by a spoken or typed answer, or null when it is the
+ * user's own words. Single questions yield one pick; multi and rank split on
+ * "and", "then", commas and ">" and go through resolveSelections.
+ */
+export function matchSpokenAnswer(q: MCQQuestionDef, utterance: string): number[] | null {
+	const text = utterance.trim();
+	if (!text) return null;
+	if (q.kind === "multi" || q.kind === "rank") {
+		const whole = matchPick(q, text, true);
+		const parts = whole !== null ? [whole] : text.split(LIST_SEPARATOR).filter((p) => p.trim()).map((p) => matchPick(q, p, false));
+		if (parts.length === 0 || parts.some((n) => n === null)) return null;
+		return resolveSelections(q.kind, q.options.length, parts as number[]);
+	}
+	const pick = matchPick(q, text, true);
+	return pick === null ? null : [pick];
+}
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { MCQEvent } from "./protocol.js";
+import { MCQWebServer } from "./web.js";
+
+const servers: MCQWebServer[] = [];
+afterEach(() => { while (servers.length) servers.pop()!.stop(); });
+
+describe("mcq web surface", () => {
+	test("serves open questions and turns posted answers into web answer events", async () => {
+		const web = new MCQWebServer(0, "127.0.0.1");
+		servers.push(web);
+		await web.start();
+		const url = new URL(web.url);
+		const at = (path: string, token = url.searchParams.get("t")!) => `${url.origin}${path}?t=${token}`;
+		const post = (body: unknown) => fetch(at("/answer"), { method: "POST", body: JSON.stringify(body) });
+
+		const transport = web.transport();
+		const received: MCQEvent[] = [];
+		const stop = await transport.listen("s1", (event) => received.push(event));
+		await transport.publish({
+			type: "mcq.question",
+			title: "Setup",
+			session: "s1",
+			ts: new Date().toISOString(),
+			questions: [
+				{ id: "db", question: "Which database?", options: ["SQLite", "Postgres"] },
+				{ id: "apply", question: "Which apply?", kind: "multi", options: ["Auth", "Billing", "Search"] },
+			],
+		});
+
+		expect((await fetch(at("/state", "wrong"))).status).toBe(403);
+		expect(await (await fetch(at("/"))).text()).toContain("<title>pi mcq</title>");
+		expect(await (await fetch(at("/state"))).json()).toMatchObject({ batches: [{ session: "s1", title: "Setup", answered: [] }] });
+
+		expect((await post({ session: "s1", id: "db", selected: 7 })).status).toBe(400);
+		expect((await post({ session: "s2", id: "db", selected: 1 })).status).toBe(404);
+		expect((await post({ session: "s1", id: "db", selected: 2 })).status).toBe(202);
+		expect((await post({ session: "s1", id: "db", selected: 1 })).status).toBe(409);
+		expect((await post({ session: "s1", id: "apply", kind: "multi", selections: [3, 1], selected: 0 })).status).toBe(202);
+		expect(received).toEqual([
+			expect.objectContaining({ type: "mcq.answer", id: "db", selected: 2, channel: "web", session: "s1" }),
+			expect.objectContaining({ type: "mcq.answer", id: "apply", kind: "multi", selections: [3, 1], channel: "web" }),
+		]);
+
+		await transport.publish({ type: "mcq.cancel", reason: "user", session: "s1", ts: new Date().toISOString() });
+		expect(await (await fetch(at("/state"))).json()).toEqual({ batches: [] });
+		await stop();
+	});
+});
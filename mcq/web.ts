@@ -0,0 +1,297 @@
+/**
+ * MCQ web surface — a small local HTTP server so a phone or tablet can answer
+ * while the agent waits.
+ *
+ * It is one more transport: mcq.question events become the open batches the
+ * page shows, answers posted from the page arrive as MCQAnswerEvent with
+ * channel "web", and mcq.answer/complete/cancel events (from the TUI or any
+ * other channel) mark questions answered or close the batch. The server binds
+ * to every interface so the LAN can reach it; every request must carry the
+ * random token from the URL, which is shown as a QR code.
+ *
+ * Started by `/mcq-web`, or on the first mcq call when MCQ_WEB_PORT is set.
+ */
+
+import { randomBytes } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { createRequire } from "node:module";
+import { networkInterfaces } from "node:os";
+import { type MCQEvent, type MCQQuestionEvent, parse } from "./protocol.js";
+import { type MCQTransport, resolveRemoteAnswer } from "./transport.js";
+
+const require = createRequire(import.meta.url);
+const QRCode = require("qrcode");
+
+export const WEB_PORT = Number(process.env.MCQ_WEB_PORT) || 4783;
+export const WEB_HOST = process.env.MCQ_WEB_HOST || "0.0.0.0";
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** First non-internal IPv4 address, so the QR code works from another device. */
+function lanAddress(): string {
+	for (const addresses of Object.values(networkInterfaces())) {
+		for (const address of addresses ?? []) {
+			if (address.family === "IPv4" && !address.internal) return address.address;
+		}
+	}
+	return "127.0.0.1";
+}
+
+interface OpenBatch {
+	event: MCQQuestionEvent;
+	answered: Set<string>;
+}
+
+export class MCQWebServer {
+	private server: Server | undefined;
+	private readonly token = randomBytes(12).toString("base64url");
+	private readonly batches = new Map<string, OpenBatch>();
+	private readonly listeners = new Map<string, Set<(event: MCQEvent) => void>>();
+
+	constructor(
+		private port = WEB_PORT,
+		private readonly host = WEB_HOST,
+	) {}
+
+	get running(): boolean {
+		return this.server !== undefined;
+	}
+
+	/** Page URL including the access token. */
+	get url(): string {
+		const host = this.host === "0.0.0.0" ? lanAddress() : this.host;
+		return `http://${host}:${this.port}/?t=${this.token}`;
+	}
+
+	start(): Promise<void> {
+		if (this.server) return Promise.resolve();
+		return new Promise((resolve, reject) => {
+			const server = createServer((req, res) => {
+				this.handle(req, res).catch(() => send(res, 500, "text/plain", "Internal error"));
+			});
+			server.once("error", reject);
+			server.listen(this.port, this.host, () => {
+				server.off("error", reject);
+				const address = server.address();
+				if (address && typeof address === "object") this.port = address.port;
+				this.server = server;
+				resolve();
+			});
+		});
+	}
+
+	stop(): void {
+		this.server?.close();
+		this.server = undefined;
+		this.batches.clear();
+	}
+
+	/** QR code for the page URL, as block characters for the terminal. */
+	qrText(): Promise<string> {
+		return QRCode.toString(this.url, { type: "utf8" });
+	}
+
+	/** Transport view for one MCQRemoteFlow. The server outlives it, so close() is a no-op. */
+	transport(): MCQTransport {
+		return {
+			publish: async (event) => this.publish(event),
+			listen: async (session, onEvent) => {
+				const listeners = this.listeners.get(session) ?? new Set();
+				listeners.add(onEvent);
+				this.listeners.set(session, listeners);
+				return async () => {
+					listeners.delete(onEvent);
+					if (listeners.size === 0) this.listeners.delete(session);
+				};
+			},
+			close: async () => {},
+		};
+	}
+
+	private publish(event: MCQEvent): void {
+		if (event.type === "mcq.question") {
+			this.batches.set(event.session, { event, answered: new Set() });
+		} else if (event.type === "mcq.answer") {
+			this.batches.get(event.session)?.answered.add(event.id);
+		} else {
+			this.batches.delete(event.session);
+		}
+	}
+
+	private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		const url = new URL(req.url || "/", "http://localhost");
+		if (url.searchParams.get("t") !== this.token) {
+			send(res, 403, "text/plain", "Forbidden");
+			return;
+		}
+
+		if (req.method === "GET" && url.pathname === "/") {
+			send(res, 200, "text/html; charset=utf-8", PAGE);
+		} else if (req.method === "GET" && url.pathname === "/state") {
+			const batches = [...this.batches.values()].map(({ event, answered }) => ({
+				session: event.session,
+				title: event.title,
+				questions: event.questions,
+				answered: [...answered],
+			}));
+			send(res, 200, "application/json", JSON.stringify({ batches }));
+		} else if (req.method === "GET" && url.pathname === "/qr.svg") {
+			send(res, 200, "image/svg+xml", await QRCode.toString(this.url, { type: "svg", margin: 2 }));
+		} else if (req.method === "POST" && url.pathname === "/answer") {
+			const status = this.answer(await readBody(req));
+			send(res, status, "application/json", JSON.stringify({ ok: status === 202 }));
+		} else {
+			send(res, 404, "text/plain", "Not found");
+		}
+	}
+
+	/** Validate a posted answer and hand it to the session's listeners; returns the HTTP status. */
+	private answer(body: string | null): number {
+		if (body === null) return 413;
+		let posted: any;
+		try {
+			posted = JSON.parse(body);
+		} catch {
+			return 400;
+		}
+		const event = parse(JSON.stringify({ answer: "", isCustom: false, ...posted, type: "mcq.answer", channel: "web", ts: new Date().toISOString() }));
+		if (!event || event.type !== "mcq.answer") return 400;
+		const batch = this.batches.get(event.session);
+		const question = batch?.event.questions.find((q) => q.id === event.id);
+		if (!batch || !question) return 404;
+		if (batch.answered.has(event.id)) return 409;
+		if (!resolveRemoteAnswer(question, event)) return 400;
+		batch.answered.add(event.id);
+		for (const listener of this.listeners.get(event.session) ?? []) listener(event);
+		return 202;
+	}
+}
+
+function send(res: ServerResponse, status: number, type: string, body: string): void {
+	if (res.headersSent) return;
+	res.writeHead(status, { "Content-Type": type, "Cache-Control": "no-store" });
+	res.end(body);
+}
+
+/** Request body as text, or null when it is too large. */
+function readBody(req: IncomingMessage): Promise<string | null> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+		});
+		req.on("end", () => resolve(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString("utf8")));
+		req.on("error", reject);
+	});
+}
+
+// ── Page ─────────────────────────────────────────────────────────
+
+const PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>pi mcq</title>
+<style>
+	:root { color-scheme: light dark; font-family: system-ui, sans-serif; }
+	body { margin: 0 auto; max-width: 40rem; padding: 1rem; }
+	section { border: 1px solid #8886; border-radius: 12px; padding: 1rem; margin: 1rem 0; }
+	.context, .hint, .empty { opacity: 0.7; font-size: 0.9rem; }
+	button { display: block; width: 100%; margin: 0.4rem 0; padding: 0.8rem; font-size: 1rem; text-align: left; border-radius: 8px; border: 1px solid #8888; background: transparent; color: inherit; }
+	button.picked { border-color: #3b82f6; background: #3b82f622; }
+	button.submit { text-align: center; background: #3b82f6; color: white; }
+	textarea { width: 100%; box-sizing: border-box; font-size: 1rem; padding: 0.5rem; border-radius: 8px; }
+	.done { opacity: 0.5; }
+	#qr { display: none; text-align: center; }
+	@media (min-width: 60rem) { #qr { display: block; } #qr img { width: 12rem; } }
+</style>
+</head>
+<body>
+<div id="qr"><img alt="QR code for this page"><p class="hint">Scan to answer on your phone</p></div>
+<main id="app"><p class="empty">Waiting for questions…</p></main>
+<script>
+const token = new URLSearchParams(location.search).get("t");
+const app = document.getElementById("app");
+document.querySelector("#qr img").src = "/qr.svg?t=" + encodeURIComponent(token);
+const picks = {};
+let shown = "";
+
+function el(tag, props, ...children) {
+	const node = Object.assign(document.createElement(tag), props);
+	node.append(...children);
+	return node;
+}
+const label = (opt) => (typeof opt === "string" ? opt : opt.label);
+
+async function post(body) {
+	const res = await fetch("/answer?t=" + encodeURIComponent(token), { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+	if (!res.ok && res.status !== 409) alert("Answer rejected (" + res.status + ")");
+	refresh();
+}
+
+function renderQuestion(batch, q, i) {
+	const key = batch.session + "/" + q.id;
+	const kind = q.kind || "single";
+	const section = el("section", {}, el("h3", { textContent: (i + 1) + ". " + q.question }));
+	if (q.context) section.append(el("p", { className: "context", textContent: q.context }));
+	if (batch.answered.includes(q.id)) {
+		section.className = "done";
+		section.append(el("p", { className: "hint", textContent: "Answered" }));
+		return section;
+	}
+	const chosen = picks[key] || (picks[key] = []);
+	q.options.forEach((opt, n) => {
+		const number = n + 1;
+		const rank = chosen.indexOf(number);
+		const star = q.recommended === number ? " ★" : "";
+		const prefix = kind === "rank" && rank >= 0 ? "#" + (rank + 1) + " " : kind === "multi" ? (rank >= 0 ? "☑ " : "☐ ") : number + ". ";
+		const button = el("button", { textContent: prefix + label(opt) + star, className: rank >= 0 ? "picked" : "" });
+		button.onclick = () => {
+			if (kind === "single") return post({ session: batch.session, id: q.id, selected: number, answer: label(opt) });
+			if (rank >= 0) chosen.splice(rank, 1);
+			else chosen.push(number);
+			render(lastState, true);
+		};
+		section.append(button);
+	});
+	if (kind !== "single") {
+		const submit = el("button", { className: "submit", textContent: kind === "rank" ? "Submit order" : "Submit" });
+		submit.onclick = () => chosen.length && post({ session: batch.session, id: q.id, kind, selections: chosen, selected: 0 });
+		section.append(el("p", { className: "hint", textContent: kind === "rank" ? "Tap in priority order; the rest keep their order." : "Tap every option that applies." }), submit);
+	}
+	const other = el("textarea", { rows: 2, placeholder: "Other — type your own answer" });
+	const send = el("button", { className: "submit", textContent: "Send" });
+	send.onclick = () => other.value.trim() && post({ session: batch.session, id: q.id, selected: q.options.length + 1, answer: other.value.trim(), isCustom: true });
+	section.append(other, send);
+	return section;
+}
+
+let lastState = { batches: [] };
+function render(state, force) {
+	const key = JSON.stringify(state);
+	if (!force && key === shown) return;
+	if (!force && document.activeElement && document.activeElement.tagName === "TEXTAREA" && document.activeElement.value) return;
+	shown = key;
+	lastState = state;
+	app.replaceChildren();
+	if (state.batches.length === 0) app.append(el("p", { className: "empty", textContent: "Waiting for questions…" }));
+	for (const batch of state.batches) {
+		app.append(el("h2", { textContent: batch.title || "Questions" }));
+		batch.questions.forEach((q, i) => app.append(renderQuestion(batch, q, i)));
+	}
+}
+
+async function refresh() {
+	try {
+		const res = await fetch("/state?t=" + encodeURIComponent(token));
+		if (res.ok) render(await res.json());
+	} catch {}
+}
+refresh();
+setInterval(refresh, 2000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { diagnoseCapture, fixCapture, renderCaptureReport } from "./capture-doctor.ts";
+
+const roots: string[] = [];
+afterEach(() => { while (roots.length) rmSync(roots.pop()!, { recursive: true, force: true }); });
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function fakeHome() {
+  const home = mkdtempSync(join(tmpdir(), "capture-doctor-"));
+  roots.push(home);
+  const write = (path: string, content: string, mtimeMs = NOW - HOUR) => {
+    const full = join(home, path);
+    mkdirSync(dirname(full), { recursive: true });
+    writeFileSync(full, content);
+    utimesSync(full, mtimeMs / 1000, mtimeMs / 1000);
+    return full;
+  };
+  return { home, write };
+}
+
+describe("capture doctor", () => {
+  test("reports lag, misfiled state, and missing hooks", () => {
+    const { home, write } = fakeHome();
+    const codex = write(".codex/sessions/2026/10/19/rollout-a.jsonl", "x".repeat(300));
+    write(".codex/sessions/2026/10/19/rollout-old.jsonl", "x", NOW - 30 * 24 * HOUR);
+    const pi = write(".pi/agent/sessions/--app--/p1.jsonl", "y".repeat(50));
+    write(".pi/agent/sessions/--app--/live.jsonl", "y", NOW - 60_000);
+    const claude = write(".claude/projects/-app/c1.jsonl", "z".repeat(80));
+    write(".codex/hooks.json", JSON.stringify({ hooks: { Stop: [{ hooks: [{ command: "node capture-codex-session.js" }] }] } }));
+    write(".pi/agent/extensions/memory-capture/index.ts", "");
+    write(
+      ".joelclaw/codex-session-state.json",
+      JSON.stringify({ [`x1:${codex}`]: { last_byte_offset: 100, last_captured_at: new Date(NOW - 3 * HOUR).toISOString(), session_id: "x1", transcript_path: codex } }),
+    );
+    // The old Claude hook wrote into the generic Pi state file.
+    write(
+      ".joelclaw/session-state.json",
+      JSON.stringify({ [`p1:${pi}`]: { last_byte_offset: 50, transcript_path: pi }, [`c1:${claude}`]: { last_byte_offset: 80, transcript_path: claude } }),
+    );
+
+    const report = diagnoseCapture({ home, now: NOW, days: 7 });
+    const byAgent = Object.fromEntries(report.runtimes.map((runtime) => [runtime.agent, runtime]));
+    expect(byAgent.codex).toMatchObject({ transcripts: 2, recent: 1, inSync: 0, neverCaptured: 0, lagBytes: 200, maxLagMs: 2 * HOUR });
+    expect(byAgent.pi).toMatchObject({ transcripts: 2, recent: 1, inSync: 1, lagBytes: 0 });
+    expect(byAgent.claude).toMatchObject({ recent: 1, inSync: 1, hook: { ok: false } });
+    expect(report.ok).toBe(false);
+    expect(report.issues.map((issue) => issue.message)).toEqual([
+      `claude capture hook: missing ${join(home, ".claude/settings.json")}`,
+      "1 claude state entries live in session-state.json, not claude-session-state.json; the hook is not namespaced",
+      "1 codex transcripts are behind by 200 B",
+    ]);
+    expect(renderCaptureReport(report)).toContain(`${codex}: 200 B behind, 2h of writes uncaptured`);
+
+    write(".claude/projects/-app/c2.jsonl", "z");
+    expect(diagnoseCapture({ home, now: NOW }).issues).toContainEqual({ level: "warning", agent: "claude", message: "1 claude transcripts are behind by 1 B" });
+  });
+
+  test("fixes install the Claude hook and replay or archive the outbox", async () => {
+    const { home, write } = fakeHome();
+    const claude = write(".claude/projects/-app/c1.jsonl", "z".repeat(40));
+    write(".claude/settings.json", JSON.stringify({ model: "opus", hooks: { PreToolUse: [{ hooks: [{ command: "guard" }] }] } }));
+    const script = write(".bun/bin/joelclaw-capture-session", "#!/bin/sh\n");
+    write(".joelclaw/auth.json", JSON.stringify({ token: "t0k", user_id: "u", machine_id: "m" }));
+    write(
+      ".joelclaw/claude-session-state.json",
+      JSON.stringify({ [`c1:${claude}`]: { last_byte_offset: 10, last_captured_at: new Date(NOW - 2 * HOUR).toISOString(), session_id: "c1", transcript_path: claude } }),
+    );
+    const body = (run: string, startedAt: number) => JSON.stringify({ run_id: run, agent_runtime: "claude-code", conversation_id: "c1", started_at: startedAt, jsonl: "z".repeat(30) });
+    write(".joelclaw/outbox/old.json", body("old", NOW - 3 * HOUR));
+    write(".joelclaw/outbox/new.json", body("new", NOW - HOUR));
+
+    const report = diagnoseCapture({ home, now: NOW });
+    expect(report.issues.map((issue) => issue.fix)).toEqual(["install-claude-hook", undefined, "replay-outbox", "replay-outbox"]);
+    const posted: unknown[] = [];
+    const fakeFetch = (async (_url: string, init: RequestInit) => {
+      posted.push(JSON.parse(String(init.body)).run_id);
+      return new Response(JSON.stringify({ run_id: "accepted" }));
+    }) as unknown as typeof fetch;
+    const fixes = await fixCapture(report, { centralUrl: "http://central.test", fetch: fakeFetch });
+
+    expect(fixes.every((fix) => fix.ok)).toBe(true);
+    expect(posted).toEqual(["new"]);
+    expect(existsSync(join(home, ".joelclaw/outbox/superseded/old.json"))).toBe(true);
+    expect(existsSync(join(home, ".joelclaw/outbox/replayed/new.json"))).toBe(true);
+    const settings = JSON.parse(readFileSync(join(home, ".claude/settings.json"), "utf8"));
+    expect(settings.model).toBe("opus");
+    expect(settings.hooks.PreToolUse).toHaveLength(1);
+    expect(settings.hooks.Stop).toEqual([{ hooks: [{ type: "command", command: script }] }]);
+    const state = JSON.parse(readFileSync(join(home, ".joelclaw/claude-session-state.json"), "utf8"));
+    expect(state[`c1:${claude}`]).toMatchObject({ last_byte_offset: 40, last_run_id: "accepted" });
+
+    const after = diagnoseCapture({ home, now: NOW });
+    expect(after.issues).toEqual([]);
+    expect(after.ok).toBe(true);
+  });
+});
@@ -0,0 +1,512 @@
+/**
+ * Capture health doctor for Pi, Claude, and Codex.
+ *
+ * JoelClaw capture hooks post transcript deltas to Central and record the
+ * byte offset they reached in `~/.joelclaw/*session-state.json`. Failed posts
+ * land in `~/.joelclaw/outbox/`. The doctor compares those offsets with the
+ * transcripts on disk, so a runtime that silently stopped capturing shows up
+ * as lag instead of looking healthy because a state file exists.
+ *
+ * State entries are matched to runtimes by transcript path rather than by
+ * state file. The historical Claude hook writes to the generic Pi files, and
+ * this way its entries still count, with a warning.
+ *
+ * Fixes only add things or move things aside. They install a missing hook
+ * (existing hooks are kept) and replay the outbox. Payloads that a later
+ * successful capture already resent are archived instead of posted.
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import { basename, dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { walkJsonlFiles } from "./local-sessions.ts";
+import type { TranscriptAgent } from "./transcript.ts";
+
+export const DEFAULT_CENTRAL_URL = "http://panda.tail7af24.ts.net:3000";
+export const DEFAULT_DOCTOR_DAYS = 7;
+/** Transcripts written this recently are still in flight; hooks run at turn end. */
+const CAPTURE_GRACE_MS = 10 * 60 * 1000;
+const MAX_LAGGING_LISTED = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CODEX_INSTALLER = fileURLToPath(new URL("../joelclaw-session-capture/scripts/install-hook.js", import.meta.url));
+const CODEX_HOOK_PATTERN = /joelclaw-capture-codex-session|capture-codex-session\.js/;
+const CLAUDE_HOOK_PATTERN = /joelclaw-capture-session/;
+
+export type CaptureFix = "install-codex-hook" | "install-claude-hook" | "replay-outbox";
+
+export interface CaptureIssue {
+  level: "error" | "warning";
+  agent?: TranscriptAgent;
+  message: string;
+  fix?: CaptureFix;
+}
+
+export interface CaptureStateEntry {
+  transcriptPath: string;
+  sessionId?: string;
+  offset: number;
+  capturedAt?: number;
+  stateFile: string;
+}
+
+export interface TranscriptLag {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  lagBytes: number;
+  /** Transcript mtime minus the last capture; undefined when never captured. */
+  lagMs?: number;
+}
+
+export interface RuntimeCaptureHealth {
+  agent: TranscriptAgent;
+  transcriptRoot: string;
+  transcripts: number;
+  newestMtimeMs?: number;
+  state: { path: string; exists: boolean; mtimeMs?: number; entries: number };
+  log: { path: string; exists: boolean; mtimeMs?: number };
+  hook: { ok: boolean; detail: string };
+  /** Transcripts modified inside the window and older than the grace period. */
+  recent: number;
+  inSync: number;
+  neverCaptured: number;
+  lagging: TranscriptLag[];
+  lagBytes: number;
+  maxLagMs?: number;
+  outbox: number;
+}
+
+export interface OutboxPayload {
+  file: string;
+  agent?: TranscriptAgent;
+  runId?: string;
+  sessionId?: string;
+  startedAt?: number;
+  /** A later capture of the same session succeeded and resent this delta. */
+  superseded: boolean;
+}
+
+export interface CaptureReport {
+  home: string;
+  generatedAt: number;
+  windowDays: number;
+  runtimes: RuntimeCaptureHealth[];
+  outbox: { dir: string; payloads: OutboxPayload[] };
+  issues: CaptureIssue[];
+  ok: boolean;
+}
+
+export interface CaptureFixResult {
+  fix: CaptureFix;
+  ok: boolean;
+  detail: string;
+}
+
+interface RuntimePaths {
+  agent: TranscriptAgent;
+  transcriptRoot: string;
+  statePath: string;
+  logPath: string;
+}
+
+function runtimePaths(home: string): RuntimePaths[] {
+  const joelclaw = join(home, ".joelclaw");
+  return [
+    { agent: "pi", transcriptRoot: join(home, ".pi/agent/sessions"), statePath: join(joelclaw, "session-state.json"), logPath: join(joelclaw, "capture.log") },
+    {
+      agent: "claude",
+      transcriptRoot: join(home, ".claude/projects"),
+      statePath: join(joelclaw, "claude-session-state.json"),
+      logPath: join(joelclaw, "claude-capture.log"),
+    },
+    {
+      agent: "codex",
+      transcriptRoot: join(home, ".codex/sessions"),
+      statePath: join(joelclaw, "codex-session-state.json"),
+      logPath: join(joelclaw, "codex-capture.log"),
+    },
+  ];
+}
+
+function outboxDir(home: string): string {
+  return join(home, ".joelclaw/outbox");
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+function mtime(path: string): number | undefined {
+  try {
+    return statSync(path).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Entries in the `{ [key]: { last_byte_offset, transcript_path, ... } }` shape
+ * written by the capture hooks. Keys of the form `<session>:<path>` stand in
+ * for a missing `transcript_path`.
+ */
+export function readCaptureStateEntries(path: string): CaptureStateEntry[] {
+  const state = readJson(path);
+  if (!state || typeof state !== "object") return [];
+  const entries: CaptureStateEntry[] = [];
+  for (const [key, value] of Object.entries(state as Record<string, unknown>)) {
+    if (!value || typeof value !== "object") continue;
+    const entry = value as Record<string, unknown>;
+    const offset = entry.last_byte_offset ?? entry.offset;
+    if (typeof offset !== "number") continue;
+    const transcriptPath = typeof entry.transcript_path === "string" ? entry.transcript_path : key.slice(Math.max(0, key.indexOf(":/") + 1));
+    if (!transcriptPath.startsWith("/") || !transcriptPath.endsWith(".jsonl")) continue;
+    const capturedAt = typeof entry.last_captured_at === "string" ? Date.parse(entry.last_captured_at) : undefined;
+    entries.push({
+      transcriptPath,
+      sessionId: typeof entry.session_id === "string" ? entry.session_id : key.includes(":/") ? key.slice(0, key.indexOf(":/")) : undefined,
+      offset,
+      capturedAt: Number.isNaN(capturedAt) ? undefined : capturedAt,
+      stateFile: path,
+    });
+  }
+  return entries;
+}
+
+function runtimeForAgentName(name: unknown): TranscriptAgent | undefined {
+  if (typeof name !== "string") return undefined;
+  if (name === "pi" || name === "codex") return name;
+  return name.startsWith("claude") ? "claude" : undefined;
+}
+
+function hookCommands(path: string): string[] {
+  const config = readJson(path) as { hooks?: Record<string, Array<{ hooks?: Array<{ command?: unknown }> }>> } | undefined;
+  return (config?.hooks?.Stop ?? []).flatMap((group) => group.hooks ?? []).flatMap((hook) => (typeof hook.command === "string" ? [hook.command] : []));
+}
+
+function checkHook(agent: TranscriptAgent, home: string): { ok: boolean; detail: string } {
+  if (agent === "codex") {
+    const path = join(home, ".codex/hooks.json");
+    if (!existsSync(path)) return { ok: false, detail: `missing ${path}` };
+    return hookCommands(path).some((command) => CODEX_HOOK_PATTERN.test(command))
+      ? { ok: true, detail: `Stop hook in ${path}` }
+      : { ok: false, detail: `no capture Stop hook in ${path}` };
+  }
+  if (agent === "claude") {
+    const path = join(home, ".claude/settings.json");
+    if (!existsSync(path)) return { ok: false, detail: `missing ${path}` };
+    return hookCommands(path).some((command) => CLAUDE_HOOK_PATTERN.test(command))
+      ? { ok: true, detail: `Stop hook in ${path}` }
+      : { ok: false, detail: `no joelclaw-capture-session Stop hook in ${path}` };
+  }
+  const path = join(home, ".pi/agent/extensions/memory-capture");
+  return existsSync(path) ? { ok: true, detail: `extension at ${path}` } : { ok: false, detail: `missing memory-capture extension at ${path}` };
+}
+
+function claudeCaptureScript(home: string): string {
+  return join(home, ".bun/bin/joelclaw-capture-session");
+}
+
+/** Outbox payloads, with the ones a later successful capture made redundant marked. */
+export function readOutbox(home: string, entries: CaptureStateEntry[]): OutboxPayload[] {
+  const dir = outboxDir(home);
+  let files: string[] = [];
+  try {
+    files = readdirSync(dir).filter((name) => name.endsWith(".json")).sort();
+  } catch {
+    return [];
+  }
+  const lastCapture = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.sessionId || entry.capturedAt === undefined) continue;
+    lastCapture.set(entry.sessionId, Math.max(lastCapture.get(entry.sessionId) ?? 0, entry.capturedAt));
+  }
+  return files.map((name) => {
+    const file = join(dir, name);
+    const body = readJson(file) as { run_id?: unknown; agent_runtime?: unknown; conversation_id?: unknown; started_at?: unknown } | undefined;
+    const sessionId = typeof body?.conversation_id === "string" ? body.conversation_id : undefined;
+    const startedAt = typeof body?.started_at === "number" ? body.started_at : undefined;
+    const captured = sessionId ? lastCapture.get(sessionId) : undefined;
+    return {
+      file,
+      agent: runtimeForAgentName(body?.agent_runtime),
+      runId: typeof body?.run_id === "string" ? body.run_id : undefined,
+      sessionId,
+      startedAt,
+      superseded: captured !== undefined && startedAt !== undefined && captured > startedAt,
+    };
+  });
+}
+
+export function diagnoseCapture(options: { home?: string; now?: number; days?: number } = {}): CaptureReport {
+  const home = options.home ?? os.homedir();
+  const now = options.now ?? Date.now();
+  const windowDays = options.days ?? DEFAULT_DOCTOR_DAYS;
+  const runtimes = runtimePaths(home);
+
+  const entries = runtimes.flatMap((runtime) => readCaptureStateEntries(runtime.statePath));
+  const byPath = new Map<string, CaptureStateEntry>();
+  for (const entry of entries) {
+    const existing = byPath.get(entry.transcriptPath);
+    if (!existing || entry.offset > existing.offset) byPath.set(entry.transcriptPath, entry);
+  }
+  const payloads = readOutbox(home, entries);
+  const issues: CaptureIssue[] = [];
+
+  const health = runtimes.map((runtime): RuntimeCaptureHealth => {
+    const { agent } = runtime;
+    const transcripts = walkJsonlFiles(runtime.transcriptRoot, Number.POSITIVE_INFINITY);
+    const own = entries.filter((entry) => entry.transcriptPath.startsWith(`${runtime.transcriptRoot}/`));
+    const result: RuntimeCaptureHealth = {
+      agent,
+      transcriptRoot: runtime.transcriptRoot,
+      transcripts: transcripts.length,
+      newestMtimeMs: transcripts[0] ? mtime(transcripts[0]) : undefined,
+      state: { path: runtime.statePath, exists: existsSync(runtime.statePath), mtimeMs: mtime(runtime.statePath), entries: own.length },
+      log: { path: runtime.logPath, exists: existsSync(runtime.logPath), mtimeMs: mtime(runtime.logPath) },
+      hook: checkHook(agent, home),
+      recent: 0,
+      inSync: 0,
+      neverCaptured: 0,
+      lagging: [],
+      lagBytes: 0,
+      outbox: payloads.filter((payload) => payload.agent === agent && !payload.superseded).length,
+    };
+
+    for (const path of transcripts) {
+      let size: number;
+      let mtimeMs: number;
+      try {
+        ({ size, mtimeMs } = statSync(path));
+      } catch {
+        continue;
+      }
+      // Newest first, so everything after the window is older still.
+      if (mtimeMs < now - windowDays * DAY_MS) break;
+      if (mtimeMs > now - CAPTURE_GRACE_MS) continue;
+      result.recent += 1;
+      const entry = byPath.get(path);
+      const lagBytes = size - (entry?.offset ?? 0);
+      if (lagBytes <= 0) {
+        result.inSync += 1;
+        continue;
+      }
+      if (!entry) result.neverCaptured += 1;
+      const lagMs = entry?.capturedAt !== undefined ? Math.max(0, mtimeMs - entry.capturedAt) : undefined;
+      result.lagging.push({ path, size, mtimeMs, lagBytes, lagMs });
+      result.lagBytes += lagBytes;
+      if (lagMs !== undefined) result.maxLagMs = Math.max(result.maxLagMs ?? 0, lagMs);
+    }
+    result.lagging.sort((a, b) => b.lagBytes - a.lagBytes);
+
+    if (!result.hook.ok && result.transcripts) {
+      const fix = agent === "codex" ? "install-codex-hook" : agent === "claude" && existsSync(claudeCaptureScript(home)) ? "install-claude-hook" : undefined;
+      issues.push({ level: "error", agent, message: `${agent} capture hook: ${result.hook.detail}`, fix });
+    }
+    if (result.recent && result.neverCaptured === result.recent) {
+      issues.push({ level: "error", agent, message: `none of the ${result.recent} ${agent} transcripts from the last ${windowDays}d was ever captured` });
+    } else if (result.lagging.length) {
+      issues.push({ level: "warning", agent, message: `${result.lagging.length} ${agent} transcripts are behind by ${formatBytes(result.lagBytes)}` });
+    }
+    if (result.outbox) {
+      issues.push({ level: "warning", agent, message: `${result.outbox} ${agent} payloads waiting in the outbox`, fix: "replay-outbox" });
+    }
+    const misfiled = own.filter((entry) => entry.stateFile !== runtime.statePath);
+    if (misfiled.length) {
+      issues.push({
+        level: "warning",
+        agent,
+        message: `${misfiled.length} ${agent} state entries live in ${basename(misfiled[0].stateFile)}, not ${basename(runtime.statePath)}; the hook is not namespaced`,
+      });
+    }
+    return result;
+  });
+
+  const unattributed = payloads.filter((payload) => !payload.agent && !payload.superseded).length;
+  if (unattributed) issues.push({ level: "warning", message: `${unattributed} outbox payloads have no known agent_runtime`, fix: "replay-outbox" });
+  const superseded = payloads.filter((payload) => payload.superseded).length;
+  if (superseded) issues.push({ level: "warning", message: `${superseded} outbox payloads were already resent by a later capture`, fix: "replay-outbox" });
+
+  return {
+    home,
+    generatedAt: now,
+    windowDays,
+    runtimes: health,
+    outbox: { dir: outboxDir(home), payloads },
+    issues,
+    ok: !issues.some((issue) => issue.level === "error"),
+  };
+}
+
+export interface CaptureFixOptions {
+  centralUrl?: string;
+  fetch?: typeof fetch;
+  /** Runs the Codex hook installer; defaults to the joelclaw-session-capture script. */
+  installCodexHook?: (hooksPath: string) => { ok: boolean; detail: string };
+}
+
+/** Apply every fix the report offers. Each fix is idempotent. */
+export async function fixCapture(report: CaptureReport, options: CaptureFixOptions = {}): Promise<CaptureFixResult[]> {
+  const fixes = new Set(report.issues.flatMap((issue) => (issue.fix ? [issue.fix] : [])));
+  const results: CaptureFixResult[] = [];
+  if (fixes.has("install-codex-hook")) {
+    const hooksPath = join(report.home, ".codex/hooks.json");
+    const run = (options.installCodexHook ?? installCodexHook)(hooksPath);
+    results.push({ fix: "install-codex-hook", ...run });
+  }
+  if (fixes.has("install-claude-hook")) results.push({ fix: "install-claude-hook", ...installClaudeHook(report.home) });
+  if (fixes.has("replay-outbox")) results.push(...(await replayOutbox(report, options)));
+  return results;
+}
+
+function installCodexHook(hooksPath: string): { ok: boolean; detail: string } {
+  if (!existsSync(CODEX_INSTALLER)) return { ok: false, detail: `installer not found at ${CODEX_INSTALLER}` };
+  const run = spawnSync(process.execPath, [CODEX_INSTALLER], {
+    encoding: "utf8",
+    timeout: 15_000,
+    env: { ...process.env, CODEX_HOOKS_PATH: hooksPath },
+  });
+  if (run.status === 0) return { ok: true, detail: `installed the Codex Stop hook in ${hooksPath}` };
+  return { ok: false, detail: `installer exited ${run.status ?? run.signal}: ${(run.stderr || run.stdout || run.error?.message || "").trim().slice(0, 300)}` };
+}
+
+/** Append a Stop hook for the Claude capture script, keeping every existing setting. */
+export function installClaudeHook(home: string): { ok: boolean; detail: string } {
+  const script = claudeCaptureScript(home);
+  if (!existsSync(script)) return { ok: false, detail: `capture script not found at ${script}` };
+  const path = join(home, ".claude/settings.json");
+  const settings = existsSync(path) ? (readJson(path) as { hooks?: Record<string, unknown[]> } | undefined) : {};
+  if (!settings || typeof settings !== "object") return { ok: false, detail: `could not parse ${path}; left it untouched` };
+  if (hookCommands(path).some((command) => CLAUDE_HOOK_PATTERN.test(command))) return { ok: true, detail: `Stop hook already present in ${path}` };
+  settings.hooks ??= {};
+  settings.hooks.Stop ??= [];
+  settings.hooks.Stop.push({ hooks: [{ type: "command", command: script }] });
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, `${JSON.stringify(settings, null, 2)}\n`);
+  renameSync(tmp, path);
+  return { ok: true, detail: `added a Stop hook for ${script} to ${path}` };
+}
+
+/**
+ * Post queued payloads to Central and advance the matching state entry, as the
+ * hook would have. Superseded payloads move to `outbox/superseded/`; accepted
+ * ones move to `outbox/replayed/`. Failures stay queued.
+ */
+async function replayOutbox(report: CaptureReport, options: CaptureFixOptions): Promise<CaptureFixResult[]> {
+  const { dir, payloads } = report.outbox;
+  const results: CaptureFixResult[] = [];
+  const archive = (payload: OutboxPayload, folder: string) => {
+    mkdirSync(join(dir, folder), { recursive: true });
+    renameSync(payload.file, join(dir, folder, basename(payload.file)));
+  };
+
+  const superseded = payloads.filter((payload) => payload.superseded);
+  for (const payload of superseded) archive(payload, "superseded");
+  if (superseded.length) results.push({ fix: "replay-outbox", ok: true, detail: `archived ${superseded.length} superseded payloads to ${join(dir, "superseded")}` });
+
+  const pending = payloads.filter((payload) => !payload.superseded).sort((a, b) => (a.startedAt ?? 0) - (b.startedAt ?? 0));
+  if (!pending.length) return results;
+  const auth = readJson(join(report.home, ".joelclaw/auth.json")) as { token?: string } | undefined;
+  if (!auth?.token) {
+    results.push({ fix: "replay-outbox", ok: false, detail: `no Central token in ${join(report.home, ".joelclaw/auth.json")}; ${pending.length} payloads left queued` });
+    return results;
+  }
+  const centralUrl = options.centralUrl ?? process.env.JOELCLAW_CENTRAL_URL ?? DEFAULT_CENTRAL_URL;
+  const request = options.fetch ?? fetch;
+  let replayed = 0;
+  for (const payload of pending) {
+    const body = readJson(payload.file) as { jsonl?: string } | undefined;
+    if (!body) {
+      results.push({ fix: "replay-outbox", ok: false, detail: `${basename(payload.file)} is not valid JSON; left queued` });
+      continue;
+    }
+    try {
+      const response = await request(`${centralUrl}/api/runs`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${auth.token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(30_000),
+      });
+      if (!response.ok) {
+        results.push({ fix: "replay-outbox", ok: false, detail: `${basename(payload.file)}: HTTP ${response.status}; left queued` });
+        continue;
+      }
+      const accepted = ((await response.json().catch(() => ({}))) as { run_id?: string }).run_id ?? payload.runId;
+      advanceState(report, payload, accepted, Buffer.byteLength(body.jsonl ?? ""));
+      archive(payload, "replayed");
+      replayed += 1;
+    } catch (error) {
+      results.push({ fix: "replay-outbox", ok: false, detail: `${basename(payload.file)}: ${(error as Error).message}; left queued` });
+      break;
+    }
+  }
+  if (replayed) results.push({ fix: "replay-outbox", ok: true, detail: `replayed ${replayed} payloads to ${centralUrl}` });
+  return results;
+}
+
+/** Move the session's offset past the replayed delta so the next hook run does not resend it. */
+function advanceState(report: CaptureReport, payload: OutboxPayload, runId: string | undefined, bytes: number): void {
+  if (!payload.sessionId || !payload.agent) return;
+  const statePath = runtimePaths(report.home).find((runtime) => runtime.agent === payload.agent)!.statePath;
+  const state = readJson(statePath) as Record<string, Record<string, unknown>> | undefined;
+  const key = state && Object.keys(state).find((candidate) => state[candidate]?.session_id === payload.sessionId || candidate.startsWith(`${payload.sessionId}:`));
+  if (!state || !key) return;
+  const entry = state[key];
+  entry.last_byte_offset = (typeof entry.last_byte_offset === "number" ? entry.last_byte_offset : 0) + bytes;
+  if (runId) entry.last_run_id = runId;
+  entry.last_captured_at = new Date().toISOString();
+  writeFileSync(statePath, JSON.stringify(state, null, 2));
+}
+
+export function renderCaptureReport(report: CaptureReport, fixes: CaptureFixResult[] = []): string {
+  const age = (ms: number | undefined) => (ms === undefined ? "never" : `${formatAge(report.generatedAt - ms)} ago`);
+  const lines = [`Capture ${report.ok ? "healthy" : "unhealthy"} · last ${report.windowDays}d · ${report.issues.length} issues`, ""];
+  for (const runtime of report.runtimes) {
+    lines.push(`## ${runtime.agent}`);
+    lines.push(`- transcripts: ${runtime.transcripts} under ${runtime.transcriptRoot}, newest modified ${age(runtime.newestMtimeMs)}`);
+    lines.push(`- hook: ${runtime.hook.ok ? "ok" : "MISSING"}, ${runtime.hook.detail}`);
+    lines.push(
+      `- state: ${runtime.state.exists ? `${runtime.state.entries} entries, modified ${age(runtime.state.mtimeMs)}` : "missing"} (${runtime.state.path})`,
+    );
+    lines.push(`- log: ${runtime.log.exists ? `modified ${age(runtime.log.mtimeMs)}` : "missing"} (${runtime.log.path})`);
+    lines.push(
+      `- last ${report.windowDays}d: ${runtime.recent} transcripts, ${runtime.inSync} in sync, ${runtime.lagging.length} behind ` +
+        `(${formatBytes(runtime.lagBytes)}${runtime.maxLagMs !== undefined ? `, up to ${formatAge(runtime.maxLagMs)}` : ""}), ${runtime.neverCaptured} never captured`,
+    );
+    for (const lag of runtime.lagging.slice(0, MAX_LAGGING_LISTED)) {
+      lines.push(`  - ${lag.path}: ${formatBytes(lag.lagBytes)} behind, ${lag.lagMs === undefined ? "never captured" : `${formatAge(lag.lagMs)} of writes uncaptured`}`);
+    }
+    lines.push(`- outbox: ${runtime.outbox} queued`);
+    lines.push("");
+  }
+  lines.push("## Issues");
+  if (!report.issues.length) lines.push("- none");
+  for (const issue of report.issues) lines.push(`- ${issue.level}: ${issue.message}${issue.fix ? ` (fix: ${issue.fix})` : ""}`);
+  if (fixes.length) {
+    lines.push("", "## Fixes");
+    for (const fix of fixes) lines.push(`- ${fix.ok ? "ok" : "failed"} ${fix.fix}: ${fix.detail}`);
+  } else if (report.issues.some((issue) => issue.fix)) {
+    lines.push("", "Run again with fix: true (or `/session-doctor --fix`) to apply the safe fixes.");
+  }
+  return lines.join("\n");
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { cosineSimilarity, createRemoteEmbeddingProvider, embeddingTokens, hashedNgramVector, resolveEmbeddingProvider } from "./embeddings.ts";
+
+describe("embedding providers", () => {
+  test("hashed n-grams rank paraphrases above unrelated text", () => {
+    expect(embeddingTokens("ioredis retryStrategy is_null")).toEqual(["ioredis", "retry", "strategy", "null"]);
+    const query = hashedNgramVector("the redis reconnect bug");
+    const paraphrase = cosineSimilarity(query, hashedNgramVector("ioredis retryStrategy null keeps the client from reconnecting"));
+    const unrelated = cosineSimilarity(query, hashedNgramVector("update the README badges and bump version"));
+    expect(paraphrase).toBeGreaterThan(unrelated + 0.1);
+    expect(cosineSimilarity(query, query)).toBeCloseTo(1, 5);
+  });
+
+  test("remote adapter posts batches and normalizes returned vectors", async () => {
+    const requests: Array<{ url: string; body: any; auth?: string }> = [];
+    const provider = createRemoteEmbeddingProvider({
+      url: "http://localhost:11434/v1/embeddings",
+      model: "nomic-embed-text",
+      apiKey: "test-key",
+      fetch: (async (url: string, init: RequestInit) => {
+        requests.push({ url, body: JSON.parse(String(init.body)), auth: (init.headers as Record<string, string>).Authorization });
+        return new Response(JSON.stringify({ data: [{ index: 1, embedding: [0, 2] }, { index: 0, embedding: [3, 4] }] }));
+      }) as typeof fetch,
+    });
+    const vectors = await provider.embed(["a", "b"]);
+    expect(provider.id).toBe("remote-nomic-embed-text");
+    expect(requests).toEqual([{ url: "http://localhost:11434/v1/embeddings", body: { model: "nomic-embed-text", input: ["a", "b"] }, auth: "Bearer test-key" }]);
+    expect([...vectors[0]].map((value) => Number(value.toFixed(2)))).toEqual([0.6, 0.8]);
+    expect([...vectors[1]]).toEqual([0, 1]);
+    expect(resolveEmbeddingProvider("remote", {})).toContain("PI_SESSION_READER_EMBEDDING_URL");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Embedding providers for semantic session search.
+ *
+ * The local default needs no model or network: it hashes word unigrams,
+ * word bigrams, and character trigrams into a fixed-size signed vector, so
+ * "ioredis retryStrategy" and "redis reconnect" share `red`/`edi`/`dis` and
+ * `retry` features. The remote adapter speaks the OpenAI-compatible
+ * `/embeddings` API (OpenAI, Ollama, LM Studio, vLLM) when better recall is
+ * worth sending redacted transcript text off the machine.
+ */
+
+import { tokenize } from "./search-index.ts";
+
+export type EmbeddingProviderName = "local" | "remote";
+
+export interface EmbeddingProvider {
+  /** Stable id; vectors from different ids are never compared. */
+  id: string;
+  name: EmbeddingProviderName;
+  /** Maximum texts per `embed` call. */
+  batchSize: number;
+  /** Unit-length vectors, one per text, in order. */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export const DEFAULT_LOCAL_DIMENSIONS = 256;
+export const DEFAULT_REMOTE_MODEL = "text-embedding-3-small";
+
+const REMOTE_TIMEOUT_MS = 30_000;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by can do does for from has have how i if in into is it its me my no not of on or our so that the their then there this to was we were what when where which while why will with you your".split(" "),
+);
+
+/** Hashed n-gram embeddings, computed in-process. */
+export function createHashedNgramProvider(dimensions = DEFAULT_LOCAL_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: `hashed-ngram-v1-${dimensions}`,
+    name: "local",
+    batchSize: 256,
+    async embed(texts) {
+      return texts.map((text) => hashedNgramVector(text, dimensions));
+    },
+  };
+}
+
+/** camelCase and snake_case identifiers split into words, so `retryStrategy` matches "retry strategy". */
+export function embeddingTokens(text: string): string[] {
+  const split = text.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2").replace(/_/g, " ");
+  return tokenize(split).filter((token) => !STOPWORDS.has(token));
+}
+
+export function hashedNgramVector(text: string, dimensions = DEFAULT_LOCAL_DIMENSIONS): Float32Array {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) ?? 0) + weight);
+  const tokens = embeddingTokens(text);
+  tokens.forEach((token, index) => {
+    add(`w:${token}`, 1);
+    if (index > 0) add(`b:${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i += 1) add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+  });
+
+  const vector = new Float32Array(dimensions);
+  for (const [feature, weight] of features) {
+    const hash = fnv1a(feature);
+    // Sublinear term frequency so one repeated word cannot dominate a chunk.
+    vector[(hash & 0x7fffffff) % dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(weight + 1));
+  }
+  return normalize(vector);
+}
+
+export interface RemoteEmbeddingOptions {
+  url: string;
+  model?: string;
+  apiKey?: string;
+  batchSize?: number;
+  fetch?: typeof fetch;
+}
+
+/** OpenAI-compatible `POST {url}` with `{ model, input: string[] }`, reading `data[].embedding`. */
+export function createRemoteEmbeddingProvider(options: RemoteEmbeddingOptions): EmbeddingProvider {
+  const model = options.model ?? DEFAULT_REMOTE_MODEL;
+  const request = options.fetch ?? fetch;
+  return {
+    id: `remote-${model}`,
+    name: "remote",
+    batchSize: options.batchSize ?? 64,
+    async embed(texts) {
+      if (!texts.length) return [];
+      const response = await request(options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts }),
+        signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`Embedding request failed: HTTP ${response.status} ${(await response.text()).slice(0, 200)}`);
+      const body = (await response.json()) as { data?: Array<{ index?: number; embedding?: number[] }> };
+      const data = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      if (data.length !== texts.length || data.some((item) => !Array.isArray(item.embedding))) {
+        throw new Error(`Embedding response had ${data.length} vectors for ${texts.length} inputs.`);
+      }
+      return data.map((item) => normalize(Float32Array.from(item.embedding!)));
+    },
+  };
+}
+
+/**
+ * Provider by name. `remote` reads PI_SESSION_READER_EMBEDDING_URL, _MODEL,
+ * and _KEY (falling back to OPENAI_API_KEY); without a URL it returns an error.
+ */
+export function resolveEmbeddingProvider(name: EmbeddingProviderName = "local", env = process.env): EmbeddingProvider | string {
+  if (name === "local") return createHashedNgramProvider();
+  const url = env.PI_SESSION_READER_EMBEDDING_URL;
+  if (!url) {
+    return "Remote embeddings need PI_SESSION_READER_EMBEDDING_URL (an OpenAI-compatible /embeddings endpoint). Use embedding_provider: \"local\" for the offline default.";
+  }
+  return createRemoteEmbeddingProvider({
+    url,
+    model: env.PI_SESSION_READER_EMBEDDING_MODEL,
+    apiKey: env.PI_SESSION_READER_EMBEDDING_KEY ?? env.OPENAI_API_KEY,
+  });
+}
+
+/** Dot product; both inputs are unit length, so this is cosine similarity. */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i += 1) dot += a[i] * b[i];
+  return dot;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i += 1) vector[i] /= norm;
+  return vector;
+}
+
+/** 32-bit FNV-1a over UTF-16 code units. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,426 @@
+/**
+ * Portable Markdown and self-contained HTML exports of any transcript.
+ *
+ * Both formats open with a metadata header, then list the conversation in
+ * order. Tool calls collapse into `<details>` blocks with their arguments and
+ * result; edits show the diff rebuilt by timeline.ts. Markdown keeps images
+ * as files in a sibling `.assets` directory so the bundle pastes cleanly into
+ * PRs; HTML inlines them as data URLs and carries its own CSS and a small
+ * regex highlighter, so the file needs nothing else to render.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { toolCommand, toolFileOperations } from "./local-tools.ts";
+import { buildTimeline, type SessionTimeline } from "./timeline.ts";
+import { canonicalToolName, type Transcript, type TranscriptImage, type TranscriptMessage } from "./transcript.ts";
+
+export type ExportFormat = "markdown" | "html";
+
+export const DEFAULT_EXPORT_OUTPUT_CHARS = 4000;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Include injected system/developer/custom messages. */
+  includeSystem?: boolean;
+  /** Per tool result and per tool argument block. */
+  maxOutputChars?: number;
+  /** Applied to every piece of transcript text before it is written. */
+  redact?: (text: string) => string;
+  /** Markdown only: directory name images are referenced under. */
+  assetsDirName?: string;
+}
+
+export interface SessionExport {
+  format: ExportFormat;
+  content: string;
+  /** Markdown image files to write next to the export, keyed by file name. */
+  assets: Array<{ name: string; data: Buffer }>;
+  counts: { messages: number; toolCalls: number; images: number };
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: "typescript", tsx: "tsx", js: "javascript", jsx: "jsx", mjs: "javascript", cjs: "javascript",
+  py: "python", rb: "ruby", go: "go", rs: "rust", java: "java", kt: "kotlin", swift: "swift",
+  sh: "bash", bash: "bash", zsh: "bash", json: "json", jsonl: "json", yml: "yaml", yaml: "yaml",
+  toml: "toml", md: "markdown", html: "html", css: "css", sql: "sql", svelte: "svelte", svx: "markdown",
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { "image/png": "png", "image/jpeg": "jpg", "image/gif": "gif", "image/webp": "webp" };
+const BASE64_PATTERN = /^[A-Za-z0-9+/=]+$/;
+
+/** Code fence language for a file path, or "" when unknown. */
+export function languageForPath(path: string | undefined): string {
+  if (!path) return "";
+  return EXTENSION_LANGUAGES[extname(path).slice(1).toLowerCase()] ?? "";
+}
+
+/** Default export location: alongside the session-reader index, named after the session. */
+export function defaultExportPath(directory: string, transcript: Transcript, format: ExportFormat): string {
+  const safeId = transcript.sessionId.replace(/[^A-Za-z0-9._-]+/g, "-");
+  return join(directory, "exports", `${transcript.agent}-${safeId}.${format === "html" ? "html" : "md"}`);
+}
+
+interface ExportBlock {
+  message: TranscriptMessage;
+  result?: TranscriptMessage;
+}
+
+/** Pair tool calls with their results; unmatched results render on their own. */
+function exportBlocks(transcript: Transcript, includeSystem: boolean): ExportBlock[] {
+  const results = new Map<string, TranscriptMessage>();
+  for (const message of transcript.messages) {
+    if (message.role === "tool_result" && message.toolCallId && !results.has(message.toolCallId)) results.set(message.toolCallId, message);
+  }
+  const paired = new Set<TranscriptMessage>();
+  const blocks: ExportBlock[] = [];
+  for (const message of transcript.messages) {
+    if (message.role === "system" && !includeSystem) continue;
+    if (message.role === "tool_result" && paired.has(message)) continue;
+    const result = message.role === "tool_call" && message.toolCallId ? results.get(message.toolCallId) : undefined;
+    if (result) paired.add(result);
+    blocks.push({ message, result });
+  }
+  return blocks;
+}
+
+interface ToolView {
+  title: string;
+  args?: { code: string; language: string };
+  result?: { code: string; language: string; isError: boolean };
+}
+
+function toolView(block: ExportBlock, diffs: Map<string, string>, maxChars: number, redact: (text: string) => string): ToolView {
+  const { message, result } = block;
+  const clipCode = (text: string) => clipBlock(redact(text), maxChars);
+  const files = toolFileOperations(message);
+  const command = toolCommand(message);
+  const tool = canonicalToolName(message.toolName);
+  const path = files[0]?.path;
+  const name = message.toolName ?? "tool";
+
+  let title = name;
+  let args: ToolView["args"];
+  const diff = message.toolCallId ? diffs.get(message.toolCallId) : undefined;
+  if (command) {
+    title = `${name} — ${oneLine(redact(command), 100)}`;
+    args = { code: clipCode(command), language: "bash" };
+  } else if (diff) {
+    title = `${name} — ${files.map((file) => file.path).join(", ")}`;
+    args = { code: clipCode(diff), language: "diff" };
+  } else if (tool === "write" && typeof message.args?.content === "string") {
+    title = `${name} — ${path}`;
+    args = { code: clipCode(message.args.content), language: languageForPath(path) };
+  } else if (tool === "read" && path) {
+    title = `${name} — ${path}`;
+  } else if (message.args && Object.keys(message.args).length) {
+    args = { code: clipCode(JSON.stringify(message.args, null, 2)), language: "json" };
+  }
+
+  return {
+    title,
+    args,
+    result: result && {
+      code: clipCode(result.text),
+      language: tool === "read" ? languageForPath(path) : "text",
+      isError: result.isError === true,
+    },
+  };
+}
+
+/** Unified diff text per tool call id, from the timeline's rebuilt file changes. */
+function diffsByToolCall(timeline: SessionTimeline): Map<string, string> {
+  const byCall = new Map<string, string>();
+  for (const [path, changes] of timeline.diffs) {
+    for (const change of changes) {
+      if (!change.toolCallId) continue;
+      const header = `--- a/${path.replace(/^\//, "")}\n+++ b/${path.replace(/^\//, "")}`;
+      const text = [header, ...change.hunks].join("\n");
+      const existing = byCall.get(change.toolCallId);
+      byCall.set(change.toolCallId, existing ? `${existing}\n${text}` : text);
+    }
+  }
+  return byCall;
+}
+
+function metadataRows(transcript: Transcript, models: string[]): Array<[string, string]> {
+  const counts = { user: 0, assistant: 0, tool_call: 0 };
+  for (const message of transcript.messages) if (message.role in counts) counts[message.role as keyof typeof counts] += 1;
+  const lastMessageAt = [...transcript.messages].reverse().find((message) => message.timestamp)?.timestamp;
+  const git = transcript.git ? [transcript.git.branch, transcript.git.repository].filter(Boolean).join(" @ ") : "";
+  return [
+    ["Agent", transcript.agent],
+    ["Session", transcript.sessionId],
+    ["Transcript", transcript.path],
+    ["Cwd", transcript.cwd ?? ""],
+    ["Git", git],
+    ["Started", transcript.startedAt ?? ""],
+    ["Last activity", lastMessageAt ?? ""],
+    ["Models", models.join(" → ")],
+    ["Messages", `${counts.user} user · ${counts.assistant} assistant · ${counts.tool_call} tool calls`],
+    ["Exported", new Date().toISOString()],
+  ].filter(([, value]) => value) as Array<[string, string]>;
+}
+
+export function renderSessionExport(transcript: Transcript, options: ExportOptions): SessionExport {
+  const redact = options.redact ?? ((text: string) => text);
+  const maxChars = options.maxOutputChars ?? DEFAULT_EXPORT_OUTPUT_CHARS;
+  const blocks = exportBlocks(transcript, options.includeSystem === true);
+  const timeline = buildTimeline(transcript);
+  const diffs = diffsByToolCall(timeline);
+  const rows = metadataRows(transcript, timeline.models).map(([key, value]) => [key, redact(value)] as [string, string]);
+  const assets: SessionExport["assets"] = [];
+  const assetsDir = options.assetsDirName ?? "assets";
+  const counts = { messages: 0, toolCalls: 0, images: 0 };
+
+  // Transcript fields go straight into a data URL, so only known image types with a clean base64 payload are kept
+  const exportable = (image: TranscriptImage): boolean => Object.hasOwn(IMAGE_EXTENSIONS, image.mimeType) && BASE64_PATTERN.test(image.data);
+  const imageRef = (image: TranscriptImage): string => {
+    counts.images += 1;
+    if (options.format === "html") return `data:${image.mimeType};base64,${image.data}`;
+    const name = `image-${counts.images}.${IMAGE_EXTENSIONS[image.mimeType]}`;
+    assets.push({ name, data: Buffer.from(image.data, "base64") });
+    return `${assetsDir}/${name}`;
+  };
+
+  const title = `Session ${transcript.sessionId}`;
+  const parts: string[] = [];
+  for (const block of blocks) {
+    const { message } = block;
+    counts.messages += 1;
+    const when = message.timestamp ? message.timestamp.slice(0, 19).replace("T", " ") : "";
+    if (message.role === "tool_call" || message.role === "tool_result") {
+      if (message.role === "tool_call") counts.toolCalls += 1;
+      const view = message.role === "tool_call"
+        ? toolView(block, diffs, maxChars, redact)
+        : { title: `${message.toolName ?? "tool"} result`, result: { code: clipBlock(redact(message.text), maxChars), language: "text", isError: message.isError === true } };
+      const images = [...(block.result?.images ?? []), ...(message.role === "tool_result" ? message.images ?? [] : [])].filter(exportable).map(imageRef);
+      parts.push(options.format === "html" ? htmlTool(view, when, images) : markdownTool(view, when, images));
+      continue;
+    }
+    const heading = message.role === "user"
+      ? "👤 User"
+      : message.role === "assistant"
+        ? `🤖 Assistant${message.model ? ` · ${message.model}` : ""}`
+        : `⚙️ System${message.toolName ? ` · ${message.toolName}` : ""}`;
+    const images = (message.images ?? []).filter(exportable).map(imageRef);
+    const text = redact(message.text);
+    parts.push(options.format === "html" ? htmlMessage(message.role, heading, when, text, images) : markdownMessage(heading, when, text, images));
+  }
+
+  const content = options.format === "html" ? htmlDocument(title, rows, parts) : markdownDocument(title, rows, parts);
+  return { format: options.format, content, assets, counts };
+}
+
+/** Write the export and, for Markdown, its image assets into `<name>.assets/`. */
+export function writeSessionExport(exported: SessionExport, outputPath: string): { path: string; bytes: number; assetsDir?: string } {
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, exported.content);
+  let assetsDir: string | undefined;
+  if (exported.assets.length) {
+    assetsDir = exportAssetsDir(outputPath);
+    mkdirSync(assetsDir, { recursive: true });
+    for (const asset of exported.assets) writeFileSync(join(assetsDir, asset.name), asset.data);
+  }
+  return { path: outputPath, bytes: Buffer.byteLength(exported.content), assetsDir };
+}
+
+export function exportAssetsDir(outputPath: string): string {
+  return join(dirname(outputPath), `${basename(outputPath, extname(outputPath))}.assets`);
+}
+
+// ── Markdown ───────────────────────────────────────────────────────
+
+function fence(code: string, language: string): string {
+  const longest = Math.max(2, ...[...code.matchAll(/`{3,}/g)].map((match) => match[0].length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${language}\n${code}\n${ticks}`;
+}
+
+function markdownDocument(title: string, rows: Array<[string, string]>, parts: string[]): string {
+  const table = ["| | |", "|---|---|", ...rows.map(([key, value]) => `| ${key} | ${value.replace(/\|/g, "\\|")} |`)];
+  return [`# ${title}`, "", ...table, "", ...parts.flatMap((part) => [part, ""])].join("\n");
+}
+
+function markdownMessage(heading: string, when: string, text: string, images: string[]): string {
+  const lines = [`## ${heading}${when ? ` — ${when}` : ""}`, "", text.trim()];
+  images.forEach((src, index) => lines.push("", `![image ${index + 1}](${src})`));
+  return lines.join("\n");
+}
+
+function markdownTool(view: ToolView, when: string, images: string[]): string {
+  const status = view.result?.isError ? " ✗" : "";
+  const lines = ["<details>", `<summary>🔧 ${escapeHtml(view.title)}${status}${when ? ` <sub>${when}</sub>` : ""}</summary>`, ""];
+  if (view.args) lines.push(fence(view.args.code, view.args.language), "");
+  if (view.result) lines.push(view.result.isError ? "**Error**" : "**Result**", "", fence(view.result.code, view.result.language), "");
+  images.forEach((src, index) => lines.push(`![image ${index + 1}](${src})`, ""));
+  lines.push("</details>");
+  return lines.join("\n");
+}
+
+// ── HTML ───────────────────────────────────────────────────────────
+
+const HTML_STYLE = `
+:root { color-scheme: light dark; --bg: #fff; --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --code: #f6f8fa; --user: #ddf4ff; --error: #cf222e;
+  --kw: #cf222e; --str: #0a3069; --num: #0550ae; --com: #6e7781; --add: #1a7f37; --del: #cf222e; --hunk: #8250df; }
+@media (prefers-color-scheme: dark) { :root { --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --code: #161b22; --user: #0c2d48; --error: #ff7b72;
+  --kw: #ff7b72; --str: #a5d6ff; --num: #79c0ff; --com: #8b949e; --add: #3fb950; --del: #ff7b72; --hunk: #d2a8ff; } }
+body { background: var(--bg); color: var(--fg); font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+table.meta { border-collapse: collapse; margin-bottom: 2rem; } table.meta td { border: 1px solid var(--border); padding: 0.25rem 0.75rem; vertical-align: top; }
+table.meta td:first-child { color: var(--muted); white-space: nowrap; }
+.message { border: 1px solid var(--border); border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: var(--user); }
+.message h2 { font-size: 0.9rem; margin: 0 0 0.5rem; color: var(--muted); }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+details.tool { border: 1px solid var(--border); border-radius: 8px; margin: 0.5rem 0 0.5rem 1.5rem; padding: 0.25rem 0.75rem; }
+details.tool summary { cursor: pointer; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85rem; }
+details.tool.error summary { color: var(--error); }
+.when { color: var(--muted); font-size: 0.8rem; margin-left: 0.5rem; }
+pre { background: var(--code); border-radius: 6px; padding: 0.75rem; overflow-x: auto; font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; background: var(--code); padding: 0 0.2em; border-radius: 4px; }
+pre code { background: none; padding: 0; }
+img { max-width: 100%; border-radius: 6px; border: 1px solid var(--border); }
+.kw { color: var(--kw); } .str { color: var(--str); } .num { color: var(--num); } .com { color: var(--com); font-style: italic; }
+.add { color: var(--add); } .del { color: var(--del); } .hunk { color: var(--hunk); }
+`;
+
+function htmlDocument(title: string, rows: Array<[string, string]>, parts: string[]): string {
+  const table = rows.map(([key, value]) => `<tr><td>${escapeHtml(key)}</td><td>${escapeHtml(value)}</td></tr>`).join("\n");
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<table class="meta">\n${table}\n</table>`,
+    ...parts,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+function htmlMessage(role: TranscriptMessage["role"], heading: string, when: string, text: string, images: string[]): string {
+  const imageTags = images.map((src, index) => `<p><img src="${escapeHtml(src)}" alt="image ${index + 1}"></p>`).join("\n");
+  return [
+    `<section class="message ${role}">`,
+    `<h2>${escapeHtml(heading)}${when ? `<span class="when">${escapeHtml(when)}</span>` : ""}</h2>`,
+    renderHtmlText(text.trim()),
+    imageTags,
+    "</section>",
+  ].filter(Boolean).join("\n");
+}
+
+function htmlTool(view: ToolView, when: string, images: string[]): string {
+  const error = view.result?.isError === true;
+  const lines = [
+    `<details class="tool${error ? " error" : ""}">`,
+    `<summary>🔧 ${escapeHtml(view.title)}${error ? " ✗" : ""}${when ? `<span class="when">${escapeHtml(when)}</span>` : ""}</summary>`,
+  ];
+  if (view.args) lines.push(htmlCode(view.args.code, view.args.language));
+  if (view.result) lines.push(`<p>${error ? "Error" : "Result"}</p>`, htmlCode(view.result.code, view.result.language));
+  lines.push(...images.map((src, index) => `<p><img src="${escapeHtml(src)}" alt="image ${index + 1}"></p>`), "</details>");
+  return lines.join("\n");
+}
+
+/** Prose keeps its line breaks (pre-wrap); fenced blocks become highlighted code, backticks become inline code. */
+function renderHtmlText(text: string): string {
+  const html: string[] = [];
+  const pattern = /^(`{3,})([\w+-]*)\n([\s\S]*?)\n\1\s*$/gm;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    html.push(proseHtml(text.slice(last, match.index)));
+    html.push(htmlCode(match[3], match[2]));
+    last = match.index! + match[0].length;
+  }
+  html.push(proseHtml(text.slice(last)));
+  return html.filter(Boolean).join("\n");
+}
+
+function proseHtml(text: string): string {
+  const trimmed = text.replace(/^\n+|\n+$/g, "");
+  if (!trimmed) return "";
+  const inline = escapeHtml(trimmed)
+    .replace(/`([^`\n]+)`/g, "<code>$1</code>")
+    .replace(/\*\*([^*\n]+)\*\*/g, "<strong>$1</strong>");
+  return `<div class="text">${inline}</div>`;
+}
+
+function htmlCode(code: string, language: string): string {
+  return `<pre><code class="language-${escapeHtml(language || "text")}">${highlight(code, language)}</code></pre>`;
+}
+
+const KEYWORDS: Record<string, string[]> = {
+  script: ["async", "await", "break", "case", "catch", "class", "const", "continue", "default", "delete", "do", "else", "enum", "export", "extends", "false", "finally", "for", "from", "function", "if", "implements", "import", "in", "instanceof", "interface", "let", "new", "null", "of", "private", "protected", "public", "readonly", "return", "static", "super", "switch", "this", "throw", "true", "try", "type", "typeof", "undefined", "var", "void", "while", "yield"],
+  python: ["and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else", "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None", "not", "or", "pass", "raise", "return", "True", "try", "while", "with", "yield"],
+  shell: ["case", "do", "done", "elif", "else", "esac", "export", "fi", "for", "function", "if", "in", "local", "return", "then", "until", "while"],
+  rust: ["as", "async", "await", "break", "const", "continue", "crate", "else", "enum", "false", "fn", "for", "if", "impl", "in", "let", "loop", "match", "mod", "move", "mut", "pub", "ref", "return", "self", "Self", "static", "struct", "trait", "true", "type", "use", "where", "while"],
+  go: ["break", "case", "chan", "const", "continue", "default", "defer", "else", "false", "for", "func", "go", "if", "import", "interface", "map", "nil", "package", "range", "return", "select", "struct", "switch", "true", "type", "var"],
+};
+
+const LANGUAGE_FAMILIES: Record<string, { keywords: string[]; hashComments: boolean; slashComments: boolean }> = {
+  typescript: { keywords: KEYWORDS.script, hashComments: false, slashComments: true },
+  tsx: { keywords: KEYWORDS.script, hashComments: false, slashComments: true },
+  javascript: { keywords: KEYWORDS.script, hashComments: false, slashComments: true },
+  jsx: { keywords: KEYWORDS.script, hashComments: false, slashComments: true },
+  json: { keywords: ["true", "false", "null"], hashComments: false, slashComments: false },
+  python: { keywords: KEYWORDS.python, hashComments: true, slashComments: false },
+  bash: { keywords: KEYWORDS.shell, hashComments: true, slashComments: false },
+  sh: { keywords: KEYWORDS.shell, hashComments: true, slashComments: false },
+  yaml: { keywords: ["true", "false", "null"], hashComments: true, slashComments: false },
+  toml: { keywords: ["true", "false"], hashComments: true, slashComments: false },
+  rust: { keywords: KEYWORDS.rust, hashComments: false, slashComments: true },
+  go: { keywords: KEYWORDS.go, hashComments: false, slashComments: true },
+};
+
+/** Escaped HTML with comment/string/number/keyword spans. Diffs color whole lines; unknown languages are only escaped. */
+export function highlight(code: string, language: string): string {
+  if (language === "diff") {
+    return code
+      .split("\n")
+      .map((line) => {
+        const kind = line.startsWith("@@") ? "hunk" : line.startsWith("+") ? "add" : line.startsWith("-") ? "del" : "";
+        return kind ? `<span class="${kind}">${escapeHtml(line)}</span>` : escapeHtml(line);
+      })
+      .join("\n");
+  }
+  const family = LANGUAGE_FAMILIES[EXTENSION_LANGUAGES[language.toLowerCase()] ?? language.toLowerCase()];
+  if (!family) return escapeHtml(code);
+  const comments = [family.slashComments ? String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/` : "", family.hashComments ? String.raw`#[^\n]*` : ""].filter(Boolean).join("|");
+  const pattern = new RegExp(
+    [
+      comments ? `(${comments})` : "(?!)",
+      String.raw`("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|\x60(?:\\.|[^\x60\\])*\x60)`,
+      String.raw`\b(\d+(?:\.\d+)?)\b`,
+      String.raw`\b(${family.keywords.join("|")})\b`,
+    ].join("|"),
+    "g",
+  );
+  let html = "";
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    html += escapeHtml(code.slice(last, match.index));
+    const kind = match[1] ? "com" : match[2] ? "str" : match[3] ? "num" : "kw";
+    html += `<span class="${kind}">${escapeHtml(match[0])}</span>`;
+    last = match.index! + match[0].length;
+  }
+  return html + escapeHtml(code.slice(last));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function clipBlock(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n… ${text.length - maxChars} more chars`;
+}
+
+function oneLine(text: string, maxChars: number): string {
+  const compacted = text.replace(/\s+/g, " ").trim();
+  return compacted.length > maxChars ? `${compacted.slice(0, maxChars - 1)}…` : compacted;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { buildHandoff, openTodos, renderHandoffMarkdown } from "./handoff.ts";
+import { jsonl } from "./test-fixtures.ts";
+import { parseTranscript } from "./transcript.ts";
+
+const claude = (type: "user" | "assistant", content: unknown) => ({
+  type,
+  sessionId: "c1",
+  cwd: "/work/app",
+  timestamp: "2026-10-01T10:00:00.000Z",
+  message: { role: type, content },
+});
+
+const session = parseTranscript(
+  jsonl(
+    claude("user", "Migrate the queue to ioredis"),
+    claude("assistant", [
+      { type: "tool_use", id: "t1", name: "TodoWrite", input: { todos: [{ content: "Swap client", status: "completed" }, { content: "Fix retry test", status: "in_progress" }, { content: "Update docs", status: "pending" }] } },
+      { type: "tool_use", id: "r1", name: "Read", input: { file_path: "src/queue.ts" } },
+      { type: "tool_use", id: "e1", name: "Edit", input: { file_path: "src/queue.ts", old_string: "redis", new_string: "ioredis" } },
+      { type: "tool_use", id: "b1", name: "Bash", input: { command: "bun test" } },
+    ]),
+    claude("user", [{ type: "tool_result", tool_use_id: "b1", content: "1 fail: retry timeout", is_error: true }]),
+    claude("user", "Keep going, but skip the docs for now"),
+    claude("assistant", [{ type: "text", text: "Client swapped; the retry test still times out." }]),
+  ),
+  "/tmp/c1.jsonl",
+  "claude",
+);
+
+describe("session resume handoff", () => {
+  test("collects goal, latest request, state, open todos, files, and errors", () => {
+    const handoff = buildHandoff(session);
+    expect(handoff.goal).toBe("Migrate the queue to ioredis");
+    expect(handoff.latestRequest).toBe("Keep going, but skip the docs for now");
+    expect(handoff.state).toBe("Client swapped; the retry test still times out.");
+    expect(handoff.todos).toEqual([{ text: "Fix retry test", status: "in_progress" }, { text: "Update docs", status: "pending" }]);
+    expect(handoff.files).toEqual([{ path: "src/queue.ts", operations: ["edit"] }]);
+    expect(handoff.errors.map((error) => error.text)).toEqual(["1 fail: retry timeout"]);
+
+    const { text, truncated } = renderHandoffMarkdown(handoff);
+    expect(truncated).toBe(false);
+    expect(text).toContain("# Resuming claude session c1");
+    expect(text).toContain("- [ ] Fix retry test (in progress)");
+    expect(text).toContain("- `src/queue.ts` — edit");
+  });
+
+  test("falls back to unchecked boxes in recent replies", () => {
+    const pi = parseTranscript(
+      jsonl({ type: "message", message: { role: "assistant", content: [{ type: "text", text: "Next:\n- [x] done\n- [ ] wire the flag\n- [ ] add tests" }] } }),
+      "/tmp/p.jsonl",
+      "pi",
+    );
+    expect(openTodos(pi.messages).map((todo) => todo.text)).toEqual(["wire the flag", "add tests"]);
+  });
+
+  test("caps the rendered handoff", () => {
+    const handoff = { ...buildHandoff(session), state: "x".repeat(10_000) };
+    const { text, truncated } = renderHandoffMarkdown(handoff, 1000);
+    expect(text.length).toBeLessThanOrEqual(1000);
+    expect(truncated).toBe(false);
+    expect(text).toContain("## Last errors");
+  });
+});
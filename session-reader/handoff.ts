@@ -0,0 +1,155 @@
+/**
+ * Bounded resume handoff built from any Pi, Claude, or Codex transcript.
+ *
+ * The handoff is what a fresh agent needs to pick the work back up: the
+ * original goal, the latest request, where the previous agent left off, the
+ * open todos, the files it changed, and the most recent errors. Open todos
+ * come from the last todo/plan tool call (Claude `TodoWrite`, Codex
+ * `update_plan`), falling back to unchecked `- [ ]` items in late assistant
+ * replies.
+ */
+
+import { extractSession, type FileOperation } from "./local-tools.ts";
+import type { Transcript, TranscriptMessage } from "./transcript.ts";
+
+export const RESUME_MESSAGE_TYPE = "session-resume";
+export const DEFAULT_HANDOFF_CHARS = 6000;
+export const MAX_HANDOFF_CHARS = 20_000;
+
+const MAX_TODOS = 20;
+const MAX_FILES = 30;
+const MAX_ERRORS = 5;
+const DONE_STATUSES = new Set(["completed", "complete", "done", "cancelled", "canceled"]);
+
+export interface SessionHandoff {
+  sessionId: string;
+  agent: Transcript["agent"];
+  path: string;
+  cwd?: string;
+  startedAt?: string;
+  lastMessageAt?: string;
+  goal?: string;
+  latestRequest?: string;
+  state?: string;
+  todos: Array<{ text: string; status: string }>;
+  files: Array<{ path: string; operations: FileOperation[] }>;
+  errors: Array<{ text: string; line: number; toolName?: string }>;
+}
+
+/** Shape of the custom message `details`, read back by the renderer. */
+export interface ResumeMessageDetails {
+  sessionId: string;
+  agent: Transcript["agent"];
+  path: string;
+  cwd?: string;
+  goal?: string;
+  todos: number;
+  files: number;
+  errors: number;
+  truncated: boolean;
+}
+
+export function buildHandoff(transcript: Transcript): SessionHandoff {
+  const extraction = extractSession(transcript);
+  const prompts = transcript.messages.filter((message) => message.role === "user");
+  const latest = prompts[prompts.length - 1]?.text.trim();
+  return {
+    sessionId: extraction.sessionId,
+    agent: extraction.agent,
+    path: extraction.path,
+    cwd: extraction.cwd,
+    startedAt: extraction.startedAt,
+    lastMessageAt: extraction.lastMessageAt,
+    goal: extraction.goal,
+    latestRequest: latest && latest !== extraction.goal ? latest : undefined,
+    state: extraction.lastAssistant,
+    todos: openTodos(transcript.messages),
+    files: extraction.files
+      .filter((file) => file.operations.some((operation) => operation !== "read"))
+      .map((file) => ({ path: file.path, operations: [...new Set(file.operations.filter((operation) => operation !== "read"))] })),
+    errors: extraction.errors.slice(-MAX_ERRORS),
+  };
+}
+
+/** Open items from the latest todo/plan tool call, or unchecked boxes in the last few assistant replies. */
+export function openTodos(messages: TranscriptMessage[]): SessionHandoff["todos"] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const list = todoList(messages[i]);
+    if (list) return list.filter((todo) => !DONE_STATUSES.has(todo.status.toLowerCase())).slice(0, MAX_TODOS);
+  }
+  const replies = messages.filter((message) => message.role === "assistant").slice(-3);
+  const todos: SessionHandoff["todos"] = [];
+  for (const reply of replies) {
+    for (const match of reply.text.matchAll(/^\s*[-*] \[ \] (.+)$/gm)) {
+      if (!todos.some((todo) => todo.text === match[1].trim())) todos.push({ text: match[1].trim(), status: "pending" });
+    }
+  }
+  return todos.slice(0, MAX_TODOS);
+}
+
+function todoList(message: TranscriptMessage): SessionHandoff["todos"] | undefined {
+  if (message.role !== "tool_call" || !message.args) return undefined;
+  const items = message.args.todos ?? message.args.plan;
+  if (!Array.isArray(items)) return undefined;
+  const todos: SessionHandoff["todos"] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    const record = item as Record<string, unknown>;
+    const text = [record.content, record.step, record.text, record.title].find((value): value is string => typeof value === "string");
+    if (text) todos.push({ text: text.trim(), status: typeof record.status === "string" ? record.status : "pending" });
+  }
+  return todos;
+}
+
+/**
+ * Markdown handoff capped at `maxChars`. Sections are written in priority
+ * order and the state/goal text is clipped first, so the todo, file, and
+ * error lists survive tight budgets.
+ */
+export function renderHandoffMarkdown(handoff: SessionHandoff, maxChars = DEFAULT_HANDOFF_CHARS): { text: string; truncated: boolean } {
+  const budget = Math.max(1000, Math.min(MAX_HANDOFF_CHARS, Math.floor(maxChars)));
+  const proseChars = Math.max(300, Math.floor(budget / 4));
+  const lines = [
+    `# Resuming ${handoff.agent} session ${handoff.sessionId}`,
+    "Context carried over from an earlier agent session. Continue the work from here; verify file contents before relying on them.",
+    "",
+    `- Transcript: ${handoff.path}`,
+  ];
+  if (handoff.cwd) lines.push(`- Cwd: ${handoff.cwd}`);
+  if (handoff.lastMessageAt) lines.push(`- Last activity: ${handoff.lastMessageAt}`);
+  lines.push("", "## Goal", handoff.goal ? clip(handoff.goal, proseChars) : "No user prompt found.");
+  if (handoff.latestRequest) lines.push("", "## Latest request", clip(handoff.latestRequest, proseChars));
+  lines.push("", "## Current state", handoff.state ? clip(handoff.state, proseChars) : "No assistant reply found.");
+  lines.push("", "## Open todos");
+  if (!handoff.todos.length) lines.push("None recorded.");
+  for (const todo of handoff.todos) lines.push(`- [ ] ${clip(todo.text, 200)}${todo.status === "in_progress" ? " (in progress)" : ""}`);
+  lines.push("", "## Touched files");
+  if (!handoff.files.length) lines.push("No writes or edits recorded.");
+  for (const file of handoff.files.slice(0, MAX_FILES)) lines.push(`- \`${file.path}\` — ${file.operations.join(", ")}`);
+  if (handoff.files.length > MAX_FILES) lines.push(`- … ${handoff.files.length - MAX_FILES} more`);
+  lines.push("", "## Last errors");
+  if (!handoff.errors.length) lines.push("No tool errors.");
+  for (const error of handoff.errors) lines.push(`- L${error.line}${error.toolName ? ` ${error.toolName}` : ""}: ${clip(error.text.replace(/\s+/g, " "), 240)}`);
+
+  const text = lines.join("\n");
+  if (text.length <= budget) return { text, truncated: false };
+  return { text: `${text.slice(0, budget - 40).trimEnd()}\n\n… handoff truncated at ${budget} chars`, truncated: true };
+}
+
+export function resumeMessageDetails(handoff: SessionHandoff, truncated: boolean): ResumeMessageDetails {
+  return {
+    sessionId: handoff.sessionId,
+    agent: handoff.agent,
+    path: handoff.path,
+    cwd: handoff.cwd,
+    goal: handoff.goal ? clip(handoff.goal.replace(/\s+/g, " "), 160) : undefined,
+    todos: handoff.todos.length,
+    files: handoff.files.length,
+    errors: handoff.errors.length,
+    truncated,
+  };
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
@@ -0,0 +1,374 @@
+/**
+ * Local transcript discovery and search for session-reader.
+ *
+ * Walks the Pi, Claude, and Codex transcript roots, resolves session ids to
+ * files, and searches parsed messages either through the persistent BM25
+ * index or, when that is unavailable, a bounded scan of the newest files.
+ * Metadata filters from session-filters.ts apply to both paths. Semantic
+ * mode blends the BM25 ranking with embedding similarity from semantic-index.ts.
+ */
+
+import { closeSync, type Dirent, existsSync, openSync, readdirSync, readSync, statSync } from "node:fs";
+import * as os from "node:os";
+import { basename, join, resolve } from "node:path";
+import type { EmbeddingProvider } from "./embeddings.ts";
+import { auditLogSecretNames, createRedactor, rememberLeasedSecrets } from "./redact.ts";
+import { cachedSessionIndex, querySessionIndex, refreshSessionIndex, sessionIndexPath, type SessionIndexUpdate } from "./search-index.ts";
+import {
+  createVectorIndex,
+  hybridScores,
+  loadVectorIndex,
+  queryVectorIndex,
+  saveVectorIndex,
+  updateVectorIndex,
+  type SessionVectorUpdate,
+} from "./semantic-index.ts";
+import { hasSessionFilters, mtimeMayMatch, sessionSpan, transcriptMatchesFilters, type SessionFilters } from "./session-filters.ts";
+import {
+  detectTranscriptAgent,
+  messageMatchesFilters,
+  messageSnippet,
+  parseTranscriptQuery,
+  readTranscript,
+  searchTranscript,
+  type Transcript,
+  type TranscriptAgent,
+  type TranscriptQuery,
+} from "./transcript.ts";
+
+const HEADER_PROBE_BYTES = 8192;
+
+export interface LocalSessionHit {
+  agent: TranscriptAgent;
+  sessionId: string;
+  path: string;
+  mtime: string;
+  cwd?: string;
+  startedAt?: string;
+  lastMessageAt?: string;
+  snippets: string[];
+  matchedMessages: number;
+  score: number;
+}
+
+export function walkJsonlFiles(root: string, maxFiles: number): string[] {
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    if (files.length >= maxFiles || !existsSync(dir)) return;
+    let entries: Dirent[] = [];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (files.length >= maxFiles) break;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) visit(path);
+      else if (entry.isFile() && entry.name.endsWith(".jsonl")) files.push(path);
+    }
+  };
+  visit(root);
+  const mtimes = new Map(files.map((path) => [path, statSync(path).mtimeMs]));
+  return files.sort((a, b) => mtimes.get(b)! - mtimes.get(a)!);
+}
+
+export function localSessionRoots(agent: TranscriptAgent | "all"): Array<{ agent: TranscriptAgent; root: string }> {
+  const home = os.homedir();
+  const roots = [
+    { agent: "pi" as const, root: join(home, ".pi/agent/sessions") },
+    { agent: "claude" as const, root: join(home, ".claude/projects") },
+    { agent: "codex" as const, root: join(home, ".codex/sessions") },
+  ];
+  return agent === "all" ? roots : roots.filter((root) => root.agent === agent);
+}
+
+/** Every transcript under the local Pi, Claude, and Codex roots, newest first per agent. */
+export function listLocalTranscripts(agent: TranscriptAgent | "all" = "all"): Array<{ path: string; agent: TranscriptAgent }> {
+  return localSessionRoots(agent).flatMap((root) =>
+    walkJsonlFiles(root.root, Number.POSITIVE_INFINITY).map((path) => ({ path, agent: root.agent })),
+  );
+}
+
+/**
+ * Resolve a session id or JSONL path to a local transcript. Paths win; ids are
+ * looked up in the search index first, then matched against file names.
+ */
+export function resolveSessionTranscript(ref: string): { path: string; agent: TranscriptAgent } | null {
+  const trimmed = ref.trim();
+  if (!trimmed) return null;
+  const expanded = trimmed.startsWith("~/") ? join(os.homedir(), trimmed.slice(2)) : trimmed;
+  if (expanded.endsWith(".jsonl") && existsSync(expanded)) {
+    const path = resolve(expanded);
+    const root = localSessionRoots("all").find((candidate) => path.startsWith(`${candidate.root}/`));
+    return { path, agent: root?.agent ?? detectTranscriptAgent(path) };
+  }
+
+  const indexed = Object.values(cachedSessionIndex()?.files ?? {}).find(
+    (file) => file.sessionId === trimmed && existsSync(file.path),
+  );
+  if (indexed) return { path: indexed.path, agent: indexed.agent };
+
+  const transcripts = listLocalTranscripts();
+  return (
+    transcripts.find(({ path }) => basename(path).includes(trimmed)) ??
+    transcripts.find(({ path }) => headerSessionId(path) === trimmed) ??
+    null
+  );
+}
+
+/** Session id from a Pi `session` or Codex `session_meta` header, reading only the first line. */
+function headerSessionId(path: string): string | undefined {
+  let fd: number | undefined;
+  try {
+    fd = openSync(path, "r");
+    const buffer = Buffer.alloc(HEADER_PROBE_BYTES);
+    const bytes = readSync(fd, buffer, 0, buffer.length, 0);
+    const first = JSON.parse(buffer.subarray(0, bytes).toString("utf8").split("\n")[0]);
+    const id = first?.type === "session_meta" ? first.payload?.id : first?.type === "session" ? first.id : undefined;
+    return typeof id === "string" ? id : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) closeSync(fd);
+  }
+}
+
+/**
+ * Search parsed transcript messages, not raw JSONL. `role:` and `tool:` filters
+ * in the query narrow which messages count; score is distinct terms matched.
+ * An empty query lists sessions that pass the metadata filters, newest first,
+ * with their user prompts as snippets.
+ */
+function searchLocalSessions(
+  query: string,
+  options: { agent: TranscriptAgent | "all"; limit: number; maxFiles: number; filters: SessionFilters },
+): LocalSessionHit[] {
+  const parsed = parseTranscriptQuery(query);
+  const listing = isListingQuery(parsed);
+  const hits: LocalSessionHit[] = [];
+
+  for (const root of localSessionRoots(options.agent)) {
+    for (const path of walkJsonlFiles(root.root, options.maxFiles)) {
+      const mtime = statSync(path).mtime;
+      if (!mtimeMayMatch(options.filters, mtime.getTime())) continue;
+      let transcript: Transcript;
+      try {
+        transcript = readTranscript(path, root.agent);
+        rememberLeasedSecrets(transcript);
+      } catch {
+        continue;
+      }
+      if (!transcriptMatchesFilters(transcript, options.filters)) continue;
+      const matches = searchTranscript(transcript, listing ? PROMPTS_QUERY : parsed);
+      if (!matches.length && !listing) continue;
+
+      const matchedTerms = new Set(matches.flatMap((match) => match.terms));
+      hits.push({
+        ...hitMetadata(transcript, root.agent, path, mtime),
+        snippets: matches.slice(0, 3).map((match) => match.snippet),
+        matchedMessages: matches.length,
+        score: listing ? 0 : parsed.terms.length ? matchedTerms.size : matches.length,
+      });
+    }
+  }
+
+  if (listing) return hits.sort((a, b) => activityTime(b) - activityTime(a)).slice(0, options.limit);
+  return hits
+    .sort((a, b) => b.score - a.score || b.matchedMessages - a.matchedMessages || +new Date(b.mtime) - +new Date(a.mtime))
+    .slice(0, options.limit);
+}
+
+const PROMPTS_QUERY: TranscriptQuery = { terms: [], roles: ["user"], tools: [] };
+
+function isListingQuery(query: TranscriptQuery): boolean {
+  return !query.terms.length && !query.roles.length && !query.tools.length;
+}
+
+function activityTime(hit: LocalSessionHit): number {
+  return Date.parse(hit.lastMessageAt ?? hit.startedAt ?? hit.mtime) || 0;
+}
+
+function hitMetadata(transcript: Transcript, agent: TranscriptAgent, path: string, mtime: Date) {
+  const { end } = sessionSpan(transcript);
+  return {
+    agent,
+    sessionId: transcript.sessionId,
+    path,
+    mtime: mtime.toISOString(),
+    cwd: transcript.cwd,
+    startedAt: transcript.startedAt,
+    lastMessageAt: end !== undefined && !Number.isNaN(end) ? new Date(end).toISOString() : undefined,
+  };
+}
+
+/**
+ * Rank sessions with the persistent BM25 index, refreshing it with appended
+ * transcript bytes first. Returns null when no index exists or the query needs
+ * something the index does not cover (no free-text terms, or role:system).
+ */
+function searchIndexedSessions(
+  query: string,
+  options: { agent: TranscriptAgent | "all"; limit: number; filters: SessionFilters },
+): { hits: LocalSessionHit[]; update: SessionIndexUpdate; indexedFiles: number } | null {
+  const parsed = parseTranscriptQuery(query);
+  if (!parsed.terms.length || parsed.roles.includes("system")) return null;
+  const index = cachedSessionIndex();
+  if (!index) return null;
+
+  const update = refreshSessionIndex(index, () => listLocalTranscripts());
+
+  // Filters can reject any number of top-ranked sessions, so consider every scored file.
+  const filtered = hasSessionFilters(options.filters);
+  const candidates = querySessionIndex(index, parsed, {
+    limit: filtered ? Number.POSITIVE_INFINITY : options.limit * 4,
+    agent: options.agent,
+  });
+  const hits: LocalSessionHit[] = [];
+  for (const candidate of candidates) {
+    if (hits.length >= options.limit) break;
+    if (!mtimeMayMatch(options.filters, candidate.file.mtimeMs)) continue;
+    let transcript: Transcript;
+    try {
+      transcript = readTranscript(candidate.file.path, candidate.file.agent);
+      rememberLeasedSecrets(transcript);
+    } catch {
+      continue;
+    }
+    if (!transcriptMatchesFilters(transcript, options.filters)) continue;
+    // Phrases and role/tool filters are only checked against parsed messages.
+    const matches = searchTranscript(transcript, parsed);
+    if (!matches.length) continue;
+    hits.push({
+      ...hitMetadata(transcript, candidate.file.agent, candidate.file.path, new Date(candidate.file.mtimeMs)),
+      snippets: matches.slice(0, 3).map((match) => match.snippet),
+      matchedMessages: matches.length,
+      score: Math.round(candidate.score * 1000) / 1000,
+    });
+  }
+
+  return { hits, update, indexedFiles: Object.keys(index.files).length };
+}
+
+export interface LocalSearchResult {
+  mode: "index" | "scan" | "semantic";
+  hits: LocalSessionHit[];
+  note: string;
+  update?: SessionIndexUpdate;
+  vectorUpdate?: SessionVectorUpdate;
+}
+
+export function findLocalSessions(
+  query: string,
+  options: { agent: TranscriptAgent | "all"; limit: number; maxFiles: number; useIndex: boolean; filters?: SessionFilters },
+): LocalSearchResult {
+  const searchOptions = { ...options, filters: options.filters ?? {} };
+  const indexed = options.useIndex ? searchIndexedSessions(query, searchOptions) : null;
+  if (indexed) {
+    return {
+      mode: "index",
+      hits: indexed.hits,
+      update: indexed.update,
+      note: `Ranked by BM25 with recency decay over ${indexed.indexedFiles} indexed transcripts (${indexed.update.indexedFiles} refreshed).`,
+    };
+  }
+  const reason = !options.useIndex
+    ? "index disabled for this call"
+    : existsSync(sessionIndexPath())
+      ? "query needs a full scan"
+      : "no index yet, run /session-index to build one";
+  return {
+    mode: "scan",
+    hits: searchLocalSessions(query, searchOptions),
+    note: `Scanned the newest ${options.maxFiles} transcripts per agent (${reason}).`,
+  };
+}
+
+/**
+ * Hybrid keyword + embedding search over the persistent index. Vectors for
+ * the provider are refreshed first (appended turns only). Sessions match when
+ * either side does, so paraphrases surface without sharing a single term.
+ * Without an index this falls back to the keyword scan and says so.
+ */
+export async function findSemanticSessions(
+  query: string,
+  options: {
+    agent: TranscriptAgent | "all";
+    limit: number;
+    maxFiles: number;
+    provider: EmbeddingProvider;
+    weight: number;
+    filters?: SessionFilters;
+  },
+): Promise<LocalSearchResult> {
+  const filters = options.filters ?? {};
+  const parsed = parseTranscriptQuery(query);
+  const index = cachedSessionIndex();
+  if (!index || parsed.roles.includes("system")) {
+    const fallback = findLocalSessions(query, { ...options, useIndex: true, filters });
+    const reason = index ? "role:system is not embedded" : "semantic search needs an index, run /session-index to build one";
+    return { ...fallback, note: `${fallback.note} Semantic mode skipped: ${reason}.` };
+  }
+
+  // Vectors refresh against the full listing; the keyword index may reuse a recent refresh.
+  const transcripts = listLocalTranscripts();
+  const update = refreshSessionIndex(index, () => transcripts);
+  const vectors = loadVectorIndex(options.provider) ?? createVectorIndex(options.provider);
+  // Remote providers receive chunk text, so it is redacted like any tool output.
+  const redactor = options.provider.name === "remote" ? createRedactor({ secretNames: auditLogSecretNames() }) : undefined;
+  let vectorUpdate: SessionVectorUpdate;
+  let queryVector: Float32Array;
+  try {
+    vectorUpdate = await updateVectorIndex(vectors, options.provider, transcripts, redactor && ((text) => redactor.redact(text)));
+    [queryVector] = await options.provider.embed([[...parsed.terms, ...parsed.tools].join(" ")]);
+  } catch (error) {
+    // Vectors are only saved after a complete refresh, so a failed batch is retried next time.
+    const fallback = findLocalSessions(query, { ...options, useIndex: true, filters });
+    return { ...fallback, note: `${fallback.note} Semantic mode failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (vectorUpdate.embeddedFiles || vectorUpdate.removedFiles) saveVectorIndex(vectors);
+
+  const keyword = parsed.terms.length ? querySessionIndex(index, parsed, { limit: Number.POSITIVE_INFINITY, agent: options.agent }) : [];
+  const ranked = hybridScores(keyword, queryVectorIndex(vectors, queryVector, { agent: options.agent }), index.files, {
+    weight: options.weight,
+  });
+
+  const scopeOnly: TranscriptQuery = { terms: [], roles: parsed.roles, tools: parsed.tools };
+  const hits: LocalSessionHit[] = [];
+  for (const candidate of ranked) {
+    if (hits.length >= options.limit) break;
+    if (!mtimeMayMatch(filters, candidate.file.mtimeMs)) continue;
+    let transcript: Transcript;
+    try {
+      transcript = readTranscript(candidate.file.path, candidate.file.agent);
+      rememberLeasedSecrets(transcript);
+    } catch {
+      continue;
+    }
+    if (!transcriptMatchesFilters(transcript, filters)) continue;
+    const matches = candidate.bm25 ? searchTranscript(transcript, parsed) : [];
+    const closest = candidate.line === undefined
+      ? undefined
+      : transcript.messages.find((message) => message.line === candidate.line && messageMatchesFilters(message, scopeOnly));
+    if (!matches.length && !closest) continue;
+    hits.push({
+      ...hitMetadata(transcript, candidate.file.agent, candidate.file.path, new Date(candidate.file.mtimeMs)),
+      snippets: [
+        ...(closest ? [messageSnippet(closest, parsed.terms)] : []),
+        ...matches.filter((match) => match.message !== closest).map((match) => match.snippet),
+      ].slice(0, 3),
+      matchedMessages: matches.length,
+      score: Math.round(candidate.score * 1000) / 1000,
+    });
+  }
+
+  return {
+    mode: "semantic",
+    hits,
+    update,
+    vectorUpdate,
+    note:
+      `Ranked by ${Math.round(options.weight * 100)}% ${options.provider.id} similarity + ${Math.round((1 - options.weight) * 100)}% BM25, ` +
+      `with recency decay, over ${Object.keys(index.files).length} indexed transcripts (${vectorUpdate.embeddedChunks} chunks embedded).`,
+  };
+}
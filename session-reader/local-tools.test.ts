@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { extractSession, inspectTranscript, renderExtractionMarkdown, toolCommand, toolFileOperations } from "./local-tools.ts";
+import { jsonl, message } from "./test-fixtures.ts";
+import { parseTranscript, type TranscriptMessage } from "./transcript.ts";
+
+const session = parseTranscript(
+  jsonl(
+    { type: "session", id: "s1", cwd: "/work/app", timestamp: "2026-10-01T10:00:00.000Z" },
+    message("user", "Fix the flaky redis test"),
+    message("assistant", [
+      { type: "text", text: "We'll go with a fake timer instead of real sleeps. Reading the test first." },
+      { type: "toolCall", id: "r1", name: "read", arguments: { path: "test/redis.test.ts" } },
+    ]),
+    message("toolResult", [{ type: "text", text: "line one\nline two" }], { toolCallId: "r1", toolName: "read", isError: false }),
+    message("assistant", [
+      { type: "toolCall", id: "e1", name: "edit", arguments: { path: "test/redis.test.ts", oldText: "sleep(100)", newText: "clock.tick(100)" } },
+      { type: "toolCall", id: "b1", name: "bash", arguments: { command: "bun test test/redis.test.ts" } },
+    ]),
+    message("toolResult", [{ type: "text", text: "ok" }], { toolCallId: "e1", toolName: "edit", isError: false }),
+    message("toolResult", [{ type: "text", text: "1 fail: timeout" }], { toolCallId: "b1", toolName: "bash", isError: true }),
+    message("assistant", [{ type: "text", text: "The test still times out; next step is mocking the client." }]),
+  ),
+  "/tmp/s1.jsonl",
+  "pi",
+);
+
+describe("local session extraction", () => {
+  test("lists goal, files, commands, decisions, errors, and final state", () => {
+    const extraction = extractSession(session);
+    expect(extraction.goal).toBe("Fix the flaky redis test");
+    expect(extraction.files).toEqual([{ path: "test/redis.test.ts", operations: ["read", "edit"], lines: [3, 5] }]);
+    expect(extraction.commands).toEqual([{ command: "bun test test/redis.test.ts", line: 5, isError: true }]);
+    expect(extraction.decisions.map((decision) => decision.text)).toEqual(["We'll go with a fake timer instead of real sleeps."]);
+    expect(extraction.errors).toEqual([{ text: "1 fail: timeout", line: 7, toolName: "bash" }]);
+    expect(extraction.lastAssistant).toContain("mocking the client");
+
+    const markdown = renderExtractionMarkdown(extraction);
+    expect(markdown).toContain("- `test/redis.test.ts` — read, edit (L3, L5)");
+    expect(markdown).toContain("- L5 ✗ `bun test test/redis.test.ts`");
+  });
+
+  test("reads Codex apply_patch envelopes and shell arrays", () => {
+    const patch: TranscriptMessage = {
+      index: 0,
+      line: 1,
+      role: "tool_call",
+      text: "",
+      toolName: "apply_patch",
+      args: { input: "*** Begin Patch\n*** Add File: src/new.ts\n+x\n*** Update File: src/old.ts\n*** Delete File: src/gone.ts\n*** End Patch" },
+    };
+    expect(toolFileOperations(patch)).toEqual([
+      { path: "src/new.ts", operation: "write" },
+      { path: "src/old.ts", operation: "edit" },
+      { path: "src/gone.ts", operation: "delete" },
+    ]);
+    expect(toolCommand({ ...patch, toolName: "shell", args: { command: ["bash", "-lc", "ls -la"] } })).toBe("ls -la");
+  });
+});
+
+describe("local session inspect", () => {
+  test("merges overlapping windows and marks match lines", () => {
+    const result = inspectTranscript(session, /redis/i, { before: 1, after: 1 });
+    expect(result.totalMatches).toBe(4);
+    expect(result.windows[0].start).toBe(1);
+    expect(result.windows[0].matchLines.length).toBeGreaterThan(1);
+    expect(result.windows[0].lines[0].text).toStartWith("L2 user");
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * First-party implementations of session extract, inspect, and chunks.
+ *
+ * These run straight against local JSONL transcripts through the message
+ * model in transcript.ts, so session-reader keeps working on machines without
+ * the joelclaw CLI or with its backplane down. Output shapes mirror the
+ * joelclaw commands closely enough that the same renderers can consume both.
+ */
+
+import { findLocalSessions } from "./local-sessions.ts";
+import { rememberLeasedSecrets } from "./redact.ts";
+import {
+  canonicalToolName,
+  messageSnippet,
+  parseTranscriptQuery,
+  readTranscript,
+  searchTranscript,
+  type Transcript,
+  type TranscriptMessage,
+} from "./transcript.ts";
+
+const MAX_INSPECT_MATCHES = 5;
+const MAX_LINE_CHARS = 400;
+const DECISION_PATTERN =
+  /\b(decided|decision|we(?:'ll| will) (?:go with|use)|let's (?:go with|use)|going with|chose|choosing|opted|settled on|agreed|instead of)\b/i;
+const QUERY_STOPWORDS = new Set([
+  "the", "and", "for", "with", "this", "that", "what", "from", "into", "about", "session", "summarize", "key",
+  "made", "current", "state", "changes", "files", "touched", "decisions",
+]);
+
+// ── Inspect ──────────────────────────────────────────────────────────
+
+export interface TranscriptLine {
+  /** 1-based line in the rendered transcript. */
+  number: number;
+  /** JSONL line the message came from. */
+  source: number;
+  messageIndex: number;
+  text: string;
+}
+
+export interface InspectWindow {
+  start: number;
+  end: number;
+  matchLines: number[];
+  lines: TranscriptLine[];
+}
+
+/** Flatten messages into readable lines: a `L<jsonl> role tool:` header line, then indented text. */
+export function renderTranscriptLines(transcript: Transcript): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  for (const message of transcript.messages) {
+    const label = [message.role, message.toolName].filter(Boolean).join(" ");
+    const [first = "", ...rest] = message.text.split("\n");
+    const push = (text: string) =>
+      lines.push({ number: lines.length + 1, source: message.line, messageIndex: message.index, text: clip(text, MAX_LINE_CHARS) });
+    push(`L${message.line} ${label}${message.timestamp ? ` ${message.timestamp}` : ""}: ${first}`);
+    for (const line of rest) push(`  ${line}`);
+  }
+  return lines;
+}
+
+export function inspectTranscript(
+  transcript: Transcript,
+  pattern: RegExp,
+  options: { before: number; after: number; maxMatches?: number },
+): { windows: InspectWindow[]; totalMatches: number } {
+  const lines = renderTranscriptLines(transcript);
+  const matches = lines.filter((line) => pattern.test(line.text)).map((line) => line.number);
+  const windows: InspectWindow[] = [];
+  for (const match of matches.slice(0, options.maxMatches ?? MAX_INSPECT_MATCHES)) {
+    const start = Math.max(1, match - options.before);
+    const end = Math.min(lines.length, match + options.after);
+    const previous = windows[windows.length - 1];
+    if (previous && start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, end);
+      previous.matchLines.push(match);
+      continue;
+    }
+    windows.push({ start, end, matchLines: [match], lines: [] });
+  }
+  for (const window of windows) window.lines = lines.slice(window.start - 1, window.end);
+  return { windows, totalMatches: matches.length };
+}
+
+export function renderInspectMarkdown(transcript: Transcript, around: string, result: { windows: InspectWindow[]; totalMatches: number }): string {
+  const lines = [
+    `# Session inspect: ${transcript.sessionId}`,
+    `- Agent: ${transcript.agent}`,
+    `- Path: ${transcript.path}`,
+    `- Around: \`${around}\``,
+    `- Matches: ${result.totalMatches}${result.totalMatches > MAX_INSPECT_MATCHES ? ` (first ${MAX_INSPECT_MATCHES} shown)` : ""}`,
+  ];
+  if (!result.windows.length) return [...lines, "", "No matching transcript lines."].join("\n");
+  for (const window of result.windows) {
+    lines.push("", `## Lines ${window.start}-${window.end}`, "```");
+    for (const line of window.lines) {
+      const marker = window.matchLines.includes(line.number) ? ">" : " ";
+      lines.push(`${marker}${String(line.number).padStart(5)} ${line.text}`);
+    }
+    lines.push("```");
+  }
+  return lines.join("\n");
+}
+
+// ── Chunks ───────────────────────────────────────────────────────────
+
+/**
+ * Search local sessions and return matching messages with neighbouring
+ * messages as context, in the same `{ chunks, local }` shape joelclaw emits.
+ */
+export function localSessionChunks(
+  query: string,
+  options: { limit: number; contextBefore: number; contextAfter: number; machine: string },
+) {
+  const parsed = parseTranscriptQuery(query);
+  const search = findLocalSessions(query, { agent: "all", limit: options.limit, maxFiles: 200, useIndex: true });
+  const chunks = search.hits.flatMap((hit) => {
+    let transcript: Transcript;
+    try {
+      transcript = readTranscript(hit.path, hit.agent);
+      rememberLeasedSecrets(transcript);
+    } catch {
+      return [];
+    }
+    const matches = searchTranscript(transcript, parsed).slice(0, 3).map((match) => {
+      const from = Math.max(0, match.message.index - options.contextBefore);
+      const to = Math.min(transcript.messages.length - 1, match.message.index + options.contextAfter);
+      const entries = transcript.messages.slice(from, to + 1);
+      return {
+        matchLine: match.message.line,
+        startLine: entries[0].line,
+        endLine: entries[entries.length - 1].line,
+        entries: entries.map((entry) => ({
+          line: entry.line,
+          role: entry.role,
+          toolName: entry.toolName,
+          timestamp: entry.timestamp,
+          text: clip(entry.text, MAX_LINE_CHARS),
+        })),
+      };
+    });
+    if (!matches.length) return [];
+    return [{
+      sessionId: transcript.sessionId,
+      agent: transcript.agent,
+      startedAt: transcript.startedAt,
+      cwdKey: transcript.cwd,
+      path: hit.path,
+      matches,
+      around: matches[0].entries.map((entry) => `[${entry.role}] ${entry.text}`).join("\n"),
+    }];
+  });
+
+  return {
+    query,
+    source: "local",
+    machine: options.machine,
+    contextBefore: options.contextBefore,
+    contextAfter: options.contextAfter,
+    local: { found: search.hits.length, emittedChunks: chunks.length, mode: search.mode },
+    chunks,
+  };
+}
+
+// ── Extract ──────────────────────────────────────────────────────────
+
+export type FileOperation = "read" | "write" | "edit" | "delete";
+
+export interface TouchedFile {
+  path: string;
+  operations: FileOperation[];
+  lines: number[];
+}
+
+export interface SessionExtraction {
+  sessionId: string;
+  agent: Transcript["agent"];
+  path: string;
+  cwd?: string;
+  startedAt?: string;
+  lastMessageAt?: string;
+  counts: Record<TranscriptMessage["role"], number>;
+  goal?: string;
+  files: TouchedFile[];
+  commands: Array<{ command: string; line: number; isError: boolean }>;
+  decisions: Array<{ text: string; line: number; role: TranscriptMessage["role"] }>;
+  errors: Array<{ text: string; line: number; toolName?: string }>;
+  relevant: Array<{ snippet: string; line: number }>;
+  lastAssistant?: string;
+}
+
+/** Files a tool call reads or mutates, including Codex `apply_patch` envelopes. */
+export function toolFileOperations(message: TranscriptMessage): Array<{ path: string; operation: FileOperation }> {
+  if (message.role !== "tool_call" || !message.args) return [];
+  const args = message.args;
+  const tool = canonicalToolName(message.toolName);
+  const patch = typeof args.input === "string" ? args.input : typeof args.patch === "string" ? args.patch : undefined;
+  if (patch && /\*\*\* (Add|Update|Delete) File:/.test(patch)) {
+    return [...patch.matchAll(/^\*\*\* (Add|Update|Delete) File: (.+)$/gm)].map((match) => ({
+      path: match[2].trim(),
+      operation: match[1] === "Add" ? "write" : match[1] === "Delete" ? "delete" : "edit",
+    }));
+  }
+  const path = [args.path, args.file_path, args.filePath, args.notebook_path].find(
+    (value): value is string => typeof value === "string" && value.length > 0,
+  );
+  if (!path) return [];
+  if (tool === "write") return [{ path, operation: "write" }];
+  if (tool === "edit") return [{ path, operation: "edit" }];
+  if (tool === "read") return [{ path, operation: "read" }];
+  return [];
+}
+
+/** Shell command text from bash/shell tool calls; Codex `["bash", "-lc", cmd]` arrays unwrap to `cmd`. */
+export function toolCommand(message: TranscriptMessage): string | undefined {
+  if (message.role !== "tool_call" || canonicalToolName(message.toolName) !== "bash" || !message.args) return undefined;
+  const command = message.args.command ?? message.args.cmd;
+  if (typeof command === "string") return command;
+  if (Array.isArray(command)) {
+    const parts = command.map(String);
+    return parts.length === 3 && /^(ba|z)?sh$/.test(parts[0]) && parts[1].startsWith("-") ? parts[2] : parts.join(" ");
+  }
+  return undefined;
+}
+
+function decisionSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 12 && DECISION_PATTERN.test(sentence));
+}
+
+/** Deterministic extraction: goal, files touched, commands, decisions, errors, and final state. */
+export function extractSession(transcript: Transcript, query?: string): SessionExtraction {
+  const counts = { user: 0, assistant: 0, tool_call: 0, tool_result: 0, system: 0 };
+  const files = new Map<string, TouchedFile>();
+  const commands: SessionExtraction["commands"] = [];
+  const commandsByCall = new Map<string, SessionExtraction["commands"][number]>();
+  const decisions: SessionExtraction["decisions"] = [];
+  const errors: SessionExtraction["errors"] = [];
+  let goal: string | undefined;
+  let lastAssistant: string | undefined;
+
+  for (const message of transcript.messages) {
+    counts[message.role] += 1;
+    if (message.role === "user" && !goal) goal = message.text.trim();
+    if (message.role === "assistant") lastAssistant = message.text.trim();
+    if (message.role === "user" || message.role === "assistant") {
+      for (const text of decisionSentences(message.text)) {
+        if (!decisions.some((decision) => decision.text === text)) decisions.push({ text: clip(text, 240), line: message.line, role: message.role });
+      }
+    }
+
+    for (const { path, operation } of toolFileOperations(message)) {
+      const file = files.get(path) ?? { path, operations: [], lines: [] };
+      file.operations.push(operation);
+      file.lines.push(message.line);
+      files.set(path, file);
+    }
+
+    const command = toolCommand(message);
+    if (command) {
+      const entry = { command: clip(command, 300), line: message.line, isError: false };
+      commands.push(entry);
+      if (message.toolCallId) commandsByCall.set(message.toolCallId, entry);
+    }
+
+    if (message.role === "tool_result" && message.isError) {
+      errors.push({ text: clip(message.text, 300), line: message.line, toolName: message.toolName });
+      const command = message.toolCallId ? commandsByCall.get(message.toolCallId) : undefined;
+      if (command) command.isError = true;
+    }
+  }
+
+  return {
+    sessionId: transcript.sessionId,
+    agent: transcript.agent,
+    path: transcript.path,
+    cwd: transcript.cwd,
+    startedAt: transcript.startedAt,
+    lastMessageAt: [...transcript.messages].reverse().find((message) => message.timestamp)?.timestamp,
+    counts,
+    goal,
+    files: [...files.values()],
+    commands,
+    decisions,
+    errors,
+    relevant: query ? relevantMessages(transcript, query) : [],
+    lastAssistant,
+  };
+}
+
+function relevantMessages(transcript: Transcript, query: string): SessionExtraction["relevant"] {
+  const parsed = parseTranscriptQuery(query);
+  parsed.terms = parsed.terms.filter((term) => term.length >= 3 && !QUERY_STOPWORDS.has(term));
+  if (!parsed.terms.length && !parsed.roles.length && !parsed.tools.length) return [];
+  return searchTranscript(transcript, parsed)
+    .sort((a, b) => b.terms.length - a.terms.length || a.message.index - b.message.index)
+    .slice(0, 8)
+    .sort((a, b) => a.message.index - b.message.index)
+    .map((match) => ({ snippet: messageSnippet(match.message, match.terms), line: match.message.line }));
+}
+
+export function renderExtractionMarkdown(extraction: SessionExtraction, query?: string): string {
+  const { counts } = extraction;
+  const lines = [
+    `# Session extraction: ${extraction.sessionId}`,
+    `- Agent: ${extraction.agent}`,
+    `- Path: ${extraction.path}`,
+    extraction.cwd ? `- Cwd: ${extraction.cwd}` : "",
+    extraction.startedAt ? `- Started: ${extraction.startedAt}` : "",
+    extraction.lastMessageAt ? `- Last message: ${extraction.lastMessageAt}` : "",
+    `- Messages: ${counts.user} user, ${counts.assistant} assistant, ${counts.tool_call} tool calls, ${counts.tool_result} tool results`,
+  ].filter(Boolean);
+
+  const section = (title: string, items: string[], empty: string, cap: number) => {
+    lines.push("", `## ${title}`);
+    if (!items.length) lines.push(empty);
+    for (const item of items.slice(0, cap)) lines.push(item);
+    if (items.length > cap) lines.push(`- … ${items.length - cap} more`);
+  };
+
+  lines.push("", "## Goal", extraction.goal ? clip(extraction.goal, 600) : "No user prompt found.");
+  section(
+    "Files touched",
+    extraction.files.map((file) => `- \`${file.path}\` — ${summarizeOperations(file.operations)} (L${file.lines.slice(0, 5).join(", L")})`),
+    "No file reads or edits recorded.",
+    40,
+  );
+  section(
+    "Commands run",
+    extraction.commands.map((command) => `- L${command.line}${command.isError ? " ✗" : ""} \`${command.command.replace(/`/g, "'")}\``),
+    "No shell commands recorded.",
+    30,
+  );
+  section("Decisions", extraction.decisions.map((decision) => `- L${decision.line} (${decision.role}) ${decision.text}`), "No explicit decisions found.", 15);
+  section("Errors", extraction.errors.map((error) => `- L${error.line}${error.toolName ? ` ${error.toolName}` : ""}: ${error.text}`), "No tool errors.", 10);
+  if (query && extraction.relevant.length) {
+    section(`Relevant to "${query}"`, extraction.relevant.map((match) => `- L${match.line} ${match.snippet}`), "", 8);
+  }
+  lines.push("", "## Current state", extraction.lastAssistant ? clip(extraction.lastAssistant, 800) : "No assistant reply found.");
+  return lines.join("\n");
+}
+
+function summarizeOperations(operations: FileOperation[]): string {
+  const counts = new Map<FileOperation, number>();
+  for (const operation of operations) counts.set(operation, (counts.get(operation) ?? 0) + 1);
+  return [...counts].map(([operation, count]) => (count > 1 ? `${operation} ×${count}` : operation)).join(", ");
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
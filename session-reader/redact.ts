@@ -0,0 +1,199 @@
+/**
+ * Secret redaction for everything session-reader returns.
+ *
+ * Transcripts routinely contain leased tokens (`secrets_lease` results,
+ * `secrets lease` output), bearer headers, and `.env` contents. Three layers
+ * catch them, in order:
+ *
+ *   1. Known values: secrets leased inside any transcript read in this process.
+ *   2. Known shapes: provider token prefixes, JWTs, private keys, bearer and
+ *      `KEY=value` assignments, including names from the agent-secrets audit log.
+ *   3. High-entropy blobs, like `redact()` in linear-tracker, keeping UUIDs
+ *      and git hashes visible.
+ *
+ * A redactor counts replacements so each tool can report how many values it hid.
+ */
+
+import { spawnSync } from "node:child_process";
+import { canonicalToolName, type Transcript } from "./transcript.ts";
+
+export const REDACTED = "[REDACTED]";
+
+const MIN_KNOWN_VALUE_LENGTH = 8;
+const MAX_KNOWN_VALUES = 500;
+const MIN_ENTROPY_LENGTH = 32;
+const MIN_ENTROPY_BITS = 4;
+const AUDIT_TAIL = 500;
+const AUDIT_CACHE_MS = 5 * 60 * 1000;
+
+const TOKEN_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{30,}/g,
+  /\bgithub_pat_[A-Za-z0-9_]{40,}/g,
+  /\bglpat-[A-Za-z0-9_-]{20,}/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\blin_(?:api|oauth)_[A-Za-z0-9]{30,}/g,
+  /\bnpm_[A-Za-z0-9]{36}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+];
+
+/** Prefix groups stay visible; only the value after them is replaced. */
+const ASSIGNMENT_PATTERNS: RegExp[] = [
+  /(\bauthorization\s*[:=]\s*(?:bearer\s+|basic\s+|token\s+)?)([^\s"'`,;]+)/gi,
+  /(\bbearer\s+)([A-Za-z0-9._~+/=-]{12,})/gi,
+  // Names must end in the keyword (GITHUB_TOKEN, client_secret), and values need a letter so `input_tokens: 123456` passes.
+  /(\b[A-Za-z0-9_]*(?:api[_-]?key|token|secret|password|passwd|credentials?|private[_-]?key)["']?\s*[:=]\s*["']?)((?=[^\s"'`,;]*[A-Za-z])[^\s"'`,;]{6,})/gi,
+  /(:\/\/[^\s:/@]+:)([^\s@/]+)(?=@)/g,
+];
+
+const UUID = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+const HEX = /^[0-9a-f]+$/i;
+
+export interface Redactor {
+  redact(text: string): string;
+  /** Values replaced so far across every `redact` call. */
+  readonly count: number;
+}
+
+export interface RedactorOptions {
+  /** Exact secret values to hide wherever they appear. Defaults to values remembered from transcripts. */
+  knownValues?: Iterable<string>;
+  /** Secret names whose assigned values are hidden, e.g. `slack_bot_token` also covers `SLACK_BOT_TOKEN=…`. */
+  secretNames?: Iterable<string>;
+}
+
+const rememberedValues = new Set<string>();
+
+/** Remember secrets leased inside a transcript so every later tool output hides them. */
+export function rememberLeasedSecrets(transcript: Transcript): void {
+  for (const value of leasedSecretValues(transcript)) {
+    if (rememberedValues.size >= MAX_KNOWN_VALUES) rememberedValues.delete(rememberedValues.values().next().value!);
+    rememberedValues.add(value);
+  }
+}
+
+/** Values returned by `secrets_lease` tool calls or `secrets lease` shell commands. */
+export function leasedSecretValues(transcript: Transcript): string[] {
+  const leaseCalls = new Set<string>();
+  const values: string[] = [];
+  for (const message of transcript.messages) {
+    if (message.role === "tool_call" && message.toolCallId) {
+      const command = message.args?.command ?? message.args?.cmd;
+      const text = Array.isArray(command) ? command.join(" ") : typeof command === "string" ? command : "";
+      if (message.toolName === "secrets_lease" || (canonicalToolName(message.toolName) === "bash" && /\bsecrets\s+lease\b/.test(text))) {
+        leaseCalls.add(message.toolCallId);
+      }
+    }
+    if (message.role !== "tool_result" || message.isError || !message.toolCallId || !leaseCalls.has(message.toolCallId)) continue;
+    for (const line of message.text.split("\n")) {
+      const value = line.trim();
+      if (value.length >= MIN_KNOWN_VALUE_LENGTH && !/\s/.test(value) && !/^(error|failed)/i.test(value)) values.push(value);
+    }
+  }
+  return values;
+}
+
+let auditCache: { names: string[]; at: number } | undefined;
+
+/**
+ * Secret names from `secrets audit`. The audit log records which secrets were
+ * leased, never their values, so names feed the assignment patterns. Cached;
+ * empty when the agent-secrets CLI is missing.
+ */
+export function auditLogSecretNames(now = Date.now()): string[] {
+  if (auditCache && now - auditCache.at < AUDIT_CACHE_MS) return auditCache.names;
+  const names = new Set<string>();
+  const run = spawnSync("secrets", ["audit", "--tail", String(AUDIT_TAIL)], { encoding: "utf8", timeout: 3000 });
+  const output = run.status === 0 ? run.stdout ?? "" : "";
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        if (/^(name|secret|secret_name|key)$/i.test(key) && typeof child === "string") names.add(child);
+        else collect(child);
+      }
+    }
+  };
+  try {
+    collect(JSON.parse(output));
+  } catch {
+    for (const match of output.matchAll(/\blease[ds]?\s+["']?([A-Za-z0-9:_.-]{3,})/gi)) names.add(match[1]);
+  }
+  auditCache = { names: [...names], at: now };
+  return auditCache.names;
+}
+
+export function createRedactor(options: RedactorOptions = {}): Redactor {
+  const known = [...new Set(options.knownValues ?? rememberedValues)]
+    .filter((value) => value.length >= MIN_KNOWN_VALUE_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  const namePatterns = [...new Set(options.secretNames ?? [])].flatMap((name) => {
+    // agent-secrets names look like `scope::linear_api_key`; the env-var form drops the scope.
+    const bare = name.split(/:+/).pop()!;
+    if (bare.length < 3) return [];
+    const escaped = [bare, bare.toUpperCase()].map((value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    return [new RegExp(`(\\b(?:${escaped.join("|")})["']?\\s*[:=]\\s*["']?)([^\\s"'\`,;]+)`, "g")];
+  });
+
+  let count = 0;
+  const replaceAll = (text: string, pattern: RegExp, keepPrefix: boolean) =>
+    text.replace(pattern, (match: string, prefix?: string, value?: string) => {
+      if (keepPrefix && (value === REDACTED || value?.startsWith(REDACTED))) return match;
+      count += 1;
+      return keepPrefix ? `${prefix}${REDACTED}` : REDACTED;
+    });
+
+  return {
+    get count() {
+      return count;
+    },
+    redact(text: string): string {
+      if (!text) return text;
+      let result = text;
+      for (const value of known) {
+        if (!result.includes(value)) continue;
+        const parts = result.split(value);
+        count += parts.length - 1;
+        result = parts.join(REDACTED);
+      }
+      for (const pattern of TOKEN_PATTERNS) result = replaceAll(result, pattern, false);
+      for (const pattern of [...namePatterns, ...ASSIGNMENT_PATTERNS]) result = replaceAll(result, pattern, true);
+      return result.replace(/[A-Za-z0-9_-]{32,}={0,2}/g, (match) => {
+        if (!looksRandom(match)) return match;
+        count += 1;
+        return REDACTED;
+      });
+    },
+  };
+}
+
+/**
+ * Long mixed-alphabet strings with high Shannon entropy. Hex hashes, word-like
+ * identifiers, and anything containing a UUID (Claude session ids, Codex
+ * `rollout-…-<uuid>` names) pass.
+ */
+export function looksRandom(value: string): boolean {
+  if (value.length < MIN_ENTROPY_LENGTH || UUID.test(value) || HEX.test(value)) return false;
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) return false;
+  const frequencies = new Map<string, number>();
+  for (const char of value) frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const frequency of frequencies.values()) {
+    const p = frequency / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy >= MIN_ENTROPY_BITS;
+}
+
+/** Redact every string inside a JSON-like value, e.g. tool `details`. */
+export function redactDeep<T>(value: T, redactor: Redactor): T {
+  if (typeof value === "string") return redactor.redact(value) as T;
+  if (Array.isArray(value)) return value.map((item) => redactDeep(item, redactor)) as T;
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, redactDeep(child, redactor)])) as T;
+  }
+  return value;
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  cachedSessionIndex,
+  createSessionIndex,
+  loadSessionIndex,
+  querySessionIndex,
+  recencyDecay,
+  refreshSessionIndex,
+  saveSessionIndex,
+  tokenize,
+  updateSessionIndex,
+} from "./search-index.ts";
+import { header, line } from "./test-fixtures.ts";
+import { parseTranscriptQuery } from "./transcript.ts";
+
+const roots: string[] = [];
+afterEach(() => { while (roots.length) rmSync(roots.pop()!, { recursive: true, force: true }); });
+
+function fixtureDir() {
+  const root = mkdtempSync(join(tmpdir(), "session-index-"));
+  roots.push(root);
+  return root;
+}
+
+describe("session search index", () => {
+  test("indexes only appended complete lines", () => {
+    const root = fixtureDir();
+    const path = join(root, "a.jsonl");
+    writeFileSync(path, header("a") + line("user", "redis reconnect loop"));
+    const index = createSessionIndex();
+
+    expect(updateSessionIndex(index, [{ path, agent: "pi" }]).indexedFiles).toBe(1);
+    expect(updateSessionIndex(index, [{ path, agent: "pi" }]).indexedFiles).toBe(0);
+    const firstOffset = index.files[path].offset;
+
+    // A partial trailing line is left for the next refresh.
+    appendFileSync(path, line("assistant", "set retryStrategy to null").trimEnd());
+    updateSessionIndex(index, [{ path, agent: "pi" }]);
+    expect(index.files[path].offset).toBe(firstOffset);
+    expect(index.postings.retrystrategy).toBeUndefined();
+
+    appendFileSync(path, "\n");
+    const update = updateSessionIndex(index, [{ path, agent: "pi" }]);
+    expect(update.indexedFiles).toBe(1);
+    expect(index.postings.retrystrategy).toEqual([index.files[path].id, 1]);
+    expect(index.files[path].sessionId).toBe("a");
+    expect(index.files[path].messages).toBe(2);
+  });
+
+  test("ranks by BM25 and decays older sessions", () => {
+    const root = fixtureDir();
+    const now = Date.now();
+    const dense = join(root, "dense.jsonl");
+    const sparse = join(root, "sparse.jsonl");
+    const old = join(root, "old.jsonl");
+    writeFileSync(dense, header("dense") + line("user", "ioredis ioredis ioredis retry"));
+    writeFileSync(sparse, header("sparse") + line("user", "ioredis once among many other unrelated words here"));
+    writeFileSync(old, header("old") + line("user", "ioredis ioredis ioredis retry"));
+    utimesSync(old, new Date(now - 120 * 86_400_000), new Date(now - 120 * 86_400_000));
+
+    const index = createSessionIndex();
+    updateSessionIndex(index, [dense, sparse, old].map((path) => ({ path, agent: "pi" as const })));
+    const hits = querySessionIndex(index, parseTranscriptQuery("ioredis"), { limit: 5, now });
+
+    expect(hits.map((hit) => hit.file.sessionId)).toEqual(["dense", "sparse", "old"]);
+    expect(hits[0].bm25).toBeCloseTo(hits[2].bm25);
+    expect(hits[2].recency).toBeLessThan(hits[0].recency);
+  });
+
+  test("reindexes truncated files and forgets deleted ones", () => {
+    const root = fixtureDir();
+    const path = join(root, "a.jsonl");
+    const gone = join(root, "b.jsonl");
+    writeFileSync(path, header("a") + line("user", "first topic") + line("user", "second topic"));
+    writeFileSync(gone, header("b") + line("user", "vanishing"));
+    const index = createSessionIndex();
+    updateSessionIndex(index, [{ path, agent: "pi" }, { path: gone, agent: "pi" }]);
+
+    writeFileSync(path, header("a") + line("user", "rewritten"));
+    rmSync(gone);
+    const update = updateSessionIndex(index, [{ path, agent: "pi" }]);
+
+    expect(update.removedFiles).toBe(1);
+    expect(index.postings.topic).toBeUndefined();
+    expect(index.postings.vanishing).toBeUndefined();
+    expect(index.postings.rewritten).toEqual([index.files[path].id, 1]);
+  });
+
+  test("persists to disk and rejects missing indexes", () => {
+    const root = fixtureDir();
+    const indexPath = join(root, "index.json");
+    expect(loadSessionIndex(indexPath)).toBeNull();
+    const index = createSessionIndex();
+    saveSessionIndex(index, indexPath);
+    expect(loadSessionIndex(indexPath)?.version).toBe(index.version);
+  });
+
+  test("searches share one cached copy and rewrite it only after enough appends", () => {
+    const root = fixtureDir();
+    const indexPath = join(root, "index.json");
+    const path = join(root, "a.jsonl");
+    writeFileSync(path, header("a") + line("user", "redis reconnect loop"));
+    const seed = createSessionIndex();
+    updateSessionIndex(seed, [{ path, agent: "pi" }]);
+    saveSessionIndex(seed, indexPath);
+    const saved = readFileSync(indexPath, "utf8");
+    const transcripts = () => [{ path, agent: "pi" as const }];
+    const now = Date.now();
+
+    const index = cachedSessionIndex(indexPath)!;
+    expect(cachedSessionIndex(indexPath)).toBe(index);
+
+    // A live transcript's next turn is searchable at once but not written out.
+    appendFileSync(path, line("assistant", "set retryStrategy to null"));
+    expect(refreshSessionIndex(index, transcripts, now).indexedFiles).toBe(1);
+    expect(index.postings.retrystrategy).toBeDefined();
+    expect(readFileSync(indexPath, "utf8")).toBe(saved);
+
+    // Back-to-back searches skip the transcript walk entirely.
+    appendFileSync(path, line("user", "sentinel backoff"));
+    expect(refreshSessionIndex(index, transcripts, now + 1_000).scannedFiles).toBe(0);
+    expect(index.postings.sentinel).toBeUndefined();
+
+    appendFileSync(path, line("assistant", `bulk ${"output ".repeat(50_000)}`));
+    expect(refreshSessionIndex(index, transcripts, now + 60_000).indexedFiles).toBe(1);
+    expect(loadSessionIndex(indexPath)?.postings.sentinel).toEqual([index.files[path].id, 1]);
+    expect(cachedSessionIndex(indexPath)).toBe(index);
+
+    // Another writer's index.json replaces the cached copy.
+    saveSessionIndex(createSessionIndex(), join(root, "other.json"));
+    writeFileSync(indexPath, readFileSync(join(root, "other.json"), "utf8"));
+    utimesSync(indexPath, new Date(now + 120_000), new Date(now + 120_000));
+    expect(cachedSessionIndex(indexPath)).not.toBe(index);
+    expect(cachedSessionIndex(indexPath)?.files).toEqual({});
+  });
+
+  test("tokenizer drops short tokens and opaque blobs", () => {
+    expect(tokenize("A ioredis retryStrategy: aGVsbG8gd29ybGQgdGhpcyBpcyBiYXNlNjQgZGF0YQ==")).toEqual(["ioredis", "retrystrategy"]);
+    expect(recencyDecay(Date.now())).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Persistent BM25 index over local Pi, Claude, and Codex transcripts.
+ *
+ * One document per transcript file. Like the Codex capture hook, each file
+ * tracks the byte offset of the last complete JSONL line it indexed, so a
+ * refresh only parses appended content. Files that shrink or disappear are
+ * dropped and, when still present, reindexed from byte zero.
+ *
+ * The index stores BM25 postings and per-file metadata only. Snippets and
+ * role/tool filters are resolved afterwards against the parsed transcript.
+ *
+ * Searches share one in-process copy (cachedSessionIndex). The live session
+ * transcript grows every turn, so refreshSessionIndex indexes appends in
+ * memory and only rewrites index.json once they add up. Saved offsets always
+ * match saved postings, so appends lost on exit are reindexed next time.
+ */
+
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, readSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { messageMatchesFilters, parseTranscript, type TranscriptAgent, type TranscriptQuery } from "./transcript.ts";
+
+const INDEX_VERSION = 1;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RECENCY_HALF_LIFE_DAYS = 30;
+/** Old sessions keep this fraction of their BM25 score so exact matches still surface. */
+const RECENCY_FLOOR = 0.3;
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Appended bytes held in memory before a search-time refresh rewrites index.json. */
+const SAVE_THRESHOLD_BYTES = 256 * 1024;
+/** Searches this close together reuse the last refresh instead of walking every transcript again. */
+const REFRESH_INTERVAL_MS = 10_000;
+
+export interface SessionIndexFile {
+  id: number;
+  path: string;
+  agent: TranscriptAgent;
+  sessionId: string;
+  cwd?: string;
+  startedAt?: string;
+  /** Byte offset just past the last complete JSONL line indexed. */
+  offset: number;
+  mtimeMs: number;
+  /** Indexed token count, the BM25 document length. */
+  length: number;
+  messages: number;
+}
+
+export interface SessionIndex {
+  version: number;
+  nextFileId: number;
+  updatedAt?: string;
+  files: Record<string, SessionIndexFile>;
+  /** term → flat [fileId, termFrequency, fileId, termFrequency, ...] */
+  postings: Record<string, number[]>;
+  totalLength: number;
+}
+
+export interface SessionIndexUpdate {
+  scannedFiles: number;
+  indexedFiles: number;
+  appendedBytes: number;
+  removedFiles: number;
+}
+
+export interface SessionIndexHit {
+  file: SessionIndexFile;
+  score: number;
+  bm25: number;
+  recency: number;
+}
+
+interface CachedSessionIndex {
+  path: string;
+  index: SessionIndex;
+  /** index.json mtime when this copy was loaded or saved; another writer changes it. */
+  mtimeMs: number;
+  unsavedBytes: number;
+  refreshedAt: number;
+}
+
+let cached: CachedSessionIndex | undefined;
+
+function fileMtimeMs(path: string): number | undefined {
+  try {
+    return statSync(path).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+export function sessionReaderDirectory(): string {
+  return process.env.PI_SESSION_READER_DIR || join(homedir(), ".pi", "session-reader");
+}
+
+export function sessionIndexPath(): string {
+  return join(sessionReaderDirectory(), "index.json");
+}
+
+export function createSessionIndex(): SessionIndex {
+  return { version: INDEX_VERSION, nextFileId: 1, files: {}, postings: {}, totalLength: 0 };
+}
+
+/** Returns null when no index has been built yet, or the on-disk format is stale. */
+export function loadSessionIndex(path = sessionIndexPath()): SessionIndex | null {
+  if (!existsSync(path)) return null;
+  try {
+    const index = JSON.parse(readFileSync(path, "utf8")) as SessionIndex;
+    return index?.version === INDEX_VERSION && index.files && index.postings ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSessionIndex(index: SessionIndex, path = sessionIndexPath()): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify({ ...index, updatedAt: new Date().toISOString() }));
+  renameSync(tmp, path);
+  const refreshedAt = cached?.index === index ? cached.refreshedAt : 0;
+  cached = { path, index, mtimeMs: fileMtimeMs(path) ?? 0, unsavedBytes: 0, refreshedAt };
+}
+
+/**
+ * The index for searches, parsed once per process. It is reloaded only when
+ * index.json changed on disk since this process last loaded or saved it.
+ */
+export function cachedSessionIndex(path = sessionIndexPath()): SessionIndex | null {
+  const mtimeMs = fileMtimeMs(path);
+  if (mtimeMs === undefined) {
+    if (cached?.path === path) cached = undefined;
+    return null;
+  }
+  if (cached?.path === path && cached.mtimeMs === mtimeMs) return cached.index;
+  const index = loadSessionIndex(path);
+  cached = index ? { path, index, mtimeMs, unsavedBytes: 0, refreshedAt: 0 } : undefined;
+  return index;
+}
+
+/**
+ * Search-time refresh of a cachedSessionIndex() result. Within
+ * REFRESH_INTERVAL_MS of the last refresh nothing is listed or stat'ed;
+ * otherwise appends are indexed and the file is rewritten only when files were
+ * removed or unsaved appends pass SAVE_THRESHOLD_BYTES.
+ */
+export function refreshSessionIndex(
+  index: SessionIndex,
+  listTranscripts: () => Array<{ path: string; agent: TranscriptAgent }>,
+  now = Date.now(),
+): SessionIndexUpdate {
+  const entry = cached?.index === index ? cached : undefined;
+  if (entry && now - entry.refreshedAt < REFRESH_INTERVAL_MS) {
+    return { scannedFiles: 0, indexedFiles: 0, appendedBytes: 0, removedFiles: 0 };
+  }
+  const update = updateSessionIndex(index, listTranscripts());
+  if (!entry) {
+    if (update.indexedFiles || update.removedFiles) saveSessionIndex(index);
+    return update;
+  }
+  entry.refreshedAt = now;
+  entry.unsavedBytes += update.appendedBytes;
+  if (update.removedFiles || entry.unsavedBytes >= SAVE_THRESHOLD_BYTES) saveSessionIndex(index, entry.path);
+  return update;
+}
+
+/** Lowercase word tokens; drops very short tokens and long opaque blobs like hashes or base64. */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const token of text.toLowerCase().split(/[^a-z0-9_]+/)) {
+    if (token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH) tokens.push(token);
+  }
+  return tokens;
+}
+
+function removeFilePostings(index: SessionIndex, file: SessionIndexFile) {
+  for (const [term, posting] of Object.entries(index.postings)) {
+    const next: number[] = [];
+    for (let i = 0; i < posting.length; i += 2) {
+      if (posting[i] !== file.id) next.push(posting[i], posting[i + 1]);
+    }
+    if (next.length) index.postings[term] = next;
+    else delete index.postings[term];
+  }
+  index.totalLength -= file.length;
+  delete index.files[file.path];
+}
+
+function addPostings(index: SessionIndex, fileId: number, frequencies: Map<string, number>) {
+  for (const [term, frequency] of frequencies) {
+    const posting = (index.postings[term] ??= []);
+    let found = false;
+    // Appends usually touch the most recently added file, so scan from the end.
+    for (let i = posting.length - 2; i >= 0; i -= 2) {
+      if (posting[i] !== fileId) continue;
+      posting[i + 1] += frequency;
+      found = true;
+      break;
+    }
+    if (!found) posting.push(fileId, frequency);
+  }
+}
+
+/** Read complete lines appended after `offset`; a trailing partial line waits for the next refresh. */
+export function readAppended(path: string, offset: number, size: number): { text: string; bytes: number } {
+  const length = size - offset;
+  if (length <= 0) return { text: "", bytes: 0 };
+  const buffer = Buffer.alloc(length);
+  const fd = openSync(path, "r");
+  try {
+    readSync(fd, buffer, 0, length, offset);
+  } finally {
+    closeSync(fd);
+  }
+  const lastNewline = buffer.lastIndexOf(0x0a);
+  if (lastNewline < 0) return { text: "", bytes: 0 };
+  return { text: buffer.subarray(0, lastNewline + 1).toString("utf8"), bytes: lastNewline + 1 };
+}
+
+/** Index whatever was appended to one transcript since the last refresh. Returns bytes consumed. */
+export function indexTranscriptFile(index: SessionIndex, path: string, agent: TranscriptAgent): number {
+  let stats;
+  try {
+    stats = statSync(path);
+  } catch {
+    return 0;
+  }
+
+  let file: SessionIndexFile | undefined = index.files[path];
+  if (file && (stats.size < file.offset || file.agent !== agent)) {
+    removeFilePostings(index, file);
+    file = undefined;
+  }
+  if (file && stats.size === file.offset) {
+    file.mtimeMs = stats.mtimeMs;
+    return 0;
+  }
+
+  const appended = readAppended(path, file?.offset ?? 0, stats.size);
+  if (!file) {
+    file = { id: index.nextFileId++, path, agent, sessionId: "", offset: 0, mtimeMs: stats.mtimeMs, length: 0, messages: 0 };
+    index.files[path] = file;
+  }
+  file.mtimeMs = stats.mtimeMs;
+  if (!appended.bytes) return 0;
+
+  const transcript = parseTranscript(appended.text, path, agent);
+  if (!file.sessionId || file.offset === 0) file.sessionId = transcript.sessionId;
+  file.cwd ??= transcript.cwd;
+  file.startedAt ??= transcript.startedAt;
+
+  const frequencies = new Map<string, number>();
+  let length = 0;
+  const indexable: TranscriptQuery = { terms: [], roles: [], tools: [] };
+  for (const message of transcript.messages) {
+    if (!messageMatchesFilters(message, indexable)) continue;
+    for (const token of tokenize(`${message.toolName ?? ""} ${message.text}`)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      length += 1;
+    }
+    file.messages += 1;
+  }
+  addPostings(index, file.id, frequencies);
+  file.length += length;
+  file.offset += appended.bytes;
+  index.totalLength += length;
+  return appended.bytes;
+}
+
+/** Bring the index up to date with the given transcripts and forget files that no longer exist. */
+export function updateSessionIndex(index: SessionIndex, transcripts: Array<{ path: string; agent: TranscriptAgent }>): SessionIndexUpdate {
+  const update: SessionIndexUpdate = { scannedFiles: transcripts.length, indexedFiles: 0, appendedBytes: 0, removedFiles: 0 };
+  const seen = new Set<string>();
+  for (const { path, agent } of transcripts) {
+    seen.add(path);
+    const bytes = indexTranscriptFile(index, path, agent);
+    if (bytes > 0) {
+      update.indexedFiles += 1;
+      update.appendedBytes += bytes;
+    }
+  }
+  for (const file of Object.values(index.files)) {
+    if (seen.has(file.path) || existsSync(file.path)) continue;
+    removeFilePostings(index, file);
+    update.removedFiles += 1;
+  }
+  return update;
+}
+
+/** Multiplier in [RECENCY_FLOOR, 1] that halves the recency bonus every RECENCY_HALF_LIFE_DAYS. */
+export function recencyDecay(mtimeMs: number, now = Date.now()): number {
+  const ageDays = Math.max(0, now - mtimeMs) / DAY_MS;
+  return RECENCY_FLOOR + (1 - RECENCY_FLOOR) * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+export function querySessionIndex(
+  index: SessionIndex,
+  query: TranscriptQuery,
+  options: { limit: number; agent?: TranscriptAgent | "all"; now?: number },
+): SessionIndexHit[] {
+  const files = Object.values(index.files).filter((file) => file.length > 0);
+  const byId = new Map(files.map((file) => [file.id, file]));
+  const documentCount = files.length;
+  if (!documentCount) return [];
+  const averageLength = index.totalLength / documentCount || 1;
+
+  const scores = new Map<number, number>();
+  for (const token of new Set(query.terms.flatMap(tokenize))) {
+    const posting = index.postings[token];
+    if (!posting) continue;
+    const documentFrequency = posting.length / 2;
+    const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    for (let i = 0; i < posting.length; i += 2) {
+      const file = byId.get(posting[i]);
+      if (!file) continue;
+      const frequency = posting[i + 1];
+      const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * (file.length / averageLength));
+      scores.set(file.id, (scores.get(file.id) ?? 0) + idf * ((frequency * (BM25_K1 + 1)) / norm));
+    }
+  }
+
+  const hits: SessionIndexHit[] = [];
+  for (const [id, bm25] of scores) {
+    const file = byId.get(id)!;
+    if (options.agent && options.agent !== "all" && file.agent !== options.agent) continue;
+    const recency = recencyDecay(file.mtimeMs, options.now);
+    hits.push({ file, bm25, recency, score: bm25 * recency });
+  }
+  return hits.sort((a, b) => b.score - a.score).slice(0, options.limit);
+}
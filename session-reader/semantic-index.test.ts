@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHashedNgramProvider, hashedNgramVector } from "./embeddings.ts";
+import { createSessionIndex, querySessionIndex, updateSessionIndex } from "./search-index.ts";
+import { createVectorIndex, hybridScores, queryVectorIndex, updateVectorIndex } from "./semantic-index.ts";
+import { header, line } from "./test-fixtures.ts";
+import { parseTranscriptQuery } from "./transcript.ts";
+
+const roots: string[] = [];
+afterEach(() => { while (roots.length) rmSync(roots.pop()!, { recursive: true, force: true }); });
+
+describe("semantic session index", () => {
+  test("embeds appended turns with absolute JSONL lines", async () => {
+    const root = mkdtempSync(join(tmpdir(), "session-vectors-"));
+    roots.push(root);
+    const path = join(root, "a.jsonl");
+    writeFileSync(path, header("a") + line("user", "why does the worker hang on startup?") + line("assistant", "The queue consumer never acks."));
+    const provider = createHashedNgramProvider();
+    const vectors = createVectorIndex(provider);
+
+    expect(await updateVectorIndex(vectors, provider, [{ path, agent: "pi" }])).toEqual({ embeddedFiles: 1, embeddedChunks: 1, removedFiles: 0 });
+    appendFileSync(path, line("user", "ioredis retryStrategy returns null so the client stops reconnecting"));
+    expect((await updateVectorIndex(vectors, provider, [{ path, agent: "pi" }])).embeddedChunks).toBe(1);
+    expect(vectors.files[path].chunks.map((chunk) => chunk.line)).toEqual([2, 4]);
+    expect(vectors.dimensions).toBe(256);
+
+    const matches = queryVectorIndex(vectors, hashedNgramVector("redis reconnect bug"));
+    expect(matches.get(path)?.line).toBe(4);
+  });
+
+  test("hybrid scores surface semantic-only sessions next to keyword hits", async () => {
+    const root = mkdtempSync(join(tmpdir(), "session-vectors-"));
+    roots.push(root);
+    const keywordPath = join(root, "keyword.jsonl");
+    const paraphrasePath = join(root, "paraphrase.jsonl");
+    writeFileSync(keywordPath, header("k") + line("user", "the redis reconnect bug is back"));
+    writeFileSync(paraphrasePath, header("p") + line("user", "ioredis retryStrategy null keeps the client from reconnecting"));
+    const transcripts = [{ path: keywordPath, agent: "pi" as const }, { path: paraphrasePath, agent: "pi" as const }];
+    const index = createSessionIndex();
+    updateSessionIndex(index, transcripts);
+    const provider = createHashedNgramProvider();
+    const vectors = createVectorIndex(provider);
+    await updateVectorIndex(vectors, provider, transcripts);
+
+    const query = parseTranscriptQuery("reconnect bug");
+    const keyword = querySessionIndex(index, query, { limit: 10 });
+    expect(keyword.map((hit) => hit.file.path)).toEqual([keywordPath]);
+
+    const semantic = queryVectorIndex(vectors, hashedNgramVector("reconnect bug redis"));
+    const hybrid = hybridScores(keyword, semantic, index.files, { weight: 0.5 });
+    expect(hybrid.map((hit) => hit.file.path)).toEqual([keywordPath, paraphrasePath]);
+    expect(hybrid[1].bm25).toBe(0);
+    expect(hybrid[1].semantic).toBeGreaterThan(0);
+    expect(hybridScores(keyword, semantic, index.files, { weight: 0 })[1].score).toBe(0);
+  });
+});
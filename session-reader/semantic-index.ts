@@ -0,0 +1,254 @@
+/**
+ * Embedding vectors for semantic session search, stored next to the BM25
+ * index as `vectors-<provider>.json`.
+ *
+ * Each transcript is cut into turn-aligned chunks of user and assistant text
+ * (tool output is left to keyword search). Like search-index.ts, every file
+ * tracks the byte offset it has embedded, so a refresh only embeds appended
+ * turns. Vectors are quantized to int8 to keep the file small; a chunk keeps
+ * only its JSONL line, never its text, so secrets are not copied to disk.
+ *
+ * Hybrid ranking blends normalized BM25 with the best chunk similarity per
+ * session, then applies the same recency decay as keyword search.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { cosineSimilarity, type EmbeddingProvider } from "./embeddings.ts";
+import { readAppended, recencyDecay, sessionReaderDirectory, type SessionIndexFile, type SessionIndexHit } from "./search-index.ts";
+import { parseTranscript, type Transcript, type TranscriptAgent } from "./transcript.ts";
+
+const VECTOR_INDEX_VERSION = 1;
+const MAX_CHUNK_CHARS = 1500;
+const MIN_CHUNK_CHARS = 12;
+/** Older chunks are dropped first; recent turns matter most for recovery. */
+const MAX_CHUNKS_PER_FILE = 128;
+/** Similarities below this count as no semantic match. */
+export const MIN_SEMANTIC_SIMILARITY = 0.1;
+export const DEFAULT_SEMANTIC_WEIGHT = 0.5;
+
+export interface SessionVectorChunk {
+  /** JSONL line of the chunk's first message. */
+  line: number;
+  /** Base64 int8 vector, scaled by 127. */
+  vector: string;
+}
+
+export interface SessionVectorFile {
+  path: string;
+  agent: TranscriptAgent;
+  offset: number;
+  /** Complete JSONL lines consumed so far, to turn appended-relative lines absolute. */
+  lines: number;
+  chunks: SessionVectorChunk[];
+}
+
+export interface SessionVectorIndex {
+  version: number;
+  provider: string;
+  dimensions?: number;
+  updatedAt?: string;
+  files: Record<string, SessionVectorFile>;
+}
+
+export interface SessionVectorUpdate {
+  embeddedFiles: number;
+  embeddedChunks: number;
+  removedFiles: number;
+}
+
+export interface SemanticMatch {
+  similarity: number;
+  line: number;
+}
+
+export interface HybridHit extends SessionIndexHit {
+  semantic: number;
+  /** JSONL line of the best-matching chunk when semantic similarity cleared the threshold. */
+  line?: number;
+}
+
+export function sessionVectorsPath(providerId: string): string {
+  return join(sessionReaderDirectory(), `vectors-${providerId.replace(/[^A-Za-z0-9._-]+/g, "-")}.json`);
+}
+
+export function createVectorIndex(provider: EmbeddingProvider): SessionVectorIndex {
+  return { version: VECTOR_INDEX_VERSION, provider: provider.id, files: {} };
+}
+
+/** Returns null when no vectors exist for this provider yet, or the on-disk format is stale. */
+export function loadVectorIndex(provider: EmbeddingProvider, path = sessionVectorsPath(provider.id)): SessionVectorIndex | null {
+  if (!existsSync(path)) return null;
+  try {
+    const index = JSON.parse(readFileSync(path, "utf8")) as SessionVectorIndex;
+    return index?.version === VECTOR_INDEX_VERSION && index.provider === provider.id && index.files ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveVectorIndex(index: SessionVectorIndex, path = sessionVectorsPath(index.provider)): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify({ ...index, updatedAt: new Date().toISOString() }));
+  renameSync(tmp, path);
+}
+
+/** Turn-aligned chunks: a user prompt starts a new chunk, long turns split at MAX_CHUNK_CHARS. */
+export function transcriptChunks(transcript: Transcript): Array<{ line: number; text: string }> {
+  const chunks: Array<{ line: number; text: string }> = [];
+  let current: { line: number; text: string } | undefined;
+  for (const message of transcript.messages) {
+    if (message.role !== "user" && message.role !== "assistant") continue;
+    const text = message.text.trim();
+    if (!text) continue;
+    if (!current || message.role === "user" || current.text.length + text.length > MAX_CHUNK_CHARS) {
+      if (current) chunks.push(current);
+      current = { line: message.line, text: text.slice(0, MAX_CHUNK_CHARS) };
+    } else {
+      current.text += `\n${text}`;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.filter((chunk) => chunk.text.length >= MIN_CHUNK_CHARS);
+}
+
+/**
+ * Embed turns appended to each transcript since the last refresh and forget
+ * files that no longer exist. `prepare` runs on chunk text before it reaches
+ * the provider, e.g. redaction for remote providers.
+ */
+export async function updateVectorIndex(
+  index: SessionVectorIndex,
+  provider: EmbeddingProvider,
+  transcripts: Array<{ path: string; agent: TranscriptAgent }>,
+  prepare: (text: string) => string = (text) => text,
+): Promise<SessionVectorUpdate> {
+  const update: SessionVectorUpdate = { embeddedFiles: 0, embeddedChunks: 0, removedFiles: 0 };
+  const pending: Array<{ file: SessionVectorFile; line: number; text: string }> = [];
+  const seen = new Set<string>();
+
+  for (const { path, agent } of transcripts) {
+    seen.add(path);
+    let size: number;
+    try {
+      size = statSync(path).size;
+    } catch {
+      continue;
+    }
+    let file: SessionVectorFile | undefined = index.files[path];
+    if (!file || size < file.offset || file.agent !== agent) {
+      file = { path, agent, offset: 0, lines: 0, chunks: [] };
+      index.files[path] = file;
+    }
+    if (size === file.offset) continue;
+    const appended = readAppended(path, file.offset, size);
+    if (!appended.bytes) continue;
+    const base = file.lines;
+    for (const chunk of transcriptChunks(parseTranscript(appended.text, path, agent))) {
+      pending.push({ file, line: base + chunk.line, text: prepare(chunk.text) });
+    }
+    file.offset += appended.bytes;
+    file.lines += countNewlines(appended.text);
+    update.embeddedFiles += 1;
+  }
+
+  for (let start = 0; start < pending.length; start += provider.batchSize) {
+    const batch = pending.slice(start, start + provider.batchSize);
+    const vectors = await provider.embed(batch.map((item) => item.text));
+    batch.forEach((item, i) => {
+      index.dimensions ??= vectors[i].length;
+      item.file.chunks.push({ line: item.line, vector: quantize(vectors[i]) });
+    });
+    update.embeddedChunks += batch.length;
+  }
+  for (const file of new Set(pending.map((item) => item.file))) {
+    if (file.chunks.length > MAX_CHUNKS_PER_FILE) file.chunks.splice(0, file.chunks.length - MAX_CHUNKS_PER_FILE);
+  }
+
+  for (const path of Object.keys(index.files)) {
+    if (seen.has(path) || existsSync(path)) continue;
+    delete index.files[path];
+    update.removedFiles += 1;
+  }
+  return update;
+}
+
+/** Best chunk similarity per transcript path, for files above MIN_SEMANTIC_SIMILARITY. */
+export function queryVectorIndex(
+  index: SessionVectorIndex,
+  queryVector: Float32Array,
+  options: { agent?: TranscriptAgent | "all" } = {},
+): Map<string, SemanticMatch> {
+  const matches = new Map<string, SemanticMatch>();
+  if (index.dimensions !== undefined && index.dimensions !== queryVector.length) return matches;
+  for (const file of Object.values(index.files)) {
+    if (options.agent && options.agent !== "all" && file.agent !== options.agent) continue;
+    let best: SemanticMatch | undefined;
+    for (const chunk of file.chunks) {
+      const similarity = cosineSimilarity(queryVector, dequantize(chunk.vector));
+      if (!best || similarity > best.similarity) best = { similarity, line: chunk.line };
+    }
+    if (best && best.similarity >= MIN_SEMANTIC_SIMILARITY) matches.set(file.path, best);
+  }
+  return matches;
+}
+
+/**
+ * Blend keyword and semantic scores: `weight * similarity + (1 - weight) * bm25 / maxBm25`,
+ * times recency decay. Sessions found by only one side still rank.
+ */
+export function hybridScores(
+  keyword: SessionIndexHit[],
+  semantic: Map<string, SemanticMatch>,
+  files: Record<string, SessionIndexFile>,
+  options: { weight: number; now?: number },
+): HybridHit[] {
+  const weight = Math.min(1, Math.max(0, options.weight));
+  const maxBm25 = keyword.reduce((max, hit) => Math.max(max, hit.bm25), 0) || 1;
+  const byPath = new Map(keyword.map((hit) => [hit.file.path, hit]));
+  const hits: HybridHit[] = [];
+  for (const path of new Set([...byPath.keys(), ...semantic.keys()])) {
+    const file = byPath.get(path)?.file ?? files[path];
+    if (!file) continue;
+    const bm25 = byPath.get(path)?.bm25 ?? 0;
+    const match = semantic.get(path);
+    const similarity = Math.max(0, match?.similarity ?? 0);
+    const recency = recencyDecay(file.mtimeMs, options.now);
+    hits.push({
+      file,
+      bm25,
+      semantic: similarity,
+      line: match?.line,
+      recency,
+      score: (weight * similarity + (1 - weight) * (bm25 / maxBm25)) * recency,
+    });
+  }
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+function quantize(vector: Float32Array): string {
+  const bytes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i += 1) bytes[i] = Math.max(-127, Math.min(127, Math.round(vector[i] * 127)));
+  return Buffer.from(bytes.buffer).toString("base64");
+}
+
+function dequantize(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, "base64");
+  const bytes = new Int8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+  const vector = new Float32Array(bytes.length);
+  let norm = 0;
+  for (let i = 0; i < bytes.length; i += 1) {
+    vector[i] = bytes[i];
+    norm += bytes[i] * bytes[i];
+  }
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < vector.length; i += 1) vector[i] /= norm;
+  return vector;
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) count += 1;
+  return count;
+}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseTimeBound, resolveSessionFilters, transcriptMatchesFilters, type SessionFilterInput, type SessionFilters } from "./session-filters.ts";
+import { jsonl } from "./test-fixtures.ts";
+import { parseTranscript } from "./transcript.ts";
+
+const roots: string[] = [];
+afterEach(() => { while (roots.length) rmSync(roots.pop()!, { recursive: true, force: true }); });
+
+function piSession(cwd: string) {
+  return parseTranscript(
+    jsonl(
+      { type: "session", id: "p1", cwd, timestamp: "2026-10-13T09:00:00.000Z" },
+      { type: "message", message: { role: "user", content: "retry queue", timestamp: Date.parse("2026-10-13T09:00:05.000Z") } },
+      {
+        type: "message",
+        message: {
+          role: "assistant",
+          provider: "anthropic",
+          model: "claude-sonnet-4",
+          timestamp: Date.parse("2026-10-13T11:30:00.000Z"),
+          content: [{ type: "toolCall", id: "e1", name: "edit", arguments: { path: "src/queue.ts", oldText: "a", newText: "b" } }],
+        },
+      },
+    ),
+    "/tmp/p1.jsonl",
+    "pi",
+  );
+}
+
+describe("session metadata filters", () => {
+  // Tuesday 2026-10-13 is the reference week; "now" is the following Monday.
+  const now = new Date(2026, 9, 19, 15, 0, 0).getTime();
+  const filtersFor = (input: SessionFilterInput, cwd = "/"): SessionFilters => {
+    const filters = resolveSessionFilters(input, { cwd, now });
+    if (typeof filters === "string") throw new Error(filters);
+    return filters;
+  };
+
+  test("parses day words, weekdays, relative ages, and dates", () => {
+    expect(parseTimeBound("tuesday", "start", now)).toBe(new Date(2026, 9, 13).getTime());
+    expect(parseTimeBound("last Tuesday", "end", now)).toBe(new Date(2026, 9, 14).getTime() - 1);
+    expect(parseTimeBound("yesterday", "start", now)).toBe(new Date(2026, 9, 18).getTime());
+    expect(parseTimeBound("3d", "start", now)).toBe(now - 3 * 86_400_000);
+    expect(parseTimeBound("2026-10-13", "end", now)).toBe(new Date(2026, 9, 14).getTime() - 1);
+    expect(parseTimeBound("2026-10-13T09:00:00Z", "start", now)).toBe(Date.parse("2026-10-13T09:00:00Z"));
+    expect(parseTimeBound("the other day", "start", now)).toBeUndefined();
+  });
+
+  test("matches session activity span, not a single timestamp", () => {
+    const session = piSession("/work/app");
+    expect(transcriptMatchesFilters(session, filtersFor({ since: "2026-10-13T10:00:00Z", until: "2026-10-13T10:30:00Z" }))).toBe(true);
+    expect(transcriptMatchesFilters(session, filtersFor({ since: "2026-10-13T12:00:00Z" }))).toBe(false);
+    expect(resolveSessionFilters({ since: "soon" }, { cwd: "/", now })).toContain('Could not parse since "soon"');
+  });
+
+  test("filters by cwd, repo, model, and touched file", () => {
+    const root = mkdtempSync(join(tmpdir(), "session-filters-"));
+    roots.push(root);
+    const repo = join(root, "app");
+    mkdirSync(join(repo, ".git"), { recursive: true });
+    mkdirSync(join(repo, "packages", "api"), { recursive: true });
+    const session = piSession(join(repo, "packages", "api"));
+    const matches = (input: SessionFilterInput) => transcriptMatchesFilters(session, filtersFor(input, repo));
+
+    expect(matches({ cwd: "." })).toBe(true);
+    expect(matches({ cwd: "/elsewhere" })).toBe(false);
+    expect(matches({ repo: "." })).toBe(true);
+    expect(matches({ repo: "app" })).toBe(true);
+    expect(matches({ repo: "other" })).toBe(false);
+    expect(matches({ model: "anthropic" })).toBe(true);
+    expect(matches({ model: "gpt-5" })).toBe(false);
+    expect(matches({ file: "queue.ts" })).toBe(true);
+    expect(matches({ file: `${repo}/packages/api/src/queue.ts` })).toBe(true);
+    expect(matches({ file: "src/retry.ts" })).toBe(false);
+  });
+
+  test("matches repo names against Codex remote URLs", () => {
+    const codex = parseTranscript(
+      jsonl({
+        type: "session_meta",
+        payload: { id: "x1", cwd: "/gone/checkout", timestamp: "2026-10-13T09:00:00Z", git: { repository_url: "git@github.com:joel/agent-tools.git", branch: "main" } },
+      }),
+      "/tmp/x1.jsonl",
+      "codex",
+    );
+    expect(codex.git).toEqual({ repository: "git@github.com:joel/agent-tools.git", branch: "main", commit: undefined });
+    expect(transcriptMatchesFilters(codex, { repo: { name: "agent-tools" } })).toBe(true);
+    expect(transcriptMatchesFilters(codex, { repo: { name: "tools" } })).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Metadata filters for local transcript search: time range, cwd, git repo,
+ * model/provider, and touched files.
+ *
+ * Everything is read from the transcript itself: the header `startedAt`, the
+ * last message timestamp, the recorded cwd and git metadata, assistant model
+ * fields, and tool-call file arguments. File mtime is only used to skip
+ * transcripts that cannot have been active inside the requested range.
+ */
+
+import { existsSync } from "node:fs";
+import * as os from "node:os";
+import { basename, dirname, isAbsolute, join, resolve } from "node:path";
+import { toolFileOperations } from "./local-tools.ts";
+import type { Transcript } from "./transcript.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Raw filter values as passed to `session_search`. */
+export interface SessionFilterInput {
+  since?: string;
+  until?: string;
+  cwd?: string;
+  repo?: string;
+  model?: string;
+  file?: string;
+}
+
+export interface SessionFilters {
+  sinceMs?: number;
+  untilMs?: number;
+  /** Absolute directory; matches sessions whose cwd is inside it. */
+  cwd?: string;
+  /** Repo root when `repo` was a path, otherwise a name matched against repo roots and remote URLs. */
+  repo?: { root?: string; name?: string };
+  model?: string;
+  file?: string;
+}
+
+export function hasSessionFilters(filters: SessionFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined);
+}
+
+/**
+ * Validate and normalize filter input. Relative paths resolve against `cwd`;
+ * `repo: "."` means the repo containing `cwd`. Returns an error string for
+ * unparseable dates.
+ */
+export function resolveSessionFilters(input: SessionFilterInput, options: { cwd: string; now?: number }): SessionFilters | string {
+  const filters: SessionFilters = {};
+  const now = options.now ?? Date.now();
+  for (const edge of ["since", "until"] as const) {
+    const raw = input[edge]?.trim();
+    if (!raw) continue;
+    const value = parseTimeBound(raw, edge === "since" ? "start" : "end", now);
+    if (value === undefined) {
+      return `Could not parse ${edge} "${raw}". Use an ISO date/time, YYYY-MM-DD, today, yesterday, a weekday name, or a relative age like 3d, 12h, 2w.`;
+    }
+    if (edge === "since") filters.sinceMs = value;
+    else filters.untilMs = value;
+  }
+  if (input.cwd?.trim()) filters.cwd = expandPath(input.cwd.trim(), options.cwd);
+  const repo = input.repo?.trim();
+  if (repo) {
+    const looksLikePath = repo === "." || repo.startsWith("~") || (repo.includes("/") && existsSync(expandPath(repo, options.cwd)));
+    if (looksLikePath) {
+      const path = expandPath(repo, options.cwd);
+      filters.repo = { root: gitRoot(path) ?? path };
+    } else {
+      filters.repo = { name: repo.toLowerCase() };
+    }
+  }
+  if (input.model?.trim()) filters.model = input.model.trim().toLowerCase();
+  if (input.file?.trim()) filters.file = input.file.trim();
+  return filters;
+}
+
+/**
+ * Epoch ms for a time bound. Date-only values and day words cover the whole
+ * local day: `start` is midnight, `end` is the last millisecond of that day.
+ */
+export function parseTimeBound(value: string, edge: "start" | "end", now = Date.now()): number | undefined {
+  const text = value.trim().toLowerCase().replace(/^last\s+/, "");
+  const day = (offsetDays: number) => {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + offsetDays);
+    return edge === "start" ? date.getTime() : date.getTime() + DAY_MS - 1;
+  };
+
+  if (text === "now") return now;
+  if (text === "today") return day(0);
+  if (text === "yesterday") return day(-1);
+  const weekday = WEEKDAYS.indexOf(text);
+  if (weekday >= 0) {
+    // The most recent past occurrence, never today: "tuesday" on a Tuesday means a week ago.
+    const back = (new Date(now).getDay() - weekday + 7) % 7 || 7;
+    return day(-back);
+  }
+  const relative = text.match(/^(\d+(?:\.\d+)?)\s*(m|min|h|d|w)(?:\s+ago)?$/);
+  if (relative) {
+    const unit = { m: 60_000, min: 60_000, h: HOUR_MS, d: DAY_MS, w: 7 * DAY_MS }[relative[2] as "m" | "min" | "h" | "d" | "w"];
+    return now - Number(relative[1]) * unit;
+  }
+  const dateOnly = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const date = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    return edge === "start" ? date.getTime() : date.getTime() + DAY_MS - 1;
+  }
+  const parsed = Date.parse(value.trim());
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/** Cheap pre-parse check: a transcript last written before `since` cannot match. */
+export function mtimeMayMatch(filters: SessionFilters, mtimeMs: number): boolean {
+  return filters.sinceMs === undefined || mtimeMs >= filters.sinceMs;
+}
+
+/** Active span of a session, from its header start to its last timestamped message. */
+export function sessionSpan(transcript: Transcript): { start?: number; end?: number } {
+  const timestamps = transcript.messages.flatMap((message) => (message.timestamp ? [Date.parse(message.timestamp)] : []));
+  const start = transcript.startedAt ? Date.parse(transcript.startedAt) : timestamps[0];
+  const end = timestamps.length ? timestamps.reduce((latest, value) => Math.max(latest, value)) : start;
+  return { start, end };
+}
+
+export function transcriptMatchesFilters(transcript: Transcript, filters: SessionFilters): boolean {
+  if (filters.sinceMs !== undefined || filters.untilMs !== undefined) {
+    const { start, end } = sessionSpan(transcript);
+    if (start === undefined || end === undefined) return false;
+    if (filters.sinceMs !== undefined && end < filters.sinceMs) return false;
+    if (filters.untilMs !== undefined && start > filters.untilMs) return false;
+  }
+  if (filters.cwd && !isInside(transcript.cwd, filters.cwd)) return false;
+  if (filters.repo && !matchesRepo(transcript, filters.repo)) return false;
+  if (filters.model) {
+    const model = filters.model;
+    const used = transcript.messages.some((message) =>
+      message.model && `${message.provider ?? ""}/${message.model}`.toLowerCase().includes(model),
+    );
+    if (!used) return false;
+  }
+  if (filters.file && !touchedFile(transcript, filters.file)) return false;
+  return true;
+}
+
+function matchesRepo(transcript: Transcript, repo: NonNullable<SessionFilters["repo"]>): boolean {
+  const root = transcript.cwd ? gitRoot(transcript.cwd) : undefined;
+  if (repo.root) return isInside(transcript.cwd, repo.root) || root === repo.root;
+  const name = repo.name!;
+  const remote = transcript.git?.repository?.toLowerCase().replace(/\.git$/, "");
+  if (remote && (remote.endsWith(`/${name}`) || remote.endsWith(`:${name}`) || remote === name)) return true;
+  const local = root ?? transcript.cwd;
+  return local ? basename(local).toLowerCase() === name : false;
+}
+
+/** Any tool call that read, wrote, edited, or deleted a path ending with (or equal to) `file`. */
+function touchedFile(transcript: Transcript, file: string): boolean {
+  const wanted = file.replace(/^\.\//, "");
+  return transcript.messages.some((message) =>
+    toolFileOperations(message).some(({ path }) => {
+      const absolute = isAbsolute(path) || !transcript.cwd ? path : join(transcript.cwd, path);
+      return isAbsolute(wanted) ? absolute === wanted : absolute === wanted || absolute.endsWith(`/${wanted}`);
+    }),
+  );
+}
+
+function isInside(path: string | undefined, directory: string): boolean {
+  if (!path) return false;
+  const normalized = directory.replace(/\/+$/, "");
+  return path === normalized || path.startsWith(`${normalized}/`);
+}
+
+function expandPath(path: string, cwd: string): string {
+  if (path === "~") return os.homedir();
+  if (path.startsWith("~/")) return join(os.homedir(), path.slice(2));
+  return resolve(cwd, path);
+}
+
+const gitRoots = new Map<string, string | undefined>();
+
+/** Nearest ancestor containing `.git`, cached; undefined outside a repo or when the directory is gone. */
+export function gitRoot(directory: string): string | undefined {
+  if (gitRoots.has(directory)) return gitRoots.get(directory);
+  let current = directory;
+  let root: string | undefined;
+  while (true) {
+    if (existsSync(join(current, ".git"))) {
+      root = current;
+      break;
+    }
+    const parent = dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  gitRoots.set(directory, root);
+  return root;
+}
+
+export function describeSessionFilters(filters: SessionFilters): string {
+  const parts: string[] = [];
+  if (filters.sinceMs !== undefined) parts.push(`since ${new Date(filters.sinceMs).toISOString()}`);
+  if (filters.untilMs !== undefined) parts.push(`until ${new Date(filters.untilMs).toISOString()}`);
+  if (filters.cwd) parts.push(`cwd ${filters.cwd}`);
+  if (filters.repo) parts.push(`repo ${filters.repo.root ?? filters.repo.name}`);
+  if (filters.model) parts.push(`model ~ ${filters.model}`);
+  if (filters.file) parts.push(`touched ${filters.file}`);
+  return parts.join(", ");
+}
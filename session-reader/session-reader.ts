@@ -7,20 +7,71 @@
  *
  * Tools:
  *   sessions: wrapper for `joelclaw session search ... --extract`
- *   session_context: wrapper for `joelclaw session extract ...`
- *   session_inspect: wrapper for `joelclaw session inspect ...`
- *   session_chunks: wrapper for `joelclaw session chunks ...`
+ *   session_context: `joelclaw session extract ...`, local extraction fallback
+ *   session_inspect: `joelclaw session inspect ...`, local regex window fallback
+ *   session_chunks: `joelclaw session chunks ...`, local chunk search fallback
+ *   session_timeline: local prompt/model/tool timeline with rebuilt file diffs
+ *   session_resume: bounded handoff (goal, state, todos, files, errors) from any transcript
+ *   session_export: portable Markdown or self-contained HTML rendering of any transcript
  *   session_tasks: deprecated, no background reader tasks remain
+ *
+ * `/resume-from <session>` injects the same handoff into the current session
+ * as a `session-resume` custom message, so work started in Claude Code or
+ * Codex can continue in Pi. `/session-export <session> [md|html] [path]`
+ * writes the same rendering as session_export. `/sessions-stats [window]`
+ * opens a local usage dashboard built by stats.ts. `/session-doctor [--fix]`
+ * runs the capture health checks from capture-doctor.ts.
+ *
+ * Local transcript search runs over the normalized message model in
+ * transcript.ts, so matches and snippets come from message text. When the
+ * persistent index from search-index.ts exists (`/session-index`), sessions
+ * are ranked by BM25 with recency decay; otherwise we fall back to a scan.
+ * `semantic: true` blends in embedding similarity from semantic-index.ts.
  */
 
 import { spawnSync } from "node:child_process";
-import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { existsSync, readFileSync, statSync } from "node:fs";
 import * as os from "node:os";
-import { join } from "node:path";
+import { basename, join, resolve } from "node:path";
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
-import { Text } from "@earendil-works/pi-tui";
+import { Box, Text } from "@earendil-works/pi-tui";
 import { StringEnum } from "@earendil-works/pi-ai";
 import { Type } from "@sinclair/typebox";
+import {
+  buildHandoff,
+  DEFAULT_HANDOFF_CHARS,
+  MAX_HANDOFF_CHARS,
+  renderHandoffMarkdown,
+  RESUME_MESSAGE_TYPE,
+  resumeMessageDetails,
+  type ResumeMessageDetails,
+} from "./handoff.ts";
+import { DEFAULT_DOCTOR_DAYS, diagnoseCapture, fixCapture, renderCaptureReport } from "./capture-doctor.ts";
+import { createHashedNgramProvider, resolveEmbeddingProvider, type EmbeddingProviderName } from "./embeddings.ts";
+import {
+  DEFAULT_EXPORT_OUTPUT_CHARS,
+  defaultExportPath,
+  exportAssetsDir,
+  renderSessionExport,
+  writeSessionExport,
+  type ExportFormat,
+} from "./export.ts";
+import { findLocalSessions, findSemanticSessions, listLocalTranscripts, resolveSessionTranscript, type LocalSessionHit } from "./local-sessions.ts";
+import {
+  extractSession,
+  inspectTranscript,
+  localSessionChunks,
+  renderExtractionMarkdown,
+  renderInspectMarkdown,
+} from "./local-tools.ts";
+import { auditLogSecretNames, createRedactor, redactDeep, rememberLeasedSecrets } from "./redact.ts";
+import { createSessionIndex, loadSessionIndex, saveSessionIndex, sessionIndexPath, sessionReaderDirectory, updateSessionIndex } from "./search-index.ts";
+import { createVectorIndex, DEFAULT_SEMANTIC_WEIGHT, loadVectorIndex, saveVectorIndex, updateVectorIndex } from "./semantic-index.ts";
+import { describeSessionFilters, hasSessionFilters, parseTimeBound, resolveSessionFilters } from "./session-filters.ts";
+import { SessionStatsOverlay } from "./stats-overlay.ts";
+import { collectSessionStats, renderStatsText } from "./stats.ts";
+import { buildTimeline, renderTimelineMarkdown } from "./timeline.ts";
+import { readTranscript, type Transcript } from "./transcript.ts";
 
 const MAX_BUFFER = 20 * 1024 * 1024;
 const DEFAULT_LIMIT = 5;
@@ -37,6 +88,10 @@ const DEPRECATION_NOTE =
 
 type Source = "typesense" | "ssh" | "local" | "both";
 type PriorityAgent = "pi" | "claude" | "codex";
+type Engine = "auto" | "joelclaw" | "local";
+
+const ENGINE_DESCRIPTION =
+  "auto (default): use joelclaw when it runs, otherwise the local TypeScript implementation. joelclaw: CLI only. local: never call joelclaw.";
 
 interface JoelclawRun {
   ok: boolean;
@@ -139,6 +194,7 @@ function renderJsonSummary(result: any, _options: any, theme: any): Text {
     if (bits.length) text += " " + theme.fg("dim", bits.join(" · "));
   }
 
+  if (details.redactions) text += " " + theme.fg("warning", `${details.redactions} redacted`);
   if (!details.ok && details.error) text += "\n" + theme.fg("error", details.error);
 
   return new Text(text, 0, 0);
@@ -158,85 +214,160 @@ function toolDetails(wrapper: string, run: JoelclawRun, extra: Record<string, un
   };
 }
 
-interface LocalSessionHit {
-  agent: PriorityAgent;
+/**
+ * joelclaw is an accelerator, not a dependency: under engine "auto" a failed
+ * run (missing CLI, backplane down) falls through to the local implementation.
+ */
+function runWithEngine(engine: Engine, args: string[], cwd: string): { run?: JoelclawRun; fallbackNote?: string } {
+  if (engine === "local") return {};
+  const run = runJoelclaw(args, cwd);
+  if (run.ok || engine === "joelclaw") return { run };
+  const reason = run.error ?? (run.exitCode !== null ? `exit code ${run.exitCode}` : "no output");
+  return { fallbackNote: `joelclaw unavailable (${reason}); used the local implementation.` };
+}
+
+function localDetails(wrapper: string, extra: Record<string, unknown> = {}) {
+  return {
+    wrapper,
+    deprecation: DEPRECATION_NOTE,
+    ok: true,
+    engine: "local",
+    ...extra,
+  };
+}
+
+/**
+ * Redact tool content and details in place of the raw result, and report the
+ * count in `details.redactions` plus a trailing note when anything was hidden.
+ * Details mostly mirror the text, so only the content pass is counted.
+ * Tools that redact their own output first report that count in
+ * `details.redactions`; it is added to, not replaced.
+ */
+function redactToolResult<T extends { content: Array<{ type: string; text?: string }>; details?: unknown }>(result: T): T {
+  const secretNames = auditLogSecretNames();
+  const redactor = createRedactor({ secretNames });
+  const content = result.content.map((block) => (block.type === "text" && block.text ? { ...block, text: redactor.redact(block.text) } : block));
+  const details = redactDeep(result.details, createRedactor({ secretNames }));
+  const earlier = isRecord(result.details) && typeof result.details.redactions === "number" ? result.details.redactions : 0;
+  const redactions = earlier + redactor.count;
+  if (redactions) {
+    const last = content.map((block) => block.type).lastIndexOf("text");
+    if (last >= 0) content[last] = { ...content[last], text: `${content[last].text}\n\n[${redactions} secret-like value${redactions === 1 ? "" : "s"} redacted]` };
+  }
+  return {
+    ...result,
+    content,
+    details: isRecord(details) ? { ...details, redactions } : details,
+  };
+}
+
+function loadLocalTranscript(ref: string): Transcript | string {
+  const resolved = resolveSessionTranscript(ref);
+  if (!resolved) return `No local Pi/Claude/Codex transcript found for ${ref}.`;
+  try {
+    const transcript = readTranscript(resolved.path, resolved.agent);
+    rememberLeasedSecrets(transcript);
+    return transcript;
+  } catch (error) {
+    return `Could not read ${resolved.path}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function loadHandoff(ref: string, maxChars?: number): { text: string; details: ResumeMessageDetails; redactions: number } | string {
+  const transcript = loadLocalTranscript(ref);
+  if (typeof transcript === "string") return transcript;
+  const handoff = buildHandoff(transcript);
+  const { text, truncated } = renderHandoffMarkdown(handoff, maxChars ?? DEFAULT_HANDOFF_CHARS);
+  const redactor = createRedactor({ secretNames: auditLogSecretNames() });
+  const redacted = { text: redactor.redact(text), details: redactDeep(resumeMessageDetails(handoff, truncated), redactor) };
+  return { ...redacted, redactions: redactor.count };
+}
+
+interface ExportRequest {
+  format: ExportFormat;
+  output?: string;
+  includeSystem?: boolean;
+  maxOutputChars?: number;
+  cwd: string;
+}
+
+interface ExportSummary {
   sessionId: string;
+  agent: string;
+  format: ExportFormat;
   path: string;
-  mtime: string;
-  snippets: string[];
-  score: number;
+  bytes: number;
+  assetsDir?: string;
+  messages: number;
+  toolCalls: number;
+  images: number;
+  redactions: number;
 }
 
-function walkJsonlFiles(root: string, maxFiles: number): string[] {
-  const files: string[] = [];
-  const visit = (dir: string) => {
-    if (files.length >= maxFiles || !existsSync(dir)) return;
-    let entries: ReturnType<typeof readdirSync> = [];
-    try {
-      entries = readdirSync(dir, { withFileTypes: true });
-    } catch {
-      return;
-    }
-    for (const entry of entries) {
-      if (files.length >= maxFiles) break;
-      const path = join(dir, entry.name);
-      if (entry.isDirectory()) visit(path);
-      else if (entry.isFile() && entry.name.endsWith(".jsonl")) files.push(path);
-    }
-  };
-  visit(root);
-  return files.sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs);
+function exportLocalSession(ref: string, request: ExportRequest): ExportSummary | string {
+  const transcript = loadLocalTranscript(ref);
+  if (typeof transcript === "string") return transcript;
+  const output = request.output
+    ? resolve(request.cwd, request.output.startsWith("~/") ? join(os.homedir(), request.output.slice(2)) : request.output)
+    : defaultExportPath(sessionReaderDirectory(), transcript, request.format);
+  const redactor = createRedactor({ secretNames: auditLogSecretNames() });
+  const exported = renderSessionExport(transcript, {
+    format: request.format,
+    includeSystem: request.includeSystem,
+    maxOutputChars: request.maxOutputChars,
+    redact: (text) => redactor.redact(text),
+    assetsDirName: basename(exportAssetsDir(output)),
+  });
+  try {
+    const written = writeSessionExport(exported, output);
+    return {
+      sessionId: transcript.sessionId,
+      agent: transcript.agent,
+      format: request.format,
+      ...written,
+      ...exported.counts,
+      redactions: redactor.count,
+    };
+  } catch (error) {
+    return `Could not write ${output}: ${error instanceof Error ? error.message : String(error)}`;
+  }
 }
 
-function sessionIdFromPath(path: string): string {
-  const base = path.split("/").pop() ?? path;
-  return base.replace(/\.jsonl$/, "").replace(/^rollout-\d{4}-\d{2}-\d{2}T[^-]+-/, "");
+function describeExport(summary: ExportSummary): string {
+  return [
+    `Exported ${summary.agent} session ${summary.sessionId} as ${summary.format} to ${summary.path} (${Math.round(summary.bytes / 1024)} KiB).`,
+    `${summary.messages} messages, ${summary.toolCalls} tool calls, ${summary.images} images, ${summary.redactions} secret-like values redacted.`,
+    summary.assetsDir ? `Images: ${summary.assetsDir}` : "",
+  ].filter(Boolean).join("\n");
 }
 
-function localSessionRoots(agent: PriorityAgent | "all"): Array<{ agent: PriorityAgent; root: string }> {
-  const home = os.homedir();
-  const roots = [
-    { agent: "pi" as const, root: join(home, ".pi/agent/sessions") },
-    { agent: "claude" as const, root: join(home, ".claude/projects") },
-    { agent: "codex" as const, root: join(home, ".codex/sessions") },
+function renderResumeMessage(content: unknown, details: ResumeMessageDetails | undefined, expanded: boolean, theme: any): Box {
+  const box = new Box(1, 1, (text: string) => theme.bg("customMessageBg", text));
+  const summary = details
+    ? `${details.todos} todos · ${details.files} files · ${details.errors} errors${details.truncated ? " · truncated" : ""}`
+    : "";
+  const lines = [
+    `${theme.fg("accent", "↻ resumed")} ${theme.bold(details ? `${details.agent} ${details.sessionId}` : "session")} ${theme.fg("dim", summary)}`,
   ];
-  return agent === "all" ? roots : roots.filter((root) => root.agent === agent);
+  if (expanded) {
+    lines.push("", typeof content === "string" ? content : stringify(content));
+  } else if (details?.goal) {
+    lines.push(theme.fg("muted", `goal: ${details.goal}`));
+  }
+  box.addChild(new Text(lines.join("\n"), 0, 0));
+  return box;
 }
 
-function searchLocalSessions(query: string, options: { agent: PriorityAgent | "all"; limit: number; maxFiles: number }): LocalSessionHit[] {
-  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
-  const hits: LocalSessionHit[] = [];
-
-  for (const root of localSessionRoots(options.agent)) {
-    for (const path of walkJsonlFiles(root.root, options.maxFiles)) {
-      let raw = "";
-      try {
-        raw = readFileSync(path, "utf8");
-      } catch {
-        continue;
-      }
-      const lower = raw.toLowerCase();
-      const score = terms.reduce((sum, term) => sum + (lower.includes(term) ? 1 : 0), 0);
-      if (score === 0) continue;
-
-      const snippets = raw
-        .split(/\n/)
-        .filter((line) => terms.some((term) => line.toLowerCase().includes(term)))
-        .slice(0, 3)
-        .map((line) => truncateText(line, 320) ?? line.slice(0, 320));
-
-      hits.push({
-        agent: root.agent,
-        sessionId: sessionIdFromPath(path),
-        path,
-        mtime: statSync(path).mtime.toISOString(),
-        snippets,
-        score,
-      });
+/** Parse local transcripts modified since `sinceMs`, one at a time. */
+function* readLocalTranscriptsSince(sinceMs: number): Generator<Transcript> {
+  for (const { path, agent } of listLocalTranscripts()) {
+    try {
+      if (statSync(path).mtimeMs < sinceMs) continue;
+      yield readTranscript(path, agent);
+    } catch {
+      // Unreadable or vanished transcripts are skipped like in search.
     }
   }
-
-  return hits.sort((a, b) => b.score - a.score || +new Date(b.mtime) - +new Date(a.mtime)).slice(0, options.limit);
 }
 
 function renderLocalHits(hits: LocalSessionHit[]): string {
@@ -245,37 +376,15 @@ function renderLocalHits(hits: LocalSessionHit[]): string {
     .map((hit, index) => [
       `## ${index + 1}. ${hit.agent} ${hit.sessionId}`,
       `Path: ${hit.path}`,
+      hit.cwd ? `Cwd: ${hit.cwd}` : "",
+      hit.startedAt ? `Active: ${hit.startedAt} → ${hit.lastMessageAt ?? "?"}` : "",
       `Modified: ${hit.mtime}`,
-      `Score: ${hit.score}`,
+      hit.score ? `Score: ${hit.score} (${hit.matchedMessages} matching messages)` : `Prompts: ${hit.matchedMessages}`,
       ...hit.snippets.map((snippet) => `- ${snippet}`),
-    ].join("\n"))
+    ].filter(Boolean).join("\n"))
     .join("\n\n");
 }
 
-function readCaptureState(): string {
-  const home = os.homedir();
-  const files = [
-    { label: "pi capture state", path: join(home, ".joelclaw/session-state.json") },
-    { label: "pi capture log", path: join(home, ".joelclaw/capture.log") },
-    { label: "codex capture state", path: join(home, ".joelclaw/codex-session-state.json") },
-    { label: "codex capture log", path: join(home, ".joelclaw/codex-capture.log") },
-    { label: "claude capture state", path: join(home, ".joelclaw/claude-session-state.json") },
-    { label: "claude capture log", path: join(home, ".joelclaw/claude-capture.log") },
-  ];
-
-  return files
-    .map(({ label, path }) => {
-      if (!existsSync(path)) return `- ${label}: missing (${path})`;
-      const stats = statSync(path);
-      let tail = "";
-      try {
-        tail = readFileSync(path, "utf8").split(/\n/).filter(Boolean).slice(-3).join("\n  ");
-      } catch {}
-      return `- ${label}: present, modified ${stats.mtime.toISOString()} (${path})${tail ? `\n  ${tail}` : ""}`;
-    })
-    .join("\n");
-}
-
 function boundedInteger(
   raw: unknown,
   options: {
@@ -414,6 +523,7 @@ function renderSessionChunksCompact(
     excludeCurrent: boolean;
     excludedCurrent: number;
     compact: boolean;
+    engine: "joelclaw" | "local";
   },
 ): string {
   if (!isRecord(result)) return stringify(result);
@@ -421,7 +531,7 @@ function renderSessionChunksCompact(
   const chunks = Array.isArray(result.chunks) ? result.chunks : Array.isArray(result.hits) ? result.hits : [];
   const local = isRecord(result.local) ? result.local : undefined;
   const lines = [
-    "Session chunks via joelclaw (compact Pi wrapper output).",
+    `Session chunks via ${options.engine === "local" ? "local transcripts" : "joelclaw"} (compact Pi wrapper output).`,
     DEPRECATION_NOTE,
     `Query: ${String(result.query ?? "")}`,
     `Source: ${String(result.source ?? "unknown")}`,
@@ -525,36 +635,106 @@ function compactSessionChunksJson(json: any, result: any) {
 }
 
 export default function (pi: ExtensionAPI) {
-  pi.registerTool({
+  // Every session tool result goes through the shared redaction pass before it reaches the model.
+  const registerTool: ExtensionAPI["registerTool"] = (tool) =>
+    pi.registerTool({
+      ...tool,
+      execute: async (...args: Parameters<typeof tool.execute>) => redactToolResult(await tool.execute(...args)),
+    });
+
+  registerTool({
     name: "session_search",
     label: "Session Search",
     description:
       "Search agent sessions by asking joelclaw for pointers first, then searching local Pi/Claude/Codex JSONL transcripts for details.",
     parameters: Type.Object({
-      query: Type.String({ description: "Search query" }),
+      query: Type.String({
+        description:
+          'Search query. Searches message text only; narrow with role:user|assistant|tool|system and tool:<name>, e.g. "role:user redis" or "tool:bash ioredis". ' +
+          "Pass an empty string with filters to list matching local sessions, newest first.",
+      }),
       agent: Type.Optional(StringEnum(["all", "pi", "claude", "codex"] as const, { description: "Local transcript agent filter. Default all." })),
       source: Type.Optional(StringEnum(["typesense", "ssh", "local", "both"] as const, { description: "joelclaw pointer source. Default both." })),
       machine: Type.Optional(Type.String({ description: "joelclaw machine filter. Default hostname -s." })),
       limit: Type.Optional(Type.Number({ description: "Max joelclaw/local results. Default 5." })),
-      max_files: Type.Optional(Type.Number({ description: "Max local JSONL files to scan per root. Default 200." })),
+      max_files: Type.Optional(Type.Number({ description: "Max local JSONL files to scan per root when no index exists. Default 200." })),
+      use_index: Type.Optional(
+        Type.Boolean({ description: "Use the persistent local BM25 index when it exists. Default true; false forces a raw scan." }),
+      ),
+      since: Type.Optional(
+        Type.String({ description: "Local sessions active at or after this time: ISO date/time, YYYY-MM-DD, today, yesterday, a weekday (\"tuesday\" = the last one), or an age like 3d/12h/2w." }),
+      ),
+      until: Type.Optional(Type.String({ description: "Local sessions that started at or before this time. Same formats as since; dates include the whole day." })),
+      cwd: Type.Optional(Type.String({ description: "Local sessions whose working directory is this directory or inside it." })),
+      repo: Type.Optional(
+        Type.String({ description: 'Local sessions in a git repo: a path ("." for the current repo) or a repo name matched against repo roots and Codex remote URLs.' }),
+      ),
+      model: Type.Optional(Type.String({ description: 'Local sessions that used a model or provider, substring match on "provider/model".' })),
+      file: Type.Optional(Type.String({ description: "Local sessions whose tool calls read, wrote, or edited this path (suffix match for relative paths)." })),
+      semantic: Type.Optional(
+        Type.Boolean({
+          description:
+            'Blend embedding similarity with BM25 so paraphrases match, e.g. "redis reconnect bug" finds "ioredis retryStrategy null". Needs the /session-index index. Default false.',
+        }),
+      ),
+      embedding_provider: Type.Optional(
+        StringEnum(["local", "remote"] as const, {
+          description: "Semantic mode embeddings: local offline hashed n-grams (default) or an OpenAI-compatible endpoint from PI_SESSION_READER_EMBEDDING_URL.",
+        }),
+      ),
+      semantic_weight: Type.Optional(
+        Type.Number({ description: `Share of the semantic score in semantic mode, 0-1. Default ${DEFAULT_SEMANTIC_WEIGHT}.` }),
+      ),
     }),
     async execute(_id, params, _signal, _onUpdate, ctx) {
       const limit = Math.max(1, Math.min(Math.floor(params.limit ?? DEFAULT_LIMIT), 20));
       const source = (params.source as Source | undefined) ?? "both";
       const machine = params.machine ?? hostnameShort();
-      const joelclaw = runJoelclaw(
-        ["session", "search", params.query, "--source", source, "--machine", machine, "--limit", String(limit), "--extract"],
-        ctx.cwd,
-      );
-      const localHits = searchLocalSessions(params.query, {
+      const filters = resolveSessionFilters(params, { cwd: ctx.cwd });
+      if (typeof filters === "string") {
+        return {
+          content: [{ type: "text", text: filters }],
+          details: { wrapper: "session_search", ok: false, error: filters },
+          isError: true,
+        };
+      }
+      const query = params.query.trim();
+      // joelclaw has no equivalent of a filter-only listing; only local transcripts can answer it.
+      const joelclaw = query
+        ? runJoelclaw(
+            ["session", "search", query, "--source", source, "--machine", machine, "--limit", String(limit), "--extract"],
+            ctx.cwd,
+          )
+        : undefined;
+      const localOptions = {
         agent: (params.agent as PriorityAgent | "all" | undefined) ?? "all",
         limit,
         maxFiles: Math.max(1, Math.min(Math.floor(params.max_files ?? 200), 1000)),
-      });
-
-      const joelclawText = joelclaw.ok
-        ? resultContent(joelclaw, joelclaw.stdout || "joelclaw returned no markdown.")
-        : resultContent(joelclaw, "joelclaw search failed; local transcript search still ran.");
+        useIndex: params.use_index !== false,
+        filters,
+      };
+      const provider = params.semantic && query ? resolveEmbeddingProvider(params.embedding_provider as EmbeddingProviderName | undefined) : undefined;
+      if (typeof provider === "string") {
+        return {
+          content: [{ type: "text", text: provider }],
+          details: { wrapper: "session_search", ok: false, error: provider },
+          isError: true,
+        };
+      }
+      const local = provider && localOptions.useIndex
+        ? await findSemanticSessions(query, {
+            ...localOptions,
+            provider,
+            weight: Math.min(1, Math.max(0, params.semantic_weight ?? DEFAULT_SEMANTIC_WEIGHT)),
+          })
+        : findLocalSessions(query, localOptions);
+      const filterNote = hasSessionFilters(filters) ? `Filters: ${describeSessionFilters(filters)} (local transcripts only).` : "";
+
+      const joelclawText = !joelclaw
+        ? "Skipped: empty query lists local sessions only."
+        : joelclaw.ok
+          ? resultContent(joelclaw, joelclaw.stdout || "joelclaw returned no markdown.")
+          : resultContent(joelclaw, "joelclaw search failed; local transcript search still ran.");
 
       return {
         content: [
@@ -568,15 +748,24 @@ export default function (pi: ExtensionAPI) {
               joelclawText,
               "",
               "## Local transcript details",
-              renderLocalHits(localHits),
+              [filterNote, local.note].filter(Boolean).join("\n"),
+              "",
+              renderLocalHits(local.hits),
             ].join("\n"),
           },
         ],
         details: {
           wrapper: "session_search",
-          ok: joelclaw.ok,
-          joelclaw: toolDetails("joelclaw session search", joelclaw),
-          localHits,
+          ok: joelclaw ? joelclaw.ok : true,
+          joelclaw: joelclaw ? toolDetails("joelclaw session search", joelclaw) : undefined,
+          localSearch: {
+            mode: local.mode,
+            note: local.note,
+            update: local.update,
+            vectorUpdate: local.vectorUpdate,
+            filters: hasSessionFilters(filters) ? filters : undefined,
+          },
+          localHits: local.hits,
         },
       };
     },
@@ -586,16 +775,38 @@ export default function (pi: ExtensionAPI) {
     },
   });
 
-  pi.registerTool({
+  registerTool({
     name: "session_capture_status",
     label: "Session Capture Status",
-    description: "Verify local joelclaw capture state for Pi, Claude, and Codex transcripts.",
-    parameters: Type.Object({}),
-    async execute(_id, _params, _signal, _onUpdate, ctx) {
+    description: [
+      "Capture health doctor for Pi, Claude, and Codex: compares local transcripts with joelclaw capture state offsets,",
+      "reports lag in bytes and time, outbox backlog, and missing hooks, then appends `joelclaw status`.",
+      "fix: true installs missing hooks (existing hooks are kept) and replays the outbox; it never deletes anything.",
+    ].join(" "),
+    parameters: Type.Object({
+      fix: Type.Optional(Type.Boolean({ description: "Apply the safe fixes the report offers. Default false." })),
+      days: Type.Optional(Type.Number({ description: `Only check lag for transcripts modified in the last N days. Default ${DEFAULT_DOCTOR_DAYS}.` })),
+    }),
+    async execute(_id, params, _signal, _onUpdate, ctx) {
+      const days = typeof params.days === "number" && params.days > 0 ? params.days : DEFAULT_DOCTOR_DAYS;
+      let report = diagnoseCapture({ days });
+      const fixes = params.fix ? await fixCapture(report) : [];
+      if (fixes.length) report = diagnoseCapture({ days });
       const status = runJoelclaw(["status"], ctx.cwd);
       return {
-        content: [{ type: "text", text: [`# Session capture status`, "", readCaptureState(), "", "## joelclaw status", resultContent(status, status.stdout)].join("\n") }],
-        details: { wrapper: "session_capture_status", ok: status.ok, joelclawStatus: toolDetails("joelclaw status", status) },
+        content: [
+          {
+            type: "text",
+            text: [`# Session capture status`, "", renderCaptureReport(report, fixes), "", "## joelclaw status", resultContent(status, status.stdout)].join("\n"),
+          },
+        ],
+        details: {
+          wrapper: "session_capture_status",
+          ok: report.ok && status.ok,
+          capture: { ok: report.ok, issues: report.issues, runtimes: report.runtimes.map(({ lagging: _lagging, ...runtime }) => runtime) },
+          fixes,
+          joelclawStatus: toolDetails("joelclaw status", status),
+        },
       };
     },
     renderResult: renderJsonSummary,
@@ -604,7 +815,7 @@ export default function (pi: ExtensionAPI) {
     },
   });
 
-  pi.registerTool({
+  registerTool({
     name: "sessions",
     label: "Sessions",
     description: [
@@ -659,10 +870,11 @@ export default function (pi: ExtensionAPI) {
       args.push("--", query);
 
       const run = runJoelclaw(args, ctx.cwd);
-      const localHits = searchLocalSessions(query, {
+      const localSearch = findLocalSessions(query, {
         agent: params.agents?.[0] ?? "all",
         limit: Math.max(1, Math.min(Math.floor(limit), 20)),
         maxFiles: 200,
+        useIndex: true,
       });
       const hitCount = run.json?.result?.hits?.length ?? 0;
       const local = run.json?.result?.local;
@@ -689,7 +901,9 @@ export default function (pi: ExtensionAPI) {
               resultContent(run, summary),
               "",
               "## Local transcript details",
-              renderLocalHits(localHits),
+              localSearch.note,
+              "",
+              renderLocalHits(localSearch.hits),
             ].join("\n"),
           },
         ],
@@ -700,7 +914,8 @@ export default function (pi: ExtensionAPI) {
           limit,
           extract: shouldExtract,
           compatibilityAgents: (params.agents as PriorityAgent[] | undefined) ?? undefined,
-          localHits,
+          localSearch: { mode: localSearch.mode, note: localSearch.note, update: localSearch.update },
+          localHits: localSearch.hits,
         }),
         isError: !run.ok,
       };
@@ -713,19 +928,20 @@ export default function (pi: ExtensionAPI) {
     renderResult: renderJsonSummary,
   });
 
-  pi.registerTool({
+  registerTool({
     name: "session_context",
     label: "Session Context",
     description: [
-      "Deprecated compatibility wrapper around `joelclaw session extract`.",
+      "Bounded session extraction via `joelclaw session extract`, or locally when joelclaw is unavailable.",
       DEPRECATION_NOTE,
-      "Runs deterministic bounded extraction directly. It does not spawn a background reader agent.",
+      "Local extraction deterministically lists the goal, files touched, commands run, decisions, errors, and final state.",
+      "It does not spawn a background reader agent.",
     ].join(" "),
     parameters: Type.Object({
-      session_id: Type.String({ description: "Session ID or full local Pi session JSONL path" }),
+      session_id: Type.String({ description: "Session ID or full local Pi/Claude/Codex session JSONL path" }),
       agent: Type.Optional(
         StringEnum(["pi", "claude", "codex"] as const, {
-          description: "Compatibility only. joelclaw session extract operates on Pi session ids or paths.",
+          description: "Compatibility only. Local extraction detects the runtime from the transcript.",
         }),
       ),
       query: Type.Optional(
@@ -737,6 +953,7 @@ export default function (pi: ExtensionAPI) {
       model: Type.Optional(
         Type.String({ description: "Deprecated and ignored. No background reader model is spawned." }),
       ),
+      engine: Type.Optional(StringEnum(["auto", "joelclaw", "local"] as const, { description: ENGINE_DESCRIPTION })),
     }),
 
     async execute(_id, params, _signal, _onUpdate, ctx) {
@@ -752,39 +969,57 @@ export default function (pi: ExtensionAPI) {
         "--",
         params.session_id,
       ];
-      const run = runJoelclaw(args, ctx.cwd);
+      const { run, fallbackNote } = runWithEngine((params.engine as Engine | undefined) ?? "auto", args, ctx.cwd);
+
+      if (run) {
+        return {
+          content: [{ type: "text", text: resultContent(run, "Session extraction completed via joelclaw.") }],
+          details: toolDetails("joelclaw session extract", run, {
+            engine: "joelclaw",
+            sessionId: params.session_id,
+            query,
+            compatibilityAgent: params.agent,
+            ignoredModel: params.model,
+          }),
+          isError: !run.ok,
+        };
+      }
 
+      const transcript = loadLocalTranscript(params.session_id);
+      if (typeof transcript === "string") {
+        return {
+          content: [{ type: "text", text: [fallbackNote, transcript].filter(Boolean).join("\n") }],
+          details: localDetails("session_context (local)", { ok: false, error: transcript, sessionId: params.session_id, fallbackNote }),
+          isError: true,
+        };
+      }
+      const extraction = extractSession(transcript, params.query);
       return {
-        content: [{ type: "text", text: resultContent(run, "Session extraction completed via joelclaw.") }],
-        details: toolDetails("joelclaw session extract", run, {
-          sessionId: params.session_id,
-          query,
-          compatibilityAgent: params.agent,
-          ignoredModel: params.model,
-        }),
-        isError: !run.ok,
+        content: [{ type: "text", text: [fallbackNote, renderExtractionMarkdown(extraction, params.query)].filter(Boolean).join("\n\n") }],
+        details: localDetails("session_context (local)", { sessionId: params.session_id, query: params.query, fallbackNote, extraction }),
       };
     },
 
     renderCall(args, theme) {
-      return renderToolCall("session_context → joelclaw session extract", args.session_id, theme);
+      return renderToolCall("session_context", args.session_id, theme);
     },
 
     renderResult: renderJsonSummary,
   });
 
-  pi.registerTool({
+  registerTool({
     name: "session_inspect",
     label: "Session Inspect",
     description: [
-      "Thin wrapper around `joelclaw session inspect` for deterministic transcript line evidence.",
+      "Deterministic transcript line evidence around a regex via `joelclaw session inspect`, or locally when joelclaw is unavailable.",
       DEPRECATION_NOTE,
     ].join(" "),
     parameters: Type.Object({
-      session_id: Type.String({ description: "Session ID or full local Pi session JSONL path" }),
-      around: Type.String({ description: "Regex to inspect around" }),
+      session_id: Type.String({ description: "Session ID or full local Pi/Claude/Codex session JSONL path" }),
+      around: Type.String({ description: "Regex to inspect around (case-insensitive in the local implementation)" }),
       before: Type.Optional(Type.Number({ description: "Transcript lines before inspect match. Default: 20." })),
       after: Type.Optional(Type.Number({ description: "Transcript lines after inspect match. Default: 80." })),
+      engine: Type.Optional(StringEnum(["auto", "joelclaw", "local"] as const, { description: ENGINE_DESCRIPTION })),
     }),
 
     async execute(_id, params, _signal, _onUpdate, ctx) {
@@ -800,29 +1035,198 @@ export default function (pi: ExtensionAPI) {
         "--",
         params.session_id,
       ];
-      const run = runJoelclaw(args, ctx.cwd);
+      const { run, fallbackNote } = runWithEngine((params.engine as Engine | undefined) ?? "auto", args, ctx.cwd);
+      if (run) {
+        return {
+          content: [{ type: "text", text: resultContent(run, run.json ? stringify(run.json.result) : "Session inspect completed via joelclaw.") }],
+          details: toolDetails("joelclaw session inspect", run, {
+            engine: "joelclaw",
+            sessionId: params.session_id,
+            around: params.around,
+          }),
+          isError: !run.ok,
+        };
+      }
+
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(params.around, "i");
+      } catch (error) {
+        const message = `Invalid regex ${params.around}: ${error instanceof Error ? error.message : String(error)}`;
+        return {
+          content: [{ type: "text", text: message }],
+          details: localDetails("session_inspect (local)", { ok: false, error: message, sessionId: params.session_id, around: params.around }),
+          isError: true,
+        };
+      }
+      const transcript = loadLocalTranscript(params.session_id);
+      if (typeof transcript === "string") {
+        return {
+          content: [{ type: "text", text: [fallbackNote, transcript].filter(Boolean).join("\n") }],
+          details: localDetails("session_inspect (local)", { ok: false, error: transcript, sessionId: params.session_id, fallbackNote }),
+          isError: true,
+        };
+      }
+      const before = Math.max(0, Math.floor(params.before ?? 20));
+      const after = Math.max(0, Math.floor(params.after ?? 80));
+      const inspected = inspectTranscript(transcript, pattern, { before, after });
       return {
-        content: [{ type: "text", text: resultContent(run, run.json ? stringify(run.json.result) : "Session inspect completed via joelclaw.") }],
-        details: toolDetails("joelclaw session inspect", run, {
-          sessionId: params.session_id,
+        content: [{ type: "text", text: [fallbackNote, renderInspectMarkdown(transcript, params.around, inspected)].filter(Boolean).join("\n\n") }],
+        details: localDetails("session_inspect (local)", {
+          sessionId: transcript.sessionId,
+          path: transcript.path,
           around: params.around,
+          fallbackNote,
+          totalMatches: inspected.totalMatches,
+          windows: inspected.windows.map(({ start, end, matchLines }) => ({ start, end, matchLines })),
+        }),
+      };
+    },
+
+    renderCall(args, theme) {
+      return renderToolCall("session_inspect", args.around, theme);
+    },
+
+    renderResult: renderJsonSummary,
+  });
+
+  registerTool({
+    name: "session_timeline",
+    label: "Session Timeline",
+    description: [
+      "Rebuild an ordered timeline of one local Pi/Claude/Codex session: user prompts, model switches, tool calls with arguments, and files written or edited.",
+      "Also reconstructs per-file unified diffs from edit oldText/newText pairs, write contents, and apply_patch hunks.",
+      "Diffs reflect what the agent requested, not the final state on disk. Runs locally; joelclaw is not used.",
+    ].join(" "),
+    parameters: Type.Object({
+      session_id: Type.String({ description: "Session ID or full local Pi/Claude/Codex session JSONL path" }),
+      include_diffs: Type.Optional(Type.Boolean({ description: "Include per-file unified diffs. Default: true." })),
+      file: Type.Optional(Type.String({ description: "Only show diffs for paths containing this substring" })),
+      max_events: Type.Optional(Type.Number({ description: "Maximum timeline events to list. Default: 200, max: 2000." })),
+    }),
+
+    async execute(_id, params) {
+      const transcript = loadLocalTranscript(params.session_id);
+      if (typeof transcript === "string") {
+        return {
+          content: [{ type: "text", text: transcript }],
+          details: localDetails("session_timeline", { ok: false, error: transcript, sessionId: params.session_id }),
+          isError: true,
+        };
+      }
+      const maxEvents = Math.min(2000, Math.max(1, Math.floor(params.max_events ?? 200)));
+      const timeline = buildTimeline(transcript);
+      return {
+        content: [{
+          type: "text",
+          text: renderTimelineMarkdown(timeline, { maxEvents, includeDiffs: params.include_diffs ?? true, file: params.file }),
+        }],
+        details: localDetails("session_timeline", {
+          sessionId: timeline.sessionId,
+          path: timeline.path,
+          events: timeline.events.length,
+          models: timeline.models,
+          files: [...timeline.diffs].map(([path, changes]) => ({ path, changes: changes.length })),
         }),
-        isError: !run.ok,
       };
     },
 
     renderCall(args, theme) {
-      return renderToolCall("session_inspect → joelclaw session inspect", args.around, theme);
+      return renderToolCall("session_timeline", args.session_id, theme);
     },
 
     renderResult: renderJsonSummary,
   });
 
-  pi.registerTool({
+  registerTool({
+    name: "session_resume",
+    label: "Session Resume",
+    description: [
+      "Build a bounded handoff from a local Pi/Claude/Codex session so its work can continue here:",
+      "goal, latest request, current state, open todos, touched files, and last errors.",
+      "Runs locally; joelclaw is not used. The user-facing equivalent is `/resume-from <session>`.",
+    ].join(" "),
+    parameters: Type.Object({
+      session_id: Type.String({ description: "Session ID or full local Pi/Claude/Codex session JSONL path" }),
+      max_chars: Type.Optional(
+        Type.Number({ description: `Handoff size cap. Default: ${DEFAULT_HANDOFF_CHARS}, max: ${MAX_HANDOFF_CHARS}.` }),
+      ),
+    }),
+
+    async execute(_id, params) {
+      const handoff = loadHandoff(params.session_id, params.max_chars);
+      if (typeof handoff === "string") {
+        return {
+          content: [{ type: "text", text: handoff }],
+          details: localDetails("session_resume", { ok: false, error: handoff, sessionId: params.session_id }),
+          isError: true,
+        };
+      }
+      return {
+        content: [{ type: "text", text: handoff.text }],
+        details: localDetails("session_resume", { ...handoff.details, redactions: handoff.redactions }),
+      };
+    },
+
+    renderCall(args, theme) {
+      return renderToolCall("session_resume", args.session_id, theme);
+    },
+
+    renderResult: renderJsonSummary,
+  });
+
+  registerTool({
+    name: "session_export",
+    label: "Session Export",
+    description: [
+      "Export a local Pi/Claude/Codex session to one portable Markdown file or a self-contained HTML page:",
+      "metadata header, messages, collapsible tool calls with diffs and results, syntax-highlighted code, and images.",
+      "Markdown writes images to a sibling `.assets` directory; HTML inlines them. Secret-like values are redacted.",
+      "Runs locally; joelclaw is not used. The user-facing equivalent is `/session-export <session> [md|html] [path]`.",
+    ].join(" "),
+    parameters: Type.Object({
+      session_id: Type.String({ description: "Session ID or full local Pi/Claude/Codex session JSONL path" }),
+      format: Type.Optional(StringEnum(["markdown", "html"] as const, { description: "Output format. Default: markdown." })),
+      output: Type.Optional(Type.String({ description: "Output file path. Default: ~/.pi/session-reader/exports/<agent>-<session>.md|html" })),
+      include_system: Type.Optional(Type.Boolean({ description: "Include system, developer, and injected custom messages. Default: false." })),
+      max_output_chars: Type.Optional(
+        Type.Number({ description: `Cap per tool argument or result block. Default: ${DEFAULT_EXPORT_OUTPUT_CHARS}.` }),
+      ),
+    }),
+
+    async execute(_id, params, _signal, _onUpdate, ctx) {
+      const summary = exportLocalSession(params.session_id, {
+        format: (params.format as ExportFormat | undefined) ?? "markdown",
+        output: params.output,
+        includeSystem: params.include_system,
+        maxOutputChars: params.max_output_chars === undefined ? undefined : Math.max(200, Math.floor(params.max_output_chars)),
+        cwd: ctx.cwd,
+      });
+      if (typeof summary === "string") {
+        return {
+          content: [{ type: "text", text: summary }],
+          details: localDetails("session_export", { ok: false, error: summary, sessionId: params.session_id }),
+          isError: true,
+        };
+      }
+      return {
+        content: [{ type: "text", text: describeExport(summary) }],
+        details: localDetails("session_export", { ...summary }),
+      };
+    },
+
+    renderCall(args, theme) {
+      return renderToolCall("session_export", args.session_id, theme);
+    },
+
+    renderResult: renderJsonSummary,
+  });
+
+  registerTool({
     name: "session_chunks",
     label: "Session Chunks",
     description: [
-      "Thin wrapper around `joelclaw session chunks` for matching chunks with nearby transcript context.",
+      "Matching transcript chunks with nearby context via `joelclaw session chunks`, or locally when joelclaw is unavailable.",
       "Defaults are intentionally compact to avoid flooding the active Pi context.",
       DEPRECATION_NOTE,
     ].join(" "),
@@ -870,6 +1274,11 @@ export default function (pi: ExtensionAPI) {
           default: false,
         }),
       ),
+      engine: Type.Optional(
+        StringEnum(["auto", "joelclaw", "local"] as const, {
+          description: `${ENGINE_DESCRIPTION} The local implementation only searches this machine's transcripts, with context counted in messages.`,
+        }),
+      ),
     }),
 
     async execute(_id, params, _signal, _onUpdate, ctx) {
@@ -927,7 +1336,20 @@ export default function (pi: ExtensionAPI) {
       ];
       args.push("--", params.query);
 
-      const run = runJoelclaw(args, ctx.cwd);
+      const { run: joelclawRun, fallbackNote } = runWithEngine((params.engine as Engine | undefined) ?? "auto", args, ctx.cwd);
+      if (fallbackNote) warnings.push(fallbackNote);
+      if (!joelclawRun && source !== "local") {
+        warnings.push(`source ${source} needs joelclaw; searched local transcripts only.`);
+      }
+      const run: JoelclawRun = joelclawRun ?? {
+        ok: true,
+        command: "local session chunks",
+        args,
+        exitCode: 0,
+        stdout: "",
+        stderr: "",
+        json: { ok: true, result: localSessionChunks(params.query, { limit, contextBefore, contextAfter, machine }) },
+      };
       const filtered = run.ok
         ? filterCurrentSessionChunks(run.json?.result, currentSession, excludeCurrent)
         : { result: run.json?.result, excludedCurrent: 0, shown: 0, originalShown: 0 };
@@ -948,13 +1370,15 @@ export default function (pi: ExtensionAPI) {
               excludeCurrent,
               excludedCurrent: filtered.excludedCurrent,
               compact,
+              engine: joelclawRun ? "joelclaw" : "local",
             })
           : resultContent(displayRun, filtered.result ? stringify(filtered.result) : "Session chunks completed via joelclaw.")
         : resultContent(run, "");
 
       return {
         content: [{ type: "text", text }],
-        details: toolDetails("joelclaw session chunks", run, {
+        details: toolDetails(joelclawRun ? "joelclaw session chunks" : "session_chunks (local)", run, {
+          engine: joelclawRun ? "joelclaw" : "local",
           json: compactSessionChunksJson(run.json, filtered.result),
           query: params.query,
           source,
@@ -980,13 +1404,120 @@ export default function (pi: ExtensionAPI) {
     },
 
     renderCall(args, theme) {
-      return renderToolCall("session_chunks → joelclaw session chunks", args.query, theme);
+      return renderToolCall("session_chunks", args.query, theme);
     },
 
     renderResult: renderJsonSummary,
   });
 
-  pi.registerTool({
+  pi.registerCommand("session-index", {
+    description: "Build or refresh the local BM25 transcript index and offline semantic vectors (pass 'rebuild' to start over)",
+    handler: async (args, ctx) => {
+      const rebuild = args.trim() === "rebuild";
+      const transcripts = listLocalTranscripts();
+      const index = (!rebuild && loadSessionIndex()) || createSessionIndex();
+      const update = updateSessionIndex(index, transcripts);
+      saveSessionIndex(index);
+      const provider = createHashedNgramProvider();
+      const vectors = (!rebuild && loadVectorIndex(provider)) || createVectorIndex(provider);
+      const vectorUpdate = await updateVectorIndex(vectors, provider, transcripts);
+      saveVectorIndex(vectors);
+      ctx.ui.notify(
+        `Session index ${rebuild ? "rebuilt" : "refreshed"}: ${Object.keys(index.files).length} transcripts, ` +
+          `${update.indexedFiles} updated (${Math.round(update.appendedBytes / 1024)} KiB), ${update.removedFiles} removed, ` +
+          `${vectorUpdate.embeddedChunks} chunks embedded. ${sessionIndexPath()}`,
+        "info",
+      );
+    },
+  });
+
+  pi.registerCommand("session-doctor", {
+    description: `Check Pi/Claude/Codex capture health (lag, outbox, hooks); --fix installs hooks and replays the outbox. Optional window in days (default ${DEFAULT_DOCTOR_DAYS})`,
+    handler: async (args, ctx) => {
+      const words = args.trim().split(/\s+/).filter(Boolean);
+      const fix = words.includes("--fix");
+      const days = Number(words.find((word) => word !== "--fix") ?? DEFAULT_DOCTOR_DAYS);
+      if (!Number.isFinite(days) || days <= 0) {
+        ctx.ui.notify("Usage: /session-doctor [--fix] [days]", "warning");
+        return;
+      }
+      let report = diagnoseCapture({ days });
+      const fixes = fix ? await fixCapture(report) : [];
+      if (fixes.length) report = diagnoseCapture({ days });
+      ctx.ui.notify(renderCaptureReport(report, fixes), report.ok ? "info" : "warning");
+    },
+  });
+
+  pi.registerCommand("sessions-stats", {
+    description: "Local agent usage dashboard: sessions per day, tokens and cost per model, tools, turns, repos (default window 30d)",
+    handler: async (args, ctx) => {
+      const window = args.trim() || "30d";
+      const sinceMs = parseTimeBound(window, "start");
+      if (sinceMs === undefined) {
+        ctx.ui.notify(`Could not parse window "${window}". Try 7d, 30d, yesterday, or 2026-10-01.`, "warning");
+        return;
+      }
+      const stats = collectSessionStats(readLocalTranscriptsSince(sinceMs), { sinceMs });
+      if (!ctx.hasUI) {
+        ctx.ui.notify(renderStatsText(stats), "info");
+        return;
+      }
+      await ctx.ui.custom<void>(
+        (tui, theme, _kb, done) => new SessionStatsOverlay(stats, theme, () => done(), () => tui.requestRender()),
+        { overlay: true, overlayOptions: { anchor: "center", width: "80%", minWidth: 60, maxHeight: "90%" } },
+      );
+    },
+  });
+
+  pi.registerMessageRenderer<ResumeMessageDetails>(RESUME_MESSAGE_TYPE, (message, { expanded }, theme) =>
+    renderResumeMessage(message.content, message.details, expanded, theme),
+  );
+
+  pi.registerCommand("resume-from", {
+    description: "Continue a Pi/Claude/Codex session here: inject its goal, state, todos, files, and errors",
+    handler: async (args, ctx) => {
+      const ref = args.trim();
+      if (!ref) {
+        ctx.ui.notify("Usage: /resume-from <session id or transcript path>", "warning");
+        return;
+      }
+      const handoff = loadHandoff(ref);
+      if (typeof handoff === "string") {
+        ctx.ui.notify(handoff, "error");
+        return;
+      }
+      pi.sendMessage<ResumeMessageDetails>({
+        customType: RESUME_MESSAGE_TYPE,
+        content: handoff.text,
+        display: true,
+        details: handoff.details,
+      });
+      ctx.ui.notify(`Resumed ${handoff.details.agent} session ${handoff.details.sessionId}. Send a prompt to continue.`, "info");
+    },
+  });
+
+  pi.registerCommand("session-export", {
+    description: "Export a Pi/Claude/Codex session to Markdown or self-contained HTML: /session-export <session> [md|html] [path]",
+    handler: async (args, ctx) => {
+      const [ref, ...rest] = args.trim().split(/\s+/).filter(Boolean);
+      if (!ref) {
+        ctx.ui.notify("Usage: /session-export <session id or transcript path> [md|html] [output path]", "warning");
+        return;
+      }
+      const formatArg = rest[0]?.toLowerCase();
+      const explicitFormat = formatArg === "html" || formatArg === "md" || formatArg === "markdown";
+      const output = explicitFormat ? rest[1] : rest[0];
+      const format: ExportFormat = formatArg === "html" || (!explicitFormat && /\.html?$/i.test(output ?? "")) ? "html" : "markdown";
+      const summary = exportLocalSession(ref, { format, output, cwd: ctx.cwd });
+      if (typeof summary === "string") {
+        ctx.ui.notify(summary, "error");
+        return;
+      }
+      ctx.ui.notify(describeExport(summary), "info");
+    },
+  });
+
+  registerTool({
     name: "session_tasks",
     label: "Session Tasks Deprecated",
     description: [
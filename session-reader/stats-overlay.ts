@@ -0,0 +1,138 @@
+/**
+ * `/sessions-stats` overlay: a scrollable dashboard over SessionStats with
+ * sparkline and block bars. Rendering only; stats.ts does the counting.
+ */
+
+import type { Theme } from "@earendil-works/pi-coding-agent";
+import { type Component, Key, matchesKey, truncateToWidth, visibleWidth } from "@earendil-works/pi-tui";
+import { bar, errorRate, formatCost, formatDuration, formatTokens, sparkline, totalTokens, type SessionStats } from "./stats.ts";
+
+const TOP_ROWS = 8;
+const VISIBLE_ROWS = 28;
+
+export class SessionStatsOverlay implements Component {
+  private scroll = 0;
+  private cachedWidth?: number;
+  private cachedLines?: string[];
+
+  constructor(
+    private readonly stats: SessionStats,
+    private readonly theme: Theme,
+    private readonly done: () => void,
+    private readonly requestRender: () => void,
+  ) {}
+
+  handleInput(data: string): void {
+    if (matchesKey(data, Key.escape) || data === "q") {
+      this.done();
+      return;
+    }
+    const step = matchesKey(data, Key.down) || data === "j" ? 1 : matchesKey(data, Key.up) || data === "k" ? -1 : 0;
+    if (!step) return;
+    this.scroll = Math.max(0, this.scroll + step);
+    this.invalidate();
+    this.requestRender();
+  }
+
+  invalidate(): void {
+    this.cachedWidth = undefined;
+    this.cachedLines = undefined;
+  }
+
+  render(width: number): string[] {
+    if (this.cachedLines && this.cachedWidth === width) return this.cachedLines;
+    const inner = Math.max(20, width - 4);
+    const body = this.body(inner);
+    const maxScroll = Math.max(0, body.length - VISIBLE_ROWS);
+    this.scroll = Math.min(this.scroll, maxScroll);
+    const visible = body.slice(this.scroll, this.scroll + VISIBLE_ROWS);
+
+    const { theme } = this;
+    const border = (text: string) => theme.fg("border", text);
+    const row = (text: string) => {
+      const clipped = truncateToWidth(text, inner);
+      return `${border("│")} ${clipped}${" ".repeat(Math.max(0, inner - visibleWidth(clipped)))} ${border("│")}`;
+    };
+    const title = ` ${theme.fg("accent", theme.bold("Session stats"))} `;
+    const hint = maxScroll ? `↑↓ scroll ${this.scroll}/${maxScroll} • esc close` : "esc close";
+    const lines = [
+      border("╭─") + title + border("─".repeat(Math.max(0, inner - visibleWidth(title))) + "─╮"),
+      ...visible.map(row),
+      row(""),
+      row(theme.fg("dim", hint)),
+      border(`╰${"─".repeat(inner + 2)}╯`),
+    ];
+    this.cachedWidth = width;
+    this.cachedLines = lines.map((line) => truncateToWidth(line, width));
+    return this.cachedLines;
+  }
+
+  private body(width: number): string[] {
+    const { stats, theme } = this;
+    const muted = (text: string) => theme.fg("muted", text);
+    const heading = (text: string) => theme.fg("accent", theme.bold(text));
+    const pad = (text: string, size: number) => text + " ".repeat(Math.max(0, size - visibleWidth(text)));
+    const padLeft = (text: string, size: number) => " ".repeat(Math.max(0, size - visibleWidth(text))) + text;
+    const lines: string[] = [];
+
+    const agents = (["pi", "claude", "codex"] as const).map((agent) => `${agent} ${stats.agents[agent]}`).join(" · ");
+    lines.push(`${theme.bold(String(stats.sessions))} sessions ${muted(`${stats.days[0]?.date ?? ""} → ${stats.days.at(-1)?.date ?? ""} · ${agents}`)}`);
+    lines.push("");
+
+    const counts = stats.days.map((day) => day.sessions);
+    const days = counts.slice(-width);
+    lines.push(`${heading("Sessions per day")} ${muted(`max ${Math.max(0, ...counts)}/day`)}`);
+    lines.push(theme.fg("accent", sparkline(days)));
+    lines.push(muted(pad(stats.days[stats.days.length - days.length]?.date.slice(5) ?? "", Math.max(0, days.length - 5)) + (stats.days.at(-1)?.date.slice(5) ?? "")));
+    lines.push("");
+
+    lines.push(heading("Models"));
+    const models = stats.models.slice(0, TOP_ROWS);
+    const nameWidth = Math.min(32, Math.max(8, ...models.map((model) => visibleWidth(model.model))));
+    const maxTokens = Math.max(0, ...models.map(totalTokens));
+    const barWidth = Math.max(4, width - nameWidth - 46);
+    if (!models.length) lines.push(muted("No assistant usage recorded."));
+    for (const model of models) {
+      lines.push(
+        `${pad(truncateToWidth(model.model, nameWidth), nameWidth)} ${padLeft(String(model.calls), 6)} calls ` +
+          `${padLeft(formatTokens(model.input + model.cacheRead + model.cacheWrite), 7)} in ${padLeft(formatTokens(model.output), 6)} out ` +
+          `${padLeft(formatCost(model), 8)} ${theme.fg("accent", bar(totalTokens(model), maxTokens, barWidth))}`,
+      );
+    }
+    if (models.some((model) => model.estimated)) lines.push(muted("~ estimated from list prices"));
+    lines.push("");
+
+    lines.push(heading("Tools"));
+    const tools = stats.tools.slice(0, TOP_ROWS);
+    const toolWidth = Math.min(24, Math.max(6, ...tools.map((tool) => visibleWidth(tool.name))));
+    const maxCalls = Math.max(0, ...tools.map((tool) => tool.calls));
+    for (const tool of tools) {
+      const rate = errorRate(tool);
+      const errors = tool.errors ? theme.fg(tool.errors / tool.calls > 0.2 ? "error" : "warning", padLeft(rate, 6)) : muted(padLeft(rate, 6));
+      lines.push(
+        `${pad(truncateToWidth(tool.name, toolWidth), toolWidth)} ${padLeft(String(tool.calls), 6)} ${errors} err ` +
+          theme.fg("accent", bar(tool.calls, maxCalls, Math.max(4, width - toolWidth - 22))),
+      );
+    }
+    lines.push("");
+
+    lines.push(heading("Turns"));
+    lines.push(
+      `${stats.turns} turns · average ${theme.bold(formatDuration(stats.averageTurnMs))} · ` +
+        `${theme.bold(stats.averageTurnToolCalls.toFixed(1))} tool calls per turn`,
+    );
+    lines.push("");
+
+    lines.push(heading("Repos"));
+    const repos = stats.repos.slice(0, TOP_ROWS);
+    const repoWidth = Math.min(28, Math.max(6, ...repos.map((repo) => visibleWidth(repo.name))));
+    const maxSessions = Math.max(0, ...repos.map((repo) => repo.sessions));
+    for (const repo of repos) {
+      lines.push(
+        `${pad(truncateToWidth(repo.name, repoWidth), repoWidth)} ${padLeft(String(repo.sessions), 5)} ` +
+          theme.fg("accent", bar(repo.sessions, maxSessions, Math.max(4, width - repoWidth - 8))),
+      );
+    }
+    return lines;
+  }
+}
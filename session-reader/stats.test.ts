@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { bar, collectSessionStats, formatCost, renderStatsText, sparkline } from "./stats.ts";
+import { jsonl } from "./test-fixtures.ts";
+import { parseTranscript } from "./transcript.ts";
+
+const at = (time: string) => Date.parse(`2026-10-13T${time}Z`);
+
+const pi = parseTranscript(
+  jsonl(
+    { type: "session", id: "p1", cwd: "/nowhere/app", timestamp: "2026-10-13T09:00:00.000Z" },
+    { type: "message", message: { role: "user", content: "run the tests", timestamp: at("09:00:00") } },
+    {
+      type: "message",
+      message: {
+        role: "assistant",
+        provider: "anthropic",
+        model: "claude-sonnet-4",
+        timestamp: at("09:00:30"),
+        content: [{ type: "toolCall", id: "b1", name: "bash", arguments: { command: "bun test" } }],
+        usage: { input: 100, output: 20, cacheRead: 1000, cacheWrite: 0, cost: { total: 0.5 } },
+      },
+    },
+    { type: "message", message: { role: "toolResult", toolCallId: "b1", toolName: "bash", content: "1 fail", isError: true, timestamp: at("09:01:00") } },
+    {
+      type: "message",
+      message: { role: "assistant", provider: "anthropic", model: "claude-sonnet-4", timestamp: at("09:02:00"), content: "One test fails.", usage: { input: 50, output: 10, cacheRead: 0, cacheWrite: 0, cost: { total: 0.25 } } },
+    },
+  ),
+  "/tmp/p1.jsonl",
+  "pi",
+);
+
+const claude = parseTranscript(
+  jsonl(
+    { type: "user", sessionId: "c1", cwd: "/nowhere/app", timestamp: "2026-10-14T10:00:00.000Z", message: { role: "user", content: "fix it" } },
+    // One API message split across two lines, each repeating the same usage.
+    { type: "assistant", timestamp: "2026-10-14T10:00:10.000Z", message: { id: "msg_1", role: "assistant", model: "claude-test-model", content: [{ type: "text", text: "Looking." }], usage: { input_tokens: 10, output_tokens: 5 } } },
+    { type: "assistant", timestamp: "2026-10-14T10:00:11.000Z", message: { id: "msg_1", role: "assistant", model: "claude-test-model", content: [{ type: "tool_use", id: "r1", name: "Read", input: { file_path: "a.ts" } }], usage: { input_tokens: 10, output_tokens: 5 } } },
+  ),
+  "/tmp/c1.jsonl",
+  "claude",
+);
+
+const codex = parseTranscript(
+  jsonl(
+    { type: "session_meta", payload: { id: "x1", cwd: "/gone", timestamp: "2026-10-14T11:00:00Z", git: { repository_url: "git@github.com:joel/agent-tools.git" } } },
+    { type: "turn_context", payload: { model: "gpt-test-model", cwd: "/gone" } },
+    { type: "response_item", timestamp: "2026-10-14T11:00:01Z", payload: { type: "message", role: "user", content: [{ type: "input_text", text: "list files" }] } },
+    { type: "response_item", timestamp: "2026-10-14T11:00:05Z", payload: { type: "function_call", name: "shell", call_id: "s1", arguments: "{\"command\":[\"ls\"]}" } },
+    { type: "event_msg", payload: { type: "token_count", info: { last_token_usage: { input_tokens: 300, cached_input_tokens: 200, output_tokens: 40 } } } },
+  ),
+  "/tmp/x1.jsonl",
+  "codex",
+);
+
+describe("session stats", () => {
+  test("reads usage once per model call for every runtime", () => {
+    expect(pi.messages.filter((message) => message.usage).map((message) => [message.role, message.usage?.cost])).toEqual([
+      ["tool_call", 0.5],
+      ["assistant", 0.25],
+    ]);
+    expect(claude.messages.filter((message) => message.usage).map((message) => message.usage)).toEqual([
+      { input: 10, output: 5, cacheRead: 0, cacheWrite: 0, cost: undefined },
+    ]);
+    expect(codex.messages.find((message) => message.usage)).toMatchObject({ role: "tool_call", usage: { input: 100, cacheRead: 200, output: 40 } });
+  });
+
+  test("aggregates days, models, tools, turns, and repos", () => {
+    const stats = collectSessionStats([pi, claude, codex], {
+      sinceMs: new Date(2026, 9, 12).getTime(),
+      untilMs: new Date(2026, 9, 14, 23).getTime(),
+    });
+    expect(stats.sessions).toBe(3);
+    expect(stats.agents).toEqual({ pi: 1, claude: 1, codex: 1 });
+    expect(stats.days.map((day) => day.sessions)).toEqual([0, 1, 2]);
+
+    const sonnet = stats.models.find((model) => model.model === "anthropic/claude-sonnet-4")!;
+    expect(sonnet).toMatchObject({ calls: 2, input: 150, output: 30, cacheRead: 1000, estimated: false });
+    expect(sonnet.cost).toBeCloseTo(0.75);
+    expect(formatCost(stats.models.find((model) => model.model === "anthropic/claude-test-model")!)).toBe("—");
+
+    // Pi bash, Claude Bash, and Codex shell all count as bash.
+    expect(stats.tools).toEqual([{ name: "bash", calls: 2, errors: 1 }, { name: "Read", calls: 1, errors: 0 }]);
+    expect(stats.turns).toBe(3);
+    expect(stats.averageTurnMs).toBe((120_000 + 11_000 + 4_000) / 3);
+    expect(stats.repos).toEqual([{ name: "app", sessions: 2 }, { name: "agent-tools", sessions: 1 }]);
+    expect(renderStatsText(stats)).toContain("bash: 2 calls, 50% errors");
+  });
+
+  test("draws sparklines and eighth-block bars", () => {
+    expect(sparkline([0, 1, 4, 8])).toBe(" ▁▄█");
+    expect(bar(8, 8, 2)).toBe("██");
+    expect(bar(1, 8, 2)).toBe("▎");
+    expect(bar(0, 8, 2)).toBe("");
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Usage analytics over local Pi, Claude, and Codex transcripts.
+ *
+ * Everything is computed from the JSONL files on this machine; nothing is sent
+ * to the joelclaw backplane. Tokens come from the usage recorded on assistant
+ * messages. Pi records cost directly; Claude and Codex costs are estimated
+ * from the pi-ai model price table and marked as estimates.
+ */
+
+import { basename } from "node:path";
+import { getModels, getProviders } from "@earendil-works/pi-ai";
+import { gitRoot, sessionSpan } from "./session-filters.ts";
+import { canonicalToolName, type Transcript, type TranscriptAgent, type TranscriptMessage } from "./transcript.ts";
+
+const NO_REPO = "(no repo)";
+
+export interface ModelStats {
+  model: string;
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+  /** Some of the cost came from the price table rather than the transcript. */
+  estimated: boolean;
+  /** Calls with usage but no recorded cost and no known price. */
+  unpriced: number;
+}
+
+export interface ToolStats {
+  name: string;
+  calls: number;
+  errors: number;
+}
+
+export interface SessionStats {
+  sinceMs: number;
+  untilMs: number;
+  sessions: number;
+  agents: Record<TranscriptAgent, number>;
+  /** One entry per local calendar day in the window, oldest first. */
+  days: Array<{ date: string; sessions: number }>;
+  models: ModelStats[];
+  tools: ToolStats[];
+  repos: Array<{ name: string; sessions: number }>;
+  turns: number;
+  /** Mean time from a user prompt to the last message before the next prompt. */
+  averageTurnMs?: number;
+  averageTurnToolCalls: number;
+}
+
+type ModelPrice = { input: number; output: number; cacheRead: number; cacheWrite: number };
+
+const priceCache = new Map<string, ModelPrice | undefined>();
+
+/** USD per million tokens from pi-ai's model table; the provider is tried first, then every provider. */
+export function modelPrice(provider: string | undefined, model: string): ModelPrice | undefined {
+  const key = `${provider ?? ""}/${model}`;
+  if (priceCache.has(key)) return priceCache.get(key);
+  const lookup = (name: string) => {
+    try {
+      return (getModels(name as never) as Array<{ id: string; cost?: ModelPrice }>).find((candidate) => candidate.id === model)?.cost;
+    } catch {
+      return undefined;
+    }
+  };
+  let price = provider ? lookup(provider) : undefined;
+  for (const name of price ? [] : getProviders()) {
+    price = lookup(name);
+    if (price) break;
+  }
+  priceCache.set(key, price);
+  return price;
+}
+
+/** Recorded cost, or an estimate from the model's list price. */
+export function messageCost(message: TranscriptMessage): { cost: number; estimated: boolean } | undefined {
+  const usage = message.usage;
+  if (!usage) return undefined;
+  if (usage.cost !== undefined) return { cost: usage.cost, estimated: false };
+  const price = message.model ? modelPrice(message.provider, message.model) : undefined;
+  if (!price) return undefined;
+  const cost = (usage.input * price.input + usage.output * price.output + usage.cacheRead * price.cacheRead + usage.cacheWrite * price.cacheWrite) / 1_000_000;
+  return { cost, estimated: true };
+}
+
+/** Repo name from the git root above the session cwd, then the recorded remote, then the cwd itself. */
+export function sessionRepo(transcript: Transcript): string {
+  const root = transcript.cwd ? gitRoot(transcript.cwd) : undefined;
+  if (root) return basename(root);
+  const remote = transcript.git?.repository?.replace(/\.git$/, "").split(/[/:]/).pop();
+  if (remote) return remote;
+  return transcript.cwd ? basename(transcript.cwd) || NO_REPO : NO_REPO;
+}
+
+/**
+ * Aggregate sessions whose activity overlaps `[sinceMs, untilMs]`. Takes an
+ * iterable so callers can parse one transcript at a time.
+ */
+export function collectSessionStats(transcripts: Iterable<Transcript>, options: { sinceMs: number; untilMs?: number }): SessionStats {
+  const untilMs = options.untilMs ?? Date.now();
+  const stats: SessionStats = {
+    sinceMs: options.sinceMs,
+    untilMs,
+    sessions: 0,
+    agents: { pi: 0, claude: 0, codex: 0 },
+    days: [],
+    models: [],
+    tools: [],
+    repos: [],
+    turns: 0,
+    averageTurnToolCalls: 0,
+  };
+  const days = new Map<string, number>();
+  for (let day = startOfDay(options.sinceMs); day <= untilMs; day = nextDay(day)) days.set(dayKey(day), 0);
+  const models = new Map<string, ModelStats>();
+  const tools = new Map<string, ToolStats>();
+  const repos = new Map<string, number>();
+  let turnMs = 0;
+  let timedTurns = 0;
+  let turnToolCalls = 0;
+
+  for (const transcript of transcripts) {
+    const { start, end } = sessionSpan(transcript);
+    if (start === undefined || end === undefined || Number.isNaN(start) || end < options.sinceMs || start > untilMs) continue;
+    stats.sessions += 1;
+    stats.agents[transcript.agent] += 1;
+    const day = dayKey(Math.max(start, options.sinceMs));
+    if (days.has(day)) days.set(day, days.get(day)! + 1);
+    const repo = sessionRepo(transcript);
+    repos.set(repo, (repos.get(repo) ?? 0) + 1);
+
+    const resultErrors = new Map<string, boolean>();
+    for (const message of transcript.messages) {
+      if (message.role === "tool_result" && message.toolCallId) resultErrors.set(message.toolCallId, message.isError === true);
+    }
+
+    let turnStart: number | undefined;
+    let turnEnd: number | undefined;
+    const closeTurn = () => {
+      if (turnStart !== undefined && turnEnd !== undefined && turnEnd > turnStart) {
+        turnMs += turnEnd - turnStart;
+        timedTurns += 1;
+      }
+    };
+    for (const message of transcript.messages) {
+      const at = message.timestamp ? Date.parse(message.timestamp) : undefined;
+      if (message.role === "user") {
+        closeTurn();
+        stats.turns += 1;
+        turnStart = at;
+        turnEnd = undefined;
+      } else if (at !== undefined && turnStart !== undefined) {
+        turnEnd = at;
+      }
+
+      if (message.role === "tool_call") {
+        const name = canonicalToolName(message.toolName) === "bash" ? "bash" : message.toolName ?? "tool";
+        const tool = tools.get(name) ?? { name, calls: 0, errors: 0 };
+        tool.calls += 1;
+        if (message.toolCallId && resultErrors.get(message.toolCallId)) tool.errors += 1;
+        tools.set(name, tool);
+        turnToolCalls += 1;
+      }
+
+      if (message.usage) {
+        const key = message.model ? (message.provider ? `${message.provider}/${message.model}` : message.model) : "(unknown model)";
+        const model = models.get(key) ?? { model: key, calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, estimated: false, unpriced: 0 };
+        model.calls += 1;
+        model.input += message.usage.input;
+        model.output += message.usage.output;
+        model.cacheRead += message.usage.cacheRead;
+        model.cacheWrite += message.usage.cacheWrite;
+        const cost = messageCost(message);
+        if (cost) {
+          model.cost += cost.cost;
+          model.estimated ||= cost.estimated;
+        } else {
+          model.unpriced += 1;
+        }
+        models.set(key, model);
+      }
+    }
+    closeTurn();
+  }
+
+  stats.days = [...days].map(([date, sessions]) => ({ date, sessions }));
+  stats.models = [...models.values()].sort((a, b) => b.cost - a.cost || totalTokens(b) - totalTokens(a));
+  stats.tools = [...tools.values()].sort((a, b) => b.calls - a.calls);
+  stats.repos = [...repos].map(([name, sessions]) => ({ name, sessions })).sort((a, b) => b.sessions - a.sessions);
+  stats.averageTurnMs = timedTurns ? turnMs / timedTurns : undefined;
+  stats.averageTurnToolCalls = stats.turns ? turnToolCalls / stats.turns : 0;
+  return stats;
+}
+
+export function totalTokens(model: Pick<ModelStats, "input" | "output" | "cacheRead" | "cacheWrite">): number {
+  return model.input + model.output + model.cacheRead + model.cacheWrite;
+}
+
+const SPARKS = "▁▂▃▄▅▆▇█";
+const EIGHTHS = ["", "▏", "▎", "▍", "▌", "▋", "▊", "▉"];
+
+/** One character per value, scaled to the largest; zero stays a blank baseline. */
+export function sparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  return values.map((value) => (value <= 0 || max === 0 ? " " : SPARKS[Math.min(7, Math.floor((value / max) * 7.999))])).join("");
+}
+
+/** Horizontal bar with eighth-block resolution, `width` cells at `max`. */
+export function bar(value: number, max: number, width: number): string {
+  if (max <= 0 || value <= 0 || width <= 0) return "";
+  const eighths = Math.max(1, Math.round((value / max) * width * 8));
+  return "█".repeat(Math.floor(eighths / 8)) + EIGHTHS[eighths % 8];
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000_000) return `${(count / 1_000_000_000).toFixed(1)}B`;
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(Math.round(count));
+}
+
+export function formatCost(model: Pick<ModelStats, "cost" | "estimated" | "unpriced" | "calls">): string {
+  if (model.unpriced === model.calls) return "—";
+  return `${model.estimated ? "~" : ""}$${model.cost.toFixed(2)}`;
+}
+
+export function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return "—";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** Plain-text report, used when there is no TUI to draw the overlay. */
+export function renderStatsText(stats: SessionStats, limit = 8): string {
+  const counts = stats.days.map((day) => day.sessions);
+  const lines = [
+    `Session stats ${dayKey(stats.sinceMs)} → ${dayKey(stats.untilMs)}: ${stats.sessions} sessions ` +
+      `(pi ${stats.agents.pi} · claude ${stats.agents.claude} · codex ${stats.agents.codex})`,
+    `Sessions/day: ${sparkline(counts)} max ${Math.max(0, ...counts)}`,
+    `Turns: ${stats.turns}, average ${formatDuration(stats.averageTurnMs)}, ${stats.averageTurnToolCalls.toFixed(1)} tool calls`,
+    "",
+    "Models:",
+    ...stats.models.slice(0, limit).map((model) =>
+      `  ${model.model}: ${model.calls} calls, ${formatTokens(model.input + model.cacheRead + model.cacheWrite)} in, ${formatTokens(model.output)} out, ${formatCost(model)}`,
+    ),
+    "",
+    "Tools:",
+    ...stats.tools.slice(0, limit).map((tool) => `  ${tool.name}: ${tool.calls} calls, ${errorRate(tool)} errors`),
+    "",
+    "Repos:",
+    ...stats.repos.slice(0, limit).map((repo) => `  ${repo.name}: ${repo.sessions} sessions`),
+  ];
+  return lines.join("\n");
+}
+
+export function errorRate(tool: ToolStats): string {
+  return tool.calls ? `${((tool.errors / tool.calls) * 100).toFixed(tool.errors && tool.errors < tool.calls / 100 ? 1 : 0)}%` : "0%";
+}
+
+export function dayKey(ms: number): string {
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function startOfDay(ms: number): number {
+  const date = new Date(ms);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/** Calendar arithmetic, so DST changes never skip or repeat a day. */
+function nextDay(ms: number): number {
+  const date = new Date(ms);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+}
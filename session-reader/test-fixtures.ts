@@ -0,0 +1,19 @@
+/**
+ * Transcript builders shared by the session-reader tests.
+ */
+
+/** JSONL text from transcript entries, one per line. */
+export const jsonl = (...entries: unknown[]) => entries.map((entry) => JSON.stringify(entry)).join("\n");
+
+/** A Pi message entry; `extra` adds fields such as provider, model or toolCallId. */
+export const message = (role: string, content: unknown, extra: Record<string, unknown> = {}) => ({
+  type: "message",
+  message: { role, content, timestamp: 1790000000000, ...extra },
+});
+
+/** A session header line, newline-terminated for appending. */
+export const header = (id: string) => `${JSON.stringify({ type: "session", id, cwd: "/work", timestamp: new Date().toISOString() })}\n`;
+
+/** A Pi text message line, newline-terminated for appending. */
+export const line = (role: "user" | "assistant", text: string) =>
+  `${JSON.stringify({ type: "message", message: { role, content: [{ type: "text", text }], timestamp: Date.now() } })}\n`;
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { jsonl, message } from "./test-fixtures.ts";
+import { buildTimeline, diffHunk, renderTimelineMarkdown } from "./timeline.ts";
+import { parseTranscript } from "./transcript.ts";
+
+const assistant = (content: unknown, model = "claude-sonnet-4") => message("assistant", content, { provider: "anthropic", model });
+
+const session = parseTranscript(
+  jsonl(
+    { type: "session", id: "s1", cwd: "/work/app", timestamp: "2026-10-01T10:00:00.000Z" },
+    message("user", "Add a retry helper"),
+    assistant([{ type: "toolCall", id: "w1", name: "write", arguments: { path: "src/retry.ts", content: "export const tries = 3;\nexport const delay = 100;\n" } }]),
+    message("toolResult", [{ type: "text", text: "ok" }], { toolCallId: "w1", toolName: "write" }),
+    assistant([{ type: "toolCall", id: "e1", name: "edit", arguments: { path: "src/retry.ts", edits: [{ oldText: "delay = 100", newText: "delay = 250" }] } }], "gpt-5"),
+    message("toolResult", [{ type: "text", text: "ok" }], { toolCallId: "e1", toolName: "edit" }),
+    assistant([{ type: "toolCall", id: "w2", name: "write", arguments: { path: "src/retry.ts", content: "export const tries = 5;\nexport const delay = 250;\n" } }], "gpt-5"),
+    message("toolResult", [{ type: "text", text: "EACCES" }], { toolCallId: "w2", toolName: "write", isError: true }),
+  ),
+  "/tmp/s1.jsonl",
+  "pi",
+);
+
+describe("session timeline", () => {
+  test("orders prompts, model switches, and tool calls", () => {
+    const timeline = buildTimeline(session);
+    expect(timeline.events.map((event) => event.kind)).toEqual(["prompt", "model", "tool", "model", "tool", "tool"]);
+    expect(timeline.models).toEqual(["anthropic/claude-sonnet-4", "anthropic/gpt-5"]);
+    expect(timeline.events[3].summary).toBe("anthropic/claude-sonnet-4 → anthropic/gpt-5");
+    expect(timeline.events[5].isError).toBe(true);
+    expect(timeline.events[2].files).toEqual([{ path: "src/retry.ts", operation: "write" }]);
+  });
+
+  test("diffs rewrites against content tracked through earlier edits", () => {
+    const changes = buildTimeline(session).diffs.get("src/retry.ts")!;
+    expect(changes.map((change) => change.operation)).toEqual(["write", "edit", "write"]);
+    expect(changes[0].hunks[0]).toBe("@@ -0,0 +1,2 @@ new file\n+export const tries = 3;\n+export const delay = 100;");
+    expect(changes[1].hunks[0]).toBe("@@ -1,1 +1,1 @@\n-delay = 100\n+delay = 250");
+    // The edit was applied to the tracked content, so only the tries line changed.
+    expect(changes[2].hunks[0]).toBe("@@ -1,2 +1,2 @@\n-export const tries = 3;\n+export const tries = 5;\n export const delay = 250;");
+
+    const markdown = renderTimelineMarkdown(buildTimeline(session), { maxEvents: 2, includeDiffs: true });
+    expect(markdown).toContain("### src/retry.ts (3 changes)");
+    expect(markdown).toContain("@@ -1,1 +1,1 @@ L5 edit");
+    expect(markdown).toContain("… 4 more events");
+  });
+
+  test("reads Claude MultiEdit and Codex apply_patch hunks", () => {
+    const claude = parseTranscript(
+      jsonl({
+        type: "assistant",
+        sessionId: "c1",
+        message: { role: "assistant", content: [{ type: "tool_use", id: "m1", name: "MultiEdit", input: { file_path: "a.ts", edits: [{ old_string: "a", new_string: "b" }, { old_string: "c", new_string: "d" }] } }] },
+      }),
+      "/tmp/c1.jsonl",
+      "claude",
+    );
+    expect(buildTimeline(claude).diffs.get("a.ts")![0].hunks).toEqual(["@@ -1,1 +1,1 @@\n-a\n+b", "@@ -1,1 +1,1 @@\n-c\n+d"]);
+
+    const codex = parseTranscript(
+      jsonl({
+        type: "response_item",
+        payload: { type: "custom_tool_call", call_id: "p1", name: "apply_patch", input: "*** Begin Patch\n*** Update File: src/a.ts\n@@\n keep\n-old\n+new\n*** End Patch" },
+      }),
+      "/tmp/x.jsonl",
+      "codex",
+    );
+    expect(buildTimeline(codex).diffs.get("src/a.ts")![0].hunks).toEqual(["@@ -1,2 +1,2 @@\n keep\n-old\n+new"]);
+  });
+
+  test("line diff keeps shared lines as context", () => {
+    expect(diffHunk("a\nb\nc", "a\nx\nc")).toBe("@@ -1,3 +1,3 @@\n a\n-b\n+x\n c");
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Ordered session timeline plus per-file diffs rebuilt from tool arguments.
+ *
+ * Diffs come from what the agent asked for, not from git: `edit`
+ * oldText/newText pairs (Pi `edits[]`, Claude `Edit`/`MultiEdit`), `write`
+ * contents, and Codex `apply_patch` hunks. When a file was written earlier in
+ * the session its content is tracked, so later edits and rewrites diff against
+ * that content instead of showing the whole file as added.
+ */
+
+import { toolCommand, toolFileOperations, type FileOperation } from "./local-tools.ts";
+import { canonicalToolName, type Transcript, type TranscriptMessage } from "./transcript.ts";
+
+const MAX_ARG_CHARS = 80;
+const MAX_DIFF_LINES_PER_CHANGE = 200;
+/** Above this many line comparisons the LCS table gets expensive; show a plain replace instead. */
+const MAX_LCS_CELLS = 250_000;
+
+export type TimelineEventKind = "prompt" | "model" | "tool";
+
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  line: number;
+  timestamp?: string;
+  summary: string;
+  toolName?: string;
+  files?: Array<{ path: string; operation: FileOperation }>;
+  isError?: boolean;
+}
+
+export interface FileChange {
+  line: number;
+  timestamp?: string;
+  operation: FileOperation;
+  toolName?: string;
+  toolCallId?: string;
+  /** Unified diff hunks, without the ---/+++ file header. */
+  hunks: string[];
+}
+
+export interface SessionTimeline {
+  sessionId: string;
+  agent: Transcript["agent"];
+  path: string;
+  cwd?: string;
+  startedAt?: string;
+  events: TimelineEvent[];
+  models: string[];
+  diffs: Map<string, FileChange[]>;
+}
+
+export function buildTimeline(transcript: Transcript): SessionTimeline {
+  const events: TimelineEvent[] = [];
+  const models: string[] = [];
+  const diffs = new Map<string, FileChange[]>();
+  const contents = new Map<string, string>();
+  const toolEvents = new Map<string, TimelineEvent>();
+
+  for (const message of transcript.messages) {
+    if (message.model && (message.role === "assistant" || message.role === "tool_call")) {
+      const model = message.provider ? `${message.provider}/${message.model}` : message.model;
+      if (models[models.length - 1] !== model) {
+        models.push(model);
+        events.push({ kind: "model", line: message.line, timestamp: message.timestamp, summary: models.length === 1 ? model : `${models[models.length - 2]} → ${model}` });
+      }
+    }
+
+    if (message.role === "user") {
+      events.push({ kind: "prompt", line: message.line, timestamp: message.timestamp, summary: oneLine(message.text, 240) });
+    } else if (message.role === "tool_call") {
+      const files = toolFileOperations(message);
+      const event: TimelineEvent = {
+        kind: "tool",
+        line: message.line,
+        timestamp: message.timestamp,
+        toolName: message.toolName,
+        summary: toolSummary(message),
+        files: files.filter((file) => file.operation !== "read"),
+      };
+      events.push(event);
+      if (message.toolCallId) toolEvents.set(message.toolCallId, event);
+      for (const change of fileChanges(message, contents)) {
+        const list = diffs.get(change.path) ?? [];
+        list.push(change.change);
+        diffs.set(change.path, list);
+      }
+    } else if (message.role === "tool_result" && message.isError && message.toolCallId) {
+      const event = toolEvents.get(message.toolCallId);
+      if (event) event.isError = true;
+    }
+  }
+
+  return {
+    sessionId: transcript.sessionId,
+    agent: transcript.agent,
+    path: transcript.path,
+    cwd: transcript.cwd,
+    startedAt: transcript.startedAt,
+    events,
+    models,
+    diffs,
+  };
+}
+
+function toolSummary(message: TranscriptMessage): string {
+  const command = toolCommand(message);
+  if (command) return oneLine(command, 200);
+  const args = Object.entries(message.args ?? {})
+    .map(([key, value]) => `${key}=${oneLine(typeof value === "string" ? value : JSON.stringify(value) ?? "", MAX_ARG_CHARS)}`)
+    .join(" ");
+  return args || "(no arguments)";
+}
+
+function fileChanges(message: TranscriptMessage, contents: Map<string, string>): Array<{ path: string; change: FileChange }> {
+  const args = message.args ?? {};
+  const tool = canonicalToolName(message.toolName);
+  const base = { line: message.line, timestamp: message.timestamp, toolName: message.toolName, toolCallId: message.toolCallId };
+  const path = [args.path, args.file_path, args.filePath].find((value): value is string => typeof value === "string" && value.length > 0);
+
+  const patch = typeof args.input === "string" ? args.input : typeof args.patch === "string" ? args.patch : undefined;
+  if (patch && /\*\*\* (Add|Update|Delete) File:/.test(patch)) return applyPatchChanges(patch, base);
+
+  if (tool === "write" && path && typeof args.content === "string") {
+    const previous = contents.get(path);
+    contents.set(path, args.content);
+    return [{ path, change: { ...base, operation: "write", hunks: [diffHunk(previous ?? "", args.content, previous === undefined)] } }];
+  }
+
+  if (tool === "edit" && path) {
+    const pairs = editPairs(args);
+    if (!pairs.length) return [];
+    let content = contents.get(path);
+    const hunks = pairs.map(({ oldText, newText, all }) => {
+      if (content !== undefined) content = all ? content.split(oldText).join(newText) : content.replace(oldText, () => newText);
+      return diffHunk(oldText, newText, false);
+    });
+    if (content !== undefined) contents.set(path, content);
+    return [{ path, change: { ...base, operation: "edit", hunks } }];
+  }
+  return [];
+}
+
+/** oldText/newText pairs from Pi (legacy and `edits[]`), Claude `Edit`, and Claude `MultiEdit`. */
+function editPairs(args: Record<string, unknown>): Array<{ oldText: string; newText: string; all: boolean }> {
+  const pair = (value: unknown) => {
+    if (!value || typeof value !== "object") return undefined;
+    const record = value as Record<string, unknown>;
+    const oldText = record.oldText ?? record.old_string;
+    const newText = record.newText ?? record.new_string;
+    if (typeof oldText !== "string" || typeof newText !== "string") return undefined;
+    return { oldText, newText, all: record.replace_all === true };
+  };
+  let edits = args.edits;
+  if (typeof edits === "string") {
+    try {
+      edits = JSON.parse(edits);
+    } catch {}
+  }
+  if (Array.isArray(edits)) return edits.map(pair).filter((value) => value !== undefined);
+  const single = pair(args);
+  return single ? [single] : [];
+}
+
+/** Codex apply_patch hunks already use -/+/space prefixes; keep them, adding a counted @@ header. */
+function applyPatchChanges(
+  patch: string,
+  base: Pick<FileChange, "line" | "timestamp" | "toolName" | "toolCallId">,
+): Array<{ path: string; change: FileChange }> {
+  const changes: Array<{ path: string; change: FileChange }> = [];
+  let current: { path: string; change: FileChange; body: string[] } | undefined;
+  const flushHunk = () => {
+    if (!current || !current.body.length) return;
+    const removed = current.body.filter((line) => !line.startsWith("+")).length;
+    const added = current.body.filter((line) => !line.startsWith("-")).length;
+    current.change.hunks.push([`@@ -1,${removed} +1,${added} @@`, ...current.body].join("\n"));
+    current.body = [];
+  };
+  for (const line of patch.split("\n")) {
+    const header = line.match(/^\*\*\* (Add|Update|Delete) File: (.+)$/);
+    if (header) {
+      flushHunk();
+      const operation: FileOperation = header[1] === "Add" ? "write" : header[1] === "Delete" ? "delete" : "edit";
+      current = { path: header[2].trim(), change: { ...base, operation, hunks: [] }, body: [] };
+      changes.push(current);
+      continue;
+    }
+    if (!current || line.startsWith("*** ")) continue;
+    if (line.startsWith("@@")) {
+      flushHunk();
+      continue;
+    }
+    if (/^[-+ ]/.test(line)) current.body.push(line);
+  }
+  flushHunk();
+  return changes.map(({ path, change }) => ({ path, change }));
+}
+
+/** Line-level LCS diff rendered as a single unified hunk with relative line numbers. */
+export function diffHunk(oldText: string, newText: string, newFile = false): string {
+  const before = oldText === "" ? [] : oldText.replace(/\n$/, "").split("\n");
+  const after = newText === "" ? [] : newText.replace(/\n$/, "").split("\n");
+  const body = diffLines(before, after);
+  const header = `@@ -${before.length ? 1 : 0},${before.length} +${after.length ? 1 : 0},${after.length} @@${newFile ? " new file" : ""}`;
+  return [header, ...body].join("\n");
+}
+
+function diffLines(before: string[], after: string[]): string[] {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    return [...before.map((line) => `-${line}`), ...after.map((line) => `+${line}`)];
+  }
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const table = new Uint32Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i * cols + j] = before[i] === after[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push(` ${before[i]}`);
+      i++;
+      j++;
+    } else if (i < before.length && (j === after.length || table[(i + 1) * cols + j] >= table[i * cols + j + 1])) {
+      lines.push(`-${before[i++]}`);
+    } else {
+      lines.push(`+${after[j++]}`);
+    }
+  }
+  return lines;
+}
+
+export function renderTimelineMarkdown(
+  timeline: SessionTimeline,
+  options: { maxEvents: number; includeDiffs: boolean; file?: string },
+): string {
+  const tools = timeline.events.filter((event) => event.kind === "tool");
+  const prompts = timeline.events.filter((event) => event.kind === "prompt");
+  const lines = [
+    `# Session timeline: ${timeline.sessionId}`,
+    `- Agent: ${timeline.agent}`,
+    `- Path: ${timeline.path}`,
+    timeline.cwd ? `- Cwd: ${timeline.cwd}` : "",
+    timeline.startedAt ? `- Started: ${timeline.startedAt}` : "",
+    `- ${prompts.length} prompts · ${tools.length} tool calls · ${timeline.diffs.size} files changed`,
+    timeline.models.length ? `- Models: ${timeline.models.join(" → ")}` : "",
+    "",
+    "## Timeline",
+  ].filter((line, index) => line || index > 0);
+
+  const shown = timeline.events.slice(0, options.maxEvents);
+  shown.forEach((event, index) => {
+    const when = event.timestamp ? `${event.timestamp.slice(0, 19).replace("T", " ")} ` : "";
+    const prefix = `${index + 1}. ${when}L${event.line}`;
+    if (event.kind === "prompt") lines.push(`${prefix} **prompt** ${event.summary}`);
+    else if (event.kind === "model") lines.push(`${prefix} **model** ${event.summary}`);
+    else {
+      const files = event.files?.length ? ` → ${event.files.map((file) => `${file.operation} \`${file.path}\``).join(", ")}` : "";
+      lines.push(`${prefix} ${event.isError ? "✗ " : ""}\`${event.toolName ?? "tool"}\` ${event.summary}${files}`);
+    }
+  });
+  if (timeline.events.length > shown.length) lines.push(`… ${timeline.events.length - shown.length} more events (raise max_events to see them)`);
+
+  if (options.includeDiffs) {
+    const files = [...timeline.diffs].filter(([path]) => !options.file || path.includes(options.file));
+    lines.push("", "## Diffs");
+    if (!files.length) lines.push(options.file ? `No changes recorded for paths matching ${options.file}.` : "No file writes or edits recorded.");
+    for (const [path, changes] of files) {
+      lines.push("", `### ${path} (${changes.length} change${changes.length === 1 ? "" : "s"})`, "```diff");
+      lines.push(`--- a/${path.replace(/^\//, "")}`, `+++ b/${path.replace(/^\//, "")}`);
+      for (const change of changes) {
+        for (const hunk of change.hunks) {
+          const [header, ...body] = hunk.split("\n");
+          lines.push(`${header} L${change.line} ${change.operation}`);
+          lines.push(...body.slice(0, MAX_DIFF_LINES_PER_CHANGE));
+          if (body.length > MAX_DIFF_LINES_PER_CHANGE) lines.push(`  … ${body.length - MAX_DIFF_LINES_PER_CHANGE} more lines`);
+        }
+      }
+      lines.push("```");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function oneLine(text: string, maxChars: number): string {
+  const compacted = text.replace(/\s+/g, " ").trim();
+  return compacted.length > maxChars ? `${compacted.slice(0, maxChars - 1)}…` : compacted;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { jsonl } from "./test-fixtures.ts";
+import { messageSnippet, parseTranscript, parseTranscriptQuery, searchTranscript } from "./transcript.ts";
+
+const piSession = jsonl(
+  { type: "session", version: 3, id: "pi-session-1", timestamp: "2026-10-01T10:00:00.000Z", cwd: "/work/pi-tools" },
+  { type: "message", id: "a", parentId: null, timestamp: "2026-10-01T10:00:01.000Z", message: { role: "user", content: "Why does ioredis keep reconnecting?", timestamp: 1790000001000 } },
+  {
+    type: "message",
+    id: "b",
+    parentId: "a",
+    timestamp: "2026-10-01T10:00:02.000Z",
+    message: {
+      role: "assistant",
+      model: "claude-sonnet",
+      provider: "anthropic",
+      content: [
+        { type: "thinking", thinking: "secret reasoning about ioredis" },
+        { type: "text", text: "Checking the retry strategy." },
+        { type: "toolCall", id: "call-1", name: "bash", arguments: { command: "rg retryStrategy" } },
+      ],
+      timestamp: 1790000002000,
+    },
+  },
+  { type: "message", id: "c", parentId: "b", timestamp: "2026-10-01T10:00:03.000Z", message: { role: "toolResult", toolCallId: "call-1", toolName: "bash", content: [{ type: "text", text: "src/redis.ts: retryStrategy: null" }, { type: "image", data: "aW9yZWRpcw==", mimeType: "image/png" }], isError: false, timestamp: 1790000003000 } },
+);
+
+const claudeSession = jsonl(
+  { type: "user", sessionId: "claude-1", cwd: "/work/app", timestamp: "2026-10-02T09:00:00.000Z", message: { role: "user", content: "run the tests" } },
+  { type: "assistant", sessionId: "claude-1", timestamp: "2026-10-02T09:00:01.000Z", message: { model: "claude-opus", content: [{ type: "text", text: "Running them." }, { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "bun test" } }] } },
+  { type: "user", sessionId: "claude-1", timestamp: "2026-10-02T09:00:05.000Z", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "1 fail", is_error: true }] } },
+);
+
+const codexSession = jsonl(
+  { timestamp: "2026-10-03T08:00:00.000Z", type: "session_meta", payload: { id: "codex-1", timestamp: "2026-10-03T08:00:00.000Z", cwd: "/work/svc", instructions: "You are Codex" } },
+  { timestamp: "2026-10-03T08:00:00.500Z", type: "turn_context", payload: { cwd: "/work/svc", model: "gpt-5-codex" } },
+  { timestamp: "2026-10-03T08:00:01.000Z", type: "response_item", payload: { type: "message", role: "user", content: [{ type: "input_text", text: "<environment_context>cwd</environment_context>" }] } },
+  { timestamp: "2026-10-03T08:00:02.000Z", type: "response_item", payload: { type: "message", role: "user", content: [{ type: "input_text", text: "list the migrations" }] } },
+  { timestamp: "2026-10-03T08:00:03.000Z", type: "response_item", payload: { type: "function_call", name: "shell", call_id: "c1", arguments: JSON.stringify({ command: ["ls", "migrations"] }) } },
+  { timestamp: "2026-10-03T08:00:04.000Z", type: "response_item", payload: { type: "function_call_output", call_id: "c1", output: JSON.stringify({ output: "001_init.sql", metadata: { exit_code: 0 } }) } },
+  { timestamp: "2026-10-03T08:00:05.000Z", type: "event_msg", payload: { type: "agent_message", message: "duplicate of response item" } },
+);
+
+describe("transcript parsing", () => {
+  test("splits Pi entries into roles and drops thinking and image payloads", () => {
+    const transcript = parseTranscript(piSession, "/home/u/.pi/agent/sessions/x/pi-session-1.jsonl");
+    expect(transcript.agent).toBe("pi");
+    expect(transcript.sessionId).toBe("pi-session-1");
+    expect(transcript.cwd).toBe("/work/pi-tools");
+    expect(transcript.messages.map((message) => message.role)).toEqual(["user", "assistant", "tool_call", "tool_result"]);
+    expect(transcript.messages[1].text).toBe("Checking the retry strategy.");
+    expect(transcript.messages[2]).toMatchObject({ toolName: "bash", toolCallId: "call-1", args: { command: "rg retryStrategy" } });
+    expect(transcript.messages[3].text).toBe("src/redis.ts: retryStrategy: null\n[image]");
+    expect(transcript.messages[0].timestamp).toBe(new Date(1790000001000).toISOString());
+  });
+
+  test("pairs Claude tool results with their tool_use names", () => {
+    const transcript = parseTranscript(claudeSession, "/home/u/.claude/projects/app/claude-1.jsonl");
+    expect(transcript.cwd).toBe("/work/app");
+    const result = transcript.messages.find((message) => message.role === "tool_result");
+    expect(result).toMatchObject({ toolName: "Bash", text: "1 fail", isError: true });
+  });
+
+  test("reads Codex rollouts and classifies injected context as system", () => {
+    const transcript = parseTranscript(codexSession, "/home/u/.codex/sessions/2026/10/03/rollout-2026-10-03T08-00-00-codex-1.jsonl");
+    expect(transcript.sessionId).toBe("codex-1");
+    expect(transcript.messages.map((message) => message.role)).toEqual(["system", "user", "tool_call", "tool_result"]);
+    expect(transcript.messages[2]).toMatchObject({ toolName: "shell", model: "gpt-5-codex", text: "command: ls migrations" });
+    expect(transcript.messages[3]).toMatchObject({ toolName: "shell", text: "001_init.sql", isError: false });
+  });
+});
+
+describe("transcript search", () => {
+  test("parses role, tool, and quoted phrase filters", () => {
+    expect(parseTranscriptQuery('role:user tool:bash "retry strategy" Redis')).toEqual({
+      terms: ["retry strategy", "redis"],
+      roles: ["user"],
+      tools: ["bash"],
+    });
+  });
+
+  test("searches message text only and respects role filters", () => {
+    const transcript = parseTranscript(piSession, "/home/u/.pi/agent/sessions/x/pi-session-1.jsonl");
+    expect(searchTranscript(transcript, parseTranscriptQuery("reasoning"))).toHaveLength(0);
+    expect(searchTranscript(transcript, parseTranscriptQuery("aW9yZWRpcw"))).toHaveLength(0);
+    expect(searchTranscript(transcript, parseTranscriptQuery("message"))).toHaveLength(0);
+
+    const userOnly = searchTranscript(transcript, parseTranscriptQuery("role:user ioredis"));
+    expect(userOnly.map((match) => match.message.role)).toEqual(["user"]);
+    expect(userOnly[0].snippet).toStartWith("[user 2026-");
+    expect(userOnly[0].snippet).toContain("Why does ioredis keep reconnecting?");
+  });
+
+  test("tool filters match equivalent shell tools across runtimes", () => {
+    const codex = parseTranscript(codexSession, "/home/u/.codex/sessions/rollout-2026-10-03T08-00-00-codex-1.jsonl");
+    const matches = searchTranscript(codex, parseTranscriptQuery("tool:bash migrations"));
+    expect(matches.map((match) => match.message.role)).toEqual(["tool_call"]);
+  });
+
+  test("snippets centre long messages on the first matched term", () => {
+    const text = `${"a ".repeat(400)}needle ${"b ".repeat(400)}`;
+    const snippet = messageSnippet({ index: 0, line: 1, role: "assistant", text }, ["needle"], 80);
+    expect(snippet).toContain("needle");
+    expect(snippet).toStartWith("[assistant] …");
+    expect(snippet.endsWith("…")).toBe(true);
+  });
+});
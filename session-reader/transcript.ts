@@ -0,0 +1,530 @@
+/**
+ * Transcript model for Pi, Claude, and Codex JSONL session files.
+ *
+ * Each runtime writes a different envelope. This module normalizes them into
+ * one ordered list of user, assistant, tool-call, and tool-result messages so
+ * search and extraction work on message text instead of raw JSON lines.
+ * Thinking blocks and injected system/developer prompts are never searched
+ * unless explicitly asked for with `role:system`. Image payloads are kept on
+ * the message for export but never searched.
+ */
+
+import { readFileSync } from "node:fs";
+
+export type TranscriptAgent = "pi" | "claude" | "codex";
+export type TranscriptRole = "user" | "assistant" | "tool_call" | "tool_result" | "system";
+
+export interface TranscriptMessage {
+  /** Position in the normalized message list. */
+  index: number;
+  /** 1-based JSONL line the message came from. */
+  line: number;
+  role: TranscriptRole;
+  text: string;
+  /** ISO timestamp when the runtime recorded one. */
+  timestamp?: string;
+  toolName?: string;
+  toolCallId?: string;
+  args?: Record<string, unknown>;
+  isError?: boolean;
+  model?: string;
+  provider?: string;
+  /** Inline images attached to user prompts and tool results; the text shows `[image]` in their place. */
+  images?: TranscriptImage[];
+  /** Token usage of the model call that produced this message, on the first message pushed for that call. */
+  usage?: TranscriptUsage;
+}
+
+export interface TranscriptUsage {
+  /** Uncached input tokens. */
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  /** USD cost when the runtime recorded one (Pi); otherwise estimated by callers. */
+  cost?: number;
+}
+
+export interface TranscriptImage {
+  mimeType: string;
+  /** Base64 payload without the `data:` prefix. */
+  data: string;
+}
+
+export interface Transcript {
+  agent: TranscriptAgent;
+  path: string;
+  sessionId: string;
+  cwd?: string;
+  startedAt?: string;
+  /** Git metadata recorded by the runtime: Codex `session_meta.git`, Claude `gitBranch`. */
+  git?: { repository?: string; branch?: string; commit?: string };
+  messages: TranscriptMessage[];
+}
+
+export interface TranscriptQuery {
+  terms: string[];
+  roles: TranscriptRole[];
+  tools: string[];
+}
+
+export interface TranscriptMatch {
+  message: TranscriptMessage;
+  terms: string[];
+  snippet: string;
+}
+
+const DEFAULT_SEARCH_ROLES: TranscriptRole[] = ["user", "assistant", "tool_call", "tool_result"];
+const ROLE_ALIASES: Record<string, TranscriptRole[]> = {
+  user: ["user"],
+  assistant: ["assistant"],
+  model: ["assistant"],
+  tool: ["tool_call", "tool_result"],
+  tool_call: ["tool_call"],
+  call: ["tool_call"],
+  tool_result: ["tool_result"],
+  result: ["tool_result"],
+  system: ["system"],
+};
+const TOOL_ALIASES: Record<string, string[]> = {
+  bash: ["bash", "shell", "exec_command", "local_shell", "local_shell_call", "bashexecution"],
+  edit: ["edit", "multiedit", "apply_patch", "str_replace_based_edit_tool"],
+  write: ["write", "create_file"],
+  read: ["read", "view", "read_file"],
+};
+const CODEX_CONTEXT_PREFIXES = ["<environment_context>", "<user_instructions>", "<permissions instructions>", "# AGENTS.md instructions"];
+
+export function sessionIdFromPath(path: string): string {
+  const base = path.split("/").pop() ?? path;
+  return base.replace(/\.jsonl$/, "").replace(/^rollout-\d{4}-\d{2}-\d{2}T[^-]+-/, "");
+}
+
+/** Guess the runtime from the transcript path, falling back to the first entry's shape. */
+export function detectTranscriptAgent(path: string, firstEntry?: unknown): TranscriptAgent {
+  if (path.includes("/.codex/")) return "codex";
+  if (path.includes("/.claude/")) return "claude";
+  if (path.includes("/.pi/")) return "pi";
+  if (isRecord(firstEntry)) {
+    if (firstEntry.type === "session_meta" || isRecord(firstEntry.payload)) return "codex";
+    if (firstEntry.type === "session") return "pi";
+    if (typeof firstEntry.sessionId === "string" || typeof firstEntry.uuid === "string") return "claude";
+  }
+  return "pi";
+}
+
+export function readTranscript(path: string, agent?: TranscriptAgent): Transcript {
+  return parseTranscript(readFileSync(path, "utf8"), path, agent);
+}
+
+export function parseTranscript(raw: string, path: string, agent?: TranscriptAgent): Transcript {
+  const entries: Array<{ line: number; entry: Record<string, any> }> = [];
+  raw.split("\n").forEach((text, offset) => {
+    if (!text.trim()) return;
+    try {
+      const entry = JSON.parse(text);
+      if (isRecord(entry)) entries.push({ line: offset + 1, entry });
+    } catch {
+      // Partially written trailing lines are normal while a session is live.
+    }
+  });
+
+  const resolvedAgent = agent ?? detectTranscriptAgent(path, entries[0]?.entry);
+  const transcript: Transcript = {
+    agent: resolvedAgent,
+    path,
+    sessionId: sessionIdFromPath(path),
+    messages: [],
+  };
+  const push = (message: Omit<TranscriptMessage, "index">) => {
+    if (!message.text.trim() && message.role !== "tool_call") return false;
+    transcript.messages.push({ ...message, index: transcript.messages.length });
+    return true;
+  };
+
+  if (resolvedAgent === "claude") parseClaudeEntries(entries, transcript, push);
+  else if (resolvedAgent === "codex") parseCodexEntries(entries, transcript, push);
+  else parsePiEntries(entries, transcript, push);
+
+  if (!transcript.startedAt) transcript.startedAt = transcript.messages[0]?.timestamp;
+  return transcript;
+}
+
+/** Returns false when the message had no text and was dropped. */
+type PushMessage = (message: Omit<TranscriptMessage, "index">) => boolean;
+type LineEntry = { line: number; entry: Record<string, any> };
+
+function parsePiEntries(entries: LineEntry[], transcript: Transcript, push: PushMessage) {
+  const toolNames = new Map<string, string>();
+  for (const { line, entry } of entries) {
+    if (entry.type === "session") {
+      if (typeof entry.id === "string") transcript.sessionId = entry.id;
+      if (typeof entry.cwd === "string") transcript.cwd = entry.cwd;
+      transcript.startedAt = isoTimestamp(entry.timestamp);
+      continue;
+    }
+
+    if (entry.type === "custom_message") {
+      push({ line, role: "system", text: contentText(entry.content), timestamp: isoTimestamp(entry.timestamp), toolName: entry.customType });
+      continue;
+    }
+    if (entry.type === "compaction" || entry.type === "branch_summary") {
+      push({ line, role: "system", text: typeof entry.summary === "string" ? entry.summary : "", timestamp: isoTimestamp(entry.timestamp) });
+      continue;
+    }
+    if (entry.type !== "message" || !isRecord(entry.message)) continue;
+
+    const message = entry.message;
+    const timestamp = isoTimestamp(message.timestamp ?? entry.timestamp);
+    if (message.role === "user") {
+      push({ line, role: "user", text: contentText(message.content), timestamp, images: contentImages(message.content) });
+    } else if (message.role === "assistant") {
+      const model = typeof message.model === "string" ? message.model : undefined;
+      const provider = typeof message.provider === "string" ? message.provider : undefined;
+      // Tool-only replies have no assistant text, so usage rides on the first tool call instead.
+      let usage = piUsage(message.usage);
+      if (push({ line, role: "assistant", text: contentText(message.content), timestamp, model, provider, usage })) usage = undefined;
+      for (const block of Array.isArray(message.content) ? message.content : []) {
+        if (!isRecord(block) || block.type !== "toolCall") continue;
+        const args = isRecord(block.arguments) ? block.arguments : {};
+        if (typeof block.id === "string" && typeof block.name === "string") toolNames.set(block.id, block.name);
+        push({ line, role: "tool_call", text: argsText(args), timestamp, toolName: block.name, toolCallId: block.id, args, model, provider, usage });
+        usage = undefined;
+      }
+    } else if (message.role === "toolResult") {
+      const toolCallId = typeof message.toolCallId === "string" ? message.toolCallId : undefined;
+      push({
+        line,
+        role: "tool_result",
+        text: contentText(message.content),
+        timestamp,
+        images: contentImages(message.content),
+        toolName: message.toolName ?? (toolCallId ? toolNames.get(toolCallId) : undefined),
+        toolCallId,
+        isError: message.isError === true,
+      });
+    } else if (message.role === "bashExecution") {
+      const args = { command: message.command };
+      push({ line, role: "tool_call", text: argsText(args), timestamp, toolName: "bash", args });
+      push({ line, role: "tool_result", text: typeof message.output === "string" ? message.output : "", timestamp, toolName: "bash", isError: typeof message.exitCode === "number" && message.exitCode !== 0 });
+    } else if (message.role === "custom") {
+      push({ line, role: "system", text: contentText(message.content), timestamp, toolName: message.customType });
+    }
+  }
+}
+
+function parseClaudeEntries(entries: LineEntry[], transcript: Transcript, push: PushMessage) {
+  const toolNames = new Map<string, string>();
+  // Claude writes one line per content block, each repeating the API message's usage.
+  const countedUsage = new Set<string>();
+  for (const { line, entry } of entries) {
+    if (!transcript.cwd && typeof entry.cwd === "string") transcript.cwd = entry.cwd;
+    if (!transcript.git && typeof entry.gitBranch === "string" && entry.gitBranch) transcript.git = { branch: entry.gitBranch };
+    const timestamp = isoTimestamp(entry.timestamp);
+
+    if (entry.type === "system") {
+      push({ line, role: "system", text: typeof entry.content === "string" ? entry.content : "", timestamp });
+      continue;
+    }
+    if ((entry.type !== "user" && entry.type !== "assistant") || !isRecord(entry.message)) continue;
+
+    const message = entry.message;
+    if (entry.type === "user") {
+      const role: TranscriptRole = entry.isMeta === true ? "system" : "user";
+      if (typeof message.content === "string") {
+        push({ line, role, text: message.content, timestamp });
+        continue;
+      }
+      const blocks = Array.isArray(message.content) ? message.content : [];
+      const promptBlocks = blocks.filter((block: unknown) => isRecord(block) && block.type !== "tool_result");
+      push({ line, role, text: contentText(promptBlocks), timestamp, images: contentImages(promptBlocks) });
+      for (const block of blocks) {
+        if (!isRecord(block) || block.type !== "tool_result") continue;
+        const toolCallId = typeof block.tool_use_id === "string" ? block.tool_use_id : undefined;
+        push({
+          line,
+          role: "tool_result",
+          text: contentText(block.content),
+          timestamp,
+          images: contentImages(block.content),
+          toolName: toolCallId ? toolNames.get(toolCallId) : undefined,
+          toolCallId,
+          isError: block.is_error === true,
+        });
+      }
+      continue;
+    }
+
+    const model = typeof message.model === "string" ? message.model : undefined;
+    const blocks = Array.isArray(message.content) ? message.content : [];
+    const usageKey = typeof message.id === "string" ? message.id : `line:${line}`;
+    let usage = countedUsage.has(usageKey) ? undefined : claudeUsage(message.usage);
+    const claim = (pushed: boolean) => {
+      if (!pushed || !usage) return;
+      countedUsage.add(usageKey);
+      usage = undefined;
+    };
+    claim(push({ line, role: "assistant", text: contentText(blocks), timestamp, model, provider: model ? "anthropic" : undefined, usage }));
+    for (const block of blocks) {
+      if (!isRecord(block) || block.type !== "tool_use") continue;
+      const args = isRecord(block.input) ? block.input : {};
+      if (typeof block.id === "string" && typeof block.name === "string") toolNames.set(block.id, block.name);
+      claim(push({ line, role: "tool_call", text: argsText(args), timestamp, toolName: block.name, toolCallId: block.id, args, model, provider: model ? "anthropic" : undefined, usage }));
+    }
+  }
+}
+
+function parseCodexEntries(entries: LineEntry[], transcript: Transcript, push: PushMessage) {
+  const toolNames = new Map<string, string>();
+  let model: string | undefined;
+  let countedFrom = 0;
+  for (const { line, entry } of entries) {
+    // Current rollouts wrap everything in { type, payload }; early rollouts wrote bare items.
+    const payload = isRecord(entry.payload) ? entry.payload : entry;
+    const timestamp = isoTimestamp(entry.timestamp ?? payload.timestamp);
+
+    if (entry.type === "session_meta" || (line === 1 && !entry.type && typeof entry.id === "string")) {
+      if (typeof payload.id === "string") transcript.sessionId = payload.id;
+      if (typeof payload.cwd === "string") transcript.cwd = payload.cwd;
+      transcript.startedAt = isoTimestamp(payload.timestamp) ?? timestamp;
+      if (isRecord(payload.git)) {
+        const { repository_url: repository, branch, commit_hash: commit } = payload.git;
+        transcript.git = {
+          repository: typeof repository === "string" ? repository : undefined,
+          branch: typeof branch === "string" ? branch : undefined,
+          commit: typeof commit === "string" ? commit : undefined,
+        };
+      }
+      continue;
+    }
+    if (entry.type === "turn_context") {
+      if (typeof payload.model === "string") model = payload.model;
+      if (!transcript.cwd && typeof payload.cwd === "string") transcript.cwd = payload.cwd;
+      continue;
+    }
+    if (entry.type === "event_msg" && payload.type === "token_count") {
+      // Token counts follow the model call they measure; credit the newest model message since the last count.
+      const usage = codexUsage(isRecord(payload.info) ? payload.info.last_token_usage : undefined);
+      const target = transcript.messages
+        .slice(countedFrom)
+        .reverse()
+        .find((message) => message.role === "assistant" || message.role === "tool_call");
+      if (usage && target) target.usage = addUsage(target.usage, usage);
+      countedFrom = transcript.messages.length;
+      continue;
+    }
+    if (entry.type && entry.type !== "response_item" && entry.payload !== undefined) continue;
+
+    if (payload.type === "message") {
+      const text = contentText(payload.content);
+      const injected = payload.role === "developer" || payload.role === "system" || CODEX_CONTEXT_PREFIXES.some((prefix) => text.trimStart().startsWith(prefix));
+      if (payload.role === "assistant") push({ line, role: "assistant", text, timestamp, model, provider: model ? "openai" : undefined });
+      else push({ line, role: injected ? "system" : "user", text, timestamp, images: contentImages(payload.content) });
+    } else if (payload.type === "function_call" || payload.type === "custom_tool_call" || payload.type === "local_shell_call") {
+      const name = typeof payload.name === "string" ? payload.name : payload.type === "local_shell_call" ? "local_shell" : "tool";
+      const args = codexArgs(payload);
+      const toolCallId = typeof payload.call_id === "string" ? payload.call_id : undefined;
+      if (toolCallId) toolNames.set(toolCallId, name);
+      push({ line, role: "tool_call", text: argsText(args), timestamp, toolName: name, toolCallId, args, model, provider: model ? "openai" : undefined });
+    } else if (payload.type === "function_call_output" || payload.type === "custom_tool_call_output") {
+      const toolCallId = typeof payload.call_id === "string" ? payload.call_id : undefined;
+      const output = codexOutput(payload.output);
+      push({ line, role: "tool_result", text: output.text, timestamp, toolName: toolCallId ? toolNames.get(toolCallId) : undefined, toolCallId, isError: output.isError });
+    }
+  }
+}
+
+function piUsage(usage: unknown): TranscriptUsage | undefined {
+  if (!isRecord(usage)) return undefined;
+  const cost = isRecord(usage.cost) && typeof usage.cost.total === "number" ? usage.cost.total : undefined;
+  return tokenUsage(usage.input, usage.output, usage.cacheRead, usage.cacheWrite, cost);
+}
+
+function claudeUsage(usage: unknown): TranscriptUsage | undefined {
+  if (!isRecord(usage)) return undefined;
+  return tokenUsage(usage.input_tokens, usage.output_tokens, usage.cache_read_input_tokens, usage.cache_creation_input_tokens);
+}
+
+/** Codex reports cached tokens as part of input_tokens. */
+function codexUsage(usage: unknown): TranscriptUsage | undefined {
+  if (!isRecord(usage)) return undefined;
+  const cached = typeof usage.cached_input_tokens === "number" ? usage.cached_input_tokens : 0;
+  const input = typeof usage.input_tokens === "number" ? usage.input_tokens - cached : undefined;
+  return tokenUsage(input, usage.output_tokens, cached, 0);
+}
+
+function tokenUsage(input: unknown, output: unknown, cacheRead: unknown, cacheWrite: unknown, cost?: number): TranscriptUsage | undefined {
+  const count = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? Math.max(0, value) : 0);
+  const usage = { input: count(input), output: count(output), cacheRead: count(cacheRead), cacheWrite: count(cacheWrite), cost };
+  return usage.input || usage.output || usage.cacheRead || usage.cacheWrite || cost ? usage : undefined;
+}
+
+function addUsage(a: TranscriptUsage | undefined, b: TranscriptUsage): TranscriptUsage {
+  if (!a) return b;
+  const cost = a.cost === undefined && b.cost === undefined ? undefined : (a.cost ?? 0) + (b.cost ?? 0);
+  return { input: a.input + b.input, output: a.output + b.output, cacheRead: a.cacheRead + b.cacheRead, cacheWrite: a.cacheWrite + b.cacheWrite, cost };
+}
+
+function codexArgs(payload: Record<string, any>): Record<string, unknown> {
+  if (payload.type === "custom_tool_call") return { input: payload.input };
+  if (payload.type === "local_shell_call") return isRecord(payload.action) ? payload.action : {};
+  if (isRecord(payload.arguments)) return payload.arguments;
+  if (typeof payload.arguments === "string") {
+    try {
+      const parsed = JSON.parse(payload.arguments);
+      if (isRecord(parsed)) return parsed;
+    } catch {}
+    return { input: payload.arguments };
+  }
+  return {};
+}
+
+function codexOutput(output: unknown): { text: string; isError: boolean } {
+  let value: unknown = output;
+  if (typeof output === "string") {
+    try {
+      value = JSON.parse(output);
+    } catch {
+      return { text: output, isError: false };
+    }
+  }
+  if (isRecord(value)) {
+    const exitCode = isRecord(value.metadata) ? value.metadata.exit_code : value.exit_code;
+    const text = typeof value.output === "string" ? value.output : contentText(value.content ?? value);
+    return { text, isError: typeof exitCode === "number" && exitCode !== 0 };
+  }
+  return { text: contentText(value), isError: false };
+}
+
+/** Extract human-readable text from the content shapes used by all three runtimes. */
+export function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) => {
+      if (typeof block === "string") return block;
+      if (!isRecord(block)) return "";
+      if (block.type === "image" || block.type === "input_image") return "[image]";
+      if (block.type === "thinking" || block.type === "redacted_thinking" || block.type === "reasoning") return "";
+      if (block.type === "tool_use" || block.type === "toolCall" || block.type === "tool_result") return "";
+      if (typeof block.text === "string") return block.text;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Base64 images from Pi (`{ type: "image", data, mimeType }`), Claude
+ * (`source: { type: "base64", media_type, data }`), and Codex
+ * (`input_image` data URLs). Undefined when there are none.
+ */
+export function contentImages(content: unknown): TranscriptImage[] | undefined {
+  if (!Array.isArray(content)) return undefined;
+  const images: TranscriptImage[] = [];
+  for (const block of content) {
+    if (!isRecord(block)) continue;
+    if (block.type === "image" && typeof block.data === "string") {
+      images.push({ mimeType: typeof block.mimeType === "string" ? block.mimeType : "image/png", data: block.data });
+    } else if (block.type === "image" && isRecord(block.source) && block.source.type === "base64" && typeof block.source.data === "string") {
+      images.push({ mimeType: typeof block.source.media_type === "string" ? block.source.media_type : "image/png", data: block.source.data });
+    } else if (block.type === "input_image" && typeof block.image_url === "string") {
+      const match = block.image_url.match(/^data:([^;,]+);base64,(.+)$/);
+      if (match) images.push({ mimeType: match[1], data: match[2] });
+    }
+  }
+  return images.length ? images : undefined;
+}
+
+function argsText(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : Array.isArray(value) ? value.join(" ") : JSON.stringify(value)}`)
+    .join("\n");
+}
+
+function isoTimestamp(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return new Date(value).toISOString();
+  if (typeof value === "string" && value) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// ── Query parsing and matching ───────────────────────────────────────
+
+/**
+ * Parse a session search query. `role:<role>` and `tool:<name>` narrow which
+ * messages are searched; quoted phrases stay together; everything else is a
+ * lowercase term.
+ */
+export function parseTranscriptQuery(query: string): TranscriptQuery {
+  const parsed: TranscriptQuery = { terms: [], roles: [], tools: [] };
+  for (const match of query.matchAll(/(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g)) {
+    const key = (match[1] ?? match[3])?.toLowerCase();
+    const value = (match[2] ?? match[4])?.toLowerCase();
+    if (key === "role" && value && ROLE_ALIASES[value]) {
+      for (const role of ROLE_ALIASES[value]) if (!parsed.roles.includes(role)) parsed.roles.push(role);
+      continue;
+    }
+    if (key === "tool" && value) {
+      parsed.tools.push(value);
+      continue;
+    }
+    const term = (match[5] ?? match[6] ?? match[0]).toLowerCase().trim();
+    if (term) parsed.terms.push(term);
+  }
+  return parsed;
+}
+
+/** Map runtime-specific tool names (Claude `Bash`, Codex `shell`, ...) onto bash/edit/write/read. */
+export function canonicalToolName(toolName: string | undefined): string | undefined {
+  if (!toolName) return undefined;
+  const name = toolName.toLowerCase();
+  return Object.entries(TOOL_ALIASES).find(([, aliases]) => aliases.includes(name))?.[0] ?? name;
+}
+
+function toolMatches(toolName: string | undefined, filters: string[]): boolean {
+  if (!filters.length) return true;
+  if (!toolName) return false;
+  const name = toolName.toLowerCase();
+  const canonical = canonicalToolName(name);
+  return filters.some((filter) => name === filter || canonical === filter);
+}
+
+/** Messages eligible for a query: explicit role/tool filters, otherwise everything except system text. */
+export function messageMatchesFilters(message: TranscriptMessage, query: TranscriptQuery): boolean {
+  const roles = query.roles.length ? query.roles : DEFAULT_SEARCH_ROLES;
+  if (!roles.includes(message.role)) return false;
+  return toolMatches(message.toolName, query.tools);
+}
+
+export function searchTranscript(transcript: Transcript, query: TranscriptQuery, snippetChars = 320): TranscriptMatch[] {
+  const matches: TranscriptMatch[] = [];
+  for (const message of transcript.messages) {
+    if (!messageMatchesFilters(message, query)) continue;
+    const lower = message.text.toLowerCase();
+    const terms = query.terms.filter((term) => lower.includes(term));
+    if (query.terms.length && !terms.length) continue;
+    matches.push({ message, terms, snippet: messageSnippet(message, terms, snippetChars) });
+  }
+  return matches;
+}
+
+/** Render a message as one compact line centred on the first matched term. */
+export function messageSnippet(message: TranscriptMessage, terms: string[] = [], maxChars = 320): string {
+  const text = message.text.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const first = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, Math.min(first - Math.floor(maxChars / 3), text.length - maxChars));
+  let window = text.slice(start, start + maxChars);
+  if (start > 0) window = `…${window.slice(1)}`;
+  if (start + maxChars < text.length) window = `${window.slice(0, -1)}…`;
+
+  const label = [message.role, message.toolName].filter(Boolean).join(" ");
+  const when = message.timestamp ? ` ${message.timestamp}` : "";
+  return `[${label}${when}] ${window}`;
+}